@@ -1,11 +1,20 @@
 import React, { useState, useMemo } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, ScrollView, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { useTaskStore } from '../../src/store/taskStore';
+import { useCalendarStore } from '../../src/store/calendarStore';
+import { Task } from '../../src/types';
 import { TaskRow } from '../../src/components/TaskRow';
 import { QuickAddTask } from '../../src/components/QuickAddTask';
+import { GhostOccurrenceRow } from '../../src/components/GhostOccurrenceRow';
+import { BusyBlockRow } from '../../src/components/BusyBlockRow';
+import { expandRecurringTasks } from '../../src/utils/recurrence';
+import { getBusyBlocks } from '../../src/utils/busyTime';
 import { useTheme } from '../../src/theme/useTheme';
 import { haptics } from '../../src/utils/haptics';
+import { confirmSubtaskCompletion } from '../../src/components/SubtaskCompletionAlert';
+import { confirmProjectCompletion } from '../../src/components/ProjectCompletionAlert';
 import {
   startOfMonth,
   endOfMonth,
@@ -21,25 +30,66 @@ import {
 } from '../../src/utils/dateUtils';
 
 export default function CalendarScreen() {
+  const router = useRouter();
   const { colors, typography, spacing } = useTheme();
   const tasks = useTaskStore((state) => state.tasks);
   const updateTask = useTaskStore((state) => state.updateTask);
   const toggleTaskComplete = useTaskStore((state) => state.toggleTaskComplete);
+  const completeProject = useTaskStore((state) => state.completeProject);
   const toggleTaskFlag = useTaskStore((state) => state.toggleTaskFlag);
   const deleteTask = useTaskStore((state) => state.deleteTask);
+  const skipOccurrence = useTaskStore((state) => state.skipOccurrence);
+  const rescheduleOccurrence = useTaskStore((state) => state.rescheduleOccurrence);
   const loadData = useTaskStore((state) => state.loadData);
+  const calendars = useCalendarStore((state) => state.calendars);
 
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
+  const handleToggleComplete = (task: Task) => {
+    confirmSubtaskCompletion(task, tasks, (includeSubtasks) =>
+      confirmProjectCompletion(toggleTaskComplete(task.id, includeSubtasks), completeProject)
+    );
+  };
+
   const calendarDays = useMemo(() => {
     const start = startOfWeek(startOfMonth(currentMonth));
     const end = endOfWeek(endOfMonth(currentMonth));
     return eachDayOfInterval({ start, end });
   }, [currentMonth]);
 
+  // Future occurrences of recurring tasks across the visible grid
+  const ghostOccurrences = useMemo(() => {
+    const start = calendarDays[0];
+    const last = calendarDays[calendarDays.length - 1];
+    const end = new Date(last.getFullYear(), last.getMonth(), last.getDate(), 23, 59, 59, 999);
+    return expandRecurringTasks(tasks, start, end);
+  }, [tasks, calendarDays]);
+
+  // Imported calendar events across the visible grid
+  const busyBlocks = useMemo(() => {
+    const start = calendarDays[0];
+    const last = calendarDays[calendarDays.length - 1];
+    const end = new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1);
+    return getBusyBlocks(calendars, start, end);
+  }, [calendars, calendarDays]);
+
+  // Events that overlap the day, including ones that span several days
+  const getBusyBlocksForDate = (date: Date) => {
+    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    return busyBlocks.filter((block) => block.startTime < dayEnd && block.endTime > dayStart);
+  };
+
+  const busyForSelectedDate = useMemo(() => getBusyBlocksForDate(selectedDate), [busyBlocks, selectedDate]);
+
+  const ghostsForSelectedDate = useMemo(
+    () => ghostOccurrences.filter((occurrence) => isSameDay(occurrence.date, selectedDate)),
+    [ghostOccurrences, selectedDate]
+  );
+
   const tasksForSelectedDate = useMemo(() => {
     return tasks.filter(
       (task) =>
@@ -69,6 +119,8 @@ export default function CalendarScreen() {
     const todayDate = isToday(date);
     const tasksForDate = getTasksForDate(date);
     const hasTasks = tasksForDate.length > 0;
+    const hasGhosts = !hasTasks && ghostOccurrences.some((occurrence) => isSameDay(occurrence.date, date));
+    const hasBusyTime = getBusyBlocksForDate(date).length > 0;
     const hasOverdueTasks = tasksForDate.some(
       (task) => task.dueDate && task.dueDate < new Date() && task.status !== 'completed'
     );
@@ -113,6 +165,23 @@ export default function CalendarScreen() {
             ]}
           />
         )}
+        {hasGhosts && (
+          <View
+            style={[
+              styles.taskIndicator,
+              styles.ghostIndicator,
+              { borderColor: isSelected ? '#FFFFFF' : colors.blue },
+            ]}
+          />
+        )}
+        {hasBusyTime && (
+          <View
+            style={[
+              styles.busyIndicator,
+              { backgroundColor: isSelected ? '#FFFFFF' : colors.tertiaryText },
+            ]}
+          />
+        )}
       </TouchableOpacity>
     );
   };
@@ -171,11 +240,13 @@ export default function CalendarScreen() {
             <TaskRow
               task={item}
               onPress={() => {}}
-              onToggleComplete={() => toggleTaskComplete(item.id)}
+              onToggleComplete={() => handleToggleComplete(item)}
               onToggleFlag={() => toggleTaskFlag(item.id)}
-              onDelete={() => deleteTask(item.id)}
+              onDelete={(scope) => deleteTask(item.id, scope)}
               onChangeStatus={(status) => updateTask(item.id, { status })}
               onChangePriority={(priority) => updateTask(item.id, { priority })}
+              onSkipOccurrence={() => skipOccurrence(item.id)}
+              onRescheduleOccurrence={(date) => rescheduleOccurrence(item.id, date)}
             />
           )}
           contentContainerStyle={styles.tasksListContent}
@@ -186,14 +257,42 @@ export default function CalendarScreen() {
               tintColor={colors.blue}
             />
           }
+          ListHeaderComponent={
+            busyForSelectedDate.length > 0 ? (
+              <View>
+                {busyForSelectedDate.map((block) => (
+                  <BusyBlockRow
+                    key={`${block.eventId}-${block.startTime.getTime()}`}
+                    block={block}
+                    calendarName={calendars.find((calendar) => calendar.id === block.calendarId)?.name}
+                  />
+                ))}
+              </View>
+            ) : null
+          }
+          ListFooterComponent={
+            ghostsForSelectedDate.length > 0 ? (
+              <View>
+                {ghostsForSelectedDate.map((occurrence) => (
+                  <GhostOccurrenceRow
+                    key={`${occurrence.task.id}-${occurrence.date.getTime()}`}
+                    occurrence={occurrence}
+                    onPress={() => router.push(`/task/${occurrence.task.id}`)}
+                  />
+                ))}
+              </View>
+            ) : null
+          }
           ListEmptyComponent={
-            <View style={styles.emptyState}>
-              <Text
-                style={[styles.emptyStateText, { color: colors.tertiaryText, ...typography.subheadline }]}
-              >
-                No tasks for this date
-              </Text>
-            </View>
+            ghostsForSelectedDate.length > 0 ? null : (
+              <View style={styles.emptyState}>
+                <Text
+                  style={[styles.emptyStateText, { color: colors.tertiaryText, ...typography.subheadline }]}
+                >
+                  No tasks for this date
+                </Text>
+              </View>
+            )
           }
         />
       </View>
@@ -269,6 +368,19 @@ const styles = StyleSheet.create({
     borderRadius: 2,
     marginTop: 2,
   },
+  ghostIndicator: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+  },
+  busyIndicator: {
+    width: 8,
+    height: 2,
+    borderRadius: 1,
+    marginTop: 2,
+  },
   tasksSection: {
     flex: 1,
     borderTopWidth: 0.5,
@@ -6,10 +6,15 @@ import { useTaskStore } from '../../src/store/taskStore';
 import { TaskRow } from '../../src/components/TaskRow';
 import { SwipeableTaskRow } from '../../src/components/SwipeableTaskRow';
 import { EmptyState } from '../../src/components/EmptyState';
+import { GhostOccurrenceRow } from '../../src/components/GhostOccurrenceRow';
 import { useTheme } from '../../src/theme/useTheme';
 import { haptics } from '../../src/utils/haptics';
 import { isSameDay, isToday, addDays } from '../../src/utils/dateUtils';
 import { Task } from '../../src/types';
+import { expandRecurringTasks } from '../../src/utils/recurrence';
+import { confirmSubtaskCompletion } from '../../src/components/SubtaskCompletionAlert';
+import { confirmProjectCompletion } from '../../src/components/ProjectCompletionAlert';
+import { runWithUndoToast } from '../../src/components/UndoToast';
 
 export default function ForecastScreen() {
   const router = useRouter();
@@ -17,12 +22,22 @@ export default function ForecastScreen() {
   const tasks = useTaskStore((state) => state.tasks);
   const updateTask = useTaskStore((state) => state.updateTask);
   const toggleTaskComplete = useTaskStore((state) => state.toggleTaskComplete);
+  const completeProject = useTaskStore((state) => state.completeProject);
   const toggleTaskFlag = useTaskStore((state) => state.toggleTaskFlag);
   const deleteTask = useTaskStore((state) => state.deleteTask);
+  const skipOccurrence = useTaskStore((state) => state.skipOccurrence);
+  const rescheduleOccurrence = useTaskStore((state) => state.rescheduleOccurrence);
   const loadData = useTaskStore((state) => state.loadData);
 
   const [refreshing, setRefreshing] = useState(false);
 
+  const handleToggleComplete = (task: Task, undoMessage?: string) => {
+    confirmSubtaskCompletion(task, tasks, (includeSubtasks) => {
+      const toggle = () => toggleTaskComplete(task.id, includeSubtasks);
+      confirmProjectCompletion(undoMessage ? runWithUndoToast(undoMessage, toggle) : toggle(), completeProject);
+    });
+  };
+
   const forecastData = useMemo(() => {
     const today = new Date();
     const sections = [];
@@ -30,17 +45,24 @@ export default function ForecastScreen() {
     // Filter out completed tasks
     const activeTasks = tasks.filter((t) => t.status !== 'completed');
 
+    // Future occurrences of recurring tasks that don't exist yet
+    const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const ghostOccurrences = expandRecurringTasks(activeTasks, startOfToday, addDays(startOfToday, 8));
+
     // Today
     const todayTasks = activeTasks.filter(
       (task) => task.dueDate && isToday(task.dueDate)
     );
 
-    if (todayTasks.length > 0) {
+    const todayGhosts = ghostOccurrences.filter((occurrence) => isToday(occurrence.date));
+
+    if (todayTasks.length > 0 || todayGhosts.length > 0) {
       sections.push({
         title: 'Today',
         emoji: '📍',
         color: colors.primary,
         data: todayTasks,
+        ghosts: todayGhosts,
       });
     }
 
@@ -55,6 +77,7 @@ export default function ForecastScreen() {
         emoji: '⚠️',
         color: colors.red,
         data: overdueTasks,
+        ghosts: [],
       });
     }
 
@@ -64,12 +87,15 @@ export default function ForecastScreen() {
       (task) => task.dueDate && isSameDay(task.dueDate, tomorrow)
     );
 
-    if (tomorrowTasks.length > 0) {
+    const tomorrowGhosts = ghostOccurrences.filter((occurrence) => isSameDay(occurrence.date, tomorrow));
+
+    if (tomorrowTasks.length > 0 || tomorrowGhosts.length > 0) {
       sections.push({
         title: 'Tomorrow',
         emoji: '📅',
         color: colors.blue,
         data: tomorrowTasks,
+        ghosts: tomorrowGhosts,
       });
     }
 
@@ -83,12 +109,18 @@ export default function ForecastScreen() {
       );
     });
 
-    if (upcomingTasks.length > 0) {
+    const upcomingGhosts = ghostOccurrences.filter(
+      (occurrence) =>
+        occurrence.date > tomorrow && !isSameDay(occurrence.date, tomorrow) && occurrence.date <= next7Days
+    );
+
+    if (upcomingTasks.length > 0 || upcomingGhosts.length > 0) {
       sections.push({
         title: 'Next 7 Days',
         emoji: '🗓️',
         color: colors.secondaryText,
         data: upcomingTasks,
+        ghosts: upcomingGhosts,
       });
     }
 
@@ -101,6 +133,7 @@ export default function ForecastScreen() {
         emoji: '💭',
         color: colors.tertiaryText,
         data: somedayTasks.slice(0, 5), // Show max 5
+        ghosts: [],
       });
     }
 
@@ -152,17 +185,19 @@ export default function ForecastScreen() {
           }
           renderItem={({ item }) => (
             <SwipeableTaskRow
-              onComplete={() => toggleTaskComplete(item.id)}
+              onComplete={() => handleToggleComplete(item, 'Task completed')}
               onDefer={() => updateTask(item.id, { status: 'deferred' })}
             >
               <TaskRow
                 task={item}
                 onPress={() => router.push(`/task/${item.id}`)}
-                onToggleComplete={() => toggleTaskComplete(item.id)}
+                onToggleComplete={() => handleToggleComplete(item)}
                 onToggleFlag={() => toggleTaskFlag(item.id)}
-                onDelete={() => deleteTask(item.id)}
+                onDelete={(scope) => deleteTask(item.id, scope)}
                 onChangeStatus={(status) => updateTask(item.id, { status })}
                 onChangePriority={(priority) => updateTask(item.id, { priority })}
+                onSkipOccurrence={() => skipOccurrence(item.id)}
+                onRescheduleOccurrence={(date) => rescheduleOccurrence(item.id, date)}
               />
             </SwipeableTaskRow>
           )}
@@ -183,6 +218,19 @@ export default function ForecastScreen() {
               </View>
             </View>
           )}
+          renderSectionFooter={({ section: { ghosts } }) =>
+            ghosts.length > 0 ? (
+              <View style={styles.ghostList}>
+                {ghosts.map((occurrence) => (
+                  <GhostOccurrenceRow
+                    key={`${occurrence.task.id}-${occurrence.date.getTime()}`}
+                    occurrence={occurrence}
+                    onPress={() => router.push(`/task/${occurrence.task.id}`)}
+                  />
+                ))}
+              </View>
+            ) : null
+          }
           contentContainerStyle={styles.listContent}
           stickySectionHeadersEnabled={false}
         />
@@ -237,6 +285,9 @@ const styles = StyleSheet.create({
   badgeText: {
     fontWeight: '600',
   },
+  ghostList: {
+    paddingTop: 4,
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
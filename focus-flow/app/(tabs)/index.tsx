@@ -11,6 +11,10 @@ import { useTheme } from '../../src/theme/useTheme';
 import { haptics } from '../../src/utils/haptics';
 import { Task, Project } from '../../src/types';
 import { formatDate, isToday, differenceInDays } from '../../src/utils/dateUtils';
+import { isTaskAvailable } from '../../src/utils/dependencyGraph';
+import { confirmSubtaskCompletion } from '../../src/components/SubtaskCompletionAlert';
+import { confirmProjectCompletion } from '../../src/components/ProjectCompletionAlert';
+import { STREAK_STORAGE_KEY } from '../../src/utils/backup';
 
 export default function DashboardScreen() {
   const { colors, typography, spacing } = useTheme();
@@ -20,6 +24,7 @@ export default function DashboardScreen() {
   const dailyGoal = useTaskStore((state) => state.dailyGoal);
   const focusedTaskIds = useTaskStore((state) => state.focusedTaskIds);
   const toggleTaskComplete = useTaskStore((state) => state.toggleTaskComplete);
+  const completeProject = useTaskStore((state) => state.completeProject);
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [showDailyFocusModal, setShowDailyFocusModal] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -27,6 +32,12 @@ export default function DashboardScreen() {
   const [bestStreak, setBestStreak] = useState(0);
   const [showCelebration, setShowCelebration] = useState(false);
 
+  const handleToggleComplete = (task: Task) => {
+    confirmSubtaskCompletion(task, tasks, (includeSubtasks) =>
+      confirmProjectCompletion(toggleTaskComplete(task.id, includeSubtasks), completeProject)
+    );
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     haptics.light();
@@ -117,7 +128,7 @@ export default function DashboardScreen() {
   useEffect(() => {
     const loadStreak = async () => {
       try {
-        const streakData = await AsyncStorage.getItem('@FocusFlow:streak');
+        const streakData = await AsyncStorage.getItem(STREAK_STORAGE_KEY);
         if (streakData) {
           const { current, best, lastDate } = JSON.parse(streakData);
           const today = new Date().toDateString();
@@ -149,7 +160,7 @@ export default function DashboardScreen() {
       if (dailyFocusStats && dailyFocusStats.progressPercent === 100) {
         try {
           const today = new Date().toDateString();
-          const streakData = await AsyncStorage.getItem('@FocusFlow:streak');
+          const streakData = await AsyncStorage.getItem(STREAK_STORAGE_KEY);
 
           let newStreak = 1;
           let newBest = 1;
@@ -164,7 +175,7 @@ export default function DashboardScreen() {
               newBest = Math.max(newStreak, best);
               lastDate = today;
 
-              await AsyncStorage.setItem('@FocusFlow:streak', JSON.stringify({
+              await AsyncStorage.setItem(STREAK_STORAGE_KEY, JSON.stringify({
                 current: newStreak,
                 best: newBest,
                 lastDate,
@@ -174,7 +185,7 @@ export default function DashboardScreen() {
               setBestStreak(newBest);
             }
           } else {
-            await AsyncStorage.setItem('@FocusFlow:streak', JSON.stringify({
+            await AsyncStorage.setItem(STREAK_STORAGE_KEY, JSON.stringify({
               current: 1,
               best: 1,
               lastDate: today,
@@ -203,8 +214,9 @@ export default function DashboardScreen() {
     const now = new Date();
     const hour = now.getHours();
 
-    // Get incomplete tasks
-    const incompleteTasks = tasks.filter(t => t.status !== 'completed');
+    // Get incomplete tasks that aren't waiting on a prerequisite
+    const incompleteTasks = tasks.filter(t => isTaskAvailable(t, tasks));
+    const dueTodayTasks = stats.dueTodayTasks.filter(t => incompleteTasks.includes(t));
 
     // Priority 1: Overdue critical/high tasks
     const overdueImportant = incompleteTasks.filter(t => {
@@ -215,7 +227,7 @@ export default function DashboardScreen() {
     if (overdueImportant.length > 0) return overdueImportant[0];
 
     // Priority 2: Due today flagged tasks
-    const dueTodayFlagged = stats.dueTodayTasks.filter(t => t.isFlagged);
+    const dueTodayFlagged = dueTodayTasks.filter(t => t.isFlagged);
     if (dueTodayFlagged.length > 0) return dueTodayFlagged[0];
 
     // Priority 3: In-progress tasks
@@ -223,8 +235,8 @@ export default function DashboardScreen() {
     if (inProgress.length > 0) return inProgress[0];
 
     // Priority 4: Due today tasks by priority
-    if (stats.dueTodayTasks.length > 0) {
-      return stats.dueTodayTasks.sort((a, b) => {
+    if (dueTodayTasks.length > 0) {
+      return dueTodayTasks.sort((a, b) => {
         const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
         return priorityOrder[a.priority] - priorityOrder[b.priority];
       })[0];
@@ -316,9 +328,6 @@ export default function DashboardScreen() {
   };
 
   const renderProjectCard = (project: Project) => {
-    const projectTasks = tasks.filter((t) => t.projectId === project.id);
-    const completedCount = projectTasks.filter((t) => t.status === 'completed').length;
-
     return (
       <TouchableOpacity
         key={project.id}
@@ -331,7 +340,7 @@ export default function DashboardScreen() {
             {project.name}
           </Text>
           <Text style={[styles.projectCardStats, { color: colors.secondaryText, ...typography.caption1 }]}>
-            {completedCount}/{projectTasks.length} tasks • {project.progress}%
+            {project.completedTaskCount ?? 0}/{project.taskCount ?? 0} tasks • {project.progress}%
           </Text>
         </View>
       </TouchableOpacity>
@@ -476,7 +485,7 @@ export default function DashboardScreen() {
                   onPress={() => router.push(`/task/${task.id}`)}
                 >
                   <Pressable
-                    onPress={() => toggleTaskComplete(task.id)}
+                    onPress={() => handleToggleComplete(task)}
                     style={[
                       styles.focusCheckbox,
                       {
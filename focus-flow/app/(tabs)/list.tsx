@@ -7,6 +7,17 @@ import { useSettingsStore } from '../../src/store/settingsStore';
 import { useTheme } from '../../src/theme/useTheme';
 import { Task, Project, TaskStatus, TaskPriority } from '../../src/types';
 import { formatDate } from '../../src/utils/dateUtils';
+import { getDependencyCandidates, getDependencyEdge, DEPENDENCY_TYPES } from '../../src/utils/dependencyGraph';
+import { planDependentReschedule } from '../../src/utils/autoScheduler';
+import { confirmScheduleChanges } from '../../src/components/ScheduleChangeAlert';
+import { showUndoToast } from '../../src/components/UndoToast';
+import { getTagTree, getTagDescendantIds, TAG_COLORS } from '../../src/utils/tags';
+import { getTaskOutline } from '../../src/utils/subtasks';
+import { parseQuickAdd } from '../../src/utils/quickAdd';
+import { QuickAddPreview } from '../../src/components/QuickAddPreview';
+import { CsvImportModal } from '../../src/components/CsvImportModal';
+import { exportTasksCsv, TaskCsvField } from '../../src/utils/csv';
+import { shareTextFile } from '../../src/utils/fileExport';
 
 
 type Column = {
@@ -25,18 +36,28 @@ const DEFAULT_COLUMNS: Column[] = [
   { id: 'startDate', label: 'Start Date', width: 120, visible: false },
   { id: 'progress', label: 'Progress', width: 100, visible: true },
   { id: 'dependencies', label: 'Dependencies', width: 150, visible: true },
+  { id: 'tags', label: 'Tags', width: 150, visible: false },
 ];
 
+// Extra left padding per subtask level in the title column
+const SUBTASK_INDENT = 16;
 
 export default function ListViewScreen() {
   const { colors, typography } = useTheme();
   const router = useRouter();
   const tasks = useTaskStore((state) => state.tasks);
   const projects = useTaskStore((state) => state.projects);
+  const tags = useTaskStore((state) => state.tags);
   const updateTask = useTaskStore((state) => state.updateTask);
+  const bulkUpdateTasks = useTaskStore((state) => state.bulkUpdateTasks);
+  const bulkDeleteTasks = useTaskStore((state) => state.bulkDeleteTasks);
   const addTask = useTaskStore((state) => state.addTask);
+  const addTag = useTaskStore((state) => state.addTag);
   const addDependency = useTaskStore((state) => state.addDependency);
   const removeDependency = useTaskStore((state) => state.removeDependency);
+  const updateDependency = useTaskStore((state) => state.updateDependency);
+  const autoReschedule = useSettingsStore((state) => state.autoReschedule);
+  const workingDays = useSettingsStore((state) => state.workingDays);
   const [columns, setColumns] = useState<Column[]>(DEFAULT_COLUMNS);
   const [showColumnConfig, setShowColumnConfig] = useState(false);
   const [editingCell, setEditingCell] = useState<{ taskId: string; columnId: string } | null>(null);
@@ -46,24 +67,35 @@ export default function ListViewScreen() {
   const [showBulkStatusModal, setShowBulkStatusModal] = useState(false);
   const [showBulkPriorityModal, setShowBulkPriorityModal] = useState(false);
   const [collapsedProjects, setCollapsedProjects] = useState<Set<string>>(new Set());
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(new Set());
   const [showAddTaskModal, setShowAddTaskModal] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [lastSelectedTaskId, setLastSelectedTaskId] = useState<string | null>(null);
   const [resizingColumn, setResizingColumn] = useState<string | null>(null);
   const [resizeStartX, setResizeStartX] = useState<number>(0);
   const [resizeStartWidth, setResizeStartWidth] = useState<number>(0);
+  const [filterTagId, setFilterTagId] = useState<string | null>(null);
+  const [showCsvImport, setShowCsvImport] = useState(false);
   const inputRef = useRef<TextInput>(null);
 
   const visibleColumns = useMemo(() => columns.filter((c) => c.visible && c.id !== 'title'), [columns]);
 
   const projectsWithTasks = useMemo(() => {
-    const grouped = projects.map((project) => ({
-      project,
-      tasks: tasks.filter((t) => t.projectId === project.id),
-    }));
+    // A tag filter also matches tasks carrying any of the tags nested below it
+    const filterTagIds = filterTagId ? getTagDescendantIds(filterTagId, tags) : null;
+    const shownTasks = filterTagIds
+      ? tasks.filter((t) => t.tags.some((id) => filterTagIds.has(id)))
+      : tasks;
+
+    const grouped = projects
+      .map((project) => ({
+        project,
+        tasks: shownTasks.filter((t) => t.projectId === project.id),
+      }))
+      .filter((item) => !filterTagIds || item.tasks.length > 0);
 
     // Add unassigned tasks
-    const unassignedTasks = tasks.filter((t) => !t.projectId);
+    const unassignedTasks = shownTasks.filter((t) => !t.projectId);
     if (unassignedTasks.length > 0) {
       grouped.push({
         project: {
@@ -82,7 +114,7 @@ export default function ListViewScreen() {
     }
 
     return grouped;
-  }, [projects, tasks, colors]);
+  }, [projects, tasks, tags, filterTagId, colors]);
 
   const toggleColumn = (columnId: string) => {
     setColumns((prev) =>
@@ -182,7 +214,10 @@ export default function ListViewScreen() {
       updates.dueDate = valueToSave;
     }
 
-    if (Object.keys(updates).length > 0) {
+    if (updates.dueDate) {
+      const changes = autoReschedule ? planDependentReschedule(tasks, taskId, updates, workingDays) : [];
+      confirmScheduleChanges(changes, (confirmed) => updateTask(taskId, updates, undefined, confirmed));
+    } else if (Object.keys(updates).length > 0) {
       updateTask(taskId, updates);
     }
 
@@ -197,14 +232,33 @@ export default function ListViewScreen() {
     setShowPickerModal(false);
   };
 
+  // Tasks the cell being edited can depend on without creating a cycle
+  const dependencyCandidateIds = useMemo(
+    () =>
+      new Set(
+        editingCell?.columnId === 'dependencies'
+          ? getDependencyCandidates(tasks, editingCell.taskId).map((t) => t.id)
+          : []
+      ),
+    [tasks, editingCell]
+  );
+
   const toggleDependency = (taskId: string, dependencyId: string) => {
     const task = tasks.find((t) => t.id === taskId);
     if (!task) return;
 
     if (task.dependsOn.includes(dependencyId)) {
       removeDependency(taskId, dependencyId);
-    } else {
-      addDependency(taskId, dependencyId);
+      return;
+    }
+
+    const error = addDependency(taskId, dependencyId);
+    if (error) {
+      if (Platform.OS === 'web') {
+        alert(error.message);
+      } else {
+        Alert.alert('Cannot Add Dependency', error.message);
+      }
     }
   };
 
@@ -261,42 +315,66 @@ export default function ListViewScreen() {
     });
   };
 
+  const parsedNewTask = useMemo(() => parseQuickAdd(newTaskTitle, { projects, tags }), [newTaskTitle, projects, tags]);
+
   const handleAddTask = () => {
-    if (newTaskTitle.trim()) {
+    if (parsedNewTask.title) {
+      const newTagIds = parsedNewTask.newTagNames.map((name, index) =>
+        addTag({ name, color: TAG_COLORS[(tags.length + index) % TAG_COLORS.length] })
+      );
       addTask({
-        title: newTaskTitle.trim(),
+        title: parsedNewTask.title,
         status: 'todo',
-        priority: 'medium',
+        priority: parsedNewTask.priority || 'medium',
+        projectId: parsedNewTask.projectId,
+        dueDate: parsedNewTask.dueDate,
+        tags: [...parsedNewTask.tagIds, ...newTagIds],
+        estimatedDuration: parsedNewTask.estimatedDuration,
+        isRecurring: !!parsedNewTask.recurrence,
+        recurrence: parsedNewTask.recurrence,
       });
       setNewTaskTitle('');
       setShowAddTaskModal(false);
     }
   };
 
+  // Exports what the grid shows: its visible columns, and the rows of expanded groups in grid order
+  const handleExportCsv = async () => {
+    const rows = projectsWithTasks
+      .filter((item) => !collapsedProjects.has(item.project.id))
+      .flatMap((item) => getTaskOutline(item.tasks, collapsedTaskIds).map(({ task }) => task));
+    const fields = columns.filter((c) => c.visible).map((c) => c.id as TaskCsvField);
+    const csv = exportTasksCsv(rows, fields, { tasks, projects, tags });
+    await shareTextFile(`focus-flow-tasks-${formatDate(new Date(), 'yyyy-MM-dd')}.csv`, csv, 'text/csv');
+  };
+
   const bulkUpdateStatus = (status: TaskStatus) => {
-    selectedTasks.forEach((taskId) => {
-      updateTask(taskId, { status });
-    });
+    const count = selectedTasks.size;
+    bulkUpdateTasks(Array.from(selectedTasks), { status });
+    showUndoToast(`Changed status of ${count} task${count === 1 ? '' : 's'}`);
     setSelectedTasks(new Set());
     setShowBulkStatusModal(false);
   };
 
   const bulkUpdatePriority = (priority: TaskPriority) => {
-    selectedTasks.forEach((taskId) => {
-      updateTask(taskId, { priority });
-    });
+    const count = selectedTasks.size;
+    bulkUpdateTasks(Array.from(selectedTasks), { priority });
+    showUndoToast(`Changed priority of ${count} task${count === 1 ? '' : 's'}`);
     setSelectedTasks(new Set());
     setShowBulkPriorityModal(false);
   };
 
+  const deleteSelectedTasks = () => {
+    const count = selectedTasks.size;
+    bulkDeleteTasks(Array.from(selectedTasks));
+    showUndoToast(`Deleted ${count} task${count === 1 ? '' : 's'}`);
+    setSelectedTasks(new Set());
+  };
+
   const bulkDelete = () => {
     if (Platform.OS === 'web') {
       if (confirm(`Delete ${selectedTasks.size} tasks?`)) {
-        const deleteTask = useTaskStore.getState().deleteTask;
-        selectedTasks.forEach((taskId) => {
-          deleteTask(taskId);
-        });
-        setSelectedTasks(new Set());
+        deleteSelectedTasks();
       }
     } else {
       Alert.alert(
@@ -307,13 +385,7 @@ export default function ListViewScreen() {
           {
             text: 'Delete',
             style: 'destructive',
-            onPress: () => {
-              const deleteTask = useTaskStore.getState().deleteTask;
-              selectedTasks.forEach((taskId) => {
-                deleteTask(taskId);
-              });
-              setSelectedTasks(new Set());
-            },
+            onPress: deleteSelectedTasks,
           },
         ]
       );
@@ -338,6 +410,10 @@ export default function ListViewScreen() {
         return `${task.progress}%`;
       case 'dependencies':
         return task.dependsOn.length > 0 ? `${task.dependsOn.length} deps` : '—';
+      case 'tags': {
+        const names = tags.filter((tag) => task.tags.includes(tag.id)).map((tag) => tag.name);
+        return names.length > 0 ? names.join(', ') : '—';
+      }
       default:
         return '';
     }
@@ -438,7 +514,19 @@ export default function ListViewScreen() {
     </View>
   );
 
-  const renderTaskRow = (task: Task, isLast: boolean) => {
+  const toggleTaskCollapse = (taskId: string) => {
+    setCollapsedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const renderTaskRow = (task: Task, isLast: boolean, depth = 0, subtaskCount = 0) => {
     const isEditingTitle = editingCell?.taskId === task.id && editingCell?.columnId === 'title';
     const isSelected = selectedTasks.has(task.id);
 
@@ -485,7 +573,10 @@ export default function ListViewScreen() {
           </View>
         </Pressable>
         <TouchableOpacity
-          style={[styles.taskTitleCell, { width: 250, borderRightColor: colors.separator }]}
+          style={[
+            styles.taskTitleCell,
+            { width: 250, borderRightColor: colors.separator, paddingLeft: 32 + depth * SUBTASK_INDENT },
+          ]}
           onPress={() => {
             if (!isEditingTitle) {
               startEditing(task.id, 'title', task.title);
@@ -493,6 +584,18 @@ export default function ListViewScreen() {
           }}
           onLongPress={() => router.push(`/task/${task.id}`)}
         >
+          {subtaskCount > 0 && (
+            <Pressable
+              style={[styles.subtaskToggle, { left: 12 + depth * SUBTASK_INDENT }]}
+              onPress={() => toggleTaskCollapse(task.id)}
+              accessibilityRole="button"
+              accessibilityLabel={collapsedTaskIds.has(task.id) ? 'Show subtasks' : 'Hide subtasks'}
+            >
+              <Text style={{ fontSize: 10, color: colors.secondaryText }}>
+                {collapsedTaskIds.has(task.id) ? '▶' : '▼'}
+              </Text>
+            </Pressable>
+          )}
           {isEditingTitle ? (
             <TextInput
               ref={inputRef}
@@ -581,6 +684,7 @@ export default function ListViewScreen() {
 
   const renderProjectGroup = (item: { project: Project; tasks: Task[] }, groupIndex: number) => {
     const isCollapsed = collapsedProjects.has(item.project.id);
+    const outline = getTaskOutline(item.tasks, collapsedTaskIds);
 
     return (
       <View key={item.project.id} style={styles.projectGroup}>
@@ -623,7 +727,9 @@ export default function ListViewScreen() {
         </View>
 
         {/* Render tasks only if not collapsed */}
-        {!isCollapsed && item.tasks.map((task, taskIndex) => renderTaskRow(task, taskIndex === item.tasks.length - 1))}
+        {!isCollapsed && outline.map(({ task, depth, subtaskCount }, taskIndex) =>
+          renderTaskRow(task, taskIndex === outline.length - 1, depth, subtaskCount)
+        )}
       </View>
     );
   };
@@ -638,14 +744,64 @@ export default function ListViewScreen() {
         >
           <Text style={{ fontSize: 16, color: '#FFFFFF' }}>+ Add Task</Text>
         </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.configButton, { backgroundColor: colors.secondaryBackground }]}
-          onPress={() => setShowColumnConfig(!showColumnConfig)}
-        >
-          <Text style={{ fontSize: 16 }}>⚙️</Text>
-        </TouchableOpacity>
+        <View style={styles.toolbarActions}>
+          <TouchableOpacity
+            style={[styles.configButton, { backgroundColor: colors.secondaryBackground }]}
+            onPress={handleExportCsv}
+            accessibilityLabel="Export visible rows and columns to CSV"
+          >
+            <Text style={{ fontSize: 14, color: colors.text }}>⬇ CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.configButton, { backgroundColor: colors.secondaryBackground }]}
+            onPress={() => setShowCsvImport(true)}
+            accessibilityLabel="Import tasks from CSV"
+          >
+            <Text style={{ fontSize: 14, color: colors.text }}>⬆ CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.configButton, { backgroundColor: colors.secondaryBackground }]}
+            onPress={() => setShowColumnConfig(!showColumnConfig)}
+          >
+            <Text style={{ fontSize: 16 }}>⚙️</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
+      {tags.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.tagFilterBar}
+          contentContainerStyle={styles.tagFilterContent}
+        >
+          {getTagTree(tags).map(({ tag }) => {
+            const isSelected = filterTagId === tag.id;
+            return (
+              <TouchableOpacity
+                key={tag.id}
+                style={[
+                  styles.tagFilterChip,
+                  {
+                    backgroundColor: isSelected ? tag.color : colors.secondaryBackground,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                onPress={() => setFilterTagId(isSelected ? null : tag.id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Filter by tag ${tag.name}`}
+                accessibilityState={{ selected: isSelected }}
+              >
+                {!isSelected && <View style={[styles.tagFilterDot, { backgroundColor: tag.color }]} />}
+                <Text style={[{ color: isSelected ? '#FFFFFF' : colors.text, ...typography.caption1 }]}>
+                  {tag.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
       {showColumnConfig && (
         <View style={[styles.columnConfig, { backgroundColor: colors.secondaryBackground, borderBottomColor: colors.separator }]}>
           <Text style={[styles.configTitle, { color: colors.text, ...typography.headline }]}>
@@ -795,7 +951,14 @@ export default function ListViewScreen() {
               {editingCell.columnId === 'dependencies' && (
                 <ScrollView style={styles.dependenciesScroll}>
                   {tasks
-                    .filter((t) => t.id !== editingCell.taskId && t.status !== 'completed')
+                    .filter(
+                      (t) =>
+                        t.id !== editingCell.taskId &&
+                        t.status !== 'completed' &&
+                        // Keep current links; hide tasks that would create a cycle
+                        (dependencyCandidateIds.has(t.id) ||
+                          tasks.find((task) => task.id === editingCell.taskId)?.dependsOn.includes(t.id))
+                    )
                     .map((t) => {
                       const currentTask = tasks.find((task) => task.id === editingCell.taskId);
                       const isDependent = currentTask?.dependsOn.includes(t.id);
@@ -820,6 +983,33 @@ export default function ListViewScreen() {
                           >
                             {t.title}
                           </Text>
+                          {isDependent && currentTask && (
+                            <View style={styles.dependencyTypeOptions}>
+                              {DEPENDENCY_TYPES.map((option) => {
+                                const isSelected = getDependencyEdge(currentTask, t.id).type === option.type;
+                                return (
+                                  <TouchableOpacity
+                                    key={option.type}
+                                    style={[
+                                      styles.dependencyTypeOption,
+                                      { backgroundColor: isSelected ? '#FFFFFF' : 'transparent' },
+                                    ]}
+                                    onPress={() => updateDependency(editingCell.taskId, t.id, { type: option.type })}
+                                    accessibilityLabel={option.label}
+                                  >
+                                    <Text
+                                      style={[
+                                        styles.dependencyTypeOptionText,
+                                        { color: isSelected ? colors.primary : '#FFFFFF' },
+                                      ]}
+                                    >
+                                      {option.shortLabel}
+                                    </Text>
+                                  </TouchableOpacity>
+                                );
+                              })}
+                            </View>
+                          )}
                           {isDependent && <Text style={styles.checkmark}>✓</Text>}
                         </TouchableOpacity>
                       );
@@ -913,6 +1103,8 @@ export default function ListViewScreen() {
         </Modal>
       )}
 
+      <CsvImportModal visible={showCsvImport} onClose={() => setShowCsvImport(false)} />
+
       {/* Add Task Modal */}
       {showAddTaskModal && (
         <Modal
@@ -941,7 +1133,7 @@ export default function ListViewScreen() {
 
               <TextInput
                 style={[styles.addTaskInput, { color: colors.text, backgroundColor: colors.secondaryBackground, borderColor: colors.separator, ...typography.body }]}
-                placeholder="Task title..."
+                placeholder="Task title, e.g. Pay rent every month #home !high"
                 placeholderTextColor={colors.tertiaryText}
                 value={newTaskTitle}
                 onChangeText={setNewTaskTitle}
@@ -949,6 +1141,8 @@ export default function ListViewScreen() {
                 autoFocus
               />
 
+              <QuickAddPreview text={newTaskTitle} parsed={parsedNewTask} />
+
               <TouchableOpacity
                 style={[styles.addTaskButton, { backgroundColor: colors.primary }]}
                 onPress={handleAddTask}
@@ -974,6 +1168,32 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 12,
   },
+  toolbarActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tagFilterBar: {
+    flexGrow: 0,
+  },
+  tagFilterContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    gap: 6,
+  },
+  tagFilterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 0.5,
+  },
+  tagFilterDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 5,
+  },
   toolbarTitle: {
     fontWeight: '600',
   },
@@ -1067,6 +1287,14 @@ const styles = StyleSheet.create({
   taskTitle: {
     fontWeight: '400',
   },
+  subtaskToggle: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   column: {
     paddingHorizontal: 12,
     paddingVertical: 8,
@@ -1148,6 +1376,22 @@ const styles = StyleSheet.create({
     flex: 1,
     fontWeight: '500',
   },
+  dependencyTypeOptions: {
+    flexDirection: 'row',
+    gap: 4,
+    marginLeft: 8,
+  },
+  dependencyTypeOption: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+  },
+  dependencyTypeOptionText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
   checkmark: {
     fontSize: 18,
     color: '#FFFFFF',
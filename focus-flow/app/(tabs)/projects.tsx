@@ -36,7 +36,6 @@ export default function ProjectsScreen() {
   const router = useRouter();
   const { colors, typography, spacing } = useTheme();
   const projects = useTaskStore((state) => state.projects);
-  const tasks = useTaskStore((state) => state.tasks);
   const addProject = useTaskStore((state) => state.addProject);
 
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
@@ -93,14 +92,6 @@ export default function ProjectsScreen() {
     });
   };
 
-  const getProjectTaskCount = (projectId: string) => {
-    return tasks.filter((task) => task.projectId === projectId).length;
-  };
-
-  const getProjectCompletedCount = (projectId: string) => {
-    return tasks.filter((task) => task.projectId === projectId && task.status === 'completed').length;
-  };
-
   const filteredProjects = projects.filter((project) => {
     if (filterStatus === 'all') return true;
 
@@ -154,9 +145,8 @@ export default function ProjectsScreen() {
   const counts = getProjectCounts();
 
   const renderProjectCard = ({ item }: { item: Project & { depth: number } }) => {
-    const taskCount = getProjectTaskCount(item.id);
-    const completedCount = getProjectCompletedCount(item.id);
-    const progress = taskCount > 0 ? (completedCount / taskCount) * 100 : 0;
+    const taskCount = item.taskCount ?? 0;
+    const completedCount = item.completedTaskCount ?? 0;
     const indentSize = item.depth * 24; // 24px per level
 
     return (
@@ -197,7 +187,7 @@ export default function ProjectsScreen() {
             <View
               style={[
                 styles.progressBar,
-                { backgroundColor: item.color, width: `${progress}%` },
+                { backgroundColor: item.color, width: `${item.progress}%` },
               ]}
             />
           </View>
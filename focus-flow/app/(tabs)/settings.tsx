@@ -6,6 +6,17 @@ import { useSettingsStore, ViewDensity } from '../../src/store/settingsStore';
 import { useTaskStore } from '../../src/store/taskStore';
 import { useTheme } from '../../src/theme/useTheme';
 import { haptics } from '../../src/utils/haptics';
+import { showUndoToast } from '../../src/components/UndoToast';
+
+const WEEKDAYS = [
+  { day: 1, name: 'Monday' },
+  { day: 2, name: 'Tuesday' },
+  { day: 3, name: 'Wednesday' },
+  { day: 4, name: 'Thursday' },
+  { day: 5, name: 'Friday' },
+  { day: 6, name: 'Saturday' },
+  { day: 0, name: 'Sunday' },
+];
 
 export default function SettingsScreen() {
   const router = useRouter();
@@ -17,12 +28,21 @@ export default function SettingsScreen() {
     setShowCompletedTasks,
     groupTasksByProject,
     setGroupTasksByProject,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    autoReschedule,
+    setAutoReschedule,
+    workingDays,
+    toggleWorkingDay,
   } = useSettingsStore();
   const {
     archiveCompletedTasks,
     wipeAllData,
     tasks,
     archivedTasks,
+    trash,
+    tags,
+    perspectives,
   } = useTaskStore();
 
   const handleDensityChange = (density: ViewDensity) => {
@@ -51,7 +71,7 @@ export default function SettingsScreen() {
     if (Platform.OS === 'web') {
       if (confirm(`Archive ${completedCount} completed task${completedCount === 1 ? '' : 's'}?`)) {
         const archived = archiveCompletedTasks();
-        alert(`${archived} task${archived === 1 ? '' : 's'} archived successfully`);
+        showUndoToast(`${archived} task${archived === 1 ? '' : 's'} archived`);
       }
     } else {
       Alert.alert(
@@ -63,7 +83,7 @@ export default function SettingsScreen() {
             text: 'Archive',
             onPress: () => {
               const archived = archiveCompletedTasks();
-              Alert.alert('Success', `${archived} task${archived === 1 ? '' : 's'} archived successfully`);
+              showUndoToast(`${archived} task${archived === 1 ? '' : 's'} archived`);
             },
           },
         ]
@@ -77,7 +97,7 @@ export default function SettingsScreen() {
     if (Platform.OS === 'web') {
       if (confirm('Are you sure you want to wipe all data? This cannot be undone!')) {
         wipeAllData();
-        alert('All data has been wiped');
+        showUndoToast('All data has been wiped');
       }
     } else {
       Alert.alert(
@@ -90,7 +110,7 @@ export default function SettingsScreen() {
             style: 'destructive',
             onPress: () => {
               wipeAllData();
-              Alert.alert('Success', 'All data has been wiped');
+              showUndoToast('All data has been wiped');
             },
           },
         ]
@@ -206,6 +226,75 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Scheduling Section */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text, ...typography.title3 }]}>
+            Scheduling
+          </Text>
+
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+            <View style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}>
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Reschedule Dependents
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  When a task's dates move later, offer to move the tasks that depend on it
+                </Text>
+              </View>
+              <Switch
+                value={autoReschedule}
+                onValueChange={(value) => handleToggle(value, setAutoReschedule)}
+                trackColor={{ false: colors.separator, true: colors.primary }}
+                thumbColor="#FFFFFF"
+                accessibilityLabel="Reschedule dependents toggle"
+                accessibilityRole="switch"
+              />
+            </View>
+
+            <View style={styles.optionRow}>
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Working Days
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Rescheduled tasks skip the other days
+                </Text>
+              </View>
+              <View style={styles.segmentedControl}>
+                {WEEKDAYS.map((weekday) => {
+                  const isWorkingDay = workingDays.includes(weekday.day);
+                  return (
+                    <TouchableOpacity
+                      key={weekday.day}
+                      style={[
+                        styles.segment,
+                        { backgroundColor: isWorkingDay ? colors.primary : colors.secondaryBackground },
+                      ]}
+                      onPress={() => {
+                        haptics.selection();
+                        toggleWorkingDay(weekday.day);
+                      }}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: isWorkingDay }}
+                      accessibilityLabel={weekday.name}
+                    >
+                      <Text
+                        style={[
+                          styles.segmentText,
+                          { color: isWorkingDay ? '#FFFFFF' : colors.text, ...typography.caption1 },
+                        ]}
+                      >
+                        {weekday.name.charAt(0)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          </View>
+        </View>
+
         {/* Data Management Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text, ...typography.title3 }]}>
@@ -213,6 +302,146 @@ export default function SettingsScreen() {
           </Text>
 
           <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+            <TouchableOpacity
+              style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}
+              onPress={() => {
+                haptics.light();
+                router.push('/tags');
+              }}
+              accessibilityRole="button"
+              accessibilityLabel="Manage tags"
+            >
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Tags
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Rename, recolor, nest or delete tags ({tags.length} tag{tags.length === 1 ? '' : 's'})
+                </Text>
+              </View>
+              <Text style={[styles.actionIcon, { color: colors.primary }]}>→</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}
+              onPress={() => {
+                haptics.light();
+                router.push('/perspectives');
+              }}
+              accessibilityRole="button"
+              accessibilityLabel="Manage perspectives"
+            >
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Perspectives
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Saved task filters with their own sort and grouping ({perspectives.length} saved)
+                </Text>
+              </View>
+              <Text style={[styles.actionIcon, { color: colors.primary }]}>→</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}
+              onPress={() => {
+                haptics.light();
+                router.push('/trash');
+              }}
+              accessibilityRole="button"
+              accessibilityLabel="Open trash"
+            >
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Trash
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Restore or permanently delete removed items ({trash.length} in trash)
+                </Text>
+              </View>
+              <Text style={[styles.actionIcon, { color: colors.primary }]}>→</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}
+              onPress={() => {
+                haptics.light();
+                router.push('/backup');
+              }}
+              accessibilityRole="button"
+              accessibilityLabel="Back up and restore"
+            >
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Back Up & Restore
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Export everything to a JSON file, or restore one by replacing or merging
+                </Text>
+              </View>
+              <Text style={[styles.actionIcon, { color: colors.primary }]}>→</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}
+              onPress={() => {
+                haptics.light();
+                router.push('/ical');
+              }}
+              accessibilityRole="button"
+              accessibilityLabel="Calendar import and export"
+            >
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Calendars (.ics)
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Export tasks and time blocks, or import events to plan around
+                </Text>
+              </View>
+              <Text style={[styles.actionIcon, { color: colors.primary }]}>→</Text>
+            </TouchableOpacity>
+
+            <View style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}>
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>
+                  Keep Deleted Items
+                </Text>
+                <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Days before trashed items are removed permanently
+                </Text>
+              </View>
+              <View style={styles.segmentedControl}>
+                {[7, 30, 90].map((days) => (
+                  <TouchableOpacity
+                    key={days}
+                    style={[
+                      styles.segment,
+                      {
+                        backgroundColor: trashRetentionDays === days ? colors.primary : colors.secondaryBackground,
+                      },
+                    ]}
+                    onPress={() => {
+                      haptics.selection();
+                      setTrashRetentionDays(days);
+                    }}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: trashRetentionDays === days }}
+                    accessibilityLabel={`Keep deleted items for ${days} days`}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        { color: trashRetentionDays === days ? '#FFFFFF' : colors.text, ...typography.caption1 },
+                      ]}
+                    >
+                      {days}d
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             <TouchableOpacity
               style={[styles.optionRow, { borderBottomWidth: 0.5, borderBottomColor: colors.separator }]}
               onPress={handleArchiveCompleted}
@@ -364,4 +593,16 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: '600',
   },
+  segmentedControl: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segment: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  segmentText: {
+    fontWeight: '600',
+  },
 });
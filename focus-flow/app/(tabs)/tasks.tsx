@@ -17,6 +17,7 @@ import { useRouter } from 'expo-router';
 import { haptics } from '../../src/utils/haptics';
 import { useTaskStore } from '../../src/store/taskStore';
 import { useSettingsStore } from '../../src/store/settingsStore';
+import { useCalendarStore } from '../../src/store/calendarStore';
 import { TaskRow } from '../../src/components/TaskRow';
 import { SwipeableTaskRow } from '../../src/components/SwipeableTaskRow';
 import { Button } from '../../src/components/Button';
@@ -26,6 +27,16 @@ import { DailyFocusModal } from '../../src/components/DailyFocusModal';
 import { TimeBoxCalendar } from '../../src/components/TimeBoxCalendar';
 import { useTheme } from '../../src/theme/useTheme';
 import { Task, TaskStatus, TaskPriority } from '../../src/types';
+import { isTaskAvailable } from '../../src/utils/dependencyGraph';
+import { getCriticalTaskIds } from '../../src/utils/criticalPath';
+import { getTagTree } from '../../src/utils/tags';
+import { getBusyBlocks } from '../../src/utils/busyTime';
+import { compileTaskQuery, getQueryTermValue, hasQueryKeyword, parseTaskQuery, setQueryTerm, toggleQueryKeyword } from '../../src/utils/taskQuery';
+import { groupTasks, sortTasks, PERSPECTIVE_GROUPINGS, PERSPECTIVE_SORTS } from '../../src/utils/perspectives';
+import { runWithUndoToast, showUndoToast } from '../../src/components/UndoToast';
+import { getTaskOutline } from '../../src/utils/subtasks';
+import { confirmSubtaskCompletion } from '../../src/components/SubtaskCompletionAlert';
+import { confirmProjectCompletion } from '../../src/components/ProjectCompletionAlert';
 
 export default function TasksScreen() {
   const router = useRouter();
@@ -34,22 +45,27 @@ export default function TasksScreen() {
   const addTask = useTaskStore((state) => state.addTask);
   const updateTask = useTaskStore((state) => state.updateTask);
   const toggleTaskComplete = useTaskStore((state) => state.toggleTaskComplete);
+  const completeProject = useTaskStore((state) => state.completeProject);
   const toggleTaskFlag = useTaskStore((state) => state.toggleTaskFlag);
   const deleteTask = useTaskStore((state) => state.deleteTask);
+  const skipOccurrence = useTaskStore((state) => state.skipOccurrence);
+  const rescheduleOccurrence = useTaskStore((state) => state.rescheduleOccurrence);
   const loadData = useTaskStore((state) => state.loadData);
   const projects = useTaskStore((state) => state.projects);
   const focusAreas = useTaskStore((state) => state.focusAreas);
+  const tags = useTaskStore((state) => state.tags);
+  const perspectives = useTaskStore((state) => state.perspectives);
+  const updatePerspective = useTaskStore((state) => state.updatePerspective);
   const dailyPlan = useTaskStore((state) => state.dailyPlan);
+  const calendars = useCalendarStore((state) => state.calendars);
   const viewDensity = useSettingsStore((state) => state.viewDensity);
   const groupTasksByProject = useSettingsStore((state) => state.groupTasksByProject);
+  const taskView = useSettingsStore((state) => state.taskView);
+  const setTaskView = useSettingsStore((state) => state.setTaskView);
 
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
-  const [filterStatus, setFilterStatus] = useState<TaskStatus | 'all'>('all');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'date' | 'priority' | 'title'>('date');
   const [showSortMenu, setShowSortMenu] = useState(false);
-  const [hideCompleted, setHideCompleted] = useState(false);
-  const [showOnlyFlagged, setShowOnlyFlagged] = useState(false);
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(new Set());
   const [refreshing, setRefreshing] = useState(false);
   const [showCelebration, setShowCelebration] = useState(false);
   const [showDailyFocusModal, setShowDailyFocusModal] = useState(false);
@@ -68,6 +84,37 @@ export default function TasksScreen() {
     return dailyPlan.date === today;
   }, [dailyPlan]);
 
+  // Imported calendar events during today's plan
+  const todaysBusyBlocks = useMemo(() => {
+    if (!hasTodaysPlan || calendars.length === 0) return [];
+    const now = new Date();
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return getBusyBlocks(calendars, start, new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1));
+  }, [hasTodaysPlan, calendars]);
+
+  // The filter chips below the query bar read and edit terms of the query
+  const { query, sortBy } = taskView;
+  const groupBy = taskView.groupBy ?? (groupTasksByProject ? 'project' : 'none');
+  // 'available' shows open tasks whose prerequisites allow them to start
+  const filterStatus = getQueryTermValue(query, 'status') ?? 'all';
+  const hideCompleted = hasQueryKeyword(query, 'completed', true);
+  const showOnlyFlagged = hasQueryKeyword(query, 'flagged');
+  const filterTagName = getQueryTermValue(query, 'tag');
+  const setQuery = (nextQuery: string) => setTaskView({ query: nextQuery });
+
+  const sortedPerspectives = useMemo(() => [...perspectives].sort((a, b) => a.order - b.order), [perspectives]);
+  const activePerspective = perspectives.find((perspective) => perspective.id === taskView.perspectiveId);
+  const isPerspectiveModified =
+    !!activePerspective &&
+    (activePerspective.query !== query || activePerspective.sortBy !== sortBy || activePerspective.groupBy !== groupBy);
+
+  const compiledQuery = useMemo(
+    () => compileTaskQuery(query, { tasks, projects, tags, focusAreas }),
+    [query, tasks, projects, tags, focusAreas]
+  );
+
+  const criticalTaskIds = useMemo(() => getCriticalTaskIds(projects, tasks), [projects, tasks]);
+
   // Check if all tasks are completed for celebration
   const allTasksCompleted = useMemo(() => {
     const incompleteTasks = tasks.filter(
@@ -90,72 +137,54 @@ export default function TasksScreen() {
     setTimeout(() => setRefreshing(false), 500);
   };
 
-  const filteredTasks = tasks
-    .filter((task) => {
-      // Show only flagged filter
-      if (showOnlyFlagged && !task.isFlagged) return false;
-
-      // Hide completed filter
-      if (hideCompleted && task.status === 'completed') return false;
-
-      // Status filter
-      if (filterStatus !== 'all' && task.status !== filterStatus) return false;
-
-      // Search filter
-      if (searchQuery.trim()) {
-        const query = searchQuery.toLowerCase();
-        return (
-          task.title.toLowerCase().includes(query) ||
-          task.notes?.toLowerCase().includes(query)
-        );
-      }
+  const filteredTasks = useMemo(
+    () => sortTasks(tasks.filter(compiledQuery.matches), sortBy),
+    [tasks, compiledQuery, sortBy]
+  );
 
-      return true;
-    })
-    .sort((a, b) => {
-      // Sort logic
-      if (sortBy === 'priority') {
-        const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
-        return priorityOrder[a.priority] - priorityOrder[b.priority];
-      } else if (sortBy === 'title') {
-        return a.title.localeCompare(b.title);
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
       } else {
-        // Sort by date (due date or created date)
-        const aDate = a.dueDate || a.createdAt;
-        const bDate = b.dueDate || b.createdAt;
-        return new Date(aDate).getTime() - new Date(bDate).getTime();
+        next.add(taskId);
       }
+      return next;
     });
+  };
 
-  const groupedTasks = useMemo(() => {
-    if (!groupTasksByProject) return null;
-
-    const grouped = projects.map((project) => ({
-      project,
-      tasks: filteredTasks.filter((t) => t.projectId === project.id),
-    }));
-
-    // Add unassigned tasks
-    const unassignedTasks = filteredTasks.filter((t) => !t.projectId);
-    if (unassignedTasks.length > 0) {
-      grouped.push({
-        project: {
-          id: 'unassigned',
-          name: 'Inbox',
-          description: 'Tasks without a project',
-          color: colors.secondaryText,
-          status: 'todo' as const,
-          progress: 0,
-          order: 999,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        tasks: unassignedTasks,
-      });
-    }
+  const handleToggleComplete = (task: Task, undoMessage?: string) => {
+    confirmSubtaskCompletion(task, tasks, (includeSubtasks) => {
+      const toggle = () => toggleTaskComplete(task.id, includeSubtasks);
+      confirmProjectCompletion(undoMessage ? runWithUndoToast(undoMessage, toggle) : toggle(), completeProject);
+    });
+  };
+
+  const groupedTasks = useMemo(
+    () => (groupBy === 'none' ? null : groupTasks(filteredTasks, groupBy, { projects, tags })),
+    [groupBy, filteredTasks, projects, tags]
+  );
 
-    return grouped.filter(g => g.tasks.length > 0);
-  }, [groupTasksByProject, filteredTasks, projects, colors]);
+  const handleSelectPerspective = (perspectiveId: string | null) => {
+    haptics.selection();
+    const perspective = perspectives.find((p) => p.id === perspectiveId);
+    setTaskView(
+      perspective
+        ? { perspectiveId: perspective.id, query: perspective.query, sortBy: perspective.sortBy, groupBy: perspective.groupBy }
+        : { perspectiveId: null, query: '', sortBy: 'date', groupBy: undefined }
+    );
+  };
+
+  const handleSavePerspective = () => {
+    haptics.light();
+    if (activePerspective && isPerspectiveModified) {
+      updatePerspective(activePerspective.id, { query, sortBy, groupBy });
+      showUndoToast(`Updated "${activePerspective.name}"`);
+      return;
+    }
+    router.push({ pathname: '/perspectives', params: { query, sortBy, groupBy } });
+  };
 
   const handleAddTask = () => {
     if (newTask.title.trim()) {
@@ -178,6 +207,7 @@ export default function TasksScreen() {
   const getTaskCounts = () => {
     return {
       all: tasks.length,
+      available: tasks.filter((t) => isTaskAvailable(t, tasks)).length,
       todo: tasks.filter((t) => t.status === 'todo').length,
       'in-progress': tasks.filter((t) => t.status === 'in-progress').length,
       completed: tasks.filter((t) => t.status === 'completed').length,
@@ -186,9 +216,102 @@ export default function TasksScreen() {
 
   const counts = getTaskCounts();
 
+  const renderEmptyState = () => {
+    if (!query.trim()) {
+      return (
+        <EmptyState
+          emoji="✨"
+          title="Ready to Start?"
+          message="No tasks yet. Create your first task to get organized and boost your productivity!"
+          actionLabel="Create Task"
+          onAction={() => setIsAddModalVisible(true)}
+        />
+      );
+    }
+
+    // A query that only picks a status gets that status's own message
+    const terms = parseTaskQuery(query);
+    if (terms.length === 1 && ['available', 'todo', 'in-progress', 'completed'].includes(filterStatus)) {
+      return (
+        <EmptyState
+          emoji={
+            filterStatus === 'completed' ? '🎉' :
+            filterStatus === 'in-progress' ? '⚡' :
+            filterStatus === 'available' ? '⛓️' : '📝'
+          }
+          title={`No ${filterStatus.charAt(0).toUpperCase() + filterStatus.slice(1)} Tasks`}
+          message={
+            filterStatus === 'completed'
+              ? 'Complete some tasks to see them here!'
+              : filterStatus === 'in-progress'
+              ? 'Start working on a task to see it here!'
+              : filterStatus === 'available'
+              ? 'Every open task is waiting on a prerequisite.'
+              : 'Create a task to get started!'
+          }
+        />
+      );
+    }
+
+    return (
+      <EmptyState
+        emoji="🔍"
+        title="No Results"
+        message={`No tasks match "${query.trim()}"`}
+        actionLabel="Clear Filter"
+        onAction={() => setQuery('')}
+      />
+    );
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
       <View style={styles.header}>
+        {/* Perspectives */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={[styles.filterContainer, styles.perspectiveContainer]}
+        >
+          {[null, ...sortedPerspectives].map((perspective) => {
+            const isSelected = (perspective?.id ?? null) === taskView.perspectiveId;
+            return (
+              <TouchableOpacity
+                key={perspective?.id ?? 'all'}
+                style={[
+                  styles.filterChip,
+                  {
+                    backgroundColor: isSelected ? colors.primary : colors.secondaryBackground,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                onPress={() => handleSelectPerspective(perspective?.id ?? null)}
+                accessibilityRole="button"
+                accessibilityLabel={`${perspective ? perspective.name : 'All tasks'} perspective`}
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text
+                  style={[
+                    styles.filterChipText,
+                    { color: isSelected ? '#FFFFFF' : colors.text, ...typography.subheadline },
+                  ]}
+                >
+                  {perspective ? `${perspective.icon} ${perspective.name}` : '📋 All Tasks'}
+                  {isSelected && isPerspectiveModified ? ' •' : ''}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            style={[styles.filterChip, { backgroundColor: colors.secondaryBackground, borderColor: colors.separator }]}
+            onPress={() => router.push('/perspectives')}
+            accessibilityRole="button"
+            accessibilityLabel="Manage perspectives"
+          >
+            <Text style={[styles.filterChipText, { color: colors.primary, ...typography.subheadline }]}>Edit</Text>
+          </TouchableOpacity>
+        </ScrollView>
+
         {/* Search Bar */}
         <View
           style={[styles.searchContainer, { backgroundColor: colors.secondaryBackground }]}
@@ -197,18 +320,20 @@ export default function TasksScreen() {
           <Text style={{ fontSize: 16, marginRight: 8 }} accessible={false}>🔍</Text>
           <TextInput
             style={[styles.searchInput, { color: colors.text, ...typography.body }]}
-            placeholder="Search tasks..."
+            placeholder="Search or filter, e.g. due<7d !blocked"
             placeholderTextColor={colors.tertiaryText}
-            value={searchQuery}
-            onChangeText={setSearchQuery}
+            value={query}
+            onChangeText={setQuery}
+            autoCapitalize="none"
+            autoCorrect={false}
             accessible={true}
             accessibilityLabel="Search tasks"
-            accessibilityHint="Type to search through your tasks"
+            accessibilityHint="Type words to search, or a filter such as status:todo priority>=high due<7d tag:errands"
             accessibilityRole="search"
           />
-          {searchQuery.length > 0 && (
+          {query.length > 0 && (
             <TouchableOpacity
-              onPress={() => setSearchQuery('')}
+              onPress={() => setQuery('')}
               accessible={true}
               accessibilityLabel="Clear search"
               accessibilityRole="button"
@@ -216,7 +341,25 @@ export default function TasksScreen() {
               <Text style={{ fontSize: 16, color: colors.tertiaryText }}>✕</Text>
             </TouchableOpacity>
           )}
+          {(isPerspectiveModified || (!activePerspective && query.trim().length > 0)) && (
+            <TouchableOpacity
+              style={styles.savePerspectiveButton}
+              onPress={handleSavePerspective}
+              accessible={true}
+              accessibilityLabel={isPerspectiveModified ? `Update perspective ${activePerspective!.name}` : 'Save as perspective'}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.savePerspectiveText, { color: colors.primary, ...typography.subheadline }]}>
+                {isPerspectiveModified ? 'Update' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
+        {compiledQuery.errors.length > 0 && (
+          <Text style={[styles.queryError, { color: colors.orange, ...typography.caption1 }]}>
+            {compiledQuery.errors.join(' · ')}
+          </Text>
+        )}
 
         {/* Sort and Filter */}
         <View style={styles.filterRow}>
@@ -226,6 +369,7 @@ export default function TasksScreen() {
           >
             <Text style={[styles.sortButtonText, { color: colors.text, ...typography.subheadline }]}>
               Sort: {sortBy === 'date' ? '📅 Date' : sortBy === 'priority' ? '⚡ Priority' : '🔤 Title'}
+              {groupBy !== 'none' ? ` · ${PERSPECTIVE_GROUPINGS.find((grouping) => grouping.value === groupBy)?.label}` : ''}
             </Text>
           </TouchableOpacity>
 
@@ -238,7 +382,7 @@ export default function TasksScreen() {
                 marginLeft: 8,
               }
             ]}
-            onPress={() => setHideCompleted(!hideCompleted)}
+            onPress={() => setQuery(toggleQueryKeyword(query, 'completed', true))}
           >
             <Text style={[styles.sortButtonText, { color: hideCompleted ? '#FFFFFF' : colors.text, ...typography.subheadline }]}>
               {hideCompleted ? '👁️ Show All' : '👁️‍🗨️ Hide Done'}
@@ -254,7 +398,7 @@ export default function TasksScreen() {
                 marginLeft: 8,
               }
             ]}
-            onPress={() => setShowOnlyFlagged(!showOnlyFlagged)}
+            onPress={() => setQuery(toggleQueryKeyword(query, 'flagged'))}
           >
             <Text style={[styles.sortButtonText, { color: showOnlyFlagged ? '#FFFFFF' : colors.text, ...typography.subheadline }]}>
               {showOnlyFlagged ? '⭐ All' : '⭐ Flagged'}
@@ -285,7 +429,7 @@ export default function TasksScreen() {
             showsHorizontalScrollIndicator={false}
             contentContainerStyle={styles.filterContainer}
           >
-          {(['all', 'todo', 'in-progress', 'completed'] as const).map((status) => (
+          {(['all', 'available', 'todo', 'in-progress', 'completed'] as const).map((status) => (
             <TouchableOpacity
               key={status}
               style={[
@@ -296,7 +440,7 @@ export default function TasksScreen() {
                   borderColor: colors.separator,
                 },
               ]}
-              onPress={() => setFilterStatus(status)}
+              onPress={() => setQuery(setQueryTerm(query, 'status', status === 'all' ? null : status))}
             >
               <Text
                 style={[
@@ -315,31 +459,89 @@ export default function TasksScreen() {
           </ScrollView>
         </View>
 
+        {tags.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={[styles.filterContainer, styles.tagFilterContainer]}
+          >
+            {getTagTree(tags).map(({ tag }) => {
+              const isSelected = !!filterTagName && filterTagName.toLowerCase() === tag.name.toLowerCase();
+              return (
+                <TouchableOpacity
+                  key={tag.id}
+                  style={[
+                    styles.filterChip,
+                    styles.tagFilterChip,
+                    {
+                      backgroundColor: isSelected ? tag.color : colors.secondaryBackground,
+                      borderColor: colors.separator,
+                    },
+                  ]}
+                  onPress={() => {
+                    haptics.selection();
+                    setQuery(setQueryTerm(query, 'tag', isSelected ? null : tag.name));
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Filter by tag ${tag.name}`}
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  {!isSelected && <View style={[styles.tagFilterDot, { backgroundColor: tag.color }]} />}
+                  <Text
+                    style={[
+                      styles.filterChipText,
+                      { color: isSelected ? '#FFFFFF' : colors.text, ...typography.subheadline },
+                    ]}
+                  >
+                    {tag.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
         {/* Sort Menu */}
         {showSortMenu && (
           <View style={[styles.sortMenu, { backgroundColor: colors.card, borderColor: colors.separator }]}>
-            {(['date', 'priority', 'title'] as const).map((sort) => (
+            {PERSPECTIVE_SORTS.map((sort) => (
               <TouchableOpacity
-                key={sort}
+                key={sort.value}
                 style={styles.sortOption}
                 onPress={() => {
-                  setSortBy(sort);
+                  setTaskView({ sortBy: sort.value });
                   setShowSortMenu(false);
                 }}
               >
                 <Text style={[styles.sortOptionText, { color: colors.text, ...typography.body }]}>
-                  {sort === 'date' && '📅 Due Date'}
-                  {sort === 'priority' && '⚡ Priority'}
-                  {sort === 'title' && '🔤 Alphabetical'}
+                  {sort.label}
                 </Text>
-                {sortBy === sort && <Text style={{ color: colors.primary }}>✓</Text>}
+                {sortBy === sort.value && <Text style={{ color: colors.primary }}>✓</Text>}
+              </TouchableOpacity>
+            ))}
+            <Text style={[styles.sortMenuHeading, { color: colors.secondaryText, borderTopColor: colors.separator, ...typography.caption1 }]}>
+              Group By
+            </Text>
+            {PERSPECTIVE_GROUPINGS.map((grouping) => (
+              <TouchableOpacity
+                key={grouping.value}
+                style={styles.sortOption}
+                onPress={() => {
+                  setTaskView({ groupBy: grouping.value });
+                  setShowSortMenu(false);
+                }}
+              >
+                <Text style={[styles.sortOptionText, { color: colors.text, ...typography.body }]}>
+                  {grouping.label}
+                </Text>
+                {groupBy === grouping.value && <Text style={{ color: colors.primary }}>✓</Text>}
               </TouchableOpacity>
             ))}
           </View>
         )}
       </View>
 
-      {groupTasksByProject && groupedTasks ? (
+      {groupedTasks ? (
         <ScrollView
           contentContainerStyle={styles.listContent}
           refreshControl={
@@ -375,6 +577,7 @@ export default function TasksScreen() {
                     timeBlocks={dailyPlan.timeBlocks}
                     tasks={tasks.filter(t => dailyPlan.taskIds.includes(t.id))}
                     breakDuration={dailyPlan.breakDuration}
+                    busyBlocks={todaysBusyBlocks}
                   />
                 </View>
               )}
@@ -386,64 +589,40 @@ export default function TasksScreen() {
           )}
 
           {groupedTasks.length === 0 ? (
-            searchQuery ? (
-              <EmptyState
-                emoji="🔍"
-                title="No Results"
-                message={`No tasks found matching "${searchQuery}"`}
-                actionLabel="Clear Search"
-                onAction={() => setSearchQuery('')}
-              />
-            ) : filterStatus === 'all' ? (
-              <EmptyState
-                emoji="✨"
-                title="Ready to Start?"
-                message="No tasks yet. Create your first task to get organized and boost your productivity!"
-                actionLabel="Create Task"
-                onAction={() => setIsAddModalVisible(true)}
-              />
-            ) : (
-              <EmptyState
-                emoji={
-                  filterStatus === 'completed' ? '🎉' :
-                  filterStatus === 'in-progress' ? '⚡' : '📝'
-                }
-                title={`No ${filterStatus.charAt(0).toUpperCase() + filterStatus.slice(1)} Tasks`}
-                message={
-                  filterStatus === 'completed'
-                    ? 'Complete some tasks to see them here!'
-                    : filterStatus === 'in-progress'
-                    ? 'Start working on a task to see it here!'
-                    : 'Create a task to get started!'
-                }
-              />
-            )
+            renderEmptyState()
           ) : (
             groupedTasks.map((group) => (
-              <View key={group.project.id} style={styles.projectGroup}>
+              <View key={group.id} style={styles.projectGroup}>
                 <View style={[styles.projectHeader, { backgroundColor: colors.secondaryBackground }]}>
-                  <View style={[styles.projectColorDot, { backgroundColor: group.project.color }]} />
+                  <View style={[styles.projectColorDot, { backgroundColor: group.color || colors.secondaryText }]} />
                   <Text style={[styles.projectName, { color: colors.text, ...typography.title3 }]}>
-                    {group.project.name}
+                    {group.title}
                   </Text>
                   <Text style={[styles.taskCount, { color: colors.secondaryText, ...typography.caption1 }]}>
                     ({group.tasks.length})
                   </Text>
                 </View>
-                {group.tasks.map((task) => (
+                {getTaskOutline(group.tasks, collapsedTaskIds).map(({ task, depth, subtaskCount }) => (
                   <SwipeableTaskRow
                     key={task.id}
-                    onComplete={() => toggleTaskComplete(task.id)}
+                    onComplete={() => handleToggleComplete(task, 'Task completed')}
                     onDefer={() => updateTask(task.id, { status: 'deferred' })}
                   >
                     <TaskRow
                       task={task}
                       onPress={() => router.push(`/task/${task.id}`)}
-                      onToggleComplete={() => toggleTaskComplete(task.id)}
+                      onToggleComplete={() => handleToggleComplete(task)}
                       onToggleFlag={() => toggleTaskFlag(task.id)}
-                      onDelete={() => deleteTask(task.id)}
+                      onDelete={(scope) => deleteTask(task.id, scope)}
                       onChangeStatus={(status) => updateTask(task.id, { status })}
                       onChangePriority={(priority) => updateTask(task.id, { priority })}
+                      onSkipOccurrence={() => skipOccurrence(task.id)}
+                      onRescheduleOccurrence={(date) => rescheduleOccurrence(task.id, date)}
+                      isCritical={criticalTaskIds.has(task.id)}
+                      depth={depth}
+                      subtaskCount={subtaskCount}
+                      isCollapsed={collapsedTaskIds.has(task.id)}
+                      onToggleCollapse={() => toggleCollapsed(task.id)}
                       density={viewDensity}
                     />
                   </SwipeableTaskRow>
@@ -454,8 +633,8 @@ export default function TasksScreen() {
         </ScrollView>
       ) : (
         <FlatList
-          data={filteredTasks}
-          keyExtractor={(item) => item.id}
+          data={getTaskOutline(filteredTasks, collapsedTaskIds)}
+          keyExtractor={(item) => item.task.id}
           ListHeaderComponent={
             hasTodaysPlan && dailyPlan ? (
               <View style={styles.dayViewContainer}>
@@ -481,6 +660,7 @@ export default function TasksScreen() {
                       timeBlocks={dailyPlan.timeBlocks}
                       tasks={tasks.filter(t => dailyPlan.taskIds.includes(t.id))}
                       breakDuration={dailyPlan.breakDuration}
+                      busyBlocks={todaysBusyBlocks}
                     />
                   </View>
                 )}
@@ -491,19 +671,26 @@ export default function TasksScreen() {
               </View>
             ) : null
           }
-          renderItem={({ item }) => (
+          renderItem={({ item: { task, depth, subtaskCount } }) => (
             <SwipeableTaskRow
-              onComplete={() => toggleTaskComplete(item.id)}
-              onDefer={() => updateTask(item.id, { status: 'deferred' })}
+              onComplete={() => handleToggleComplete(task, 'Task completed')}
+              onDefer={() => updateTask(task.id, { status: 'deferred' })}
             >
               <TaskRow
-                task={item}
-                onPress={() => router.push(`/task/${item.id}`)}
-                onToggleComplete={() => toggleTaskComplete(item.id)}
-                onToggleFlag={() => toggleTaskFlag(item.id)}
-                onDelete={() => deleteTask(item.id)}
-                onChangeStatus={(status) => updateTask(item.id, { status })}
-                onChangePriority={(priority) => updateTask(item.id, { priority })}
+                task={task}
+                onPress={() => router.push(`/task/${task.id}`)}
+                onToggleComplete={() => handleToggleComplete(task)}
+                onToggleFlag={() => toggleTaskFlag(task.id)}
+                onDelete={(scope) => deleteTask(task.id, scope)}
+                onChangeStatus={(status) => updateTask(task.id, { status })}
+                onChangePriority={(priority) => updateTask(task.id, { priority })}
+                onSkipOccurrence={() => skipOccurrence(task.id)}
+                onRescheduleOccurrence={(date) => rescheduleOccurrence(task.id, date)}
+                isCritical={criticalTaskIds.has(task.id)}
+                depth={depth}
+                subtaskCount={subtaskCount}
+                isCollapsed={collapsedTaskIds.has(task.id)}
+                onToggleCollapse={() => toggleCollapsed(task.id)}
                 density={viewDensity}
               />
             </SwipeableTaskRow>
@@ -517,40 +704,7 @@ export default function TasksScreen() {
               colors={[colors.primary]}
             />
           }
-          ListEmptyComponent={
-            searchQuery ? (
-              <EmptyState
-                emoji="🔍"
-                title="No Results"
-                message={`No tasks found matching "${searchQuery}"`}
-                actionLabel="Clear Search"
-                onAction={() => setSearchQuery('')}
-              />
-            ) : filterStatus === 'all' ? (
-              <EmptyState
-                emoji="✨"
-                title="Ready to Start?"
-                message="No tasks yet. Create your first task to get organized and boost your productivity!"
-                actionLabel="Create Task"
-                onAction={() => setIsAddModalVisible(true)}
-              />
-            ) : (
-              <EmptyState
-                emoji={
-                  filterStatus === 'completed' ? '🎉' :
-                  filterStatus === 'in-progress' ? '⚡' : '📝'
-                }
-                title={`No ${filterStatus.charAt(0).toUpperCase() + filterStatus.slice(1)} Tasks`}
-                message={
-                  filterStatus === 'completed'
-                    ? 'Complete some tasks to see them here!'
-                    : filterStatus === 'in-progress'
-                    ? 'Start working on a task to see it here!'
-                    : 'Create a task to get started!'
-                }
-              />
-            )
-          }
+          ListEmptyComponent={renderEmptyState()}
         />
       )}
 
@@ -744,6 +898,22 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontSize: 13,
   },
+  tagFilterContainer: {
+    marginTop: 8,
+  },
+  perspectiveContainer: {
+    marginBottom: 10,
+  },
+  tagFilterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tagFilterDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 5,
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -758,6 +928,17 @@ const styles = StyleSheet.create({
     fontSize: 15,
     padding: 0,
   },
+  savePerspectiveButton: {
+    marginLeft: 10,
+  },
+  savePerspectiveText: {
+    fontWeight: '600',
+  },
+  queryError: {
+    marginHorizontal: 12,
+    marginTop: -4,
+    marginBottom: 8,
+  },
   filterRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -776,7 +957,7 @@ const styles = StyleSheet.create({
   },
   sortMenu: {
     position: 'absolute',
-    top: 120,
+    top: 164,
     left: 16,
     right: 16,
     borderRadius: 12,
@@ -789,6 +970,13 @@ const styles = StyleSheet.create({
     elevation: 8,
     zIndex: 1000,
   },
+  sortMenuHeading: {
+    borderTopWidth: 0.5,
+    marginTop: 4,
+    paddingTop: 10,
+    paddingHorizontal: 12,
+    fontWeight: '600',
+  },
   sortOption: {
     flexDirection: 'row',
     alignItems: 'center',
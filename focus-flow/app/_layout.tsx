@@ -1,11 +1,13 @@
 import { useEffect, useState } from 'react';
 import { Stack } from 'expo-router';
-import { useColorScheme } from 'react-native';
+import { Alert, Platform, useColorScheme } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { useTaskStore } from '../src/store/taskStore';
 import { useSettingsStore } from '../src/store/settingsStore';
+import { useCalendarStore } from '../src/store/calendarStore';
 import { DailyFocusModal } from '../src/components/DailyFocusModal';
+import { UndoToast } from '../src/components/UndoToast';
 import { Colors } from '../src/theme/colors';
 
 export default function RootLayout() {
@@ -14,17 +16,35 @@ export default function RootLayout() {
   const populateSampleData = useTaskStore((state) => state.populateSampleData);
   const shouldShowDailyPrompt = useTaskStore((state) => state.shouldShowDailyPrompt);
   const loadSettings = useSettingsStore((state) => state.loadSettings);
+  const loadCalendars = useCalendarStore((state) => state.loadCalendars);
+  const purgeExpiredTrash = useTaskStore((state) => state.purgeExpiredTrash);
 
   const [showDailyFocus, setShowDailyFocus] = useState(false);
 
   useEffect(() => {
     const initializeData = async () => {
-      // Load settings and task data in parallel
+      // Load settings, task data and imported calendars in parallel
       await Promise.all([
         loadSettings(),
         loadData(),
+        loadCalendars(),
       ]);
 
+      // Leave stored data we couldn't read alone; changes won't be saved until it loads
+      const { loadError } = useTaskStore.getState();
+      if (loadError) {
+        const message = `Your saved data couldn't be loaded, so changes won't be saved until it can be.\n\n${loadError}`;
+        if (Platform.OS === 'web') {
+          alert(`Data Not Loaded\n\n${message}`);
+        } else {
+          Alert.alert('Data Not Loaded', message);
+        }
+        return;
+      }
+
+      // Permanently remove trashed items older than the retention period
+      purgeExpiredTrash(useSettingsStore.getState().trashRetentionDays);
+
       // If no data exists, populate with sample data
       const currentTasks = useTaskStore.getState().tasks;
       if (currentTasks.length === 0) {
@@ -91,12 +111,49 @@ export default function RootLayout() {
               presentation: 'card'
             }}
           />
+          <Stack.Screen
+            name="trash"
+            options={{
+              headerShown: false,
+              presentation: 'card'
+            }}
+          />
+          <Stack.Screen
+            name="tags"
+            options={{
+              headerShown: false,
+              presentation: 'card'
+            }}
+          />
+          <Stack.Screen
+            name="perspectives"
+            options={{
+              headerShown: false,
+              presentation: 'card'
+            }}
+          />
+          <Stack.Screen
+            name="backup"
+            options={{
+              headerShown: false,
+              presentation: 'card'
+            }}
+          />
+          <Stack.Screen
+            name="ical"
+            options={{
+              headerShown: false,
+              presentation: 'card'
+            }}
+          />
         </Stack>
 
         <DailyFocusModal
           visible={showDailyFocus}
           onClose={() => setShowDailyFocus(false)}
         />
+
+        <UndoToast />
       </GestureHandlerRootView>
     </SafeAreaProvider>
   );
@@ -0,0 +1,464 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format } from 'date-fns';
+import { useTaskStore } from '../src/store/taskStore';
+import { useSettingsStore, getPersistedSettings } from '../src/store/settingsStore';
+import { useTheme } from '../src/theme/useTheme';
+import { haptics } from '../src/utils/haptics';
+import { showUndoToast } from '../src/components/UndoToast';
+import { shareTextFile } from '../src/utils/fileExport';
+import {
+  BackupContents,
+  ParsedBackup,
+  RestoreMode,
+  STREAK_STORAGE_KEY,
+  createBackup,
+  parseBackup,
+  planRestore,
+} from '../src/utils/backup';
+
+const RESTORE_MODES: { value: RestoreMode; label: string; description: string }[] = [
+  { value: 'replace', label: 'Replace', description: 'Everything is swapped for the backup' },
+  { value: 'merge', label: 'Merge', description: "Adds the backup's items; ones with the same id take the backup's version" },
+];
+
+/**
+ * Everything that goes into a backup, read from the stores and the streak storage
+ */
+async function loadCurrentContents(): Promise<BackupContents> {
+  const { tasks, projects, focusAreas, tags, perspectives, archivedTasks, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan, trash } =
+    useTaskStore.getState();
+  let streak = null;
+  try {
+    const streakData = await AsyncStorage.getItem(STREAK_STORAGE_KEY);
+    streak = streakData ? JSON.parse(streakData) : null;
+  } catch (error) {
+    console.error('Failed to read streak:', error);
+  }
+
+  return {
+    tasks,
+    projects,
+    focusAreas,
+    tags,
+    perspectives,
+    archivedTasks,
+    dailyGoal,
+    focusedTaskIds,
+    lastPromptDate,
+    dailyPlan,
+    trash,
+    settings: getPersistedSettings(useSettingsStore.getState()),
+    streak,
+  };
+}
+
+export default function BackupScreen() {
+  const router = useRouter();
+  const { colors, typography } = useTheme();
+  const tasks = useTaskStore((state) => state.tasks);
+  const archivedTasks = useTaskStore((state) => state.archivedTasks);
+  const projects = useTaskStore((state) => state.projects);
+  const restoreBackup = useTaskStore((state) => state.restoreBackup);
+  const restoreSettings = useSettingsStore((state) => state.restoreSettings);
+
+  const [pastedText, setPastedText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('replace');
+  const [current, setCurrent] = useState<BackupContents | null>(null);
+
+  // The dry run compares against the data as it is now
+  useEffect(() => {
+    if (backup) {
+      loadCurrentContents().then(setCurrent);
+    }
+  }, [backup, tasks, archivedTasks, projects]);
+
+  const plan = useMemo(
+    () => (backup && current ? planRestore(current, backup.contents, mode) : null),
+    [backup, current, mode]
+  );
+
+  const handleExport = async () => {
+    haptics.light();
+    const text = createBackup(await loadCurrentContents());
+    const fileName = `focus-flow-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
+
+    await shareTextFile(fileName, text, 'application/json');
+    haptics.success();
+  };
+
+  const readBackup = (text: string, name: string | null) => {
+    const result = parseBackup(text);
+    setFileName(name);
+    setBackup(result.backup);
+    setErrors(result.errors);
+    if (result.backup) {
+      haptics.success();
+    } else {
+      haptics.error();
+    }
+  };
+
+  const handleFileSelect = async (event: any) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    readBackup(await file.text(), file.name);
+    // Allow choosing the same file again after fixing it
+    event.target.value = '';
+  };
+
+  const handleRestore = () => {
+    if (!plan) return;
+    haptics.warning();
+    const message =
+      mode === 'replace'
+        ? 'Replace all your data with this backup? You can undo the task data afterwards.'
+        : 'Merge this backup into your data? You can undo the task data afterwards.';
+
+    const onConfirm = async () => {
+      const { settings, streak, ...data } = plan.contents;
+      restoreBackup(data);
+      if (plan.replacesSettings && settings) {
+        restoreSettings(settings);
+      }
+      if (plan.replacesStreak && streak) {
+        await AsyncStorage.setItem(STREAK_STORAGE_KEY, JSON.stringify(streak));
+      }
+      showUndoToast(mode === 'replace' ? 'Backup restored' : 'Backup merged');
+      router.back();
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert('Restore Backup', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: mode === 'replace' ? 'Replace' : 'Merge', style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const describeChange = (change: { added: number; updated: number; removed: number; unchanged: number }) => {
+    const parts = [
+      change.added > 0 && `+${change.added} new`,
+      change.updated > 0 && `${change.updated} changed`,
+      change.removed > 0 && `−${change.removed} removed`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : 'No changes';
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: colors.primary, ...typography.body }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text, ...typography.largeTitle }]}>Backup</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+        {/* Export */}
+        <Text style={[styles.sectionTitle, { color: colors.text, ...typography.title3 }]}>Back Up</Text>
+        <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+          <Text style={[styles.description, { color: colors.secondaryText, ...typography.subheadline }]}>
+            Saves tasks, archived tasks, projects, focus areas, tags, perspectives, trash, the daily plan, settings and
+            your streak to a single JSON file.
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+            onPress={handleExport}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.primaryButtonText, typography.body]}>
+              {Platform.OS === 'web' ? 'Download Backup' : 'Share Backup'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Restore */}
+        <Text style={[styles.sectionTitle, { color: colors.text, ...typography.title3 }]}>Restore</Text>
+        <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+          {Platform.OS === 'web' ? (
+            <>
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleFileSelect}
+                style={{ display: 'none' }}
+                id="backup-upload"
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.primary }]}
+                onPress={() => (document.getElementById('backup-upload') as HTMLInputElement | null)?.click()}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.secondaryButtonText, { color: colors.primary, ...typography.body }]}>
+                  {fileName ? `📄 ${fileName}` : 'Choose Backup File'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TextInput
+                style={[
+                  styles.pasteInput,
+                  { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.caption1 },
+                ]}
+                value={pastedText}
+                onChangeText={setPastedText}
+                placeholder="Paste the contents of a backup file"
+                placeholderTextColor={colors.tertiaryText}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.primary }]}
+                onPress={() => readBackup(pastedText, null)}
+                disabled={!pastedText.trim()}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.secondaryButtonText, { color: colors.primary, ...typography.body }]}>Check Backup</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {errors.length > 0 && (
+            <View style={[styles.messageBox, { backgroundColor: colors.red + '15' }]}>
+              <Text style={[styles.messageTitle, { color: colors.red, ...typography.subheadline }]}>
+                This backup can't be restored
+              </Text>
+              {errors.map((error) => (
+                <Text key={error} style={[styles.messageText, { color: colors.red, ...typography.caption1 }]}>
+                  • {error}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {backup && (
+            <>
+              <Text style={[styles.backupInfo, { color: colors.secondaryText, ...typography.caption1 }]}>
+                Made {isNaN(backup.exportedAt.getTime()) ? 'on an unknown date' : format(backup.exportedAt, "MMM d, yyyy 'at' h:mm a")}
+                {' · '}schema v{backup.schemaVersion}
+              </Text>
+
+              {backup.warnings.length > 0 && (
+                <View style={[styles.messageBox, { backgroundColor: colors.orange + '15' }]}>
+                  {backup.warnings.map((warning) => (
+                    <Text key={warning} style={[styles.messageText, { color: colors.orange, ...typography.caption1 }]}>
+                      • {warning}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.segmentedControl}>
+                {RESTORE_MODES.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.segment,
+                      { backgroundColor: mode === option.value ? colors.primary : colors.secondaryBackground },
+                    ]}
+                    onPress={() => {
+                      haptics.selection();
+                      setMode(option.value);
+                    }}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: mode === option.value }}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        { color: mode === option.value ? '#FFFFFF' : colors.text, ...typography.subheadline },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={[styles.description, { color: colors.secondaryText, ...typography.caption1 }]}>
+                {RESTORE_MODES.find((option) => option.value === mode)?.description}
+              </Text>
+
+              {plan && (
+                <View style={[styles.summary, { borderColor: colors.separator }]}>
+                  <Text style={[styles.summaryTitle, { color: colors.text, ...typography.headline }]}>What would change</Text>
+                  {plan.changes.map((change) => (
+                    <View key={change.label} style={[styles.summaryRow, { borderTopColor: colors.separator }]}>
+                      <Text style={[styles.summaryLabel, { color: colors.text, ...typography.subheadline }]}>{change.label}</Text>
+                      <Text
+                        style={[
+                          styles.summaryValue,
+                          { color: change.removed > 0 ? colors.red : colors.secondaryText, ...typography.caption1 },
+                        ]}
+                      >
+                        {describeChange(change)}
+                      </Text>
+                    </View>
+                  ))}
+                  {[
+                    { label: 'Daily plan', replaced: plan.replacesDailyPlan },
+                    { label: 'Settings', replaced: plan.replacesSettings },
+                    { label: 'Streak', replaced: plan.replacesStreak },
+                  ].map((item) => (
+                    <View key={item.label} style={[styles.summaryRow, { borderTopColor: colors.separator }]}>
+                      <Text style={[styles.summaryLabel, { color: colors.text, ...typography.subheadline }]}>{item.label}</Text>
+                      <Text style={[styles.summaryValue, { color: colors.secondaryText, ...typography.caption1 }]}>
+                        {item.replaced ? 'From backup' : 'Kept'}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: mode === 'replace' ? colors.red : colors.primary }]}
+                onPress={handleRestore}
+                disabled={!plan}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.primaryButtonText, typography.body]}>
+                  {mode === 'replace' ? 'Replace My Data' : 'Merge Into My Data'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backButton: {
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 0.5,
+    padding: 16,
+    gap: 12,
+    marginBottom: 16,
+  },
+  description: {
+    lineHeight: 20,
+  },
+  primaryButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+  },
+  pasteInput: {
+    minHeight: 120,
+    maxHeight: 240,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  messageBox: {
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  messageTitle: {
+    fontWeight: '600',
+  },
+  messageText: {
+    lineHeight: 18,
+  },
+  backupInfo: {
+    fontWeight: '500',
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontWeight: '600',
+  },
+  summary: {
+    borderWidth: 0.5,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  summaryTitle: {
+    fontWeight: '600',
+    padding: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 0.5,
+  },
+  summaryLabel: {
+    fontWeight: '500',
+  },
+  summaryValue: {
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,486 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, TextInput, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { format } from 'date-fns';
+import { useTaskStore } from '../src/store/taskStore';
+import { useCalendarStore } from '../src/store/calendarStore';
+import { useTheme } from '../src/theme/useTheme';
+import { haptics } from '../src/utils/haptics';
+import { shareTextFile } from '../src/utils/fileExport';
+import { ICalScope, ParsedICalendar, createICalendar, getICalItems, parseICalendar } from '../src/utils/ical';
+import { ExternalCalendar } from '../src/types';
+
+// Scope chips are keyed 'all', 'area:<id>' or 'project:<id>'
+function parseScopeKey(key: string): ICalScope {
+  const [type, id] = key.split(':');
+  if (type === 'area' && id) return { type: 'focusArea', id };
+  if (type === 'project' && id) return { type: 'project', id };
+  return { type: 'all' };
+}
+
+export default function ICalScreen() {
+  const router = useRouter();
+  const { colors, typography } = useTheme();
+  const tasks = useTaskStore((state) => state.tasks);
+  const projects = useTaskStore((state) => state.projects);
+  const focusAreas = useTaskStore((state) => state.focusAreas);
+  const tags = useTaskStore((state) => state.tags);
+  const dailyPlan = useTaskStore((state) => state.dailyPlan);
+  const calendars = useCalendarStore((state) => state.calendars);
+  const importCalendar = useCalendarStore((state) => state.importCalendar);
+  const removeCalendar = useCalendarStore((state) => state.removeCalendar);
+
+  const [scopeKey, setScopeKey] = useState('all');
+  const [includeCompleted, setIncludeCompleted] = useState(false);
+  const [includeTimeBlocks, setIncludeTimeBlocks] = useState(true);
+
+  const [pastedText, setPastedText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedICalendar | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [calendarName, setCalendarName] = useState('');
+
+  const data = useMemo(
+    () => ({ tasks, projects, focusAreas, tags, dailyPlan }),
+    [tasks, projects, focusAreas, tags, dailyPlan]
+  );
+  const options = { scope: parseScopeKey(scopeKey), includeCompleted, includeTimeBlocks };
+  const preview = useMemo(() => getICalItems(data, options), [data, scopeKey, includeCompleted, includeTimeBlocks]);
+  const repeatingCount = preview.tasks.filter((task) => task.isRecurring && task.status !== 'completed').length;
+
+  const scopeOptions = [
+    { key: 'all', label: 'Everything' },
+    ...[...focusAreas]
+      .sort((a, b) => a.order - b.order)
+      .map((area) => ({ key: `area:${area.id}`, label: `${area.icon || '◎'} ${area.name}` })),
+    ...projects
+      .filter((project) => project.status !== 'completed')
+      .map((project) => ({ key: `project:${project.id}`, label: `${project.icon || '📁'} ${project.name}` })),
+  ];
+
+  const handleExport = async () => {
+    haptics.light();
+    const text = createICalendar(data, options);
+    const fileName = `focus-flow-${format(new Date(), 'yyyy-MM-dd')}.ics`;
+
+    await shareTextFile(fileName, text, 'text/calendar');
+    haptics.success();
+  };
+
+  const readCalendar = (text: string, name: string | null) => {
+    const result = parseICalendar(text);
+    setFileName(name);
+    setParsed(result.calendar);
+    setErrors(result.errors);
+    if (result.calendar) {
+      setCalendarName(result.calendar.name || name?.replace(/\.ics$/i, '') || 'Calendar');
+      haptics.success();
+    } else {
+      haptics.error();
+    }
+  };
+
+  const handleFileSelect = async (event: any) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    readCalendar(await file.text(), file.name);
+    // Allow choosing the same file again after it changed
+    event.target.value = '';
+  };
+
+  const handleImport = () => {
+    if (!parsed || !calendarName.trim()) return;
+    importCalendar(calendarName.trim(), parsed.events);
+    haptics.success();
+    setParsed(null);
+    setFileName(null);
+    setPastedText('');
+  };
+
+  const handleRemove = (calendar: ExternalCalendar) => {
+    haptics.warning();
+    const message = `Remove "${calendar.name}" and its ${calendar.events.length} events? Planning will no longer work around them.`;
+    const onConfirm = () => {
+      removeCalendar(calendar.id);
+      haptics.success();
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert('Remove Calendar', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const replacedCalendar = calendars.find((calendar) => calendar.name.toLowerCase() === calendarName.trim().toLowerCase());
+  const repeatingEventCount = parsed ? parsed.events.filter((event) => event.rrule).length : 0;
+
+  const renderSwitch = (title: string, description: string, value: boolean, onChange: (value: boolean) => void) => (
+    <View style={styles.optionRow}>
+      <View style={styles.optionInfo}>
+        <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>{title}</Text>
+        <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+          {description}
+        </Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={(next) => {
+          haptics.selection();
+          onChange(next);
+        }}
+        trackColor={{ false: colors.separator, true: colors.primary }}
+        thumbColor="#FFFFFF"
+        accessibilityLabel={title}
+        accessibilityRole="switch"
+      />
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: colors.primary, ...typography.body }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text, ...typography.largeTitle }]}>iCalendar</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.sectionTitle, { color: colors.text, ...typography.title3 }]}>Export</Text>
+        <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+          <Text style={[styles.description, { color: colors.secondaryText, ...typography.subheadline }]}>
+            Creates an .ics file for Calendar, Outlook or Google Calendar. Tasks with a due, start or planned date
+            become to-dos, with their repeat rules; today's time blocks become events.
+          </Text>
+
+          <Text style={[styles.label, { color: colors.text, ...typography.subheadline }]}>Include</Text>
+          <View style={styles.chipRow}>
+            {scopeOptions.map((option) => (
+              <TouchableOpacity
+                key={option.key}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: scopeKey === option.key ? colors.primary : colors.secondaryBackground,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                onPress={() => {
+                  haptics.selection();
+                  setScopeKey(option.key);
+                }}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: scopeKey === option.key }}
+              >
+                <Text
+                  style={[styles.chipText, { color: scopeKey === option.key ? '#FFFFFF' : colors.text, ...typography.caption1 }]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {renderSwitch('Completed Tasks', 'Add finished to-dos, marked as completed', includeCompleted, setIncludeCompleted)}
+          {renderSwitch("Today's Time Blocks", 'Add planned focus time as busy events', includeTimeBlocks, setIncludeTimeBlocks)}
+
+          <Text style={[styles.previewText, { color: colors.secondaryText, ...typography.caption1 }]}>
+            {preview.tasks.length} to-do{preview.tasks.length === 1 ? '' : 's'}
+            {repeatingCount > 0 ? ` (${repeatingCount} repeating)` : ''}
+            {includeTimeBlocks ? ` · ${preview.timeBlocks.length} time block${preview.timeBlocks.length === 1 ? '' : 's'}` : ''}
+          </Text>
+
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              { backgroundColor: colors.primary, opacity: preview.tasks.length + preview.timeBlocks.length > 0 ? 1 : 0.5 },
+            ]}
+            onPress={handleExport}
+            disabled={preview.tasks.length + preview.timeBlocks.length === 0}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.primaryButtonText, typography.body]}>
+              {Platform.OS === 'web' ? 'Download .ics' : 'Share .ics'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Import */}
+        <Text style={[styles.sectionTitle, { color: colors.text, ...typography.title3 }]}>Import Busy Time</Text>
+        <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+          <Text style={[styles.description, { color: colors.secondaryText, ...typography.subheadline }]}>
+            Events from another calendar show on the Calendar tab and in your day plan, and planning schedules focus
+            time around them. They are read-only; import the file again to update them.
+          </Text>
+
+          {Platform.OS === 'web' ? (
+            <>
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFileSelect}
+                style={{ display: 'none' }}
+                id="ical-upload"
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.primary }]}
+                onPress={() => (document.getElementById('ical-upload') as HTMLInputElement | null)?.click()}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.secondaryButtonText, { color: colors.primary, ...typography.body }]}>
+                  {fileName ? `📄 ${fileName}` : 'Choose .ics File'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TextInput
+                style={[
+                  styles.pasteInput,
+                  { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.caption1 },
+                ]}
+                value={pastedText}
+                onChangeText={setPastedText}
+                placeholder="Paste the contents of an .ics file"
+                placeholderTextColor={colors.tertiaryText}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.primary }]}
+                onPress={() => readCalendar(pastedText, null)}
+                disabled={!pastedText.trim()}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.secondaryButtonText, { color: colors.primary, ...typography.body }]}>Read Events</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {errors.length > 0 && (
+            <View style={[styles.messageBox, { backgroundColor: colors.red + '15' }]}>
+              {errors.map((error) => (
+                <Text key={error} style={[styles.messageText, { color: colors.red, ...typography.caption1 }]}>
+                  • {error}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {parsed && (
+            <>
+              <Text style={[styles.previewText, { color: colors.secondaryText, ...typography.caption1 }]}>
+                {parsed.events.length} event{parsed.events.length === 1 ? '' : 's'}
+                {repeatingEventCount > 0 ? ` (${repeatingEventCount} repeating)` : ''}
+                {parsed.skipped > 0 ? ` · ${parsed.skipped} cancelled or free skipped` : ''}
+              </Text>
+
+              {parsed.warnings.length > 0 && (
+                <View style={[styles.messageBox, { backgroundColor: colors.orange + '15' }]}>
+                  {parsed.warnings.map((warning) => (
+                    <Text key={warning} style={[styles.messageText, { color: colors.orange, ...typography.caption1 }]}>
+                      • {warning}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              <Text style={[styles.label, { color: colors.text, ...typography.subheadline }]}>Calendar Name</Text>
+              <TextInput
+                style={[
+                  styles.nameInput,
+                  { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.body },
+                ]}
+                value={calendarName}
+                onChangeText={setCalendarName}
+                placeholder="e.g. Work"
+                placeholderTextColor={colors.tertiaryText}
+              />
+              {replacedCalendar && (
+                <Text style={[styles.description, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  Replaces the {replacedCalendar.events.length} events imported into "{replacedCalendar.name}"
+                </Text>
+              )}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: colors.primary, opacity: calendarName.trim() ? 1 : 0.5 }]}
+                onPress={handleImport}
+                disabled={!calendarName.trim()}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.primaryButtonText, typography.body]}>
+                  {replacedCalendar ? 'Update Calendar' : 'Import Events'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {calendars.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.text, ...typography.title3 }]}>Imported Calendars</Text>
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+              {calendars.map((calendar) => (
+                <View key={calendar.id} style={styles.optionRow}>
+                  <View style={[styles.colorDot, { backgroundColor: calendar.color }]} />
+                  <View style={styles.optionInfo}>
+                    <Text style={[styles.optionTitle, { color: colors.text, ...typography.body }]}>{calendar.name}</Text>
+                    <Text style={[styles.optionDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                      {calendar.events.length} event{calendar.events.length === 1 ? '' : 's'} · imported{' '}
+                      {format(calendar.importedAt, 'MMM d, yyyy')}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleRemove(calendar)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Remove ${calendar.name}`}
+                  >
+                    <Text style={[styles.removeText, { color: colors.red, ...typography.subheadline }]}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backButton: {
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 0.5,
+    padding: 16,
+    gap: 12,
+    marginBottom: 16,
+  },
+  description: {
+    lineHeight: 20,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontWeight: '500',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontWeight: '500',
+  },
+  optionDescription: {
+    marginTop: 2,
+  },
+  previewText: {
+    fontWeight: '500',
+  },
+  primaryButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+  },
+  pasteInput: {
+    minHeight: 120,
+    maxHeight: 240,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  messageBox: {
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  messageText: {
+    lineHeight: 18,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  removeText: {
+    fontWeight: '600',
+  },
+});
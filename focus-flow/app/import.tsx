@@ -13,6 +13,8 @@ export default function ImportScreen() {
   const [importStats, setImportStats] = useState<{
     tasks: number;
     projects: number;
+    focusAreas: number;
+    tags: number;
   } | null>(null);
 
   const handleFileSelect = async (event: any) => {
@@ -52,42 +54,68 @@ export default function ImportScreen() {
 
       // Parse the .ofocus file
       console.log('Starting OmniFocus file parse...');
-      const { tasks, projects } = await parseOFocusFile(file);
-      console.log(`Parsed ${projects.length} projects and ${tasks.length} tasks`);
+      const { tasks, projects, focusAreas, tags, warnings } = await parseOFocusFile(file);
 
       setImportProgress(40);
 
       // Import into store using bulk operations
       const store = useTaskStore.getState();
-      const projectNameToId = new Map<string, string>();
+
+      // Folders become focus areas; existing areas with the same name are reused
+      const newFocusAreaIds = store.bulkAddFocusAreas(focusAreas.map(({ id, ...area }) => area));
+      const focusAreaIdMap = new Map<string, string>();
+      focusAreas.forEach((area, index) => {
+        focusAreaIdMap.set(area.id, newFocusAreaIds[index]);
+      });
 
       console.log('Importing projects in bulk...');
       // Bulk import all projects at once (much faster!)
-      const newProjectIds = store.bulkAddProjects(projects);
+      const newProjectIds = store.bulkAddProjects(
+        projects.map(({ id, ...project }) => ({
+          ...project,
+          focusAreaId: project.focusAreaId ? focusAreaIdMap.get(project.focusAreaId) : undefined,
+        }))
+      );
 
-      // Map project names to their new IDs
+      // Map OmniFocus project ids to the new IDs
+      const projectIdMap = new Map<string, string>();
       projects.forEach((project, index) => {
-        projectNameToId.set(project.name, newProjectIds[index]);
+        projectIdMap.set(project.id, newProjectIds[index]);
       });
 
-      setImportProgress(60);
       console.log(`Imported ${projects.length} projects`);
 
+      // Contexts/tags keep their nesting; existing tags with the same name are reused
+      const newTagIds = store.bulkAddTags(tags);
+      const tagIdMap = new Map<string, string>();
+      tags.forEach((tag, index) => {
+        tagIdMap.set(tag.id, newTagIds[index]);
+      });
+
+      setImportProgress(60);
+      console.log(`Imported ${tags.length} tags`);
+
       console.log('Mapping and importing tasks in bulk...');
-      // Map project IDs for all tasks
+      // Map project, focus area and tag IDs for all tasks; parent tasks and
+      // prerequisites keep their OmniFocus ids, which bulkAddTasks resolves
       const mappedTasks = tasks.map((task) => {
         const mappedTask = { ...task };
         if (mappedTask.projectId) {
-          const actualProjectId = projectNameToId.get(mappedTask.projectId);
-          mappedTask.projectId = actualProjectId;
+          mappedTask.projectId = projectIdMap.get(mappedTask.projectId);
+        }
+        if (mappedTask.focusAreaId) {
+          mappedTask.focusAreaId = focusAreaIdMap.get(mappedTask.focusAreaId);
         }
+        mappedTask.tags = mappedTask.tags
+          .map((tagId) => tagIdMap.get(tagId))
+          .filter((tagId): tagId is string => !!tagId);
         return mappedTask;
       });
 
       setImportProgress(80);
 
       // Bulk import all tasks at once
-      store.bulkAddTasks(mappedTasks);
+      const { warnings: taskWarnings } = store.bulkAddTasks(mappedTasks);
 
       setImportProgress(95);
       console.log(`Imported ${tasks.length} tasks`);
@@ -100,11 +128,15 @@ export default function ImportScreen() {
       setImportStats({
         tasks: tasks.length,
         projects: projects.length,
+        focusAreas: focusAreas.length,
+        tags: tags.length,
       });
 
       console.log('Import completed successfully!');
       setTimeout(() => {
-        alert(`Import Successful!\n\nImported ${tasks.length} tasks and ${projects.length} projects from OmniFocus!`);
+        const allWarnings = [...warnings, ...taskWarnings];
+        const skipped = allWarnings.length > 0 ? `\n\n${allWarnings.join('\n')}` : '';
+        alert(`Import Successful!\n\nImported ${tasks.length} tasks, ${projects.length} projects, ${focusAreas.length} focus areas and ${tags.length} tags from OmniFocus!${skipped}`);
       }, 100);
     } catch (error) {
       console.error('Import error:', error);
@@ -292,12 +324,18 @@ export default function ImportScreen() {
               <Text style={[styles.statsTitle, { color: colors.text, ...typography.headline }]}>
                 Import Complete!
               </Text>
+              <Text style={[styles.statsText, { color: colors.secondaryText, ...typography.body }]}>
+                ✓ {importStats.focusAreas} focus areas imported
+              </Text>
               <Text style={[styles.statsText, { color: colors.secondaryText, ...typography.body }]}>
                 ✓ {importStats.projects} projects imported
               </Text>
               <Text style={[styles.statsText, { color: colors.secondaryText, ...typography.body }]}>
                 ✓ {importStats.tasks} tasks imported
               </Text>
+              <Text style={[styles.statsText, { color: colors.secondaryText, ...typography.body }]}>
+                ✓ {importStats.tags} tags imported
+              </Text>
               <TouchableOpacity
                 style={[styles.doneButton, { backgroundColor: colors.primary }]}
                 onPress={() => router.push('/(tabs)')}
@@ -0,0 +1,483 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTaskStore } from '../src/store/taskStore';
+import { useSettingsStore } from '../src/store/settingsStore';
+import { useTheme } from '../src/theme/useTheme';
+import { haptics } from '../src/utils/haptics';
+import { EmptyState } from '../src/components/EmptyState';
+import { compileTaskQuery, QUERY_FIELDS, QUERY_KEYWORDS } from '../src/utils/taskQuery';
+import { PERSPECTIVE_GROUPINGS, PERSPECTIVE_SORTS } from '../src/utils/perspectives';
+import { Perspective, PerspectiveGrouping, PerspectiveSort } from '../src/types';
+
+type PerspectiveDraft = Pick<Perspective, 'name' | 'icon' | 'query' | 'sortBy' | 'groupBy'>;
+
+const DEFAULT_ICON = '🔖';
+
+export default function PerspectivesScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ query?: string; sortBy?: PerspectiveSort; groupBy?: PerspectiveGrouping }>();
+  const { colors, typography } = useTheme();
+  const perspectives = useTaskStore((state) => state.perspectives);
+  const tasks = useTaskStore((state) => state.tasks);
+  const projects = useTaskStore((state) => state.projects);
+  const tags = useTaskStore((state) => state.tags);
+  const focusAreas = useTaskStore((state) => state.focusAreas);
+  const addPerspective = useTaskStore((state) => state.addPerspective);
+  const updatePerspective = useTaskStore((state) => state.updatePerspective);
+  const deletePerspective = useTaskStore((state) => state.deletePerspective);
+  const movePerspective = useTaskStore((state) => state.movePerspective);
+  const setTaskView = useSettingsStore((state) => state.setTaskView);
+
+  // Opened from the Tasks tab's Save button, the new perspective starts from the current view
+  const [newDraft, setNewDraft] = useState<PerspectiveDraft>({
+    name: '',
+    icon: DEFAULT_ICON,
+    query: params.query || '',
+    sortBy: params.sortBy || 'date',
+    groupBy: params.groupBy || 'none',
+  });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<PerspectiveDraft | null>(null);
+
+  const sortedPerspectives = useMemo(() => [...perspectives].sort((a, b) => a.order - b.order), [perspectives]);
+
+  const evaluate = (query: string) => {
+    const compiled = compileTaskQuery(query, { tasks, projects, tags, focusAreas });
+    return { count: tasks.filter(compiled.matches).length, errors: compiled.errors };
+  };
+
+  const handleAdd = () => {
+    const name = newDraft.name.trim();
+    if (!name) return;
+    haptics.success();
+    const query = newDraft.query.trim();
+    const id = addPerspective({ ...newDraft, name, icon: newDraft.icon.trim() || DEFAULT_ICON, query });
+    if (params.query !== undefined) {
+      // Saved from the Tasks tab: keep showing it there, now as this perspective
+      setTaskView({ perspectiveId: id, query, sortBy: newDraft.sortBy, groupBy: newDraft.groupBy });
+      router.back();
+      return;
+    }
+    setNewDraft({ name: '', icon: DEFAULT_ICON, query: '', sortBy: 'date', groupBy: 'none' });
+  };
+
+  const handleStartEditing = (perspective: Perspective) => {
+    haptics.light();
+    if (editingId === perspective.id) {
+      setEditingId(null);
+      return;
+    }
+    setEditingId(perspective.id);
+    setEditDraft({
+      name: perspective.name,
+      icon: perspective.icon,
+      query: perspective.query,
+      sortBy: perspective.sortBy,
+      groupBy: perspective.groupBy,
+    });
+  };
+
+  const handleSaveEdit = (perspective: Perspective) => {
+    if (!editDraft || !editDraft.name.trim()) return;
+    haptics.success();
+    updatePerspective(perspective.id, {
+      ...editDraft,
+      name: editDraft.name.trim(),
+      icon: editDraft.icon.trim() || DEFAULT_ICON,
+      query: editDraft.query.trim(),
+    });
+    setEditingId(null);
+  };
+
+  const handleShow = (perspective: Perspective) => {
+    haptics.selection();
+    setTaskView({
+      perspectiveId: perspective.id,
+      query: perspective.query,
+      sortBy: perspective.sortBy,
+      groupBy: perspective.groupBy,
+    });
+    router.push('/tasks');
+  };
+
+  const handleDelete = (perspective: Perspective) => {
+    haptics.warning();
+    const message = `Delete "${perspective.name}"? Your tasks are not affected.`;
+    const onConfirm = () => {
+      setEditingId(null);
+      deletePerspective(perspective.id);
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert('Delete Perspective', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          style={[
+            styles.chip,
+            {
+              backgroundColor: selected === option.value ? colors.primary : colors.secondaryBackground,
+              borderColor: colors.separator,
+            },
+          ]}
+          onPress={() => onSelect(option.value)}
+          accessibilityRole="button"
+          accessibilityState={{ selected: selected === option.value }}
+        >
+          <Text style={[styles.chipText, { color: selected === option.value ? '#FFFFFF' : colors.text, ...typography.caption1 }]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderFields = (draft: PerspectiveDraft, onChange: (draft: PerspectiveDraft) => void) => {
+    const { count, errors } = evaluate(draft.query);
+    const inputStyle = [
+      styles.input,
+      { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.body },
+    ];
+
+    return (
+      <>
+        <View style={styles.nameRow}>
+          <TextInput
+            style={[...inputStyle, styles.iconInput]}
+            value={draft.icon}
+            onChangeText={(icon) => onChange({ ...draft, icon })}
+            maxLength={4}
+            accessibilityLabel="Perspective icon"
+          />
+          <TextInput
+            style={[...inputStyle, styles.nameInput]}
+            value={draft.name}
+            onChangeText={(name) => onChange({ ...draft, name })}
+            placeholder="Perspective name"
+            placeholderTextColor={colors.tertiaryText}
+          />
+        </View>
+
+        <Text style={[styles.editorLabel, { color: colors.secondaryText, ...typography.caption1 }]}>Filter</Text>
+        <TextInput
+          style={[...inputStyle, styles.queryInput]}
+          value={draft.query}
+          onChangeText={(query) => onChange({ ...draft, query })}
+          placeholder='status:todo priority>=high due<7d project:"Website" -blocked'
+          placeholderTextColor={colors.tertiaryText}
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+        />
+        <Text style={[styles.queryStatus, { color: errors.length > 0 ? colors.orange : colors.secondaryText, ...typography.caption1 }]}>
+          {errors.length > 0 ? errors.join(' · ') : `Matches ${count} task${count === 1 ? '' : 's'}`}
+        </Text>
+
+        <Text style={[styles.editorLabel, { color: colors.secondaryText, ...typography.caption1 }]}>Sort</Text>
+        {renderChips(PERSPECTIVE_SORTS, draft.sortBy, (sortBy) => onChange({ ...draft, sortBy }))}
+
+        <Text style={[styles.editorLabel, { color: colors.secondaryText, ...typography.caption1 }]}>Group by</Text>
+        {renderChips(PERSPECTIVE_GROUPINGS, draft.groupBy, (groupBy) => onChange({ ...draft, groupBy }))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: colors.primary, ...typography.body }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text, ...typography.largeTitle }]}>
+          Perspectives
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+        <View style={[styles.card, styles.editor, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+          <Text style={[styles.cardTitle, { color: colors.text, ...typography.headline }]}>New Perspective</Text>
+          {renderFields(newDraft, setNewDraft)}
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: newDraft.name.trim() ? colors.primary : colors.tertiaryText }]}
+            onPress={handleAdd}
+            disabled={!newDraft.name.trim()}
+          >
+            <Text style={[styles.primaryButtonText, typography.subheadline]}>Save Perspective</Text>
+          </TouchableOpacity>
+        </View>
+
+        {sortedPerspectives.length === 0 ? (
+          <EmptyState
+            emoji="🔭"
+            title="No Perspectives Yet"
+            message="Save a filter with its sort and grouping to get back to it from the Tasks tab in one tap."
+          />
+        ) : (
+          sortedPerspectives.map((perspective, index) => {
+            const { count } = evaluate(perspective.query);
+            return (
+              <View key={perspective.id} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.separator }]}>
+                <TouchableOpacity
+                  style={styles.perspectiveRow}
+                  onPress={() => handleStartEditing(perspective)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${perspective.name}, ${count} task${count === 1 ? '' : 's'}`}
+                  accessibilityHint="Double tap to edit"
+                >
+                  <Text style={styles.perspectiveIcon}>{perspective.icon}</Text>
+                  <View style={styles.perspectiveInfo}>
+                    <Text style={[styles.perspectiveName, { color: colors.text, ...typography.body }]} numberOfLines={1}>
+                      {perspective.name}
+                    </Text>
+                    <Text style={[styles.perspectiveQuery, { color: colors.secondaryText, ...typography.caption1 }]} numberOfLines={1}>
+                      {perspective.query || 'All tasks'}
+                    </Text>
+                  </View>
+                  <Text style={[styles.perspectiveCount, { color: colors.secondaryText, ...typography.caption1 }]}>{count}</Text>
+                  <TouchableOpacity
+                    style={[styles.showButton, { backgroundColor: colors.primary + '20' }]}
+                    onPress={() => handleShow(perspective)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Show ${perspective.name}`}
+                  >
+                    <Text style={[styles.showButtonText, { color: colors.primary, ...typography.caption1 }]}>Show</Text>
+                  </TouchableOpacity>
+                </TouchableOpacity>
+
+                {editingId === perspective.id && editDraft && (
+                  <View style={[styles.editor, styles.editorBorder, { borderTopColor: colors.separator }]}>
+                    {renderFields(editDraft, setEditDraft)}
+                    <View style={styles.actionRow}>
+                      <TouchableOpacity
+                        style={[styles.secondaryButton, { borderColor: colors.separator }]}
+                        onPress={() => movePerspective(perspective.id, -1)}
+                        disabled={index === 0}
+                        accessibilityLabel="Move up"
+                      >
+                        <Text style={[styles.secondaryButtonText, { color: index === 0 ? colors.tertiaryText : colors.text }]}>↑</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.secondaryButton, { borderColor: colors.separator }]}
+                        onPress={() => movePerspective(perspective.id, 1)}
+                        disabled={index === sortedPerspectives.length - 1}
+                        accessibilityLabel="Move down"
+                      >
+                        <Text
+                          style={[
+                            styles.secondaryButtonText,
+                            { color: index === sortedPerspectives.length - 1 ? colors.tertiaryText : colors.text },
+                          ]}
+                        >
+                          ↓
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.primaryButton, styles.flexButton, { backgroundColor: colors.primary }]}
+                        onPress={() => handleSaveEdit(perspective)}
+                      >
+                        <Text style={[styles.primaryButtonText, typography.subheadline]}>Save</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.deleteButton, { backgroundColor: colors.red + '20' }]}
+                      onPress={() => handleDelete(perspective)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Delete perspective ${perspective.name}`}
+                    >
+                      <Text style={[styles.deleteButtonText, { color: colors.red, ...typography.subheadline }]}>Delete Perspective</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+
+        <Text style={[styles.help, { color: colors.secondaryText, ...typography.caption1 }]}>
+          Filters combine terms with AND; separate values with commas to match any of them, and put "-" in front of a
+          term to exclude it. Fields: {QUERY_FIELDS.join(', ')}. Keywords: {QUERY_KEYWORDS.join(', ')}. Dates accept
+          today, tomorrow, 7d, 2w or 2025-01-31; estimates accept 30m or 2h. Other words search titles and notes.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backButton: {
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingVertical: 12,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginVertical: 4,
+    borderRadius: 12,
+    borderWidth: 0.5,
+  },
+  cardTitle: {
+    fontWeight: '600',
+  },
+  editor: {
+    padding: 12,
+    gap: 8,
+  },
+  editorBorder: {
+    borderTopWidth: 0.5,
+  },
+  editorLabel: {
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconInput: {
+    width: 52,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  queryInput: {
+    minHeight: 44,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  queryStatus: {
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontWeight: '500',
+  },
+  primaryButton: {
+    marginTop: 8,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  flexButton: {
+    flex: 1,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  secondaryButton: {
+    width: 44,
+    paddingVertical: 9,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  perspectiveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    gap: 10,
+  },
+  perspectiveIcon: {
+    fontSize: 20,
+  },
+  perspectiveInfo: {
+    flex: 1,
+  },
+  perspectiveName: {
+    fontWeight: '500',
+  },
+  perspectiveQuery: {
+    marginTop: 2,
+  },
+  perspectiveCount: {
+    fontWeight: '600',
+  },
+  showButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  showButtonText: {
+    fontWeight: '600',
+  },
+  deleteButton: {
+    marginTop: 8,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontWeight: '600',
+  },
+  help: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    lineHeight: 18,
+  },
+});
@@ -11,13 +11,25 @@ import {
   Modal,
   KeyboardAvoidingView,
   Platform,
+  Switch,
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useTaskStore } from '../../src/store/taskStore';
+import { useSettingsStore } from '../../src/store/settingsStore';
 import { useTheme } from '../../src/theme/useTheme';
 import { TaskRow } from '../../src/components/TaskRow';
 import { DatePicker } from '../../src/components/DatePicker';
-import { TaskPriority } from '../../src/types';
+import { GanttChart } from '../../src/components/GanttChart';
+import { showUndoToast } from '../../src/components/UndoToast';
+import { shiftTaskDates } from '../../src/utils/gantt';
+import { analyzeProjectSchedule } from '../../src/utils/criticalPath';
+import { formatDate } from '../../src/utils/dateUtils';
+import { planDependentReschedule } from '../../src/utils/autoScheduler';
+import { confirmScheduleChanges } from '../../src/components/ScheduleChangeAlert';
+import { confirmSubtaskCompletion } from '../../src/components/SubtaskCompletionAlert';
+import { confirmProjectCompletion } from '../../src/components/ProjectCompletionAlert';
+import { getTaskOutline } from '../../src/utils/subtasks';
+import { Task, TaskPriority } from '../../src/types';
 
 const PROJECT_COLORS = [
   '#FF3B30',
@@ -38,6 +50,9 @@ export default function ProjectDetailScreen() {
 
   const project = useTaskStore((state) => state.projects.find((p) => p.id === id));
   const allProjects = useTaskStore((state) => state.projects);
+  const allTasks = useTaskStore((state) => state.tasks);
+  const autoReschedule = useSettingsStore((state) => state.autoReschedule);
+  const workingDays = useSettingsStore((state) => state.workingDays);
   const tasks = useTaskStore((state) => state.tasks.filter((t) => t.projectId === id));
   const subprojects = useTaskStore((state) => state.projects.filter((p) => p.parentProjectId === id));
   const updateProject = useTaskStore((state) => state.updateProject);
@@ -46,8 +61,11 @@ export default function ProjectDetailScreen() {
   const addTask = useTaskStore((state) => state.addTask);
   const updateTask = useTaskStore((state) => state.updateTask);
   const toggleTaskComplete = useTaskStore((state) => state.toggleTaskComplete);
+  const completeProject = useTaskStore((state) => state.completeProject);
   const toggleTaskFlag = useTaskStore((state) => state.toggleTaskFlag);
   const deleteTask = useTaskStore((state) => state.deleteTask);
+  const skipOccurrence = useTaskStore((state) => state.skipOccurrence);
+  const rescheduleOccurrence = useTaskStore((state) => state.rescheduleOccurrence);
 
   const [name, setName] = useState(project?.name || '');
   const [description, setDescription] = useState(project?.description || '');
@@ -56,6 +74,7 @@ export default function ProjectDetailScreen() {
     project?.status || 'todo'
   );
   const [parentProjectId, setParentProjectId] = useState<string | undefined>(project?.parentProjectId);
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(new Set());
   const [startDate, setStartDate] = useState<string | undefined>(
     project?.startDate ? (typeof project.startDate === 'string' ? project.startDate : project.startDate.toISOString()) : undefined
   );
@@ -78,7 +97,8 @@ export default function ProjectDetailScreen() {
       setStartDate(project.startDate ? (typeof project.startDate === 'string' ? project.startDate : project.startDate.toISOString()) : undefined);
       setTargetDate(project.targetDate ? (typeof project.targetDate === 'string' ? project.targetDate : project.targetDate.toISOString()) : undefined);
     }
-  }, [project]);
+    // Only the edited fields; progress updates as tasks change and shouldn't discard unsaved edits
+  }, [project?.id, project?.name, project?.description, project?.color, project?.status, project?.parentProjectId, project?.startDate, project?.targetDate]);
 
   if (!project) {
     return (
@@ -110,7 +130,7 @@ export default function ProjectDetailScreen() {
   const handleDelete = () => {
     Alert.alert(
       'Delete Project',
-      `Are you sure you want to delete this project? This will also remove ${tasks.length} task(s) from the project.`,
+      `Move this project and its ${tasks.length} task(s) to the Trash? You can restore them from Settings → Trash.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -153,8 +173,39 @@ export default function ProjectDetailScreen() {
     setShowAddSubprojectModal(false);
   };
 
-  const completedTasks = tasks.filter((t) => t.status === 'completed').length;
-  const progress = tasks.length > 0 ? (completedTasks / tasks.length) * 100 : 0;
+  const handleToggleComplete = (task: Task) => {
+    confirmSubtaskCompletion(task, allTasks, (includeSubtasks) =>
+      confirmProjectCompletion(toggleTaskComplete(task.id, includeSubtasks), completeProject)
+    );
+  };
+
+  const handleRescheduleTask = (task: Task, days: number) => {
+    const updates = shiftTaskDates(task, days);
+    const changes = autoReschedule ? planDependentReschedule(allTasks, task.id, updates, workingDays) : [];
+    confirmScheduleChanges(changes, (confirmed) => {
+      updateTask(task.id, updates, undefined, confirmed);
+      showUndoToast(
+        confirmed.length > 0
+          ? `Moved "${task.title}" and ${confirmed.length} dependent task${confirmed.length === 1 ? '' : 's'}`
+          : `Moved "${task.title}" ${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ${days > 0 ? 'later' : 'earlier'}`
+      );
+    });
+  };
+
+  const schedule = analyzeProjectSchedule(project, allProjects, allTasks);
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+  const slackTaskCount = Array.from(schedule.timings.values()).filter((t) => !t.isCritical && t.duration > 0 && t.slack > 0).length;
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -455,19 +506,99 @@ export default function ProjectDetailScreen() {
           </Text>
           <View style={styles.statsRow}>
             <Text style={[styles.statsText, { color: colors.secondaryText, ...typography.body }]}>
-              {completedTasks} of {tasks.length} tasks completed ({Math.round(progress)}%)
+              {project.completedTaskCount ?? 0} of {project.taskCount ?? 0} tasks completed ({project.progress}%)
             </Text>
           </View>
           <View style={[styles.progressBarContainer, { backgroundColor: colors.tertiaryBackground }]}>
             <View
               style={[
                 styles.progressBar,
-                { backgroundColor: color, width: `${progress}%` },
+                { backgroundColor: color, width: `${project.progress}%` },
               ]}
             />
           </View>
+          <View style={styles.weightRow}>
+            <View style={styles.weightInfo}>
+              <Text style={[styles.weightTitle, { color: colors.text, ...typography.body }]}>
+                Weight by Estimate
+              </Text>
+              <Text style={[styles.weightDescription, { color: colors.secondaryText, ...typography.caption1 }]}>
+                Longer tasks count for more of the progress
+              </Text>
+            </View>
+            <Switch
+              value={!!project.weightProgressByEstimate}
+              onValueChange={(value) => updateProject(project.id, { weightProgressByEstimate: value })}
+              trackColor={{ false: colors.separator, true: colors.primary }}
+              thumbColor="#FFFFFF"
+              accessibilityLabel="Weight progress by estimate toggle"
+              accessibilityRole="switch"
+            />
+          </View>
+        </View>
+
+        <View style={styles.tasksSection}>
+          <Text style={[styles.sectionTitle, { color: colors.text, ...typography.headline }]}>
+            Gantt Chart
+          </Text>
+          <GanttChart
+            project={project}
+            projects={allProjects}
+            tasks={allTasks}
+            onPressTask={(task) => router.push(`/task/${task.id}`)}
+            onReschedule={handleRescheduleTask}
+          />
         </View>
 
+        {schedule.criticalPath.length > 0 && (
+          <View style={styles.statsSection}>
+            <Text style={[styles.sectionTitle, { color: colors.text, ...typography.headline }]}>
+              Critical Path
+            </Text>
+            <Text style={[styles.statsText, { color: colors.secondaryText, ...typography.body }]}>
+              Projected finish: {formatDate(schedule.projectedFinish, 'MMM d, yyyy')}
+              {project.targetDate ? ` · Target: ${formatDate(project.targetDate, 'MMM d, yyyy')}` : ''}
+            </Text>
+            {project.targetDate && (
+              <Text
+                style={[
+                  styles.scheduleStatus,
+                  { color: schedule.overrunDays > 0 ? colors.red : colors.green, ...typography.subheadline },
+                ]}
+              >
+                {schedule.overrunDays > 0
+                  ? `⚠️ ${schedule.overrunDays} day${schedule.overrunDays === 1 ? '' : 's'} past the target date`
+                  : '✓ On track for the target date'}
+              </Text>
+            )}
+            {schedule.criticalPath.map((task, index) => {
+              const timing = schedule.timings.get(task.id)!;
+              return (
+                <TouchableOpacity
+                  key={task.id}
+                  style={[styles.criticalTask, { backgroundColor: colors.secondaryBackground }]}
+                  onPress={() => router.push(`/task/${task.id}`)}
+                >
+                  <Text style={[styles.criticalTaskIndex, { color: colors.red, ...typography.caption1 }]}>
+                    {index + 1}
+                  </Text>
+                  <Text style={[styles.criticalTaskTitle, { color: colors.text, ...typography.body }]} numberOfLines={1}>
+                    {task.title}
+                  </Text>
+                  <Text style={[styles.criticalTaskDates, { color: colors.tertiaryText, ...typography.caption1 }]}>
+                    {formatDate(timing.earliestStart, 'MMM d')} · {Math.round(timing.duration * 10) / 10}d
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            {slackTaskCount > 0 && (
+              <Text style={[styles.scheduleNote, { color: colors.tertiaryText, ...typography.caption1 }]}>
+                {slackTaskCount} other task{slackTaskCount === 1 ? ' has' : 's have'} slack and can slip without moving the finish date
+              </Text>
+            )}
+          </View>
+        )}
+
         {subprojects.length > 0 && (
           <View style={styles.tasksSection}>
             <Text style={[styles.sectionTitle, { color: colors.text, ...typography.headline }]}>
@@ -502,18 +633,25 @@ export default function ProjectDetailScreen() {
           </Text>
           {tasks.length > 0 ? (
             <FlatList
-              data={tasks}
+              data={getTaskOutline(tasks, collapsedTaskIds)}
               scrollEnabled={false}
-              keyExtractor={(item) => item.id}
-              renderItem={({ item }) => (
+              keyExtractor={(item) => item.task.id}
+              renderItem={({ item: { task, depth, subtaskCount } }) => (
                 <TaskRow
-                  task={item}
-                  onPress={() => router.push(`/task/${item.id}`)}
-                  onToggleComplete={() => toggleTaskComplete(item.id)}
-                  onToggleFlag={() => toggleTaskFlag(item.id)}
-                  onDelete={() => deleteTask(item.id)}
-                  onChangeStatus={(status) => updateTask(item.id, { status })}
-                  onChangePriority={(priority) => updateTask(item.id, { priority })}
+                  task={task}
+                  onPress={() => router.push(`/task/${task.id}`)}
+                  onToggleComplete={() => handleToggleComplete(task)}
+                  onToggleFlag={() => toggleTaskFlag(task.id)}
+                  onDelete={(scope) => deleteTask(task.id, scope)}
+                  onChangeStatus={(status) => updateTask(task.id, { status })}
+                  onChangePriority={(priority) => updateTask(task.id, { priority })}
+                  onSkipOccurrence={() => skipOccurrence(task.id)}
+                  onRescheduleOccurrence={(date) => rescheduleOccurrence(task.id, date)}
+                  isCritical={schedule.timings.get(task.id)?.isCritical}
+                  depth={depth}
+                  subtaskCount={subtaskCount}
+                  isCollapsed={collapsedTaskIds.has(task.id)}
+                  onToggleCollapse={() => toggleCollapsed(task.id)}
                 />
               )}
             />
@@ -815,6 +953,47 @@ const styles = StyleSheet.create({
     marginBottom: 12,
   },
   statsText: {},
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  weightInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  weightTitle: {
+    fontWeight: '500',
+  },
+  weightDescription: {
+    marginTop: 2,
+  },
+  scheduleStatus: {
+    fontWeight: '600',
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  criticalTask: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  criticalTaskIndex: {
+    width: 20,
+    fontWeight: '700',
+  },
+  criticalTaskTitle: {
+    flex: 1,
+  },
+  criticalTaskDates: {
+    marginLeft: 8,
+  },
+  scheduleNote: {
+    marginTop: 8,
+  },
   progressBarContainer: {
     height: 8,
     borderRadius: 4,
@@ -0,0 +1,358 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useTaskStore } from '../src/store/taskStore';
+import { useTheme } from '../src/theme/useTheme';
+import { haptics } from '../src/utils/haptics';
+import { EmptyState } from '../src/components/EmptyState';
+import { TAG_COLORS, getTagTree, getTagDescendantIds, getTagPath } from '../src/utils/tags';
+import { Tag } from '../src/types';
+
+export default function TagsScreen() {
+  const router = useRouter();
+  const { colors, typography } = useTheme();
+  const tags = useTaskStore((state) => state.tags);
+  const tasks = useTaskStore((state) => state.tasks);
+  const addTag = useTaskStore((state) => state.addTag);
+  const updateTag = useTaskStore((state) => state.updateTag);
+  const deleteTag = useTaskStore((state) => state.deleteTag);
+
+  const [newTagName, setNewTagName] = useState('');
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const tagTree = useMemo(() => getTagTree(tags), [tags]);
+
+  const taskCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    tasks.forEach((task) => task.tags.forEach((id) => counts.set(id, (counts.get(id) || 0) + 1)));
+    return counts;
+  }, [tasks]);
+
+  const handleAddTag = () => {
+    const name = newTagName.trim();
+    if (!name) return;
+    haptics.success();
+    addTag({ name, color: TAG_COLORS[tags.length % TAG_COLORS.length] });
+    setNewTagName('');
+  };
+
+  const handleStartEditing = (tag: Tag) => {
+    haptics.light();
+    if (editingTagId === tag.id) {
+      setEditingTagId(null);
+      return;
+    }
+    setEditingTagId(tag.id);
+    setEditingName(tag.name);
+  };
+
+  const handleRename = (tag: Tag) => {
+    const name = editingName.trim();
+    if (name && name !== tag.name) {
+      updateTag(tag.id, { name });
+    }
+  };
+
+  const handleDelete = (tag: Tag) => {
+    haptics.warning();
+    const count = taskCounts.get(tag.id) || 0;
+    const message = count > 0
+      ? `Delete "${tag.name}"? It will be removed from ${count} task${count === 1 ? '' : 's'}.`
+      : `Delete "${tag.name}"?`;
+    const onConfirm = () => {
+      setEditingTagId(null);
+      deleteTag(tag.id);
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert('Delete Tag', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const renderEditor = (tag: Tag) => {
+    // A tag can't move under itself or one of its own children
+    const excludedParentIds = getTagDescendantIds(tag.id, tags);
+    const parentOptions = tagTree.filter(({ tag: option }) => !excludedParentIds.has(option.id));
+
+    return (
+      <View style={[styles.editor, { borderTopColor: colors.separator }]}>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.body }]}
+          value={editingName}
+          onChangeText={setEditingName}
+          onBlur={() => handleRename(tag)}
+          onSubmitEditing={() => handleRename(tag)}
+          returnKeyType="done"
+          placeholder="Tag name"
+          placeholderTextColor={colors.tertiaryText}
+        />
+
+        <Text style={[styles.editorLabel, { color: colors.secondaryText, ...typography.caption1 }]}>Color</Text>
+        <View style={styles.colorRow}>
+          {TAG_COLORS.map((color) => (
+            <TouchableOpacity
+              key={color}
+              style={[
+                styles.colorSwatch,
+                { backgroundColor: color, borderColor: tag.color === color ? colors.text : 'transparent' },
+              ]}
+              onPress={() => updateTag(tag.id, { color })}
+              accessibilityRole="button"
+              accessibilityLabel={`Color ${color}`}
+              accessibilityState={{ selected: tag.color === color }}
+            />
+          ))}
+        </View>
+
+        <Text style={[styles.editorLabel, { color: colors.secondaryText, ...typography.caption1 }]}>Nested under</Text>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[
+              styles.chip,
+              {
+                backgroundColor: !tag.parentTagId ? colors.primary : colors.secondaryBackground,
+                borderColor: colors.separator,
+              },
+            ]}
+            onPress={() => updateTag(tag.id, { parentTagId: undefined })}
+          >
+            <Text style={[styles.chipText, { color: !tag.parentTagId ? '#FFFFFF' : colors.text, ...typography.caption1 }]}>
+              None
+            </Text>
+          </TouchableOpacity>
+          {parentOptions.map(({ tag: option }) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: tag.parentTagId === option.id ? colors.primary : colors.secondaryBackground,
+                  borderColor: colors.separator,
+                },
+              ]}
+              onPress={() => updateTag(tag.id, { parentTagId: option.id })}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  { color: tag.parentTagId === option.id ? '#FFFFFF' : colors.text, ...typography.caption1 },
+                ]}
+              >
+                {option.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.deleteButton, { backgroundColor: colors.red + '20' }]}
+          onPress={() => handleDelete(tag)}
+          accessibilityRole="button"
+          accessibilityLabel={`Delete tag ${tag.name}`}
+        >
+          <Text style={[styles.deleteButtonText, { color: colors.red, ...typography.subheadline }]}>Delete Tag</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: colors.primary, ...typography.body }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text, ...typography.largeTitle }]}>
+          Tags
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.newTagRow}>
+        <TextInput
+          style={[styles.input, styles.newTagInput, { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.body }]}
+          placeholder="New tag"
+          placeholderTextColor={colors.tertiaryText}
+          value={newTagName}
+          onChangeText={setNewTagName}
+          onSubmitEditing={handleAddTag}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: newTagName.trim() ? colors.primary : colors.tertiaryText }]}
+          onPress={handleAddTag}
+          disabled={!newTagName.trim()}
+        >
+          <Text style={[styles.addButtonText, typography.subheadline]}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {tagTree.length === 0 ? (
+        <EmptyState
+          emoji="🏷"
+          title="No Tags Yet"
+          message="Tags group tasks across projects, like places, people or tools. Nest tags to build a hierarchy."
+        />
+      ) : (
+        <ScrollView style={styles.content}>
+          {tagTree.map(({ tag, depth }) => {
+            const count = taskCounts.get(tag.id) || 0;
+            return (
+              <View
+                key={tag.id}
+                style={[
+                  styles.tagCard,
+                  { backgroundColor: colors.card, borderColor: colors.separator, marginLeft: 16 + depth * 20 },
+                ]}
+              >
+                <TouchableOpacity
+                  style={styles.tagRow}
+                  onPress={() => handleStartEditing(tag)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${getTagPath(tag, tags)}, ${count} task${count === 1 ? '' : 's'}`}
+                  accessibilityHint="Double tap to edit"
+                >
+                  <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                  <Text style={[styles.tagName, { color: colors.text, ...typography.body }]} numberOfLines={1}>
+                    {tag.name}
+                  </Text>
+                  <Text style={[styles.tagCount, { color: colors.secondaryText, ...typography.caption1 }]}>
+                    {count}
+                  </Text>
+                </TouchableOpacity>
+                {editingTagId === tag.id && renderEditor(tag)}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backButton: {
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  newTagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  newTagInput: {
+    flex: 1,
+  },
+  addButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  tagCard: {
+    marginRight: 16,
+    marginVertical: 4,
+    borderRadius: 12,
+    borderWidth: 0.5,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    gap: 10,
+  },
+  tagDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  tagName: {
+    flex: 1,
+    fontWeight: '500',
+  },
+  tagCount: {
+    fontWeight: '600',
+  },
+  editor: {
+    borderTopWidth: 0.5,
+    padding: 12,
+    gap: 8,
+  },
+  editorLabel: {
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontWeight: '500',
+  },
+  deleteButton: {
+    marginTop: 8,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontWeight: '600',
+  },
+});
@@ -11,11 +11,32 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useTaskStore } from '../../src/store/taskStore';
+import { useSettingsStore } from '../../src/store/settingsStore';
 import { useTheme } from '../../src/theme/useTheme';
-import { TaskStatus, TaskPriority, Recurrence } from '../../src/types';
+import { Task, TaskStatus, TaskPriority, Recurrence, SeriesScope, DependencyType } from '../../src/types';
 import { formatDate } from '../../src/utils/dateUtils';
 import { DatePicker } from '../../src/components/DatePicker';
 import { RecurrenceModal } from '../../src/components/RecurrenceModal';
+import { formatRecurrence, getOccurrenceNumber } from '../../src/utils/recurrence';
+import {
+  getDependencyCandidates,
+  getDependencyEdge,
+  getEarliestDates,
+  formatLag,
+  DEPENDENCY_TYPES,
+  DEFAULT_DEPENDENCY_TYPE,
+} from '../../src/utils/dependencyGraph';
+import { RescheduleOccurrenceModal } from '../../src/components/RescheduleOccurrenceModal';
+import { SeriesScopeModal } from '../../src/components/SeriesScopeModal';
+import { runWithUndoToast, showUndoToast } from '../../src/components/UndoToast';
+import { haptics } from '../../src/utils/haptics';
+import { planDependentReschedule } from '../../src/utils/autoScheduler';
+import { confirmScheduleChanges } from '../../src/components/ScheduleChangeAlert';
+import { TAG_COLORS, getTagTree } from '../../src/utils/tags';
+import { getSubtasks, canNestUnder } from '../../src/utils/subtasks';
+import { confirmSubtaskCompletion } from '../../src/components/SubtaskCompletionAlert';
+import { alertFinishBlockers } from '../../src/components/FinishBlockerAlert';
+import { confirmProjectCompletion } from '../../src/components/ProjectCompletionAlert';
 
 export default function TaskDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -24,12 +45,22 @@ export default function TaskDetailScreen() {
 
   const task = useTaskStore((state) => state.tasks.find((t) => t.id === id));
   const allTasks = useTaskStore((state) => state.tasks);
+  const autoReschedule = useSettingsStore((state) => state.autoReschedule);
+  const workingDays = useSettingsStore((state) => state.workingDays);
   const projects = useTaskStore((state) => state.projects);
+  const tags = useTaskStore((state) => state.tags);
+  const addTag = useTaskStore((state) => state.addTag);
+  const setTaskParent = useTaskStore((state) => state.setTaskParent);
+  const toggleTaskComplete = useTaskStore((state) => state.toggleTaskComplete);
+  const completeProject = useTaskStore((state) => state.completeProject);
   const updateTask = useTaskStore((state) => state.updateTask);
   const deleteTask = useTaskStore((state) => state.deleteTask);
   const addTask = useTaskStore((state) => state.addTask);
   const addDependency = useTaskStore((state) => state.addDependency);
   const removeDependency = useTaskStore((state) => state.removeDependency);
+  const updateDependency = useTaskStore((state) => state.updateDependency);
+  const skipOccurrence = useTaskStore((state) => state.skipOccurrence);
+  const rescheduleOccurrence = useTaskStore((state) => state.rescheduleOccurrence);
 
   const [title, setTitle] = useState(task?.title || '');
   const [notes, setNotes] = useState(task?.notes || '');
@@ -39,7 +70,13 @@ export default function TaskDetailScreen() {
   const [showNewDependency, setShowNewDependency] = useState(false);
   const [newDependencyTitle, setNewDependencyTitle] = useState('');
   const [dependencySearch, setDependencySearch] = useState('');
+  const [newDependencyType, setNewDependencyType] = useState<DependencyType>(DEFAULT_DEPENDENCY_TYPE);
+  const [newTagName, setNewTagName] = useState('');
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const [parentSearch, setParentSearch] = useState('');
   const [showRecurrenceModal, setShowRecurrenceModal] = useState(false);
+  const [showRescheduleOccurrence, setShowRescheduleOccurrence] = useState(false);
+  const [seriesScopeAction, setSeriesScopeAction] = useState<'edit' | 'delete' | null>(null);
 
   useEffect(() => {
     if (task) {
@@ -59,27 +96,58 @@ export default function TaskDetailScreen() {
     );
   }
 
+  // Part of a recurring series: either still repeating or generated from one
+  const isSeriesOccurrence = !!task.isRecurring || !!task.parentRecurringTaskId;
+
+  const saveChanges = (scope?: SeriesScope) => {
+    updateTask(
+      id!,
+      {
+        title: title.trim(),
+        notes: notes.trim(),
+        status,
+        priority,
+        projectId,
+      },
+      scope
+    );
+
+    router.back();
+  };
+
   const handleSave = () => {
     if (!title.trim()) {
       Alert.alert('Error', 'Task title is required');
       return;
     }
 
-    updateTask(id!, {
-      title: title.trim(),
-      notes: notes.trim(),
-      status,
-      priority,
-      projectId,
-    });
+    if (status === 'completed' && alertFinishBlockers(task, allTasks)) {
+      return;
+    }
 
-    router.back();
+    const seriesFieldsChanged =
+      title.trim() !== task.title ||
+      notes.trim() !== (task.notes || '') ||
+      priority !== task.priority ||
+      projectId !== task.projectId;
+
+    if (isSeriesOccurrence && seriesFieldsChanged) {
+      setSeriesScopeAction('edit');
+      return;
+    }
+
+    saveChanges();
   };
 
   const handleDelete = () => {
+    if (isSeriesOccurrence) {
+      setSeriesScopeAction('delete');
+      return;
+    }
+
     Alert.alert(
       'Delete Task',
-      'Are you sure you want to delete this task?',
+      'Move this task to the Trash? You can restore it from Settings → Trash.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -94,6 +162,41 @@ export default function TaskDetailScreen() {
     );
   };
 
+  const handleSeriesScopeSelect = (scope: SeriesScope) => {
+    if (seriesScopeAction === 'edit') {
+      saveChanges(scope);
+      return;
+    }
+
+    deleteTask(id!, scope);
+    showUndoToast(
+      scope === 'this' ? `Deleted occurrence of "${task.title}"` : `Deleted recurring "${task.title}"`
+    );
+    router.back();
+  };
+
+  // Date edits go through here so dependents can follow when auto-rescheduling is on
+  const changeDates = (updates: Partial<Task>) => {
+    const changes = autoReschedule ? planDependentReschedule(allTasks, id!, updates, workingDays) : [];
+    confirmScheduleChanges(changes, (confirmed) => updateTask(id!, updates, undefined, confirmed));
+  };
+
+  const handleAddDependency = (dependsOnId: string) => {
+    const error = addDependency(id!, dependsOnId, newDependencyType);
+    if (error) {
+      haptics.error();
+      if (Platform.OS === 'web') {
+        alert(error.message);
+      } else {
+        Alert.alert('Cannot Add Dependency', error.message);
+      }
+    }
+  };
+
+  // Tasks that can become prerequisites without creating a cycle
+  const dependencyCandidateIds = new Set(getDependencyCandidates(allTasks, task.id).map((t) => t.id));
+  const earliestDates = getEarliestDates(task, allTasks);
+
   const handleCreateDependency = () => {
     if (!newDependencyTitle.trim()) {
       Alert.alert('Error', 'Please enter a task title');
@@ -113,13 +216,62 @@ export default function TaskDetailScreen() {
       const allCurrentTasks = useTaskStore.getState().tasks;
       const newTask = allCurrentTasks[allCurrentTasks.length - 1];
       if (newTask) {
-        addDependency(id!, newTask.id);
+        addDependency(id!, newTask.id, newDependencyType);
       }
       setNewDependencyTitle('');
       setShowNewDependency(false);
     }, 100);
   };
 
+  const handleToggleTag = (tagId: string) => {
+    haptics.selection();
+    const taskTags = task.tags.includes(tagId)
+      ? task.tags.filter((t) => t !== tagId)
+      : [...task.tags, tagId];
+    updateTask(id!, { tags: taskTags });
+  };
+
+  const handleCreateTag = () => {
+    const name = newTagName.trim();
+    if (!name) return;
+
+    // Reuse an existing tag rather than creating a duplicate
+    const existing = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    const tagId = existing?.id || addTag({ name, color: TAG_COLORS[tags.length % TAG_COLORS.length] });
+    if (!task.tags.includes(tagId)) {
+      updateTask(id!, { tags: [...task.tags, tagId] });
+    }
+    setNewTagName('');
+  };
+
+  const subtasks = getSubtasks(task.id, allTasks);
+  const parentTask = task.parentTaskId ? allTasks.find((t) => t.id === task.parentTaskId) : undefined;
+  const parentCandidates = parentSearch.trim()
+    ? allTasks
+        .filter((t) => t.id !== task.parentTaskId && t.status !== 'completed' && canNestUnder(task.id, t.id, allTasks))
+        .filter((t) => t.title.toLowerCase().includes(parentSearch.trim().toLowerCase()))
+        .slice(0, 8)
+    : [];
+
+  const handleAddSubtask = () => {
+    if (!newSubtaskTitle.trim()) return;
+    haptics.success();
+    addTask({
+      title: newSubtaskTitle.trim(),
+      status: 'todo',
+      priority: 'medium',
+      projectId: task.projectId,
+      parentTaskId: task.id,
+    });
+    setNewSubtaskTitle('');
+  };
+
+  const handleSetParent = (parentTaskId: string | undefined) => {
+    haptics.light();
+    setTaskParent(task.id, parentTaskId);
+    setParentSearch('');
+  };
+
   const handleRecurrenceSave = (recurrence: Recurrence | null) => {
     if (recurrence) {
       updateTask(id!, {
@@ -134,24 +286,19 @@ export default function TaskDetailScreen() {
     }
   };
 
-  const getRecurrenceLabel = () => {
-    if (!task?.recurrence) return 'None';
+  const handleSkipOccurrence = () => {
+    haptics.medium();
+    runWithUndoToast(`Skipped "${task.title}"`, () => skipOccurrence(id!));
+  };
 
-    const { type, interval } = task.recurrence;
-
-    if (type === 'daily') {
-      return interval === 1 ? 'Daily' : `Every ${interval} days`;
-    } else if (type === 'weekly') {
-      return interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
-    } else if (type === 'monthly') {
-      return interval === 1 ? 'Monthly' : `Every ${interval} months`;
-    } else if (type === 'yearly') {
-      return 'Yearly';
-    } else if (type === 'custom') {
-      return `Every ${interval} days`;
-    }
+  const handleRescheduleOccurrence = (date: Date) => {
+    haptics.success();
+    runWithUndoToast(`Moved "${task.title}" to ${formatDate(date, 'MMM d')}`, () => rescheduleOccurrence(id!, date));
+  };
 
-    return 'Custom';
+  const getRecurrenceLabel = () => {
+    if (!task?.recurrence) return 'None';
+    return formatRecurrence(task.recurrence);
   };
 
   return (
@@ -328,6 +475,174 @@ export default function TaskDetailScreen() {
           </View>
         </View>
 
+        <View style={styles.optionsSection}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, { color: colors.text, ...typography.headline }]}>
+              Tags
+            </Text>
+            <TouchableOpacity onPress={() => router.push('/tags')} accessibilityRole="button">
+              <Text style={[styles.manageTagsText, { color: colors.primary, ...typography.subheadline }]}>
+                Manage
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.optionsRow}>
+            {getTagTree(tags).map(({ tag, depth }) => {
+              const isSelected = task.tags.includes(tag.id);
+              return (
+                <TouchableOpacity
+                  key={tag.id}
+                  style={[
+                    styles.optionChip,
+                    styles.tagChip,
+                    {
+                      backgroundColor: isSelected ? tag.color : colors.secondaryBackground,
+                      borderColor: isSelected ? tag.color : colors.separator,
+                    },
+                  ]}
+                  onPress={() => handleToggleTag(tag.id)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: isSelected }}
+                >
+                  {!isSelected && <View style={[styles.tagChipDot, { backgroundColor: tag.color }]} />}
+                  <Text
+                    style={[
+                      styles.optionChipText,
+                      {
+                        color: isSelected ? '#FFFFFF' : colors.text,
+                        ...typography.subheadline,
+                      },
+                    ]}
+                  >
+                    {depth > 0 ? `${'› '.repeat(depth)}${tag.name}` : tag.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.newTagRow}>
+            <TextInput
+              style={[styles.newTagInput, { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.body }]}
+              placeholder="New tag"
+              placeholderTextColor={colors.tertiaryText}
+              value={newTagName}
+              onChangeText={setNewTagName}
+              onSubmitEditing={handleCreateTag}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.newTagButton, { backgroundColor: newTagName.trim() ? colors.primary : colors.tertiaryText }]}
+              onPress={handleCreateTag}
+              disabled={!newTagName.trim()}
+            >
+              <Text style={[styles.newDependencyButtonText, { ...typography.caption1 }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.optionsSection}>
+          <Text style={[styles.sectionTitle, { color: colors.text, ...typography.headline }]}>
+            Subtasks{subtasks.length > 0 ? ` (${subtasks.filter((t) => t.status === 'completed').length}/${subtasks.length})` : ''}
+          </Text>
+          {parentTask ? (
+            <View style={[styles.parentTaskRow, { backgroundColor: colors.secondaryBackground }]}>
+              <TouchableOpacity style={styles.parentTaskInfo} onPress={() => router.push(`/task/${parentTask.id}`)}>
+                <Text style={[{ color: colors.secondaryText, ...typography.caption1 }]}>Subtask of</Text>
+                <Text style={[styles.parentTaskTitle, { color: colors.text, ...typography.body }]} numberOfLines={1}>
+                  {parentTask.title}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleSetParent(undefined)} accessibilityRole="button">
+                <Text style={[styles.manageTagsText, { color: colors.primary, ...typography.caption1 }]}>
+                  Move to Top Level
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ) : null}
+
+          {subtasks.map((subtask) => (
+            <View key={subtask.id} style={[styles.subtaskRow, { borderBottomColor: colors.separator }]}>
+              <TouchableOpacity
+                style={[
+                  styles.subtaskCheckbox,
+                  {
+                    borderColor: subtask.status === 'completed' ? colors.green : colors.separator,
+                    backgroundColor: subtask.status === 'completed' ? colors.green : 'transparent',
+                  },
+                ]}
+                onPress={() =>
+                  confirmSubtaskCompletion(subtask, allTasks, (includeSubtasks) =>
+                    confirmProjectCompletion(toggleTaskComplete(subtask.id, includeSubtasks), completeProject)
+                  )
+                }
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: subtask.status === 'completed' }}
+              >
+                {subtask.status === 'completed' && <Text style={styles.subtaskCheckmark}>✓</Text>}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.subtaskTitle} onPress={() => router.push(`/task/${subtask.id}`)}>
+                <Text
+                  style={[
+                    {
+                      color: subtask.status === 'completed' ? colors.tertiaryText : colors.text,
+                      textDecorationLine: subtask.status === 'completed' ? 'line-through' : 'none',
+                      ...typography.body,
+                    },
+                  ]}
+                  numberOfLines={1}
+                >
+                  {subtask.title}
+                </Text>
+              </TouchableOpacity>
+              {getSubtasks(subtask.id, allTasks).length > 0 && (
+                <Text style={[{ color: colors.secondaryText, ...typography.caption1 }]}>{subtask.progress}%</Text>
+              )}
+            </View>
+          ))}
+
+          <View style={styles.newTagRow}>
+            <TextInput
+              style={[styles.newTagInput, { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.body }]}
+              placeholder="New subtask"
+              placeholderTextColor={colors.tertiaryText}
+              value={newSubtaskTitle}
+              onChangeText={setNewSubtaskTitle}
+              onSubmitEditing={handleAddSubtask}
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.newTagButton, { backgroundColor: newSubtaskTitle.trim() ? colors.primary : colors.tertiaryText }]}
+              onPress={handleAddSubtask}
+              disabled={!newSubtaskTitle.trim()}
+            >
+              <Text style={[styles.newDependencyButtonText, { ...typography.caption1 }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            style={[styles.dependencySearch, styles.parentSearch, { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.body }]}
+            placeholder={parentTask ? 'Move under another task...' : 'Make this a subtask of...'}
+            placeholderTextColor={colors.tertiaryText}
+            value={parentSearch}
+            onChangeText={setParentSearch}
+          />
+          {parentCandidates.length > 0 && (
+            <View style={styles.dependenciesContainer}>
+              {parentCandidates.map((candidate) => (
+                <TouchableOpacity
+                  key={candidate.id}
+                  style={[styles.dependencyChip, { backgroundColor: colors.secondaryBackground, borderColor: colors.separator }]}
+                  onPress={() => handleSetParent(candidate.id)}
+                >
+                  <Text style={[styles.dependencyChipText, { color: colors.text, ...typography.caption1 }]} numberOfLines={1}>
+                    {candidate.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
         <View style={styles.optionsSection}>
           <Text style={[styles.sectionTitle, { color: colors.text, ...typography.headline }]}>
             Dates
@@ -335,13 +650,13 @@ export default function TaskDetailScreen() {
           <DatePicker
             label="Due Date"
             value={task.dueDate}
-            onChange={(date) => updateTask(id!, { dueDate: date })}
+            onChange={(date) => changeDates({ dueDate: date })}
             placeholder="No due date"
           />
           <DatePicker
             label="Planned Date"
             value={task.plannedDate}
-            onChange={(date) => updateTask(id!, { plannedDate: date })}
+            onChange={(date) => changeDates({ plannedDate: date })}
             placeholder="No planned date"
           />
         </View>
@@ -357,7 +672,7 @@ export default function TaskDetailScreen() {
                 const tomorrow = new Date();
                 tomorrow.setDate(tomorrow.getDate() + 1);
                 tomorrow.setHours(9, 0, 0, 0);
-                updateTask(id!, { dueDate: tomorrow.toISOString() });
+                changeDates({ dueDate: tomorrow });
               }}
             >
               <Text style={[styles.rescheduleEmoji]}>📅</Text>
@@ -372,7 +687,7 @@ export default function TaskDetailScreen() {
                 const in3Days = new Date();
                 in3Days.setDate(in3Days.getDate() + 3);
                 in3Days.setHours(9, 0, 0, 0);
-                updateTask(id!, { dueDate: in3Days.toISOString() });
+                changeDates({ dueDate: in3Days });
               }}
             >
               <Text style={[styles.rescheduleEmoji]}>📆</Text>
@@ -387,7 +702,7 @@ export default function TaskDetailScreen() {
                 const nextWeek = new Date();
                 nextWeek.setDate(nextWeek.getDate() + 7);
                 nextWeek.setHours(9, 0, 0, 0);
-                updateTask(id!, { dueDate: nextWeek.toISOString() });
+                changeDates({ dueDate: nextWeek });
               }}
             >
               <Text style={[styles.rescheduleEmoji]}>📅</Text>
@@ -404,7 +719,7 @@ export default function TaskDetailScreen() {
                 onPress={() => {
                   const currentDate = new Date(task.dueDate!);
                   currentDate.setDate(currentDate.getDate() + 1);
-                  updateTask(id!, { dueDate: currentDate.toISOString() });
+                  changeDates({ dueDate: currentDate });
                 }}
               >
                 <Text style={[styles.rescheduleEmoji]}>➕</Text>
@@ -418,7 +733,7 @@ export default function TaskDetailScreen() {
                 onPress={() => {
                   const currentDate = new Date(task.dueDate!);
                   currentDate.setDate(currentDate.getDate() - 1);
-                  updateTask(id!, { dueDate: currentDate.toISOString() });
+                  changeDates({ dueDate: currentDate });
                 }}
               >
                 <Text style={[styles.rescheduleEmoji]}>➖</Text>
@@ -429,7 +744,7 @@ export default function TaskDetailScreen() {
 
               <TouchableOpacity
                 style={[styles.rescheduleButton, { backgroundColor: colors.secondaryBackground, borderColor: colors.separator }]}
-                onPress={() => updateTask(id!, { dueDate: undefined })}
+                onPress={() => changeDates({ dueDate: undefined })}
               >
                 <Text style={[styles.rescheduleEmoji]}>🗑️</Text>
                 <Text style={[styles.rescheduleLabel, { color: colors.text, ...typography.caption1 }]}>
@@ -457,7 +772,8 @@ export default function TaskDetailScreen() {
                 {task.isRecurring && task.recurrence && (
                   <Text style={[styles.recurrenceDetail, { color: colors.secondaryText, ...typography.caption1 }]}>
                     {task.recurrence.endDate && `Until ${formatDate(task.recurrence.endDate, 'MMM d, yyyy')}`}
-                    {task.recurrence.endAfterOccurrences && `${task.recurrence.endAfterOccurrences} times`}
+                    {task.recurrence.endAfterOccurrences &&
+                      `Occurrence ${getOccurrenceNumber(task)} of ${task.recurrence.endAfterOccurrences}`}
                     {!task.recurrence.endDate && !task.recurrence.endAfterOccurrences && 'Forever'}
                   </Text>
                 )}
@@ -465,6 +781,40 @@ export default function TaskDetailScreen() {
             </View>
             <Text style={[styles.recurrenceChevron, { color: colors.tertiaryText }]}>›</Text>
           </TouchableOpacity>
+
+          {task.isRecurring && task.recurrence && task.status !== 'completed' && (
+            <>
+              <View style={[styles.rescheduleRow, styles.occurrenceActions]}>
+                <TouchableOpacity
+                  style={[styles.rescheduleButton, { backgroundColor: colors.secondaryBackground, borderColor: colors.separator }]}
+                  onPress={handleSkipOccurrence}
+                >
+                  <Text style={[styles.rescheduleEmoji]}>⏭</Text>
+                  <Text style={[styles.rescheduleLabel, { color: colors.text, ...typography.caption1 }]}>
+                    Skip This Occurrence
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[styles.rescheduleButton, { backgroundColor: colors.secondaryBackground, borderColor: colors.separator }]}
+                  onPress={() => setShowRescheduleOccurrence(true)}
+                >
+                  <Text style={[styles.rescheduleEmoji]}>📅</Text>
+                  <Text style={[styles.rescheduleLabel, { color: colors.text, ...typography.caption1 }]}>
+                    Reschedule Only This One
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              {(task.rescheduledFrom || (task.recurrence.exceptionDates?.length ?? 0) > 0) && (
+                <Text style={[styles.occurrenceNote, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  {task.rescheduledFrom && `Moved from ${formatDate(task.rescheduledFrom, 'MMM d, yyyy')}. `}
+                  {(task.recurrence.exceptionDates?.length ?? 0) > 0 &&
+                    `${task.recurrence.exceptionDates!.length} skipped occurrence${task.recurrence.exceptionDates!.length === 1 ? '' : 's'}.`}
+                </Text>
+              )}
+            </>
+          )}
         </View>
 
         <View style={styles.optionsSection}>
@@ -472,7 +822,7 @@ export default function TaskDetailScreen() {
             Dependencies
           </Text>
           <Text style={[styles.sectionSubtitle, { color: colors.secondaryText, ...typography.caption1 }]}>
-            Select tasks that must be completed before this task can start
+            Select tasks this task waits on. Finish → Start links wait for the other task to be completed.
           </Text>
 
           {/* Search Box */}
@@ -484,6 +834,35 @@ export default function TaskDetailScreen() {
             onChangeText={setDependencySearch}
           />
 
+          <View style={styles.typeRow}>
+            <Text style={[styles.typeRowLabel, { color: colors.secondaryText, ...typography.caption1 }]}>
+              Link type
+            </Text>
+            {DEPENDENCY_TYPES.map((option) => (
+              <TouchableOpacity
+                key={option.type}
+                style={[
+                  styles.typeOption,
+                  {
+                    backgroundColor: newDependencyType === option.type ? colors.primary : colors.secondaryBackground,
+                    borderColor: colors.separator,
+                  },
+                ]}
+                onPress={() => setNewDependencyType(option.type)}
+                accessibilityLabel={option.label}
+              >
+                <Text
+                  style={[
+                    styles.typeOptionText,
+                    { color: newDependencyType === option.type ? '#FFFFFF' : colors.text, ...typography.caption1 },
+                  ]}
+                >
+                  {option.shortLabel}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
           <View style={styles.dependenciesContainer}>
             {allTasks
               .filter((t) => {
@@ -491,6 +870,8 @@ export default function TaskDetailScreen() {
                 const isDependent = task.dependsOn.includes(t.id);
                 // Show selected dependencies always
                 if (isDependent) return true;
+                // Hide tasks that would create a circular dependency
+                if (!dependencyCandidateIds.has(t.id)) return false;
                 // If searching, show matches
                 if (dependencySearch.trim()) {
                   return t.title.toLowerCase().includes(dependencySearch.toLowerCase());
@@ -515,7 +896,7 @@ export default function TaskDetailScreen() {
                       if (isDependent) {
                         removeDependency(id!, t.id);
                       } else {
-                        addDependency(id!, t.id);
+                        handleAddDependency(t.id);
                       }
                     }}
                   >
@@ -541,6 +922,75 @@ export default function TaskDetailScreen() {
             </Text>
           )}
 
+          {/* Type and lag of each linked prerequisite */}
+          {task.dependsOn.map((dependsOnId) => {
+            const prerequisite = allTasks.find((t) => t.id === dependsOnId);
+            if (!prerequisite) return null;
+            const edge = getDependencyEdge(task, dependsOnId);
+            const lag = edge.lag || 0;
+            return (
+              <View
+                key={dependsOnId}
+                style={[styles.linkedDependency, { backgroundColor: colors.secondaryBackground }]}
+              >
+                <Text style={[styles.linkedDependencyTitle, { color: colors.text, ...typography.caption1 }]} numberOfLines={1}>
+                  {prerequisite.title}
+                </Text>
+                <View style={styles.linkedDependencyControls}>
+                  {DEPENDENCY_TYPES.map((option) => (
+                    <TouchableOpacity
+                      key={option.type}
+                      style={[
+                        styles.typeOption,
+                        {
+                          backgroundColor: edge.type === option.type ? colors.primary : colors.background,
+                          borderColor: colors.separator,
+                        },
+                      ]}
+                      onPress={() => updateDependency(id!, dependsOnId, { type: option.type })}
+                      accessibilityLabel={option.label}
+                    >
+                      <Text
+                        style={[
+                          styles.typeOptionText,
+                          { color: edge.type === option.type ? '#FFFFFF' : colors.text, ...typography.caption1 },
+                        ]}
+                      >
+                        {option.shortLabel}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  <View style={styles.lagControls}>
+                    <TouchableOpacity
+                      style={[styles.lagButton, { borderColor: colors.separator }]}
+                      onPress={() => updateDependency(id!, dependsOnId, { lag: lag - 1 })}
+                      accessibilityLabel="Decrease lag"
+                    >
+                      <Text style={{ color: colors.primary }}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={[styles.lagText, { color: colors.secondaryText, ...typography.caption1 }]}>
+                      {lag === 0 ? 'No lag' : formatLag(lag)}
+                    </Text>
+                    <TouchableOpacity
+                      style={[styles.lagButton, { borderColor: colors.separator }]}
+                      onPress={() => updateDependency(id!, dependsOnId, { lag: lag + 1 })}
+                      accessibilityLabel="Increase lag"
+                    >
+                      <Text style={{ color: colors.primary }}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </View>
+            );
+          })}
+
+          {(earliestDates.start || earliestDates.finish) && (
+            <Text style={[styles.dependencyConstraintText, { color: colors.secondaryText, ...typography.caption1 }]}>
+              {earliestDates.start && `Can start on or after ${formatDate(earliestDates.start, 'MMM d, yyyy')}. `}
+              {earliestDates.finish && `Can finish on or after ${formatDate(earliestDates.finish, 'MMM d, yyyy')}.`}
+            </Text>
+          )}
+
           {/* Create New Dependency */}
           {showNewDependency ? (
             <View style={[styles.newDependencyContainer, { backgroundColor: colors.secondaryBackground }]}>
@@ -596,6 +1046,28 @@ export default function TaskDetailScreen() {
         onClose={() => setShowRecurrenceModal(false)}
         onSave={handleRecurrenceSave}
         initialRecurrence={task.recurrence}
+        startDate={task.rescheduledFrom || task.dueDate}
+        occurrenceNumber={getOccurrenceNumber(task)}
+      />
+
+      <SeriesScopeModal
+        visible={seriesScopeAction !== null}
+        title={seriesScopeAction === 'delete' ? 'Delete Recurring Task' : 'Edit Recurring Task'}
+        message={
+          seriesScopeAction === 'delete'
+            ? 'Which occurrences do you want to delete?'
+            : 'Which occurrences should these changes apply to?'
+        }
+        destructive={seriesScopeAction === 'delete'}
+        onSelect={handleSeriesScopeSelect}
+        onClose={() => setSeriesScopeAction(null)}
+      />
+
+      <RescheduleOccurrenceModal
+        visible={showRescheduleOccurrence}
+        currentDate={task.dueDate}
+        onClose={() => setShowRescheduleOccurrence(false)}
+        onSelect={handleRescheduleOccurrence}
       />
     </View>
   );
@@ -650,6 +1122,83 @@ const styles = StyleSheet.create({
   sectionTitle: {
     marginBottom: 12,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  manageTagsText: {
+    fontWeight: '600',
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tagChipDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  newTagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  newTagInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  newTagButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  parentTaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 8,
+  },
+  parentTaskInfo: {
+    flex: 1,
+  },
+  parentTaskTitle: {
+    fontWeight: '500',
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+    gap: 10,
+  },
+  subtaskCheckbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  subtaskCheckmark: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  subtaskTitle: {
+    flex: 1,
+  },
+  parentSearch: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
   sectionSubtitle: {
     marginBottom: 12,
     lineHeight: 18,
@@ -681,6 +1230,60 @@ const styles = StyleSheet.create({
   dependencyChipText: {
     fontWeight: '500',
   },
+  typeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  typeRowLabel: {
+    fontWeight: '600',
+    marginRight: 4,
+  },
+  typeOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  typeOptionText: {
+    fontWeight: '600',
+  },
+  linkedDependency: {
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    gap: 8,
+  },
+  linkedDependencyTitle: {
+    fontWeight: '600',
+  },
+  linkedDependencyControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  lagControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginLeft: 'auto',
+  },
+  lagButton: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  lagText: {
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  dependencyConstraintText: {
+    marginTop: 8,
+  },
   noDependenciesText: {
     marginTop: 8,
     fontStyle: 'italic',
@@ -821,4 +1424,11 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: '300',
   },
+  occurrenceActions: {
+    marginTop: 8,
+  },
+  occurrenceNote: {
+    marginTop: 8,
+    lineHeight: 16,
+  },
 });
@@ -0,0 +1,234 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useTaskStore } from '../src/store/taskStore';
+import { useSettingsStore } from '../src/store/settingsStore';
+import { useTheme } from '../src/theme/useTheme';
+import { formatDate, addDays, differenceInDays } from '../src/utils/dateUtils';
+import { haptics } from '../src/utils/haptics';
+import { EmptyState } from '../src/components/EmptyState';
+import { TrashItem } from '../src/types';
+
+export default function TrashScreen() {
+  const router = useRouter();
+  const { colors, typography } = useTheme();
+  const trash = useTaskStore((state) => state.trash);
+  const restoreFromTrash = useTaskStore((state) => state.restoreFromTrash);
+  const purgeFromTrash = useTaskStore((state) => state.purgeFromTrash);
+  const emptyTrash = useTaskStore((state) => state.emptyTrash);
+  const trashRetentionDays = useSettingsStore((state) => state.trashRetentionDays);
+
+  // Most recently deleted first
+  const sortedTrash = useMemo(
+    () => [...trash].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()),
+    [trash]
+  );
+
+  const getItemTitle = (item: TrashItem) => {
+    switch (item.kind) {
+      case 'task':
+        return item.task?.title || 'Untitled Task';
+      case 'project':
+        return item.project?.name || 'Untitled Project';
+      case 'focusArea':
+        return item.focusArea?.name || 'Untitled Focus Area';
+    }
+  };
+
+  const getItemIcon = (item: TrashItem) => {
+    switch (item.kind) {
+      case 'task':
+        return '☐';
+      case 'project':
+        return '📁';
+      case 'focusArea':
+        return '🎯';
+    }
+  };
+
+  const getItemDetail = (item: TrashItem) => {
+    const parts: string[] = [`Deleted ${formatDate(item.deletedAt, 'MMM d, yyyy')}`];
+
+    if (item.kind === 'project' && item.projectTasks && item.projectTasks.length > 0) {
+      parts.push(`${item.projectTasks.length} task${item.projectTasks.length === 1 ? '' : 's'}`);
+    }
+
+    const daysLeft = differenceInDays(addDays(item.deletedAt, trashRetentionDays), new Date());
+    parts.push(daysLeft <= 0 ? 'Purged on next launch' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`);
+
+    return parts.join(' · ');
+  };
+
+  const confirmAction = (title: string, message: string, actionLabel: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: actionLabel, style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  };
+
+  const handleRestore = (item: TrashItem) => {
+    haptics.success();
+    restoreFromTrash(item.id);
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    haptics.warning();
+    confirmAction(
+      'Delete Permanently',
+      `Permanently delete "${getItemTitle(item)}"? This cannot be undone once you leave the app.`,
+      'Delete',
+      () => purgeFromTrash(item.id)
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    haptics.warning();
+    confirmAction(
+      'Empty Trash',
+      `Permanently delete ${trash.length} item${trash.length === 1 ? '' : 's'}?`,
+      'Empty Trash',
+      emptyTrash
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'bottom']}>
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={[styles.backButton, { color: colors.primary, ...typography.body }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text, ...typography.largeTitle }]}>
+          Trash
+        </Text>
+        <TouchableOpacity onPress={handleEmptyTrash} disabled={trash.length === 0}>
+          <Text
+            style={[
+              styles.emptyButton,
+              { color: trash.length === 0 ? colors.tertiaryText : colors.red, ...typography.body },
+            ]}
+          >
+            Empty
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {sortedTrash.length === 0 ? (
+        <EmptyState
+          emoji="🗑"
+          title="Trash is Empty"
+          message={`Deleted tasks, projects and focus areas stay here for ${trashRetentionDays} days before they are removed permanently.`}
+        />
+      ) : (
+        <ScrollView style={styles.content}>
+          <Text style={[styles.retentionNote, { color: colors.secondaryText, ...typography.caption1 }]}>
+            Items are permanently deleted {trashRetentionDays} days after they are moved to the trash.
+          </Text>
+
+          {sortedTrash.map((item) => (
+            <View
+              key={item.id}
+              style={[styles.itemCard, { backgroundColor: colors.card, borderColor: colors.separator }]}
+            >
+              <Text style={styles.itemIcon}>{getItemIcon(item)}</Text>
+              <View style={styles.itemInfo}>
+                <Text style={[styles.itemTitle, { color: colors.text, ...typography.body }]} numberOfLines={2}>
+                  {getItemTitle(item)}
+                </Text>
+                <Text style={[styles.itemDetail, { color: colors.secondaryText, ...typography.caption1 }]}>
+                  {getItemDetail(item)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.itemAction, { backgroundColor: colors.secondaryBackground }]}
+                onPress={() => handleRestore(item)}
+                accessibilityRole="button"
+                accessibilityLabel={`Restore ${getItemTitle(item)}`}
+              >
+                <Text style={[styles.itemActionText, { color: colors.primary, ...typography.caption1 }]}>Restore</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.itemAction, { backgroundColor: colors.secondaryBackground }]}
+                onPress={() => handlePurge(item)}
+                accessibilityRole="button"
+                accessibilityLabel={`Delete ${getItemTitle(item)} permanently`}
+              >
+                <Text style={[styles.itemActionText, { color: colors.red, ...typography.caption1 }]}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  backButton: {
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontWeight: '700',
+  },
+  emptyButton: {
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  retentionNote: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 8,
+    lineHeight: 18,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginVertical: 4,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 0.5,
+    gap: 8,
+  },
+  itemIcon: {
+    fontSize: 20,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  itemDetail: {
+    lineHeight: 16,
+  },
+  itemAction: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  itemActionText: {
+    fontWeight: '600',
+  },
+});
@@ -171,8 +171,6 @@ export default function WeeklyReviewScreen() {
             <View style={styles.projectsList}>
               {weeklyStats.activeProjects.map((project) => {
                 const isConfirmed = confirmedProjects.has(project.id);
-                const projectTasks = tasks.filter((t) => t.projectId === project.id);
-                const completedTasks = projectTasks.filter((t) => t.status === 'completed').length;
 
                 return (
                   <TouchableOpacity
@@ -206,7 +204,7 @@ export default function WeeklyReviewScreen() {
 
                     <View style={styles.projectStats}>
                       <Text style={[styles.projectStat, { color: colors.secondaryText, ...typography.caption2 }]}>
-                        {completedTasks}/{projectTasks.length} tasks completed
+                        {project.completedTaskCount ?? 0}/{project.taskCount ?? 0} tasks completed
                       </Text>
                       <Text style={[styles.projectStat, { color: colors.secondaryText, ...typography.caption2 }]}>
                         {project.progress}% progress
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import { useTheme } from '../theme/useTheme';
+import { BusyBlock } from '../types';
+
+interface BusyBlockRowProps {
+  block: BusyBlock;
+  calendarName?: string;
+}
+
+/**
+ * An event from an imported calendar.
+ * It is read-only; re-import the calendar to change it.
+ */
+export const BusyBlockRow: React.FC<BusyBlockRowProps> = ({ block, calendarName }) => {
+  const { colors, typography } = useTheme();
+  const time = block.allDay
+    ? 'All day'
+    : `${format(block.startTime, 'h:mm a')} – ${format(block.endTime, 'h:mm a')}`;
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.secondaryBackground, borderLeftColor: block.color }]}
+      accessible={true}
+      accessibilityLabel={`${block.title}, ${time}${calendarName ? `, from ${calendarName}` : ''}`}
+    >
+      <Text style={styles.icon}>📅</Text>
+      <View style={styles.info}>
+        <Text style={[styles.title, { color: colors.text, ...typography.body }]} numberOfLines={1}>
+          {block.title}
+        </Text>
+        <Text style={[styles.detail, { color: colors.secondaryText, ...typography.caption1 }]} numberOfLines={1}>
+          {time}
+          {calendarName ? ` · ${calendarName}` : ''}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 12,
+    marginVertical: 3,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderLeftWidth: 4,
+  },
+  icon: {
+    fontSize: 14,
+    marginRight: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    marginBottom: 2,
+  },
+  detail: {
+    fontSize: 11,
+  },
+});
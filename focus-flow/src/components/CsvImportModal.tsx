@@ -0,0 +1,400 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Platform, ScrollView, TextInput, Alert } from 'react-native';
+import { useTaskStore } from '../store/taskStore';
+import { useTheme } from '../theme/useTheme';
+import { haptics } from '../utils/haptics';
+import { showUndoToast } from './UndoToast';
+import { TAG_COLORS } from '../utils/tags';
+import {
+  CsvImportFailure,
+  TASK_CSV_FIELDS,
+  TaskCsvField,
+  getNewTagPlaceholders,
+  getTagPlaceholderId,
+  guessCsvMapping,
+  parseCsv,
+  planCsvImport,
+} from '../utils/csv';
+
+interface CsvImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Import tasks from a CSV file: read it, map its columns to task fields,
+ * review the rows that can't be imported, then add the rest
+ */
+export function CsvImportModal({ visible, onClose }: CsvImportModalProps) {
+  const { colors, typography } = useTheme();
+  const tasks = useTaskStore((state) => state.tasks);
+  const projects = useTaskStore((state) => state.projects);
+  const tags = useTaskStore((state) => state.tags);
+  const bulkAddTasks = useTaskStore((state) => state.bulkAddTasks);
+  const bulkAddTags = useTaskStore((state) => state.bulkAddTags);
+  const saveData = useTaskStore((state) => state.saveData);
+
+  const [pastedText, setPastedText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<(TaskCsvField | null)[]>([]);
+  const [result, setResult] = useState<{ imported: number; failures: CsvImportFailure[]; warnings: string[] } | null>(null);
+
+  const headers = rows?.[0] || [];
+  const plan = useMemo(
+    () => (rows && mapping.includes('title') ? planCsvImport(rows.slice(1), mapping, { tasks, projects, tags }) : null),
+    [rows, mapping, tasks, projects, tags]
+  );
+
+  const reset = () => {
+    setPastedText('');
+    setFileName(null);
+    setRows(null);
+    setMapping([]);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const readCsv = (text: string, name: string | null) => {
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      haptics.error();
+      if (Platform.OS === 'web') {
+        alert('The file needs a header row and at least one task');
+      } else {
+        Alert.alert('Import CSV', 'The file needs a header row and at least one task');
+      }
+      return;
+    }
+    haptics.light();
+    setFileName(name);
+    setRows(parsed);
+    setMapping(guessCsvMapping(parsed[0]));
+  };
+
+  const handleFileSelect = async (event: any) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    readCsv(await file.text(), file.name);
+    event.target.value = '';
+  };
+
+  const handleMap = (column: number, field: TaskCsvField | null) => {
+    haptics.selection();
+    // A field comes from one column only
+    setMapping((prev) => prev.map((current, index) => (index === column ? field : current === field ? null : current)));
+  };
+
+  const handleImport = () => {
+    if (!plan || plan.tasks.length === 0) return;
+
+    const newTagPlaceholders = getNewTagPlaceholders(plan.tasks.flatMap((task) => task.newTagPaths));
+    const newTagIds = newTagPlaceholders.length > 0
+      ? bulkAddTags(newTagPlaceholders.map((tag, index) => ({ ...tag, color: TAG_COLORS[(tags.length + index) % TAG_COLORS.length] })))
+      : [];
+    const tagIdByPlaceholder = new Map(newTagPlaceholders.map((tag, index) => [tag.id, newTagIds[index]]));
+
+    const { warnings } = bulkAddTasks(
+      plan.tasks.map(({ line, tagIds, newTagPaths, ...task }) => ({
+        ...task,
+        completedDate: task.status === 'completed' ? new Date() : undefined,
+        tags: [...tagIds, ...newTagPaths.map((path) => tagIdByPlaceholder.get(getTagPlaceholderId(path))!)],
+      }))
+    );
+    saveData();
+
+    haptics.success();
+    showUndoToast(`Imported ${plan.tasks.length} task${plan.tasks.length === 1 ? '' : 's'}`);
+    setResult({ imported: plan.tasks.length, failures: plan.failures, warnings });
+  };
+
+  const renderFailures = (failures: CsvImportFailure[]) => (
+    <View style={[styles.failureBox, { backgroundColor: colors.red + '15' }]}>
+      {failures.map((failure) => (
+        <Text key={failure.line} style={[styles.failureText, { color: colors.red, ...typography.caption1 }]}>
+          Row {failure.line}
+          {failure.title ? ` "${failure.title}"` : ''}: {failure.errors.join('; ')}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={handleClose}>
+        <View style={[styles.container, { backgroundColor: colors.card }]} onStartShouldSetResponder={() => true}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text, ...typography.headline }]}>Import CSV</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <Text style={[styles.headerButton, { color: colors.primary, ...typography.body }]}>
+                {result ? 'Done' : 'Cancel'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent} keyboardShouldPersistTaps="handled">
+            {result ? (
+              <>
+                <Text style={[styles.description, { color: colors.text, ...typography.body }]}>
+                  ✓ Imported {result.imported} task{result.imported === 1 ? '' : 's'}
+                  {fileName ? ` from ${fileName}` : ''}.
+                </Text>
+                {result.warnings.map((warning, index) => (
+                  <Text key={index} style={[styles.description, { color: colors.secondaryText, ...typography.subheadline }]}>
+                    {warning}
+                  </Text>
+                ))}
+                {result.failures.length > 0 && (
+                  <>
+                    <Text style={[styles.description, { color: colors.secondaryText, ...typography.subheadline }]}>
+                      {result.failures.length} row{result.failures.length === 1 ? ' was' : 's were'} not imported. Fix
+                      them in the file and import just those rows again.
+                    </Text>
+                    {renderFailures(result.failures)}
+                  </>
+                )}
+              </>
+            ) : !rows ? (
+              <>
+                <Text style={[styles.description, { color: colors.secondaryText, ...typography.subheadline }]}>
+                  The first row should name the columns. Projects and prerequisites are matched by name; separate
+                  several dependencies or tags with semicolons.
+                </Text>
+                {Platform.OS === 'web' ? (
+                  <>
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={handleFileSelect}
+                      style={{ display: 'none' }}
+                      id="csv-upload"
+                    />
+                    <TouchableOpacity
+                      style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+                      onPress={() => (document.getElementById('csv-upload') as HTMLInputElement | null)?.click()}
+                    >
+                      <Text style={[styles.primaryButtonText, typography.body]}>Choose CSV File</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    <TextInput
+                      style={[
+                        styles.pasteInput,
+                        { color: colors.text, borderColor: colors.separator, backgroundColor: colors.secondaryBackground, ...typography.caption1 },
+                      ]}
+                      value={pastedText}
+                      onChangeText={setPastedText}
+                      placeholder={'Title,Project,Due Date\nWrite report,Work,2025-03-01'}
+                      placeholderTextColor={colors.tertiaryText}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      multiline
+                    />
+                    <TouchableOpacity
+                      style={[styles.primaryButton, { backgroundColor: pastedText.trim() ? colors.primary : colors.tertiaryText }]}
+                      onPress={() => readCsv(pastedText, null)}
+                      disabled={!pastedText.trim()}
+                    >
+                      <Text style={[styles.primaryButtonText, typography.body]}>Read CSV</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
+            ) : (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.text, ...typography.subheadline }]}>
+                  Map Columns{fileName ? ` · ${fileName}` : ''}
+                </Text>
+                {headers.map((header, column) => (
+                  <View key={column} style={[styles.mappingRow, { borderBottomColor: colors.separator }]}>
+                    <Text style={[styles.mappingHeader, { color: colors.text, ...typography.body }]} numberOfLines={1}>
+                      {header || `Column ${column + 1}`}
+                    </Text>
+                    <Text style={[styles.mappingSample, { color: colors.tertiaryText, ...typography.caption1 }]} numberOfLines={1}>
+                      {rows[1]?.[column] || '—'}
+                    </Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                      {[{ id: null, label: 'Skip' }, ...TASK_CSV_FIELDS].map((field) => {
+                        const isSelected = mapping[column] === field.id;
+                        return (
+                          <TouchableOpacity
+                            key={field.id || 'skip'}
+                            style={[
+                              styles.chip,
+                              {
+                                backgroundColor: isSelected ? colors.primary : colors.secondaryBackground,
+                                borderColor: colors.separator,
+                              },
+                            ]}
+                            onPress={() => handleMap(column, field.id as TaskCsvField | null)}
+                            accessibilityRole="radio"
+                            accessibilityState={{ checked: isSelected }}
+                            accessibilityLabel={`Map ${header} to ${field.label}`}
+                          >
+                            <Text style={[{ color: isSelected ? '#FFFFFF' : colors.text, ...typography.caption1 }]}>
+                              {field.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </ScrollView>
+                  </View>
+                ))}
+
+                {!plan ? (
+                  <Text style={[styles.description, { color: colors.orange, ...typography.subheadline }]}>
+                    Map a column to Title to continue
+                  </Text>
+                ) : (
+                  <>
+                    <Text style={[styles.sectionTitle, { color: colors.text, ...typography.subheadline }]}>
+                      {plan.tasks.length} row{plan.tasks.length === 1 ? '' : 's'} ready
+                      {plan.failures.length > 0 ? ` · ${plan.failures.length} can't be imported` : ''}
+                    </Text>
+                    {plan.failures.length > 0 && renderFailures(plan.failures)}
+                  </>
+                )}
+
+                <View style={styles.actionRow}>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, { borderColor: colors.separator }]}
+                    onPress={reset}
+                  >
+                    <Text style={[styles.secondaryButtonText, { color: colors.text, ...typography.body }]}>Start Over</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.primaryButton,
+                      styles.flexButton,
+                      { backgroundColor: plan && plan.tasks.length > 0 ? colors.primary : colors.tertiaryText },
+                    ]}
+                    onPress={handleImport}
+                    disabled={!plan || plan.tasks.length === 0}
+                  >
+                    <Text style={[styles.primaryButtonText, typography.body]}>
+                      Import {plan ? plan.tasks.length : 0} Task{plan?.tasks.length === 1 ? '' : 's'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    width: '100%',
+    maxWidth: 560,
+    maxHeight: '90%',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 16,
+    elevation: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontWeight: '600',
+  },
+  headerButton: {
+    fontWeight: '600',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    gap: 12,
+  },
+  description: {
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+  },
+  pasteInput: {
+    minHeight: 120,
+    maxHeight: 240,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  mappingRow: {
+    paddingBottom: 10,
+    borderBottomWidth: 0.5,
+    gap: 4,
+  },
+  mappingHeader: {
+    fontWeight: '600',
+  },
+  mappingSample: {},
+  chipRow: {
+    gap: 6,
+    paddingTop: 4,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  failureBox: {
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  failureText: {
+    lineHeight: 18,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  primaryButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  flexButton: {
+    flex: 1,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+  },
+});
@@ -12,10 +12,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { haptics } from '../utils/haptics';
 import { useTheme } from '../theme/useTheme';
 import { useTaskStore } from '../store/taskStore';
+import { useCalendarStore } from '../store/calendarStore';
 import { Task, TaskPriority, TimeBlock } from '../types';
 import { formatDate } from '../utils/dateUtils';
 import { TimeBoxCalendar } from './TimeBoxCalendar';
-import { addMinutes, setHours, setMinutes } from 'date-fns';
+import { getBusyBlocks, findFreeStart } from '../utils/busyTime';
+import { addDays, addMinutes, setHours, setMinutes } from 'date-fns';
 
 interface DailyFocusModalProps {
   visible: boolean;
@@ -47,6 +49,7 @@ export const DailyFocusModal: React.FC<DailyFocusModalProps> = ({
   const updateTask = useTaskStore((state) => state.updateTask);
   const setDailyPlan = useTaskStore((state) => state.setDailyPlan);
   const markPromptShown = useTaskStore((state) => state.markPromptShown);
+  const calendars = useCalendarStore((state) => state.calendars);
 
   // Only show incomplete tasks
   const availableTasks = useMemo(() => {
@@ -159,7 +162,7 @@ export const DailyFocusModal: React.FC<DailyFocusModalProps> = ({
     });
   };
 
-  const generateTimeBlocks = (): TimeBlock[] => {
+  const getPlanStart = (): Date => {
     // Use provided startTime or default to current time
     let currentTime = startTime ? new Date(startTime) : new Date();
 
@@ -173,6 +176,15 @@ export const DailyFocusModal: React.FC<DailyFocusModalProps> = ({
       }
     }
 
+    return currentTime;
+  };
+
+  // Events from imported calendars over the day ahead
+  const getBusyTime = (from: Date) => getBusyBlocks(calendars, from, addDays(from, 1));
+
+  const generateTimeBlocks = (): TimeBlock[] => {
+    let currentTime = getPlanStart();
+    const busyBlocks = getBusyTime(currentTime);
     const blocks: TimeBlock[] = [];
 
     // Sort tasks by priority
@@ -188,6 +200,8 @@ export const DailyFocusModal: React.FC<DailyFocusModalProps> = ({
       if (!plan) return;
 
       const duration = plan.estimatedMinutes;
+      // Move past meetings that would overlap the block
+      currentTime = findFreeStart(currentTime, duration, busyBlocks);
       const endTime = addMinutes(currentTime, duration);
 
       blocks.push({
@@ -759,6 +773,7 @@ export const DailyFocusModal: React.FC<DailyFocusModalProps> = ({
             timeBlocks={timeBlocks}
             tasks={selectedTasks}
             breakDuration={breakDuration}
+            busyBlocks={getBusyTime(getPlanStart())}
           />
         </View>
 
@@ -0,0 +1,27 @@
+import { Alert, Platform } from 'react-native';
+import { Task } from '../types';
+import { getFinishBlockers } from '../utils/dependencyGraph';
+
+/**
+ * Explain why an open task can't be completed yet: a finish-to-finish
+ * prerequisite hasn't finished or a start-to-finish one hasn't started.
+ * Returns true when the task is held up this way.
+ */
+export function alertFinishBlockers(task: Task, tasks: Task[]): boolean {
+  const blockers = task.status === 'completed' ? [] : getFinishBlockers(task, tasks);
+  if (blockers.length === 0) {
+    return false;
+  }
+
+  const title = 'Cannot Complete Yet';
+  const message = `"${task.title}" can't finish before ${blockers.map((blocker) => `"${blocker.title}"`).join(', ')} ${
+    blockers.length === 1 ? 'does' : 'do'
+  }.`;
+
+  if (Platform.OS === 'web') {
+    alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+  return true;
+}
@@ -0,0 +1,426 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, PanResponder } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { useTheme } from '../theme/useTheme';
+import { haptics } from '../utils/haptics';
+import { formatDate, addDays, differenceInDays } from '../utils/dateUtils';
+import { getDependencyEdge } from '../utils/dependencyGraph';
+import { getTaskSchedule, getTimelineRange, TaskSchedule } from '../utils/gantt';
+import { getProjectTreeIds } from '../utils/projectTree';
+import { Project, Task } from '../types';
+
+const DAY_WIDTH = 28;
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 32;
+const LABEL_WIDTH = 130;
+const BAR_HEIGHT = 20;
+const INDENT = 12;
+const TAP_SLOP = 4;
+const LONG_PRESS_MS = 300;
+
+interface GanttChartProps {
+  project: Project;
+  projects: Project[];
+  tasks: Task[];
+  onPressTask: (task: Task) => void;
+  onReschedule: (task: Task, days: number) => void;
+}
+
+type GanttRow =
+  | { kind: 'group'; project: Project; depth: number; collapsed: boolean }
+  | { kind: 'task'; task: Task; depth: number; color: string; schedule: TaskSchedule | null };
+
+/**
+ * Timeline of a project's tasks, with sub-projects as collapsible groups.
+ * Bars can be pressed and held, then dragged sideways to move a task by whole days.
+ */
+export function GanttChart({ project, projects, tasks, onPressTask, onReschedule }: GanttChartProps) {
+  const { colors, typography } = useTheme();
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  // Every task in the project tree, whether or not its group is collapsed
+  const schedules = useMemo(() => {
+    const projectIds = getProjectTreeIds(project.id, projects);
+
+    const result = new Map<string, TaskSchedule | null>();
+    tasks.forEach((task) => {
+      if (task.projectId && projectIds.has(task.projectId)) {
+        result.set(task.id, getTaskSchedule(task));
+      }
+    });
+    return result;
+  }, [project.id, projects, tasks]);
+
+  const rows = useMemo(() => {
+    const result: GanttRow[] = [];
+    const addGroup = (group: Project, depth: number) => {
+      const collapsed = collapsedIds.has(group.id);
+      result.push({ kind: 'group', project: group, depth, collapsed });
+      if (collapsed) return;
+
+      tasks
+        .filter((task) => task.projectId === group.id)
+        .sort((a, b) => {
+          const aStart = schedules.get(a.id)?.start.getTime() ?? Infinity;
+          const bStart = schedules.get(b.id)?.start.getTime() ?? Infinity;
+          return aStart - bStart || a.order - b.order;
+        })
+        .forEach((task) => {
+          result.push({ kind: 'task', task, depth: depth + 1, color: group.color, schedule: schedules.get(task.id) || null });
+        });
+
+      projects
+        .filter((p) => p.parentProjectId === group.id)
+        .forEach((subproject) => addGroup(subproject, depth + 1));
+    };
+    addGroup(project, 0);
+    return result;
+  }, [project, projects, tasks, schedules, collapsedIds]);
+
+  const scheduledTasks = Array.from(schedules.values()).filter((s): s is TaskSchedule => s !== null);
+  const range = getTimelineRange(scheduledTasks);
+  const days = Array.from({ length: range.days }, (_, index) => addDays(range.start, index));
+  const xOf = (date: Date) => differenceInDays(date, range.start) * DAY_WIDTH;
+  const todayX = xOf(new Date(new Date().setHours(0, 0, 0, 0))) + DAY_WIDTH / 2;
+
+  const rowIndexById = new Map<string, number>();
+  rows.forEach((row, index) => {
+    if (row.kind === 'task') rowIndexById.set(row.task.id, index);
+  });
+
+  const arrows = rows.flatMap((row, index) => {
+    if (row.kind !== 'task' || !row.schedule) return [];
+    const toSchedule = row.schedule;
+
+    return row.task.dependsOn.flatMap((dependsOnId) => {
+      const fromIndex = rowIndexById.get(dependsOnId);
+      const fromSchedule = schedules.get(dependsOnId);
+      if (fromIndex === undefined || !fromSchedule) return [];
+
+      const { type } = getDependencyEdge(row.task, dependsOnId);
+      const fromX = type === 'finish-to-start' || type === 'finish-to-finish' ? xOf(fromSchedule.end) : xOf(fromSchedule.start);
+      const toX = type === 'finish-to-start' || type === 'start-to-start' ? xOf(toSchedule.start) : xOf(toSchedule.end);
+      const fromY = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const toY = index * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const elbowX = fromX + 8;
+      const direction = toX >= elbowX ? 1 : -1;
+
+      return [
+        {
+          key: `${dependsOnId}-${row.task.id}`,
+          line: `M ${fromX} ${fromY} H ${elbowX} V ${toY} H ${toX}`,
+          head: `M ${toX} ${toY} L ${toX - 5 * direction} ${toY - 4} L ${toX - 5 * direction} ${toY + 4} Z`,
+        },
+      ];
+    });
+  });
+
+  const toggleGroup = (groupId: string) => {
+    haptics.selection();
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
+  if (scheduledTasks.length === 0) {
+    return (
+      <Text style={[styles.emptyText, { color: colors.tertiaryText, ...typography.body }]}>
+        Give tasks a start or due date to see them on the chart
+      </Text>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.secondaryBackground }]}>
+      <View style={[styles.labelColumn, { borderRightColor: colors.separator }]}>
+        <View style={styles.header} />
+        {rows.map((row) =>
+          row.kind === 'group' ? (
+            <TouchableOpacity
+              key={`group-${row.project.id}`}
+              style={[styles.row, styles.labelRow, { paddingLeft: 8 + row.depth * INDENT }]}
+              onPress={() => toggleGroup(row.project.id)}
+              accessibilityRole="button"
+              accessibilityLabel={`${row.project.name}, ${row.collapsed ? 'collapsed' : 'expanded'}`}
+            >
+              <Text style={[styles.disclosure, { color: colors.secondaryText }]}>{row.collapsed ? '▸' : '▾'}</Text>
+              <View style={[styles.groupDot, { backgroundColor: row.project.color }]} />
+              <Text style={[styles.groupLabel, { color: colors.text, ...typography.caption1 }]} numberOfLines={1}>
+                {row.project.name}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              key={row.task.id}
+              style={[styles.row, styles.labelRow, { paddingLeft: 8 + row.depth * INDENT }]}
+              onPress={() => onPressTask(row.task)}
+            >
+              <Text
+                style={[
+                  styles.taskLabel,
+                  {
+                    color: row.schedule ? colors.text : colors.tertiaryText,
+                    textDecorationLine: row.task.status === 'completed' ? 'line-through' : 'none',
+                    ...typography.caption1,
+                  },
+                ]}
+                numberOfLines={1}
+              >
+                {row.task.title}
+              </Text>
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator contentOffset={{ x: Math.max(0, todayX - 3 * DAY_WIDTH), y: 0 }}>
+        <View style={{ width: days.length * DAY_WIDTH }}>
+          <View style={[styles.header, styles.dayHeader, { borderBottomColor: colors.separator }]}>
+            {days.map((day, index) => (
+              <View key={index} style={styles.dayCell}>
+                <Text style={[styles.dayLabel, { color: colors.tertiaryText }]}>
+                  {index === 0 || day.getDate() === 1 ? formatDate(day, 'MMM d') : day.getDate()}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          <View style={{ height: rows.length * ROW_HEIGHT }}>
+            {days.map((day, index) =>
+              day.getDay() === 0 || day.getDay() === 6 ? (
+                <View
+                  key={`weekend-${index}`}
+                  style={[styles.weekend, { left: index * DAY_WIDTH, backgroundColor: colors.tertiaryBackground }]}
+                />
+              ) : null
+            )}
+
+            {rows.map((row, index) =>
+              row.kind === 'group' ? (
+                <View
+                  key={`group-${row.project.id}`}
+                  style={[styles.groupRow, { top: index * ROW_HEIGHT, borderBottomColor: colors.separator }]}
+                />
+              ) : row.schedule ? (
+                <GanttBar
+                  key={row.task.id}
+                  top={index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                  left={xOf(row.schedule.start)}
+                  width={xOf(row.schedule.end) - xOf(row.schedule.start)}
+                  color={row.task.status === 'completed' ? colors.green : row.color}
+                  progress={row.task.progress}
+                  isEstimated={row.schedule.isEstimated}
+                  label={row.task.title}
+                  onPress={() => onPressTask(row.task)}
+                  onMove={(days) => onReschedule(row.task, days)}
+                />
+              ) : null
+            )}
+
+            <View style={StyleSheet.absoluteFill} pointerEvents="none">
+              <Svg width={days.length * DAY_WIDTH} height={rows.length * ROW_HEIGHT}>
+                {arrows.map((arrow) => (
+                  <React.Fragment key={arrow.key}>
+                    <Path d={arrow.line} stroke={colors.secondaryText} strokeWidth={1} fill="none" />
+                    <Path d={arrow.head} fill={colors.secondaryText} />
+                  </React.Fragment>
+                ))}
+              </Svg>
+            </View>
+
+            <View style={[styles.todayLine, { left: todayX, backgroundColor: colors.red }]} pointerEvents="none" />
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+interface GanttBarProps {
+  top: number;
+  left: number;
+  width: number;
+  color: string;
+  progress: number;
+  isEstimated: boolean;
+  label: string;
+  onPress: () => void;
+  onMove: (days: number) => void;
+}
+
+// A task bar that snaps to whole days while dragged. Dragging starts after a long
+// press, so a swipe across the bars still scrolls the chart
+function GanttBar({ top, left, width, color, progress, isEstimated, label, onPress, onMove }: GanttBarProps) {
+  const [offset, setOffset] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const handlers = useRef({ onPress, onMove });
+  handlers.current = { onPress, onMove };
+  const dragging = useRef(false);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (longPressTimer.current) clearTimeout(longPressTimer.current);
+  }, []);
+
+  const endGesture = () => {
+    if (longPressTimer.current) {
+      clearTimeout(longPressTimer.current);
+      longPressTimer.current = null;
+    }
+    dragging.current = false;
+    setIsDragging(false);
+    setOffset(0);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        longPressTimer.current = setTimeout(() => {
+          longPressTimer.current = null;
+          dragging.current = true;
+          setIsDragging(true);
+          haptics.medium();
+        }, LONG_PRESS_MS);
+      },
+      // Let the chart's ScrollView take over until the bar has been picked up
+      onPanResponderTerminationRequest: () => !dragging.current,
+      onPanResponderMove: (_, gesture) => {
+        if (dragging.current) {
+          setOffset(Math.round(gesture.dx / DAY_WIDTH) * DAY_WIDTH);
+        } else if (longPressTimer.current && (Math.abs(gesture.dx) > TAP_SLOP || Math.abs(gesture.dy) > TAP_SLOP)) {
+          // Moved before the long press: a scroll, not a drag
+          clearTimeout(longPressTimer.current);
+          longPressTimer.current = null;
+        }
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const wasDragging = dragging.current;
+        const wasTap = !!longPressTimer.current && Math.abs(gesture.dx) < TAP_SLOP && Math.abs(gesture.dy) < TAP_SLOP;
+        endGesture();
+        const days = Math.round(gesture.dx / DAY_WIDTH);
+        if (wasTap) {
+          handlers.current.onPress();
+        } else if (wasDragging && days !== 0) {
+          haptics.light();
+          handlers.current.onMove(days);
+        }
+      },
+      onPanResponderTerminate: endGesture,
+    })
+  ).current;
+
+  return (
+    <View
+      {...panResponder.panHandlers}
+      style={[
+        styles.bar,
+        {
+          top,
+          left: left + offset,
+          width,
+          backgroundColor: color,
+          // Bars with an end derived from the estimate are drawn fainter
+          opacity: isDragging ? 0.7 : isEstimated ? 0.55 : 1,
+        },
+      ]}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityHint="Press and hold, then drag sideways to reschedule"
+    >
+      <View style={[styles.barProgress, { width: `${Math.min(100, Math.max(0, progress))}%` }]} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  labelColumn: {
+    width: LABEL_WIDTH,
+    borderRightWidth: StyleSheet.hairlineWidth,
+  },
+  header: {
+    height: HEADER_HEIGHT,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  dayCell: {
+    width: DAY_WIDTH,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayLabel: {
+    fontSize: 10,
+  },
+  row: {
+    height: ROW_HEIGHT,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: 8,
+  },
+  disclosure: {
+    width: 14,
+    fontSize: 12,
+  },
+  groupDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  groupLabel: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  taskLabel: {
+    flex: 1,
+  },
+  weekend: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: DAY_WIDTH,
+    opacity: 0.5,
+  },
+  groupRow: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: ROW_HEIGHT,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  bar: {
+    position: 'absolute',
+    height: BAR_HEIGHT,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  barProgress: {
+    height: '100%',
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+  },
+  todayLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+});
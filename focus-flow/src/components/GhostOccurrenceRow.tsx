@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../theme/useTheme';
+import { haptics } from '../utils/haptics';
+import { formatDate } from '../utils/dateUtils';
+import { VirtualOccurrence } from '../utils/recurrence';
+
+interface GhostOccurrenceRowProps {
+  occurrence: VirtualOccurrence;
+  onPress: () => void;
+}
+
+/**
+ * A projected future occurrence of a recurring task.
+ * It is not a real task yet, so it can't be completed or edited directly.
+ */
+export const GhostOccurrenceRow: React.FC<GhostOccurrenceRowProps> = ({ occurrence, onPress }) => {
+  const { colors, typography } = useTheme();
+  const { task, date, occurrenceNumber } = occurrence;
+  const total = task.recurrence?.endAfterOccurrences;
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, { borderColor: colors.separator }]}
+      onPress={() => {
+        haptics.light();
+        onPress();
+      }}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={`${task.title}, repeats on ${formatDate(date, 'MMMM d')}`}
+      accessibilityHint="Double tap to open the current occurrence"
+    >
+      <Text style={[styles.icon, { color: colors.tertiaryText }]}>🔁</Text>
+      <View style={styles.info}>
+        <Text style={[styles.title, { color: colors.secondaryText, ...typography.body }]} numberOfLines={1}>
+          {task.title}
+        </Text>
+        <Text style={[styles.detail, { color: colors.tertiaryText, ...typography.caption1 }]}>
+          {formatDate(date, 'EEE')}, {formatDate(date, 'MMM d')}
+          {total ? ` · Occurrence ${occurrenceNumber} of ${total}` : ' · Upcoming'}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 12,
+    marginVertical: 3,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    opacity: 0.7,
+  },
+  icon: {
+    fontSize: 14,
+    marginRight: 10,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    marginBottom: 2,
+  },
+  detail: {
+    fontSize: 11,
+  },
+});
@@ -0,0 +1,30 @@
+import { Alert, Platform } from 'react-native';
+import { Project } from '../types';
+
+/**
+ * Offer to complete a project whose last task was just finished. Does
+ * nothing when project is null.
+ */
+export function confirmProjectCompletion(
+  project: Project | null,
+  onComplete: (projectId: string) => void
+) {
+  if (!project) {
+    return;
+  }
+
+  const title = 'Complete Project?';
+  const message = `Every task in "${project.name}" is done.`;
+
+  if (Platform.OS === 'web') {
+    if (confirm(`${title}\n\n${message}`)) {
+      onComplete(project.id);
+    }
+    return;
+  }
+
+  Alert.alert(title, message, [
+    { text: 'Not Yet', style: 'cancel' },
+    { text: 'Complete Project', onPress: () => onComplete(project.id) },
+  ]);
+}
@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import { useTaskStore } from '../store/taskStore';
+import { useTheme } from '../theme/useTheme';
+import { ParsedQuickAdd, QuickAddTokenType, splitQuickAddText } from '../utils/quickAdd';
+import { formatRecurrence } from '../utils/recurrence';
+
+interface QuickAddPreviewProps {
+  text: string;
+  parsed: ParsedQuickAdd;
+}
+
+/**
+ * The quick-add text with its recognised tokens highlighted, followed by a
+ * summary of what the task will be created with
+ */
+export function QuickAddPreview({ text, parsed }: QuickAddPreviewProps) {
+  const { colors, typography } = useTheme();
+  const projects = useTaskStore((state) => state.projects);
+  const tags = useTaskStore((state) => state.tags);
+
+  if (parsed.tokens.length === 0) {
+    return null;
+  }
+
+  const project = parsed.projectId ? projects.find((p) => p.id === parsed.projectId) : undefined;
+  const tokenColors: Record<QuickAddTokenType, string> = {
+    date: colors.primary,
+    time: colors.primary,
+    project: project?.color || colors.indigo,
+    tag: colors.purple,
+    priority: colors.red,
+    recurrence: colors.green,
+    estimate: colors.orange,
+  };
+
+  const hasTime = !!parsed.dueDate && (parsed.dueDate.getHours() !== 0 || parsed.dueDate.getMinutes() !== 0);
+  const summary: { label: string; color: string }[] = [];
+  if (parsed.dueDate) {
+    summary.push({
+      label: `📅 ${format(parsed.dueDate, hasTime ? 'EEE, MMM d h:mm a' : 'EEE, MMM d')}`,
+      color: tokenColors.date,
+    });
+  }
+  if (parsed.recurrence) {
+    summary.push({ label: `🔁 ${formatRecurrence(parsed.recurrence)}`, color: tokenColors.recurrence });
+  }
+  if (project) {
+    summary.push({ label: project.name, color: tokenColors.project });
+  }
+  parsed.tagIds.forEach((id) => {
+    const tag = tags.find((t) => t.id === id);
+    if (tag) summary.push({ label: `@${tag.name}`, color: tag.color });
+  });
+  parsed.newTagNames.forEach((name) => summary.push({ label: `@${name} (new)`, color: tokenColors.tag }));
+  if (parsed.priority) {
+    summary.push({ label: `${parsed.priority.charAt(0).toUpperCase()}${parsed.priority.slice(1)} priority`, color: tokenColors.priority });
+  }
+  if (parsed.estimatedDuration) {
+    const minutes = Math.round(parsed.estimatedDuration * 60);
+    summary.push({
+      label: `⏱ ${minutes < 60 ? `${minutes}m` : `${Math.round(parsed.estimatedDuration * 10) / 10}h`}`,
+      color: tokenColors.estimate,
+    });
+  }
+
+  return (
+    <View style={styles.container} accessibilityLabel={`Will add ${parsed.title || 'task'}, ${summary.map((item) => item.label).join(', ')}`}>
+      <Text style={[styles.highlightedText, { color: colors.secondaryText, ...typography.subheadline }]}>
+        {splitQuickAddText(text, parsed.tokens).map((part, index) =>
+          part.token ? (
+            <Text
+              key={index}
+              style={[
+                styles.token,
+                { color: tokenColors[part.token.type], backgroundColor: tokenColors[part.token.type] + '20' },
+              ]}
+            >
+              {part.text}
+            </Text>
+          ) : (
+            <Text key={index}>{part.text}</Text>
+          )
+        )}
+      </Text>
+      <View style={styles.summaryRow}>
+        {summary.map((item) => (
+          <View key={item.label} style={[styles.summaryChip, { backgroundColor: item.color + '20' }]}>
+            <Text style={[styles.summaryChipText, { color: item.color, ...typography.caption1 }]}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -8,
+    marginBottom: 16,
+    gap: 8,
+  },
+  highlightedText: {},
+  token: {
+    fontWeight: '600',
+    borderRadius: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  summaryChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  summaryChipText: {
+    fontWeight: '600',
+  },
+});
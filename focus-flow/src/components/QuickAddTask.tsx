@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -12,6 +12,9 @@ import {
 import { useTaskStore } from '../store/taskStore';
 import { useTheme } from '../theme/useTheme';
 import { TaskPriority } from '../types';
+import { parseQuickAdd } from '../utils/quickAdd';
+import { TAG_COLORS } from '../utils/tags';
+import { QuickAddPreview } from './QuickAddPreview';
 
 interface QuickAddTaskProps {
   visible: boolean;
@@ -23,21 +26,35 @@ interface QuickAddTaskProps {
 export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }: QuickAddTaskProps) {
   const { colors, typography } = useTheme();
   const addTask = useTaskStore((state) => state.addTask);
+  const addTag = useTaskStore((state) => state.addTag);
   const projects = useTaskStore((state) => state.projects);
+  const tags = useTaskStore((state) => state.tags);
 
   const [title, setTitle] = useState('');
   const [priority, setPriority] = useState<TaskPriority>('medium');
   const [projectId, setProjectId] = useState<string | undefined>(defaultProjectId);
 
+  // Tokens typed into the title win over the chips below
+  const parsed = useMemo(() => parseQuickAdd(title, { projects, tags }), [title, projects, tags]);
+  const selectedPriority = parsed.priority || priority;
+  const selectedProjectId = parsed.projectId || projectId;
+
   const handleAdd = () => {
-    if (!title.trim()) return;
+    if (!parsed.title) return;
 
+    const newTagIds = parsed.newTagNames.map((name, index) =>
+      addTag({ name, color: TAG_COLORS[(tags.length + index) % TAG_COLORS.length] })
+    );
     addTask({
-      title: title.trim(),
+      title: parsed.title,
       status: 'todo',
-      priority,
-      projectId,
-      dueDate: defaultDate,
+      priority: selectedPriority,
+      projectId: selectedProjectId,
+      dueDate: parsed.dueDate || (defaultDate ? new Date(defaultDate) : undefined),
+      tags: [...parsed.tagIds, ...newTagIds],
+      estimatedDuration: parsed.estimatedDuration,
+      isRecurring: !!parsed.recurrence,
+      recurrence: parsed.recurrence,
     });
 
     setTitle('');
@@ -78,7 +95,7 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
 
           <TextInput
             style={[styles.input, { color: colors.text, borderColor: colors.separator, ...typography.body }]}
-            placeholder="Task title"
+            placeholder="Call Sam tomorrow 3pm #work @errands !high ~1h"
             placeholderTextColor={colors.tertiaryText}
             value={title}
             onChangeText={setTitle}
@@ -86,6 +103,8 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
             onSubmitEditing={handleAdd}
           />
 
+          <QuickAddPreview text={title} parsed={parsed} />
+
           <View style={styles.optionsSection}>
             <Text style={[styles.sectionLabel, { color: colors.secondaryText, ...typography.caption1 }]}>
               Priority
@@ -97,7 +116,7 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
                   style={[
                     styles.optionChip,
                     {
-                      backgroundColor: priority === p ? colors.primary : colors.background,
+                      backgroundColor: selectedPriority === p ? colors.primary : colors.background,
                       borderColor: colors.separator,
                     },
                   ]}
@@ -107,7 +126,7 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
                     style={[
                       styles.optionChipText,
                       {
-                        color: priority === p ? '#FFFFFF' : colors.text,
+                        color: selectedPriority === p ? '#FFFFFF' : colors.text,
                         ...typography.caption1,
                       },
                     ]}
@@ -129,7 +148,7 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
                   style={[
                     styles.optionChip,
                     {
-                      backgroundColor: !projectId ? colors.primary : colors.background,
+                      backgroundColor: !selectedProjectId ? colors.primary : colors.background,
                       borderColor: colors.separator,
                     },
                   ]}
@@ -139,7 +158,7 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
                     style={[
                       styles.optionChipText,
                       {
-                        color: !projectId ? '#FFFFFF' : colors.text,
+                        color: !selectedProjectId ? '#FFFFFF' : colors.text,
                         ...typography.caption1,
                       },
                     ]}
@@ -153,7 +172,7 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
                     style={[
                       styles.optionChip,
                       {
-                        backgroundColor: projectId === project.id ? colors.primary : colors.background,
+                        backgroundColor: selectedProjectId === project.id ? colors.primary : colors.background,
                         borderColor: colors.separator,
                       },
                     ]}
@@ -163,7 +182,7 @@ export function QuickAddTask({ visible, onClose, defaultDate, defaultProjectId }
                       style={[
                         styles.optionChipText,
                         {
-                          color: projectId === project.id ? '#FFFFFF' : colors.text,
+                          color: selectedProjectId === project.id ? '#FFFFFF' : colors.text,
                           ...typography.caption1,
                         },
                       ]}
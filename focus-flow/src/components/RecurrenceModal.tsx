@@ -8,27 +8,89 @@ import {
   ScrollView,
   TextInput,
   Switch,
+  Alert,
+  Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../theme/useTheme';
-import { Recurrence, RecurrenceType } from '../types';
+import { Recurrence, RecurrenceType, RepeatMode } from '../types';
 import { haptics } from '../utils/haptics';
 import { DatePicker } from './DatePicker';
+import { formatRecurrence, getUpcomingOccurrences } from '../utils/recurrence';
+import { formatDate } from '../utils/dateUtils';
+import {
+  RRule,
+  parseRRule,
+  serializeRRule,
+  recurrenceToRRule,
+  rruleToRecurrence,
+  formatOrdinal,
+} from '../utils/rrule';
 
 interface RecurrenceModalProps {
   visible: boolean;
   onClose: () => void;
   onSave: (recurrence: Recurrence | null) => void;
   initialRecurrence?: Recurrence | null;
+  startDate?: Date; // Date the schedule continues from, usually the task's due date
+  occurrenceNumber?: number; // Position of the current occurrence in its series
 }
 
+const PREVIEW_COUNT = 5;
+
 type EndType = 'never' | 'on_date' | 'after_occurrences';
+type MonthlyMode = 'day_of_month' | 'ordinal_weekday';
+
+// 'weekday' means any of Monday-Friday, e.g. "last weekday of the month"
+type OrdinalDay = number | 'weekday';
+
+const ORDINALS = [1, 2, 3, 4, -1];
+
+const REPEAT_MODES: { value: RepeatMode; label: string; description: string }[] = [
+  { value: 'fixed', label: 'Due Date', description: 'Keep a fixed schedule based on the due date' },
+  { value: 'defer-another', label: 'Completion', description: 'Count from the day the task is completed' },
+  { value: 'catch-up', label: 'Catch Up', description: 'Keep the schedule, but skip dates already past' },
+];
+const WEEKDAY_SET = [1, 2, 3, 4, 5];
+
+/**
+ * Work out which controls can show an existing rule.
+ * Monthly "2nd Tuesday" and "last weekday" rules map to the ordinal controls;
+ * anything else stays in the raw RRULE editor.
+ */
+function getInitialRuleState(recurrence?: Recurrence | null) {
+  if (!recurrence?.rrule) {
+    return { advanced: false, ruleText: '', monthlyMode: 'day_of_month' as MonthlyMode, ordinal: 1, ordinalDay: 1 as OrdinalDay };
+  }
+
+  let rule: RRule | null = null;
+  try {
+    rule = parseRRule(recurrence.rrule);
+  } catch {
+    rule = null;
+  }
+
+  if (rule && rule.freq === 'MONTHLY' && !rule.byMonth?.length && !rule.byMonthDay?.length && rule.wkst === undefined) {
+    const byDay = rule.byDay || [];
+    if (byDay.length === 1 && byDay[0].ordinal !== undefined && !rule.bySetPos?.length && ORDINALS.includes(byDay[0].ordinal)) {
+      return { advanced: false, ruleText: '', monthlyMode: 'ordinal_weekday' as MonthlyMode, ordinal: byDay[0].ordinal, ordinalDay: byDay[0].weekday as OrdinalDay };
+    }
+    const isWeekdaySet = byDay.length === 5 && byDay.every((d) => d.ordinal === undefined && WEEKDAY_SET.includes(d.weekday));
+    if (isWeekdaySet && rule.bySetPos?.length === 1 && ORDINALS.includes(rule.bySetPos[0])) {
+      return { advanced: false, ruleText: '', monthlyMode: 'ordinal_weekday' as MonthlyMode, ordinal: rule.bySetPos[0], ordinalDay: 'weekday' as OrdinalDay };
+    }
+  }
+
+  return { advanced: true, ruleText: recurrence.rrule, monthlyMode: 'day_of_month' as MonthlyMode, ordinal: 1, ordinalDay: 1 as OrdinalDay };
+}
 
 export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
   visible,
   onClose,
   onSave,
   initialRecurrence,
+  startDate,
+  occurrenceNumber = 1,
 }) => {
   const { colors, typography, spacing, borderRadius } = useTheme();
 
@@ -60,11 +122,38 @@ export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
   const [endAfterOccurrences, setEndAfterOccurrences] = useState<string>(
     String(initialRecurrence?.endAfterOccurrences || 10)
   );
+  const [initialRuleState] = useState(() => getInitialRuleState(initialRecurrence));
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>(initialRuleState.monthlyMode);
+  const [ordinal, setOrdinal] = useState<number>(initialRuleState.ordinal);
+  const [ordinalDay, setOrdinalDay] = useState<OrdinalDay>(initialRuleState.ordinalDay);
+  const [useAdvancedRule, setUseAdvancedRule] = useState<boolean>(initialRuleState.advanced);
+  const [ruleText, setRuleText] = useState<string>(initialRuleState.ruleText);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(
+    initialRecurrence?.repeatMode || 'fixed'
+  );
 
-  const handleSave = () => {
+  /**
+   * Build the recurrence from the basic controls (frequency, interval, days, ends)
+   */
+  const buildBasicRecurrence = (): Recurrence => {
     const intervalNum = parseInt(interval) || 1;
 
-    const recurrence: Recurrence = {
+    if (type === 'monthly' && monthlyMode === 'ordinal_weekday') {
+      const rule: RRule = {
+        freq: 'MONTHLY',
+        interval: intervalNum,
+        ...(ordinalDay === 'weekday'
+          ? { byDay: WEEKDAY_SET.map((weekday) => ({ weekday })), bySetPos: [ordinal] }
+          : { byDay: [{ weekday: ordinalDay, ordinal }] }),
+        ...(endType === 'on_date' && endDate && { until: endDate }),
+        ...(endType === 'after_occurrences' && {
+          count: parseInt(endAfterOccurrences) || 10,
+        }),
+      };
+      return rruleToRecurrence(rule);
+    }
+
+    return {
       type,
       interval: intervalNum,
       ...(type === 'weekly' && daysOfWeek.length > 0 && { daysOfWeek }),
@@ -78,12 +167,76 @@ export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
         endAfterOccurrences: parseInt(endAfterOccurrences) || 10,
       }),
     };
+  };
+
+  /**
+   * Build the recurrence to save; throws if the advanced RRULE is invalid
+   */
+  const buildRecurrence = (): Recurrence => {
+    const recurrence: Recurrence = {
+      ...(useAdvancedRule ? rruleToRecurrence(parseRRule(ruleText)) : buildBasicRecurrence()),
+      // Skipped occurrences stay skipped when the rule is edited
+      ...(initialRecurrence?.exceptionDates?.length && { exceptionDates: initialRecurrence.exceptionDates }),
+    };
+    return repeatMode === 'fixed' ? recurrence : { ...recurrence, repeatMode };
+  };
+
+  /**
+   * The next few dates of the rule being edited, or null while the rule is invalid
+   */
+  const getPreviewDates = (): Date[] | null => {
+    let recurrence: Recurrence;
+    try {
+      recurrence = buildRecurrence();
+    } catch {
+      return null;
+    }
+
+    const remaining = recurrence.endAfterOccurrences
+      ? Math.max(recurrence.endAfterOccurrences - occurrenceNumber, 0)
+      : PREVIEW_COUNT;
+    return getUpcomingOccurrences(recurrence, startDate || new Date(), Math.min(remaining, PREVIEW_COUNT));
+  };
+
+  const getRuleError = (): string | null => {
+    if (!useAdvancedRule) return null;
+    try {
+      parseRRule(ruleText);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid rule';
+    }
+  };
+
+  const handleSave = () => {
+    let recurrence: Recurrence;
+    try {
+      recurrence = buildRecurrence();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid rule';
+      haptics.error();
+      if (Platform.OS === 'web') {
+        alert(`Invalid repeat rule: ${message}`);
+      } else {
+        Alert.alert('Invalid Repeat Rule', message);
+      }
+      return;
+    }
 
     haptics.success();
     onSave(recurrence);
     onClose();
   };
 
+  const handleToggleAdvanced = (enabled: boolean) => {
+    haptics.light();
+    if (enabled) {
+      // Start from the rule the basic controls describe
+      setRuleText(serializeRRule(recurrenceToRRule(buildBasicRecurrence())));
+    }
+    setUseAdvancedRule(enabled);
+  };
+
   const handleRemove = () => {
     haptics.light();
     onSave(null);
@@ -118,6 +271,24 @@ export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
   ];
 
   const getRecurrenceSummary = () => {
+    const modeSuffix =
+      repeatMode === 'defer-another'
+        ? ', counted from completion'
+        : repeatMode === 'catch-up'
+        ? ', skipping missed dates'
+        : '';
+    return getScheduleSummary() + modeSuffix;
+  };
+
+  const getScheduleSummary = () => {
+    if (useAdvancedRule || (type === 'monthly' && monthlyMode === 'ordinal_weekday')) {
+      const ruleError = getRuleError();
+      if (ruleError) {
+        return `Invalid rule: ${ruleError}`;
+      }
+      return `Repeats ${formatRecurrence(buildRecurrence()).toLowerCase()}`;
+    }
+
     const intervalNum = parseInt(interval) || 1;
     let summary = 'Repeats ';
 
@@ -156,6 +327,8 @@ export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
     return summary;
   };
 
+  const previewDates = getPreviewDates();
+
   return (
     <Modal
       visible={visible}
@@ -203,447 +376,670 @@ export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
         </View>
 
         <ScrollView style={styles.content}>
-          <View style={styles.section}>
-            <Text
-              style={[
-                styles.sectionTitle,
-                { color: colors.text, ...typography.headline },
-              ]}
-            >
-              Frequency
-            </Text>
-            <View style={styles.typeGrid}>
-              {[
-                { value: 'daily', label: 'Daily', emoji: '📅' },
-                { value: 'weekly', label: 'Weekly', emoji: '📆' },
-                { value: 'monthly', label: 'Monthly', emoji: '🗓️' },
-                { value: 'yearly', label: 'Yearly', emoji: '📅' },
-                { value: 'custom', label: 'Custom', emoji: '⚙️' },
-              ].map((option) => (
-                <TouchableOpacity
-                  key={option.value}
+          {!useAdvancedRule && (
+            <>
+              <View style={styles.section}>
+                <Text
                   style={[
-                    styles.typeCard,
-                    {
-                      backgroundColor:
-                        type === option.value
-                          ? colors.primary
-                          : colors.secondaryBackground,
-                      borderColor:
-                        type === option.value
-                          ? colors.primary
-                          : colors.separator,
-                    },
+                    styles.sectionTitle,
+                    { color: colors.text, ...typography.headline },
                   ]}
-                  onPress={() => {
-                    haptics.selection();
-                    setType(option.value as RecurrenceType);
-                  }}
                 >
-                  <Text style={styles.typeEmoji}>{option.emoji}</Text>
-                  <Text
-                    style={[
-                      styles.typeLabel,
-                      {
-                        color:
-                          type === option.value ? '#FFFFFF' : colors.text,
-                        ...typography.subheadline,
-                      },
-                    ]}
-                  >
-                    {option.label}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </View>
-
-          <View style={styles.section}>
-            <Text
-              style={[
-                styles.sectionTitle,
-                { color: colors.text, ...typography.headline },
-              ]}
-            >
-              Interval
-            </Text>
-            <View
-              style={[
-                styles.intervalRow,
-                { backgroundColor: colors.secondaryBackground },
-              ]}
-            >
-              <Text
-                style={[
-                  styles.intervalLabel,
-                  { color: colors.text, ...typography.body },
-                ]}
-              >
-                Every
-              </Text>
-              <TextInput
-                style={[
-                  styles.intervalInput,
-                  {
-                    color: colors.text,
-                    borderColor: colors.separator,
-                    ...typography.headline,
-                  },
-                ]}
-                keyboardType="number-pad"
-                value={interval}
-                onChangeText={setInterval}
-                maxLength={3}
-              />
-              <Text
-                style={[
-                  styles.intervalLabel,
-                  { color: colors.text, ...typography.body },
-                ]}
-              >
-                {type === 'daily'
-                  ? 'day(s)'
-                  : type === 'weekly'
-                  ? 'week(s)'
-                  : type === 'monthly'
-                  ? 'month(s)'
-                  : type === 'yearly'
-                  ? 'year(s)'
-                  : 'day(s)'}
-              </Text>
-            </View>
-          </View>
-
-          {type === 'weekly' && (
-            <View style={styles.section}>
-              <Text
-                style={[
-                  styles.sectionTitle,
-                  { color: colors.text, ...typography.headline },
-                ]}
-              >
-                Repeat on
-              </Text>
-              <View style={styles.daysGrid}>
-                {dayNames.map((day, index) => (
-                  <TouchableOpacity
-                    key={index}
-                    style={[
-                      styles.dayButton,
-                      {
-                        backgroundColor: daysOfWeek.includes(index)
-                          ? colors.primary
-                          : colors.secondaryBackground,
-                        borderColor: colors.separator,
-                      },
-                    ]}
-                    onPress={() => toggleDayOfWeek(index)}
-                  >
-                    <Text
+                  Frequency
+                </Text>
+                <View style={styles.typeGrid}>
+                  {[
+                    { value: 'daily', label: 'Daily', emoji: '📅' },
+                    { value: 'weekly', label: 'Weekly', emoji: '📆' },
+                    { value: 'monthly', label: 'Monthly', emoji: '🗓️' },
+                    { value: 'yearly', label: 'Yearly', emoji: '📅' },
+                    { value: 'custom', label: 'Custom', emoji: '⚙️' },
+                  ].map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
                       style={[
-                        styles.dayText,
+                        styles.typeCard,
                         {
-                          color: daysOfWeek.includes(index)
-                            ? '#FFFFFF'
-                            : colors.text,
-                          ...typography.subheadline,
+                          backgroundColor:
+                            type === option.value
+                              ? colors.primary
+                              : colors.secondaryBackground,
+                          borderColor:
+                            type === option.value
+                              ? colors.primary
+                              : colors.separator,
                         },
                       ]}
+                      onPress={() => {
+                        haptics.selection();
+                        setType(option.value as RecurrenceType);
+                      }}
                     >
-                      {day}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
+                      <Text style={styles.typeEmoji}>{option.emoji}</Text>
+                      <Text
+                        style={[
+                          styles.typeLabel,
+                          {
+                            color:
+                              type === option.value ? '#FFFFFF' : colors.text,
+                            ...typography.subheadline,
+                          },
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
               </View>
-            </View>
-          )}
 
-          {type === 'monthly' && (
-            <View style={styles.section}>
-              <Text
-                style={[
-                  styles.sectionTitle,
-                  { color: colors.text, ...typography.headline },
-                ]}
-              >
-                Day of Month
-              </Text>
-              <View
-                style={[
-                  styles.intervalRow,
-                  { backgroundColor: colors.secondaryBackground },
-                ]}
-              >
+              <View style={styles.section}>
                 <Text
                   style={[
-                    styles.intervalLabel,
-                    { color: colors.text, ...typography.body },
+                    styles.sectionTitle,
+                    { color: colors.text, ...typography.headline },
                   ]}
                 >
-                  Day
+                  Interval
                 </Text>
-                <TextInput
-                  style={[
-                    styles.intervalInput,
-                    {
-                      color: colors.text,
-                      borderColor: colors.separator,
-                      ...typography.headline,
-                    },
-                  ]}
-                  keyboardType="number-pad"
-                  value={dayOfMonth}
-                  onChangeText={setDayOfMonth}
-                  maxLength={2}
-                  placeholder="1-31"
-                  placeholderTextColor={colors.tertiaryText}
-                />
-              </View>
-            </View>
-          )}
-
-          {type === 'yearly' && (
-            <View style={styles.section}>
-              <Text
-                style={[
-                  styles.sectionTitle,
-                  { color: colors.text, ...typography.headline },
-                ]}
-              >
-                Date
-              </Text>
-              <View style={styles.yearlyRow}>
                 <View
                   style={[
-                    styles.monthPicker,
+                    styles.intervalRow,
                     { backgroundColor: colors.secondaryBackground },
                   ]}
                 >
                   <Text
                     style={[
-                      styles.yearlyLabel,
-                      { color: colors.secondaryText, ...typography.caption1 },
+                      styles.intervalLabel,
+                      { color: colors.text, ...typography.body },
                     ]}
                   >
-                    Month
+                    Every
                   </Text>
-                  <ScrollView
-                    style={styles.monthScroll}
-                    showsVerticalScrollIndicator={false}
+                  <TextInput
+                    style={[
+                      styles.intervalInput,
+                      {
+                        color: colors.text,
+                        borderColor: colors.separator,
+                        ...typography.headline,
+                      },
+                    ]}
+                    keyboardType="number-pad"
+                    value={interval}
+                    onChangeText={setInterval}
+                    maxLength={3}
+                  />
+                  <Text
+                    style={[
+                      styles.intervalLabel,
+                      { color: colors.text, ...typography.body },
+                    ]}
                   >
-                    {monthNames.map((month, index) => (
+                    {type === 'daily'
+                      ? 'day(s)'
+                      : type === 'weekly'
+                      ? 'week(s)'
+                      : type === 'monthly'
+                      ? 'month(s)'
+                      : type === 'yearly'
+                      ? 'year(s)'
+                      : 'day(s)'}
+                  </Text>
+                </View>
+              </View>
+
+              {type === 'weekly' && (
+                <View style={styles.section}>
+                  <Text
+                    style={[
+                      styles.sectionTitle,
+                      { color: colors.text, ...typography.headline },
+                    ]}
+                  >
+                    Repeat on
+                  </Text>
+                  <View style={styles.daysGrid}>
+                    {dayNames.map((day, index) => (
                       <TouchableOpacity
                         key={index}
                         style={[
-                          styles.monthOption,
+                          styles.dayButton,
+                          {
+                            backgroundColor: daysOfWeek.includes(index)
+                              ? colors.primary
+                              : colors.secondaryBackground,
+                            borderColor: colors.separator,
+                          },
+                        ]}
+                        onPress={() => toggleDayOfWeek(index)}
+                      >
+                        <Text
+                          style={[
+                            styles.dayText,
+                            {
+                              color: daysOfWeek.includes(index)
+                                ? '#FFFFFF'
+                                : colors.text,
+                              ...typography.subheadline,
+                            },
+                          ]}
+                        >
+                          {day}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {type === 'monthly' && (
+                <View style={styles.section}>
+                  <Text
+                    style={[
+                      styles.sectionTitle,
+                      { color: colors.text, ...typography.headline },
+                    ]}
+                  >
+                    Repeat on
+                  </Text>
+                  <View style={styles.endOptions}>
+                    {([
+                      { value: 'day_of_month', label: 'Day of Month' },
+                      { value: 'ordinal_weekday', label: 'Day of Week' },
+                    ] as { value: MonthlyMode; label: string }[]).map((option) => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.endOption,
                           {
                             backgroundColor:
-                              monthOfYear === index + 1
+                              monthlyMode === option.value
                                 ? colors.primary
-                                : 'transparent',
+                                : colors.secondaryBackground,
+                            borderColor: colors.separator,
                           },
                         ]}
                         onPress={() => {
                           haptics.selection();
-                          setMonthOfYear(index + 1);
+                          setMonthlyMode(option.value);
                         }}
                       >
                         <Text
                           style={[
-                            styles.monthText,
+                            styles.endOptionText,
                             {
-                              color:
-                                monthOfYear === index + 1
-                                  ? '#FFFFFF'
-                                  : colors.text,
+                              color: monthlyMode === option.value ? '#FFFFFF' : colors.text,
                               ...typography.body,
                             },
                           ]}
                         >
-                          {month}
+                          {option.label}
                         </Text>
                       </TouchableOpacity>
                     ))}
-                  </ScrollView>
+                  </View>
+
+                  {monthlyMode === 'day_of_month' ? (
+                    <View
+                      style={[
+                        styles.intervalRow,
+                        { backgroundColor: colors.secondaryBackground },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.intervalLabel,
+                          { color: colors.text, ...typography.body },
+                        ]}
+                      >
+                        Day
+                      </Text>
+                      <TextInput
+                        style={[
+                          styles.intervalInput,
+                          {
+                            color: colors.text,
+                            borderColor: colors.separator,
+                            ...typography.headline,
+                          },
+                        ]}
+                        keyboardType="number-pad"
+                        value={dayOfMonth}
+                        onChangeText={setDayOfMonth}
+                        maxLength={2}
+                        placeholder="1-31"
+                        placeholderTextColor={colors.tertiaryText}
+                      />
+                    </View>
+                  ) : (
+                    <>
+                      <View style={[styles.daysGrid, styles.ordinalRow]}>
+                        {ORDINALS.map((value) => (
+                          <TouchableOpacity
+                            key={value}
+                            style={[
+                              styles.dayButton,
+                              {
+                                backgroundColor: ordinal === value
+                                  ? colors.primary
+                                  : colors.secondaryBackground,
+                                borderColor: colors.separator,
+                              },
+                            ]}
+                            onPress={() => {
+                              haptics.selection();
+                              setOrdinal(value);
+                            }}
+                          >
+                            <Text
+                              style={[
+                                styles.dayText,
+                                {
+                                  color: ordinal === value ? '#FFFFFF' : colors.text,
+                                  ...typography.subheadline,
+                                },
+                              ]}
+                            >
+                              {formatOrdinal(value)}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                      <View style={[styles.daysGrid, styles.ordinalRow]}>
+                        {[...dayNames.map((name, index) => ({ value: index as OrdinalDay, label: name })), { value: 'weekday' as OrdinalDay, label: 'Wkdy' }].map((option) => (
+                          <TouchableOpacity
+                            key={String(option.value)}
+                            style={[
+                              styles.dayButton,
+                              {
+                                backgroundColor: ordinalDay === option.value
+                                  ? colors.primary
+                                  : colors.secondaryBackground,
+                                borderColor: colors.separator,
+                              },
+                            ]}
+                            onPress={() => {
+                              haptics.selection();
+                              setOrdinalDay(option.value);
+                            }}
+                            accessibilityLabel={option.value === 'weekday' ? 'Weekday' : option.label}
+                          >
+                            <Text
+                              style={[
+                                styles.dayText,
+                                {
+                                  color: ordinalDay === option.value ? '#FFFFFF' : colors.text,
+                                  ...typography.caption1,
+                                },
+                              ]}
+                            >
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
                 </View>
-                <View
+              )}
+
+              {type === 'yearly' && (
+                <View style={styles.section}>
+                  <Text
+                    style={[
+                      styles.sectionTitle,
+                      { color: colors.text, ...typography.headline },
+                    ]}
+                  >
+                    Date
+                  </Text>
+                  <View style={styles.yearlyRow}>
+                    <View
+                      style={[
+                        styles.monthPicker,
+                        { backgroundColor: colors.secondaryBackground },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.yearlyLabel,
+                          { color: colors.secondaryText, ...typography.caption1 },
+                        ]}
+                      >
+                        Month
+                      </Text>
+                      <ScrollView
+                        style={styles.monthScroll}
+                        showsVerticalScrollIndicator={false}
+                      >
+                        {monthNames.map((month, index) => (
+                          <TouchableOpacity
+                            key={index}
+                            style={[
+                              styles.monthOption,
+                              {
+                                backgroundColor:
+                                  monthOfYear === index + 1
+                                    ? colors.primary
+                                    : 'transparent',
+                              },
+                            ]}
+                            onPress={() => {
+                              haptics.selection();
+                              setMonthOfYear(index + 1);
+                            }}
+                          >
+                            <Text
+                              style={[
+                                styles.monthText,
+                                {
+                                  color:
+                                    monthOfYear === index + 1
+                                      ? '#FFFFFF'
+                                      : colors.text,
+                                  ...typography.body,
+                                },
+                              ]}
+                            >
+                              {month}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </ScrollView>
+                    </View>
+                    <View
+                      style={[
+                        styles.dayInput,
+                        { backgroundColor: colors.secondaryBackground },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.yearlyLabel,
+                          { color: colors.secondaryText, ...typography.caption1 },
+                        ]}
+                      >
+                        Day
+                      </Text>
+                      <TextInput
+                        style={[
+                          styles.yearlyDayInput,
+                          {
+                            color: colors.text,
+                            borderColor: colors.separator,
+                            ...typography.title1,
+                          },
+                        ]}
+                        keyboardType="number-pad"
+                        value={dayOfMonth}
+                        onChangeText={setDayOfMonth}
+                        maxLength={2}
+                        placeholder="1-31"
+                        placeholderTextColor={colors.tertiaryText}
+                      />
+                    </View>
+                  </View>
+                </View>
+              )}
+
+              <View style={styles.section}>
+                <Text
                   style={[
-                    styles.dayInput,
-                    { backgroundColor: colors.secondaryBackground },
+                    styles.sectionTitle,
+                    { color: colors.text, ...typography.headline },
                   ]}
                 >
-                  <Text
+                  Ends
+                </Text>
+                <View style={styles.endOptions}>
+                  <TouchableOpacity
                     style={[
-                      styles.yearlyLabel,
-                      { color: colors.secondaryText, ...typography.caption1 },
+                      styles.endOption,
+                      {
+                        backgroundColor:
+                          endType === 'never'
+                            ? colors.primary
+                            : colors.secondaryBackground,
+                        borderColor: colors.separator,
+                      },
                     ]}
+                    onPress={() => {
+                      haptics.selection();
+                      setEndType('never');
+                    }}
                   >
-                    Day
-                  </Text>
-                  <TextInput
+                    <Text
+                      style={[
+                        styles.endOptionText,
+                        {
+                          color: endType === 'never' ? '#FFFFFF' : colors.text,
+                          ...typography.body,
+                        },
+                      ]}
+                    >
+                      Never
+                    </Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
                     style={[
-                      styles.yearlyDayInput,
+                      styles.endOption,
                       {
-                        color: colors.text,
+                        backgroundColor:
+                          endType === 'on_date'
+                            ? colors.primary
+                            : colors.secondaryBackground,
                         borderColor: colors.separator,
-                        ...typography.title1,
                       },
                     ]}
-                    keyboardType="number-pad"
-                    value={dayOfMonth}
-                    onChangeText={setDayOfMonth}
-                    maxLength={2}
-                    placeholder="1-31"
-                    placeholderTextColor={colors.tertiaryText}
-                  />
+                    onPress={() => {
+                      haptics.selection();
+                      setEndType('on_date');
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.endOptionText,
+                        {
+                          color: endType === 'on_date' ? '#FFFFFF' : colors.text,
+                          ...typography.body,
+                        },
+                      ]}
+                    >
+                      On Date
+                    </Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={[
+                      styles.endOption,
+                      {
+                        backgroundColor:
+                          endType === 'after_occurrences'
+                            ? colors.primary
+                            : colors.secondaryBackground,
+                        borderColor: colors.separator,
+                      },
+                    ]}
+                    onPress={() => {
+                      haptics.selection();
+                      setEndType('after_occurrences');
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.endOptionText,
+                        {
+                          color:
+                            endType === 'after_occurrences'
+                              ? '#FFFFFF'
+                              : colors.text,
+                          ...typography.body,
+                        },
+                      ]}
+                    >
+                      After
+                    </Text>
+                  </TouchableOpacity>
                 </View>
+
+                {endType === 'on_date' && (
+                  <View style={styles.endDetail}>
+                    <DatePicker
+                      label=""
+                      value={endDate}
+                      onChange={setEndDate}
+                      placeholder="Select end date"
+                    />
+                  </View>
+                )}
+
+                {endType === 'after_occurrences' && (
+                  <View
+                    style={[
+                      styles.intervalRow,
+                      { backgroundColor: colors.secondaryBackground },
+                    ]}
+                  >
+                    <TextInput
+                      style={[
+                        styles.intervalInput,
+                        {
+                          color: colors.text,
+                          borderColor: colors.separator,
+                          ...typography.headline,
+                        },
+                      ]}
+                      keyboardType="number-pad"
+                      value={endAfterOccurrences}
+                      onChangeText={setEndAfterOccurrences}
+                      maxLength={3}
+                    />
+                    <Text
+                      style={[
+                        styles.intervalLabel,
+                        { color: colors.text, ...typography.body },
+                      ]}
+                    >
+                      occurrence(s)
+                    </Text>
+                  </View>
+                )}
               </View>
-            </View>
+            </>
           )}
 
           <View style={styles.section}>
-            <Text
-              style={[
-                styles.sectionTitle,
-                { color: colors.text, ...typography.headline },
-              ]}
-            >
-              Ends
-            </Text>
-            <View style={styles.endOptions}>
-              <TouchableOpacity
-                style={[
-                  styles.endOption,
-                  {
-                    backgroundColor:
-                      endType === 'never'
-                        ? colors.primary
-                        : colors.secondaryBackground,
-                    borderColor: colors.separator,
-                  },
-                ]}
-                onPress={() => {
-                  haptics.selection();
-                  setEndType('never');
-                }}
-              >
+            <View style={styles.advancedHeader}>
+              <View style={styles.advancedInfo}>
                 <Text
                   style={[
-                    styles.endOptionText,
-                    {
-                      color: endType === 'never' ? '#FFFFFF' : colors.text,
-                      ...typography.body,
-                    },
+                    styles.advancedTitle,
+                    { color: colors.text, ...typography.headline },
                   ]}
                 >
-                  Never
+                  Custom Rule (RRULE)
                 </Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[
-                  styles.endOption,
-                  {
-                    backgroundColor:
-                      endType === 'on_date'
-                        ? colors.primary
-                        : colors.secondaryBackground,
-                    borderColor: colors.separator,
-                  },
-                ]}
-                onPress={() => {
-                  haptics.selection();
-                  setEndType('on_date');
-                }}
-              >
                 <Text
                   style={[
-                    styles.endOptionText,
-                    {
-                      color: endType === 'on_date' ? '#FFFFFF' : colors.text,
-                      ...typography.body,
-                    },
+                    styles.advancedDescription,
+                    { color: colors.secondaryText, ...typography.caption1 },
                   ]}
                 >
-                  On Date
+                  For patterns like the last weekday of the month or every quarter on the 15th
                 </Text>
-              </TouchableOpacity>
+              </View>
+              <Switch
+                value={useAdvancedRule}
+                onValueChange={handleToggleAdvanced}
+                trackColor={{ false: colors.separator, true: colors.primary }}
+                thumbColor="#FFFFFF"
+                accessibilityLabel="Use custom RRULE"
+              />
+            </View>
 
-              <TouchableOpacity
-                style={[
-                  styles.endOption,
-                  {
-                    backgroundColor:
-                      endType === 'after_occurrences'
-                        ? colors.primary
-                        : colors.secondaryBackground,
-                    borderColor: colors.separator,
-                  },
-                ]}
-                onPress={() => {
-                  haptics.selection();
-                  setEndType('after_occurrences');
-                }}
-              >
-                <Text
+            {useAdvancedRule && (
+              <>
+                <TextInput
                   style={[
-                    styles.endOptionText,
+                    styles.ruleInput,
                     {
-                      color:
-                        endType === 'after_occurrences'
-                          ? '#FFFFFF'
-                          : colors.text,
+                      color: colors.text,
+                      backgroundColor: colors.secondaryBackground,
+                      borderColor: getRuleError() ? colors.red : colors.separator,
                       ...typography.body,
                     },
                   ]}
-                >
-                  After
-                </Text>
-              </TouchableOpacity>
-            </View>
-
-            {endType === 'on_date' && (
-              <View style={styles.endDetail}>
-                <DatePicker
-                  label=""
-                  value={endDate}
-                  onChange={setEndDate}
-                  placeholder="Select end date"
+                  value={ruleText}
+                  onChangeText={setRuleText}
+                  placeholder="FREQ=MONTHLY;BYDAY=2TU"
+                  placeholderTextColor={colors.tertiaryText}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  multiline
                 />
-              </View>
+                {getRuleError() && (
+                  <Text style={[styles.ruleError, { color: colors.red, ...typography.caption1 }]}>
+                    {getRuleError()}
+                  </Text>
+                )}
+              </>
             )}
+          </View>
 
-            {endType === 'after_occurrences' && (
-              <View
-                style={[
-                  styles.intervalRow,
-                  { backgroundColor: colors.secondaryBackground },
-                ]}
-              >
-                <TextInput
+          <View style={styles.section}>
+            <Text
+              style={[
+                styles.sectionTitle,
+                { color: colors.text, ...typography.headline },
+              ]}
+            >
+              Repeat From
+            </Text>
+            <View style={styles.endOptions}>
+              {REPEAT_MODES.map((mode) => (
+                <TouchableOpacity
+                  key={mode.value}
                   style={[
-                    styles.intervalInput,
+                    styles.endOption,
                     {
-                      color: colors.text,
+                      backgroundColor:
+                        repeatMode === mode.value
+                          ? colors.primary
+                          : colors.secondaryBackground,
                       borderColor: colors.separator,
-                      ...typography.headline,
                     },
                   ]}
-                  keyboardType="number-pad"
-                  value={endAfterOccurrences}
-                  onChangeText={setEndAfterOccurrences}
-                  maxLength={3}
-                />
-                <Text
-                  style={[
-                    styles.intervalLabel,
-                    { color: colors.text, ...typography.body },
-                  ]}
+                  onPress={() => {
+                    haptics.selection();
+                    setRepeatMode(mode.value);
+                  }}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: repeatMode === mode.value }}
                 >
-                  occurrence(s)
-                </Text>
-              </View>
-            )}
+                  <Text
+                    style={[
+                      styles.endOptionText,
+                      {
+                        color: repeatMode === mode.value ? '#FFFFFF' : colors.text,
+                        ...typography.body,
+                      },
+                    ]}
+                  >
+                    {mode.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text
+              style={[
+                styles.advancedDescription,
+                { color: colors.secondaryText, ...typography.caption1 },
+              ]}
+            >
+              {REPEAT_MODES.find((mode) => mode.value === repeatMode)?.description}. Start and planned dates move along with the due date.
+            </Text>
           </View>
 
           <View
@@ -670,6 +1066,36 @@ export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
             </Text>
           </View>
 
+          <View
+            style={[
+              styles.summarySection,
+              { backgroundColor: colors.tertiaryBackground },
+            ]}
+          >
+            <Text
+              style={[
+                styles.summaryLabel,
+                { color: colors.secondaryText, ...typography.caption1 },
+              ]}
+            >
+              Next {PREVIEW_COUNT} Dates
+            </Text>
+            {previewDates && previewDates.length > 0 ? (
+              previewDates.map((date) => (
+                <Text
+                  key={date.getTime()}
+                  style={[styles.previewDate, { color: colors.text, ...typography.body }]}
+                >
+                  {formatDate(date, 'EEE')}, {formatDate(date, 'MMM d, yyyy')}
+                </Text>
+              ))
+            ) : (
+              <Text style={[styles.previewEmpty, { color: colors.tertiaryText, ...typography.body }]}>
+                {previewDates ? 'No more occurrences' : 'Fix the rule to see upcoming dates'}
+              </Text>
+            )}
+          </View>
+
           {initialRecurrence && (
             <View style={styles.dangerSection}>
               <TouchableOpacity
@@ -848,6 +1274,12 @@ const styles = StyleSheet.create({
   summaryText: {
     lineHeight: 22,
   },
+  previewDate: {
+    lineHeight: 24,
+  },
+  previewEmpty: {
+    fontStyle: 'italic',
+  },
   dangerSection: {
     paddingHorizontal: 16,
     paddingVertical: 24,
@@ -861,4 +1293,34 @@ const styles = StyleSheet.create({
   removeButtonText: {
     fontWeight: '600',
   },
+  ordinalRow: {
+    marginBottom: 8,
+  },
+  advancedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  advancedInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  advancedTitle: {
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  advancedDescription: {
+    lineHeight: 16,
+  },
+  ruleInput: {
+    marginTop: 16,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 60,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  ruleError: {
+    marginTop: 8,
+  },
 });
@@ -0,0 +1,165 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Platform } from 'react-native';
+import { useTheme } from '../theme/useTheme';
+import { formatDate, addDays } from '../utils/dateUtils';
+
+interface RescheduleOccurrenceModalProps {
+  visible: boolean;
+  currentDate?: Date;
+  onClose: () => void;
+  onSelect: (date: Date) => void;
+}
+
+/**
+ * Date picker for moving a single occurrence of a recurring task.
+ * The rest of the series keeps its schedule.
+ */
+export function RescheduleOccurrenceModal({
+  visible,
+  currentDate,
+  onClose,
+  onSelect,
+}: RescheduleOccurrenceModalProps) {
+  const { colors, typography } = useTheme();
+  const baseDate = currentDate || new Date();
+
+  const quickDates = [
+    { label: 'Today', date: new Date() },
+    { label: 'Tomorrow', date: addDays(new Date(), 1) },
+    { label: 'One day later', date: addDays(baseDate, 1) },
+    { label: 'One week later', date: addDays(baseDate, 7) },
+  ];
+
+  const handleSelect = (date: Date) => {
+    onSelect(date);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View
+          style={[styles.pickerContainer, { backgroundColor: colors.card }]}
+          onStartShouldSetResponder={() => true}
+        >
+          <View style={styles.pickerHeader}>
+            <Text style={[styles.pickerTitle, { color: colors.text, ...typography.headline }]}>
+              Reschedule This Occurrence
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={[styles.cancelButton, { color: colors.primary, ...typography.body }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.description, { color: colors.secondaryText, ...typography.caption1 }]}>
+            Only this occurrence moves. The rest of the series keeps its schedule.
+          </Text>
+
+          <View style={styles.quickDatesContainer}>
+            {quickDates.map((quick) => (
+              <TouchableOpacity
+                key={quick.label}
+                style={[styles.quickDateButton, { backgroundColor: colors.secondaryBackground }]}
+                onPress={() => handleSelect(quick.date)}
+              >
+                <Text style={[styles.quickDateText, { color: colors.text, ...typography.body }]}>
+                  {quick.label}
+                </Text>
+                <Text style={[styles.quickDateSubtext, { color: colors.tertiaryText, ...typography.caption1 }]}>
+                  {formatDate(quick.date, 'EEE')}, {formatDate(quick.date, 'MMM d')}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {Platform.OS === 'web' && (
+            <View style={styles.webDatePicker}>
+              <input
+                type="date"
+                value={toInputValue(baseDate)}
+                onChange={(e) => {
+                  if (e.target.value) {
+                    const [year, month, day] = e.target.value.split('-').map(Number);
+                    handleSelect(new Date(year, month - 1, day));
+                  }
+                }}
+                style={{
+                  padding: 12,
+                  fontSize: 16,
+                  borderRadius: 8,
+                  border: `1px solid ${colors.separator}`,
+                  backgroundColor: colors.secondaryBackground,
+                  color: colors.text,
+                  width: '100%',
+                }}
+              />
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+// yyyy-mm-dd in local time, as expected by <input type="date">
+function toInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  pickerContainer: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 16,
+    elevation: 12,
+  },
+  pickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  pickerTitle: {
+    fontWeight: '600',
+  },
+  cancelButton: {
+    fontWeight: '600',
+  },
+  description: {
+    marginBottom: 16,
+    lineHeight: 16,
+  },
+  quickDatesContainer: {
+    gap: 12,
+  },
+  quickDateButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  quickDateText: {
+    fontWeight: '500',
+  },
+  quickDateSubtext: {},
+  webDatePicker: {
+    marginTop: 20,
+  },
+});
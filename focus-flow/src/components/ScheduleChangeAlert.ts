@@ -0,0 +1,45 @@
+import { Alert, Platform } from 'react-native';
+import { ScheduleChange } from '../utils/autoScheduler';
+import { formatDate } from '../utils/dateUtils';
+
+// Longest list of moved tasks shown before summarising the rest
+const MAX_LISTED_CHANGES = 8;
+
+const describeChange = (change: ScheduleChange): string => {
+  const from = change.task.startDate || change.task.plannedDate || change.task.dueDate;
+  const to = change.updates.startDate || change.updates.plannedDate || change.updates.dueDate;
+  return from && to
+    ? `• ${change.task.title}: ${formatDate(from, 'MMM d')} → ${formatDate(to, 'MMM d')}`
+    : `• ${change.task.title}`;
+};
+
+/**
+ * Ask before moving dependent tasks along with the task being rescheduled.
+ * Calls onApply with the changes to make: all of them, or none to move only
+ * the task itself. Nothing is called when the user cancels.
+ */
+export function confirmScheduleChanges(changes: ScheduleChange[], onApply: (changes: ScheduleChange[]) => void) {
+  if (changes.length === 0) {
+    onApply([]);
+    return;
+  }
+
+  const listed = changes.slice(0, MAX_LISTED_CHANGES).map(describeChange);
+  if (changes.length > MAX_LISTED_CHANGES) {
+    listed.push(`…and ${changes.length - MAX_LISTED_CHANGES} more`);
+  }
+  const title = `Move ${changes.length} Dependent Task${changes.length === 1 ? '' : 's'}?`;
+  const message = `These tasks would start before the work they depend on:\n\n${listed.join('\n')}`;
+
+  if (Platform.OS === 'web') {
+    // OK moves everything; Cancel still saves the change to this task alone
+    onApply(confirm(`${title}\n\n${message}\n\nPress Cancel to move only this task.`) ? changes : []);
+    return;
+  }
+
+  Alert.alert(title, message, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Only This Task', onPress: () => onApply([]) },
+    { text: 'Move All', onPress: () => onApply(changes) },
+  ]);
+}
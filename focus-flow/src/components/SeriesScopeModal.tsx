@@ -0,0 +1,129 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { useTheme } from '../theme/useTheme';
+import { haptics } from '../utils/haptics';
+import { SeriesScope } from '../types';
+
+interface SeriesScopeModalProps {
+  visible: boolean;
+  title: string;
+  message: string;
+  destructive?: boolean;
+  onSelect: (scope: SeriesScope) => void;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: { scope: SeriesScope; label: string }[] = [
+  { scope: 'this', label: 'This Occurrence' },
+  { scope: 'future', label: 'This and Future Occurrences' },
+  { scope: 'all', label: 'All Occurrences' },
+];
+
+/**
+ * Asks which occurrences of a recurring series an edit or delete applies to
+ */
+export function SeriesScopeModal({
+  visible,
+  title,
+  message,
+  destructive = false,
+  onSelect,
+  onClose,
+}: SeriesScopeModalProps) {
+  const { colors, typography } = useTheme();
+
+  const handleSelect = (scope: SeriesScope) => {
+    if (destructive) {
+      haptics.warning();
+    } else {
+      haptics.light();
+    }
+    onClose();
+    onSelect(scope);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View
+          style={[styles.container, { backgroundColor: colors.card }]}
+          onStartShouldSetResponder={() => true}
+        >
+          <Text style={[styles.title, { color: colors.text, ...typography.headline }]}>{title}</Text>
+          <Text style={[styles.message, { color: colors.secondaryText, ...typography.caption1 }]}>
+            {message}
+          </Text>
+
+          {SCOPE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.scope}
+              style={[styles.option, { backgroundColor: colors.secondaryBackground }]}
+              onPress={() => handleSelect(option.scope)}
+              accessibilityRole="button"
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  { color: destructive ? colors.red : colors.primary, ...typography.body },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose} accessibilityRole="button">
+            <Text style={[styles.cancelText, { color: colors.secondaryText, ...typography.body }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 16,
+    padding: 20,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 16,
+    elevation: 12,
+  },
+  title: {
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  message: {
+    textAlign: 'center',
+    lineHeight: 16,
+    marginBottom: 6,
+  },
+  option: {
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,41 @@
+import { Alert, Platform } from 'react-native';
+import { Task } from '../types';
+import { getOpenSubtasks } from '../utils/subtasks';
+import { alertFinishBlockers } from './FinishBlockerAlert';
+
+/**
+ * Ask whether completing a task should also complete its open subtasks.
+ * Calls onToggle straight away for completed tasks and tasks without open
+ * subtasks. Nothing is called when the user cancels, or when a prerequisite
+ * keeps the task from finishing.
+ */
+export function confirmSubtaskCompletion(
+  task: Task,
+  tasks: Task[],
+  onToggle: (includeSubtasks: boolean) => void
+) {
+  if (alertFinishBlockers(task, tasks)) {
+    return;
+  }
+
+  const openSubtasks = task.status === 'completed' ? [] : getOpenSubtasks(task.id, tasks);
+  if (openSubtasks.length === 0) {
+    onToggle(false);
+    return;
+  }
+
+  const title = `Complete ${openSubtasks.length} Open Subtask${openSubtasks.length === 1 ? '' : 's'}?`;
+  const message = `"${task.title}" still has unfinished subtasks.`;
+
+  if (Platform.OS === 'web') {
+    // OK completes everything; Cancel still completes this task alone
+    onToggle(confirm(`${title}\n\n${message}\n\nPress Cancel to complete only this task.`));
+    return;
+  }
+
+  Alert.alert(title, message, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Only This Task', onPress: () => onToggle(false) },
+    { text: 'Complete All', onPress: () => onToggle(true) },
+  ]);
+}
@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, Animated, Platform } from 'react-native';
 import { Swipeable, GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useTheme } from '../theme/useTheme';
 import { haptics } from '../utils/haptics';
+import { runWithUndoToast } from './UndoToast';
 
 interface SwipeableTaskRowProps {
   onComplete: () => void;
@@ -72,7 +73,9 @@ export const SwipeableTaskRow: React.FC<SwipeableTaskRowProps> = ({
     haptics.success();
     setTimeout(() => {
       swipeableRef.current?.close();
-      if (onDefer) onDefer();
+      if (onDefer) {
+        runWithUndoToast('Task deferred', onDefer);
+      }
     }, 100);
   };
 
@@ -80,6 +83,7 @@ export const SwipeableTaskRow: React.FC<SwipeableTaskRowProps> = ({
     haptics.success();
     setTimeout(() => {
       swipeableRef.current?.close();
+      // The screen shows the undo toast once the task is actually completed
       onComplete();
     }, 100);
   };
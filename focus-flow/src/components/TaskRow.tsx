@@ -2,23 +2,36 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Pressable, Animated } from 'react-native';
 import { Swipeable } from 'react-native-gesture-handler';
 import { haptics } from '../utils/haptics';
-import { Task, TaskPriority, TaskStatus } from '../types';
+import { SeriesScope, Task, TaskPriority, TaskStatus } from '../types';
 import { useTheme } from '../theme/useTheme';
 import { formatDate } from '../utils/dateUtils';
 import { ViewDensity } from '../store/settingsStore';
+import { useTaskStore } from '../store/taskStore';
 import { ContextMenu, ContextMenuItem } from './ContextMenu';
+import { runWithUndoToast } from './UndoToast';
+import { RescheduleOccurrenceModal } from './RescheduleOccurrenceModal';
+import { SeriesScopeModal } from './SeriesScopeModal';
 
 interface TaskRowProps {
   task: Task;
   onPress: () => void;
   onToggleComplete: () => void;
   onToggleFlag?: () => void;
-  onDelete?: () => void;
+  onDelete?: (scope?: SeriesScope) => void; // scope is set for occurrences of a recurring series
   onChangeStatus?: (status: TaskStatus) => void;
   onChangePriority?: (priority: TaskPriority) => void;
+  onSkipOccurrence?: () => void;
+  onRescheduleOccurrence?: (date: Date) => void;
+  isCritical?: boolean; // On its project's critical path
+  depth?: number; // Nesting level as a subtask
+  subtaskCount?: number; // Shows a collapse toggle when above 0
+  isCollapsed?: boolean;
+  onToggleCollapse?: () => void;
   density?: ViewDensity;
 }
 
+const SUBTASK_INDENT = 20;
+
 export const TaskRow: React.FC<TaskRowProps> = ({
   task,
   onPress,
@@ -27,11 +40,23 @@ export const TaskRow: React.FC<TaskRowProps> = ({
   onDelete,
   onChangeStatus,
   onChangePriority,
+  onSkipOccurrence,
+  onRescheduleOccurrence,
+  isCritical = false,
+  depth = 0,
+  subtaskCount = 0,
+  isCollapsed = false,
+  onToggleCollapse,
   density = 'comfortable'
 }) => {
   const { colors, typography, spacing, borderRadius, shadow } = useTheme();
   const [showContextMenu, setShowContextMenu] = useState(false);
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [showDeleteScope, setShowDeleteScope] = useState(false);
   const [isPressed, setIsPressed] = useState(false);
+  const allTags = useTaskStore((state) => state.tags);
+  // Ids of deleted tags can linger on tasks restored from the trash
+  const taskTags = allTags.filter((tag) => task.tags.includes(tag.id));
 
   // Calculate spacing based on view density
   const getDensitySpacing = () => {
@@ -113,9 +138,23 @@ export const TaskRow: React.FC<TaskRowProps> = ({
     onToggleComplete();
   };
 
+  // Part of a recurring series: either still repeating or generated from one
+  const isSeriesOccurrence = !!task.isRecurring || !!task.parentRecurringTaskId;
+
   const handleDelete = () => {
     haptics.warning();
-    onDelete?.();
+    if (isSeriesOccurrence) {
+      setShowDeleteScope(true);
+      return;
+    }
+    runWithUndoToast(`Deleted "${task.title}"`, () => onDelete?.());
+  };
+
+  const handleDeleteScopeSelect = (scope: SeriesScope) => {
+    runWithUndoToast(
+      scope === 'this' ? `Deleted occurrence of "${task.title}"` : `Deleted recurring "${task.title}"`,
+      () => onDelete?.(scope)
+    );
   };
 
   const handlePress = () => {
@@ -123,6 +162,18 @@ export const TaskRow: React.FC<TaskRowProps> = ({
     onPress();
   };
 
+  const handleSkipOccurrence = () => {
+    haptics.medium();
+    runWithUndoToast(`Skipped "${task.title}"`, () => onSkipOccurrence?.());
+  };
+
+  const handleRescheduleOccurrence = (date: Date) => {
+    haptics.success();
+    runWithUndoToast(`Moved "${task.title}" to ${formatDate(date, 'MMM d')}`, () => onRescheduleOccurrence?.(date));
+  };
+
+  const isOpenOccurrence = !!task.isRecurring && !!task.recurrence && task.status !== 'completed';
+
   const getContextMenuItems = (): ContextMenuItem[] => {
     const items: ContextMenuItem[] = [];
 
@@ -196,6 +247,22 @@ export const TaskRow: React.FC<TaskRowProps> = ({
         });
     }
 
+    // Recurring occurrence actions
+    if (isOpenOccurrence && onSkipOccurrence) {
+      items.push({
+        label: 'Skip This Occurrence',
+        icon: '⏭',
+        onPress: handleSkipOccurrence,
+      });
+    }
+    if (isOpenOccurrence && onRescheduleOccurrence) {
+      items.push({
+        label: 'Reschedule Only This One',
+        icon: '📅',
+        onPress: () => setShowReschedule(true),
+      });
+    }
+
     // Edit
     items.push({
       label: 'Edit',
@@ -208,7 +275,7 @@ export const TaskRow: React.FC<TaskRowProps> = ({
       items.push({
         label: 'Delete',
         icon: '🗑',
-        onPress: onDelete,
+        onPress: handleDelete,
         destructive: true,
       });
     }
@@ -268,6 +335,18 @@ export const TaskRow: React.FC<TaskRowProps> = ({
       label += ', completed';
     }
     label += `, priority: ${task.priority}`;
+    if (isCritical) {
+      label += ', on the critical path';
+    }
+    if (depth > 0) {
+      label += `, subtask level ${depth}`;
+    }
+    if (subtaskCount > 0) {
+      label += `, ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}${isCollapsed ? ', collapsed' : ''}`;
+    }
+    if (taskTags.length > 0) {
+      label += `, tagged ${taskTags.map((tag) => tag.name).join(', ')}`;
+    }
     if (task.dueDate) {
       label += `, due ${formatDate(task.dueDate, 'MMMM d')}`;
     }
@@ -291,6 +370,7 @@ export const TaskRow: React.FC<TaskRowProps> = ({
             backgroundColor: colors.card,
             borderColor: colors.separator,
             marginVertical: densitySpacing.marginVertical,
+            marginLeft: 12 + depth * SUBTASK_INDENT,
             minHeight: densitySpacing.minHeight,
             ...shadow.sm,
           },
@@ -311,6 +391,22 @@ export const TaskRow: React.FC<TaskRowProps> = ({
           padding: densitySpacing.verticalPadding,
           paddingHorizontal: densitySpacing.horizontalPadding,
         }]}>
+          {subtaskCount > 0 && onToggleCollapse && (
+            <Pressable
+              onPress={() => {
+                haptics.light();
+                onToggleCollapse();
+              }}
+              style={[styles.disclosure, { height: densitySpacing.checkboxSize }]}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={isCollapsed ? 'Show subtasks' : 'Hide subtasks'}
+            >
+              <Text style={[styles.disclosureIcon, { color: colors.secondaryText }]}>
+                {isCollapsed ? '▶' : '▼'}
+              </Text>
+            </Pressable>
+          )}
           <Pressable
             onPress={handleToggleComplete}
             style={[
@@ -399,6 +495,17 @@ export const TaskRow: React.FC<TaskRowProps> = ({
             </View>
 
             <View style={[styles.metadata, { gap: densitySpacing.metadataGap }]} accessible={false}>
+              {isCritical && (
+                <View style={[styles.badge, {
+                  backgroundColor: colors.red + '20',
+                  paddingVertical: densitySpacing.badgePaddingV,
+                  paddingHorizontal: densitySpacing.badgePaddingH,
+                }]}>
+                  <Text style={[styles.badgeText, { color: colors.red, ...typography.caption1 }]}>
+                    Critical
+                  </Text>
+                </View>
+              )}
               {task.dueDate && (
                 <View style={[styles.badge, {
                   backgroundColor: colors.secondaryBackground,
@@ -432,6 +539,29 @@ export const TaskRow: React.FC<TaskRowProps> = ({
                   </Text>
                 </View>
               )}
+              {subtaskCount > 0 && isCollapsed && (
+                <View style={[styles.badge, {
+                  backgroundColor: colors.secondaryBackground,
+                  paddingVertical: densitySpacing.badgePaddingV,
+                  paddingHorizontal: densitySpacing.badgePaddingH,
+                }]}>
+                  <Text style={[styles.badgeText, { color: colors.secondaryText, ...typography.caption1 }]}>
+                    {subtaskCount} subtask{subtaskCount === 1 ? '' : 's'}
+                  </Text>
+                </View>
+              )}
+              {taskTags.map((tag) => (
+                <View key={tag.id} style={[styles.badge, styles.tagBadge, {
+                  backgroundColor: tag.color + '20',
+                  paddingVertical: densitySpacing.badgePaddingV,
+                  paddingHorizontal: densitySpacing.badgePaddingH,
+                }]}>
+                  <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                  <Text style={[styles.badgeText, { color: colors.text, ...typography.caption1 }]}>
+                    {tag.name}
+                  </Text>
+                </View>
+              ))}
             </View>
 
             {task.dependsOn.length > 0 && density !== 'compact' && (
@@ -449,6 +579,24 @@ export const TaskRow: React.FC<TaskRowProps> = ({
         onClose={() => setShowContextMenu(false)}
         items={getContextMenuItems()}
       />
+      {onRescheduleOccurrence && (
+        <RescheduleOccurrenceModal
+          visible={showReschedule}
+          currentDate={task.dueDate}
+          onClose={() => setShowReschedule(false)}
+          onSelect={handleRescheduleOccurrence}
+        />
+      )}
+      {onDelete && isSeriesOccurrence && (
+        <SeriesScopeModal
+          visible={showDeleteScope}
+          title="Delete Recurring Task"
+          message="Which occurrences do you want to delete?"
+          destructive
+          onSelect={handleDeleteScopeSelect}
+          onClose={() => setShowDeleteScope(false)}
+        />
+      )}
     </Swipeable>
   );
 };
@@ -463,6 +611,16 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'flex-start',
   },
+  disclosure: {
+    width: 16,
+    marginRight: 4,
+    marginLeft: -4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disclosureIcon: {
+    fontSize: 10,
+  },
   checkbox: {
     borderWidth: 1.5,
     marginRight: 10,
@@ -518,6 +676,16 @@ const styles = StyleSheet.create({
   badgeText: {
     fontSize: 11,
   },
+  tagBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tagDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 4,
+  },
   dependencies: {
     marginTop: 3,
   },
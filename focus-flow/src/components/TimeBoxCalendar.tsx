@@ -6,19 +6,23 @@ import {
   ScrollView,
 } from 'react-native';
 import { useTheme } from '../theme/useTheme';
-import { TimeBlock, Task } from '../types';
+import { BusyBlock, TimeBlock, Task } from '../types';
 import { format } from 'date-fns';
 
 interface TimeBoxCalendarProps {
   timeBlocks: TimeBlock[];
   tasks: Task[];
   breakDuration: number; // in minutes
+  busyBlocks?: BusyBlock[]; // Imported calendar events; the ones during the plan are shown
 }
 
+type TimelineItem = { kind: 'task'; block: TimeBlock } | { kind: 'busy'; block: BusyBlock };
+
 export const TimeBoxCalendar: React.FC<TimeBoxCalendarProps> = ({
   timeBlocks,
   tasks,
   breakDuration,
+  busyBlocks = [],
 }) => {
   const { colors, typography, spacing } = useTheme();
 
@@ -40,7 +44,49 @@ export const TimeBoxCalendar: React.FC<TimeBoxCalendarProps> = ({
     return workTime + totalBreaks;
   };
 
-  const renderTimeBlock = (block: TimeBlock, index: number) => {
+  // Events between the first block's start and the last block's end
+  const planStart = timeBlocks.length > 0 ? new Date(timeBlocks[0].startTime) : null;
+  const planEnd = timeBlocks.length > 0 ? new Date(timeBlocks[timeBlocks.length - 1].endTime) : null;
+  const visibleBusyBlocks = planStart && planEnd
+    ? busyBlocks.filter((block) => new Date(block.startTime) < planEnd && new Date(block.endTime) > planStart)
+    : [];
+  const busyMinutes = visibleBusyBlocks
+    .filter((block) => !block.allDay)
+    .reduce((sum, block) => sum + Math.round((new Date(block.endTime).getTime() - new Date(block.startTime).getTime()) / 60000), 0);
+
+  const timeline: TimelineItem[] = [
+    ...timeBlocks.map((block): TimelineItem => ({ kind: 'task', block })),
+    ...visibleBusyBlocks.map((block): TimelineItem => ({ kind: 'busy', block })),
+  ].sort((a, b) => {
+    // All-day events go first
+    const aStart = a.kind === 'busy' && a.block.allDay ? 0 : new Date(a.block.startTime).getTime();
+    const bStart = b.kind === 'busy' && b.block.allDay ? 0 : new Date(b.block.startTime).getTime();
+    return aStart - bStart;
+  });
+
+  const renderBusyBlock = (block: BusyBlock, index: number) => (
+    <View
+      key={`busy-${block.eventId}-${index}`}
+      style={[
+        styles.busyBlock,
+        { backgroundColor: colors.tertiaryBackground, borderLeftColor: block.color },
+      ]}
+      accessible={true}
+      accessibilityLabel={`Busy: ${block.title}`}
+    >
+      <Text style={[styles.timeText, { color: colors.tertiaryText, ...typography.caption1 }]}>
+        {block.allDay ? 'All day' : `${formatTime(new Date(block.startTime))} - ${formatTime(new Date(block.endTime))}`}
+      </Text>
+      <Text
+        style={[styles.busyTitle, { color: colors.secondaryText, ...typography.subheadline }]}
+        numberOfLines={1}
+      >
+        📅 {block.title}
+      </Text>
+    </View>
+  );
+
+  const renderTimeBlock = (block: TimeBlock, index: number, showBreak: boolean) => {
     const task = getTaskById(block.taskId);
     if (!task) return null;
 
@@ -114,7 +160,7 @@ export const TimeBoxCalendar: React.FC<TimeBoxCalendarProps> = ({
           </View>
         </View>
 
-        {index < timeBlocks.length - 1 && breakDuration > 0 && (
+        {showBreak && breakDuration > 0 && (
           <View
             style={[
               styles.breakBlock,
@@ -172,11 +218,35 @@ export const TimeBoxCalendar: React.FC<TimeBoxCalendarProps> = ({
               {Math.floor(getTotalWithBreaks() / 60)}h {getTotalWithBreaks() % 60}m
             </Text>
           </View>
+          {busyMinutes > 0 && (
+            <View style={styles.summaryRow}>
+              <Text
+                style={[
+                  styles.summaryLabel,
+                  { color: colors.secondaryText, ...typography.caption1 },
+                ]}
+              >
+                Planned Around
+              </Text>
+              <Text
+                style={[
+                  styles.summaryValue,
+                  { color: colors.secondaryText, ...typography.subheadline },
+                ]}
+              >
+                {Math.floor(busyMinutes / 60)}h {busyMinutes % 60}m of events
+              </Text>
+            </View>
+          )}
         </View>
       </View>
 
       <ScrollView style={styles.timeline} showsVerticalScrollIndicator={false}>
-        {timeBlocks.map((block, index) => renderTimeBlock(block, index))}
+        {timeline.map((item, index) =>
+          item.kind === 'busy'
+            ? renderBusyBlock(item.block, index)
+            : renderTimeBlock(item.block, index, timeline[index + 1]?.kind === 'task')
+        )}
 
         {timeBlocks.length > 0 && (
           <View style={styles.endMarker}>
@@ -259,6 +329,18 @@ const styles = StyleSheet.create({
   projectText: {
     fontWeight: '500',
   },
+  busyBlock: {
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    gap: 4,
+    opacity: 0.8,
+  },
+  busyTitle: {
+    fontWeight: '500',
+  },
   breakBlock: {
     padding: 12,
     marginBottom: 8,
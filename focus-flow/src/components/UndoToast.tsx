@@ -0,0 +1,138 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { create } from 'zustand';
+import { useTaskStore } from '../store/taskStore';
+import { useTheme } from '../theme/useTheme';
+import { haptics } from '../utils/haptics';
+
+const TOAST_DURATION_MS = 5000;
+
+interface UndoToastState {
+  message: string | null;
+  mode: 'undo' | 'redo';
+  shownAt: number;
+  show: (message: string, mode?: 'undo' | 'redo') => void;
+  hide: () => void;
+}
+
+const useUndoToastStore = create<UndoToastState>((set) => ({
+  message: null,
+  mode: 'undo',
+  shownAt: 0,
+  show: (message, mode = 'undo') => set({ message, mode, shownAt: Date.now() }),
+  hide: () => set({ message: null }),
+}));
+
+/**
+ * Show the "Undo" toast after a destructive action.
+ * The toast undoes the most recent entry in the task store history.
+ */
+export const showUndoToast = (message: string) => {
+  useUndoToastStore.getState().show(message);
+};
+
+/**
+ * Run a task store action and show the toast only if it recorded an undo
+ * step. An action that does nothing would otherwise offer to undo an older,
+ * unrelated change.
+ */
+export function runWithUndoToast<T>(message: string, action: () => T): T {
+  const past = useTaskStore.getState().past;
+  const result = action();
+  if (useTaskStore.getState().past !== past) {
+    showUndoToast(message);
+  }
+  return result;
+}
+
+/**
+ * Mounted once at the app root, above all screens
+ */
+export const UndoToast: React.FC = () => {
+  const { colors, typography, shadow } = useTheme();
+  const { message, mode, shownAt, show, hide } = useUndoToastStore();
+  const undo = useTaskStore((state) => state.undo);
+  const redo = useTaskStore((state) => state.redo);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(hide, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [message, shownAt]);
+
+  if (!message) return null;
+
+  const handleAction = () => {
+    haptics.light();
+    if (mode === 'undo') {
+      const label = undo();
+      if (label) {
+        show(`Undid: ${label}`, 'redo');
+      } else {
+        hide();
+      }
+    } else {
+      const label = redo();
+      if (label) {
+        show(`Redid: ${label}`, 'undo');
+      } else {
+        hide();
+      }
+    }
+  };
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View
+        style={[styles.toast, { backgroundColor: colors.text, ...shadow.md }]}
+        accessibilityLiveRegion="polite"
+      >
+        <Text style={[styles.message, { color: colors.background, ...typography.subheadline }]} numberOfLines={2}>
+          {message}
+        </Text>
+        <TouchableOpacity
+          onPress={handleAction}
+          style={styles.actionButton}
+          accessibilityRole="button"
+          accessibilityLabel={mode === 'undo' ? 'Undo' : 'Redo'}
+        >
+          <Text style={[styles.actionText, { color: colors.primaryLight, ...typography.subheadline }]}>
+            {mode === 'undo' ? 'Undo' : 'Redo'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 96,
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    zIndex: 1000,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 480,
+    width: '100%',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  message: {
+    flex: 1,
+    marginRight: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,82 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ExternalCalendar, ExternalEvent } from '../types';
+import { TAG_COLORS } from '../utils/tags';
+
+// Calendars imported from .ics files. They are read-only copies, so they are
+// kept apart from the task data and its undo history.
+interface CalendarState {
+  calendars: ExternalCalendar[];
+
+  // Actions
+  importCalendar: (name: string, events: ExternalEvent[]) => string; // Replaces the events of a calendar with the same name
+  removeCalendar: (id: string) => void;
+
+  // Persistence
+  loadCalendars: () => Promise<void>;
+  saveCalendars: () => Promise<void>;
+}
+
+const CALENDARS_STORAGE_KEY = '@FocusFlow:calendars';
+
+export const useCalendarStore = create<CalendarState>((set, get) => ({
+  calendars: [],
+
+  importCalendar: (name, events) => {
+    const { calendars } = get();
+    const existing = calendars.find((calendar) => calendar.name.toLowerCase() === name.toLowerCase());
+    const calendar: ExternalCalendar = existing
+      ? { ...existing, events, importedAt: new Date() }
+      : {
+          id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          name,
+          color: TAG_COLORS[calendars.length % TAG_COLORS.length],
+          events,
+          importedAt: new Date(),
+        };
+
+    set({
+      calendars: existing
+        ? calendars.map((c) => (c.id === existing.id ? calendar : c))
+        : [...calendars, calendar],
+    });
+    get().saveCalendars();
+    return calendar.id;
+  },
+
+  removeCalendar: (id) => {
+    set((state) => ({ calendars: state.calendars.filter((calendar) => calendar.id !== id) }));
+    get().saveCalendars();
+  },
+
+  loadCalendars: async () => {
+    try {
+      const data = await AsyncStorage.getItem(CALENDARS_STORAGE_KEY);
+      if (data) {
+        const parsed: ExternalCalendar[] = JSON.parse(data);
+        set({
+          calendars: parsed.map((calendar) => ({
+            ...calendar,
+            importedAt: new Date(calendar.importedAt),
+            events: calendar.events.map((event) => ({
+              ...event,
+              start: new Date(event.start),
+              end: new Date(event.end),
+              exceptionDates: event.exceptionDates?.map((date) => new Date(date)),
+            })),
+          })),
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load calendars:', error);
+    }
+  },
+
+  saveCalendars: async () => {
+    try {
+      await AsyncStorage.setItem(CALENDARS_STORAGE_KEY, JSON.stringify(get().calendars));
+    } catch (error) {
+      console.error('Failed to save calendars:', error);
+    }
+  },
+}));
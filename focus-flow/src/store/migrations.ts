@@ -0,0 +1,309 @@
+import { Task, Project, FocusArea, Tag, Perspective, DailyPlan, TrashItem } from '../types';
+
+/**
+ * Version of the payload written by saveData.
+ * Bump this and register a migration below whenever the persisted shape changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+/**
+ * Shape of the blob stored under the task store's storage key
+ */
+export interface PersistedData {
+  schemaVersion: number;
+  tasks: Task[];
+  projects: Project[];
+  focusAreas: FocusArea[];
+  tags: Tag[];
+  perspectives: Perspective[];
+  archivedTasks: Task[];
+  dailyGoal: number;
+  focusedTaskIds: string[];
+  lastPromptDate: Date | null;
+  dailyPlan: DailyPlan | null;
+  trash: TrashItem[];
+}
+
+type Migration = (data: any) => any;
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * migrations[0] turns a version 0 blob into a version 1 blob, and so on.
+ */
+const migrations: Record<number, Migration> = {
+  // v0 -> v1: the original unversioned blob. Fill in fields that older builds
+  // did not write so the rest of the app can rely on them being present.
+  0: (data) => ({
+    ...data,
+    tasks: (data.tasks || []).map(normalizeLegacyTask),
+    archivedTasks: (data.archivedTasks || []).map(normalizeLegacyTask),
+    projects: data.projects || [],
+    focusAreas: data.focusAreas || [],
+    dailyGoal: data.dailyGoal || 0,
+    focusedTaskIds: data.focusedTaskIds || [],
+    lastPromptDate: data.lastPromptDate ?? null,
+    dailyPlan: data.dailyPlan ?? null,
+  }),
+
+  // v1 -> v2: soft-deleted items are kept in a trash collection
+  1: (data) => ({
+    ...data,
+    trash: [],
+  }),
+
+  // v2 -> v3: recurring instances used to point at the previous instance.
+  // Point them at the series' first task and number the occurrences.
+  2: (data) => numberRecurringSeries(data),
+
+  // v3 -> v4: tags were free-form strings on each task. Turn every distinct
+  // name into a tag entity and point tasks at it by id.
+  3: (data) => convertTagNames(data),
+
+  // v4 -> v5: saved perspectives of the task list
+  4: (data) => ({
+    ...data,
+    perspectives: [],
+  }),
+};
+
+function normalizeLegacyTask(task: any) {
+  return {
+    ...task,
+    isFlagged: task.isFlagged ?? false,
+    dependsOn: task.dependsOn || [],
+    blockedBy: task.blockedBy || [],
+    tags: task.tags || [],
+    progress: task.progress ?? 0,
+  };
+}
+
+function numberRecurringSeries(data: any) {
+  const trash: any[] = data.trash || [];
+  const allTasks: any[] = [
+    ...(data.tasks || []),
+    ...(data.archivedTasks || []),
+    ...trash.flatMap((item) => [...(item.task ? [item.task] : []), ...(item.projectTasks || [])]),
+  ];
+  const tasksById = new Map<string, any>(allTasks.map((task) => [task.id, task]));
+
+  // Follow the old chain of previous-instance links back to the first task
+  const findSeriesId = (task: any): string => {
+    let current = task;
+    const seen = new Set<string>();
+    while (current.parentRecurringTaskId && tasksById.has(current.parentRecurringTaskId) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = tasksById.get(current.parentRecurringTaskId);
+    }
+    return current.parentRecurringTaskId || current.id;
+  };
+
+  const seriesIdByTask = new Map<string, string>();
+  const members = new Map<string, any[]>();
+  for (const task of allTasks) {
+    if (!task.parentRecurringTaskId && !task.isRecurring) continue;
+    const seriesId = findSeriesId(task);
+    seriesIdByTask.set(task.id, seriesId);
+    members.set(seriesId, [...(members.get(seriesId) || []), task]);
+  }
+
+  const occurrenceDate = (task: any) =>
+    new Date(task.recurringInstanceDate || task.dueDate || task.createdAt || 0).getTime();
+  const numberById = new Map<string, number>();
+  members.forEach((series) => {
+    [...series]
+      .sort((a, b) => occurrenceDate(a) - occurrenceDate(b))
+      .forEach((task, index) => numberById.set(task.id, index + 1));
+  });
+
+  const renumber = (task: any) => {
+    const seriesId = seriesIdByTask.get(task.id);
+    if (!seriesId) return task;
+    return {
+      ...task,
+      parentRecurringTaskId: seriesId === task.id ? undefined : seriesId,
+      occurrenceNumber: numberById.get(task.id),
+    };
+  };
+
+  return {
+    ...data,
+    tasks: (data.tasks || []).map(renumber),
+    archivedTasks: (data.archivedTasks || []).map(renumber),
+    trash: trash.map((item) => ({
+      ...item,
+      task: item.task ? renumber(item.task) : item.task,
+      projectTasks: item.projectTasks ? item.projectTasks.map(renumber) : item.projectTasks,
+    })),
+  };
+}
+
+const TAG_MIGRATION_COLOR = '#8E8E93';
+
+function convertTagNames(data: any) {
+  const createdAt = new Date().toISOString();
+  const tags: any[] = [];
+  const idByName = new Map<string, string>();
+
+  const toIds = (names: string[] | undefined) =>
+    (names || []).map((name) => {
+      let id = idByName.get(name);
+      if (!id) {
+        id = `tag-${tags.length + 1}-${Math.random().toString(36).substr(2, 9)}`;
+        idByName.set(name, id);
+        tags.push({ id, name, color: TAG_MIGRATION_COLOR, order: tags.length, createdAt, updatedAt: createdAt });
+      }
+      return id;
+    });
+  const convertTask = (task: any) => ({ ...task, tags: toIds(task.tags) });
+
+  const tasks = (data.tasks || []).map(convertTask);
+  const archivedTasks = (data.archivedTasks || []).map(convertTask);
+  const trash = (data.trash || []).map((item: any) => ({
+    ...item,
+    task: item.task ? convertTask(item.task) : item.task,
+    projectTasks: item.projectTasks ? item.projectTasks.map(convertTask) : item.projectTasks,
+  }));
+
+  return { ...data, tasks, archivedTasks, trash, tags };
+}
+
+/**
+ * Upgrade a raw parsed blob to the current schema, one version at a time,
+ * then revive every Date field.
+ */
+export function migratePersistedData(raw: any): PersistedData {
+  let data = raw || {};
+  let version: number = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored data has schema version ${version}, but this build only supports up to ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration registered from schema version ${version}`);
+    }
+    data = migrate(data);
+    version += 1;
+  }
+
+  return reviveDates({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION });
+}
+
+/**
+ * Build the payload written to storage
+ */
+export function serializePersistedData(data: Omit<PersistedData, 'schemaVersion'>): string {
+  return JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...data });
+}
+
+// Date revival
+
+function toDate(value: any): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function reviveTask(task: any): Task {
+  return {
+    ...task,
+    dueDate: toDate(task.dueDate),
+    plannedDate: toDate(task.plannedDate),
+    startDate: toDate(task.startDate),
+    completedDate: toDate(task.completedDate),
+    recurringInstanceDate: toDate(task.recurringInstanceDate),
+    rescheduledFrom: toDate(task.rescheduledFrom),
+    recurrence: task.recurrence
+      ? {
+          ...task.recurrence,
+          endDate: toDate(task.recurrence.endDate),
+          exceptionDates: task.recurrence.exceptionDates
+            ? task.recurrence.exceptionDates.map(toDate).filter(Boolean)
+            : undefined,
+        }
+      : undefined,
+    createdAt: toDate(task.createdAt) || new Date(),
+    updatedAt: toDate(task.updatedAt) || new Date(),
+  };
+}
+
+export function reviveProject(project: any): Project {
+  return {
+    ...project,
+    startDate: toDate(project.startDate),
+    targetDate: toDate(project.targetDate),
+    completedDate: toDate(project.completedDate),
+    createdAt: toDate(project.createdAt) || new Date(),
+    updatedAt: toDate(project.updatedAt) || new Date(),
+  };
+}
+
+export function reviveFocusArea(area: any): FocusArea {
+  return {
+    ...area,
+    createdAt: toDate(area.createdAt) || new Date(),
+    updatedAt: toDate(area.updatedAt) || new Date(),
+  };
+}
+
+export function reviveTag(tag: any): Tag {
+  return {
+    ...tag,
+    createdAt: toDate(tag.createdAt) || new Date(),
+    updatedAt: toDate(tag.updatedAt) || new Date(),
+  };
+}
+
+export function revivePerspective(perspective: any): Perspective {
+  return {
+    ...perspective,
+    createdAt: toDate(perspective.createdAt) || new Date(),
+    updatedAt: toDate(perspective.updatedAt) || new Date(),
+  };
+}
+
+export function reviveDailyPlan(plan: any): DailyPlan | null {
+  if (!plan) return null;
+  return {
+    ...plan,
+    timeBlocks: (plan.timeBlocks || []).map((block: any) => ({
+      ...block,
+      startTime: toDate(block.startTime) || new Date(),
+      endTime: toDate(block.endTime) || new Date(),
+    })),
+    createdAt: toDate(plan.createdAt) || new Date(),
+  };
+}
+
+export function reviveTrashItem(item: any): TrashItem {
+  return {
+    ...item,
+    deletedAt: toDate(item.deletedAt) || new Date(),
+    task: item.task ? reviveTask(item.task) : undefined,
+    project: item.project ? reviveProject(item.project) : undefined,
+    focusArea: item.focusArea ? reviveFocusArea(item.focusArea) : undefined,
+    projectTasks: item.projectTasks ? item.projectTasks.map(reviveTask) : undefined,
+    dependencyLinks: item.dependencyLinks || [],
+  };
+}
+
+function reviveDates(data: any): PersistedData {
+  return {
+    ...data,
+    tasks: (data.tasks || []).map(reviveTask),
+    archivedTasks: (data.archivedTasks || []).map(reviveTask),
+    projects: (data.projects || []).map(reviveProject),
+    focusAreas: (data.focusAreas || []).map(reviveFocusArea),
+    tags: (data.tags || []).map(reviveTag),
+    perspectives: (data.perspectives || []).map(revivePerspective),
+    dailyGoal: data.dailyGoal || 0,
+    focusedTaskIds: data.focusedTaskIds || [],
+    lastPromptDate: toDate(data.lastPromptDate) || null,
+    dailyPlan: reviveDailyPlan(data.dailyPlan),
+    trash: (data.trash || []).map(reviveTrashItem),
+  };
+}
@@ -1,21 +1,49 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_WORKING_DAYS } from '../utils/autoScheduler';
+import { PerspectiveGrouping, PerspectiveSort } from '../types';
 
 export type ViewDensity = 'compact' | 'comfortable' | 'cozy';
 export type Theme = 'light' | 'dark' | 'auto';
 
-interface SettingsState {
+// What the Tasks tab is showing, kept across navigation and restarts
+export interface TaskViewState {
+  perspectiveId: string | null; // The perspective it was opened from, if any
+  query: string;
+  sortBy: PerspectiveSort;
+  groupBy?: PerspectiveGrouping; // Falls back to groupTasksByProject
+}
+
+const DEFAULT_TASK_VIEW: TaskViewState = { perspectiveId: null, query: '', sortBy: 'date' };
+
+// Settings written to storage and included in backups
+export interface PersistedSettings {
   // View preferences
   viewDensity: ViewDensity;
   theme: Theme;
   showCompletedTasks: boolean;
   groupTasksByProject: boolean;
+  taskView: TaskViewState;
+
+  // Scheduling preferences
+  autoReschedule: boolean; // Move dependents later when a prerequisite's dates slip
+  workingDays: number[]; // Date.getDay() values
 
+  // Data preferences
+  trashRetentionDays: number;
+}
+
+interface SettingsState extends PersistedSettings {
   // Actions
   setViewDensity: (density: ViewDensity) => void;
   setTheme: (theme: Theme) => void;
   setShowCompletedTasks: (show: boolean) => void;
   setGroupTasksByProject: (group: boolean) => void;
+  setTaskView: (view: Partial<TaskViewState>) => void;
+  setTrashRetentionDays: (days: number) => void;
+  setAutoReschedule: (enabled: boolean) => void;
+  toggleWorkingDay: (day: number) => void;
+  restoreSettings: (settings: Partial<PersistedSettings>) => void; // Missing values fall back to the defaults
 
   // Persistence
   loadSettings: () => Promise<void>;
@@ -30,6 +58,10 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
   theme: 'auto',
   showCompletedTasks: true,
   groupTasksByProject: false,
+  taskView: DEFAULT_TASK_VIEW,
+  trashRetentionDays: 30,
+  autoReschedule: false,
+  workingDays: DEFAULT_WORKING_DAYS,
 
   setViewDensity: (density) => {
     set({ viewDensity: density });
@@ -51,17 +83,43 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     get().saveSettings();
   },
 
+  setTaskView: (view) => {
+    set((state) => ({ taskView: { ...state.taskView, ...view } }));
+    get().saveSettings();
+  },
+
+  setTrashRetentionDays: (days) => {
+    set({ trashRetentionDays: days });
+    get().saveSettings();
+  },
+
+  setAutoReschedule: (enabled) => {
+    set({ autoReschedule: enabled });
+    get().saveSettings();
+  },
+
+  toggleWorkingDay: (day) => {
+    const { workingDays } = get();
+    if (workingDays.includes(day)) {
+      // Keep at least one working day so dates always have somewhere to go
+      if (workingDays.length === 1) return;
+      set({ workingDays: workingDays.filter((d) => d !== day) });
+    } else {
+      set({ workingDays: [...workingDays, day].sort() });
+    }
+    get().saveSettings();
+  },
+
+  restoreSettings: (settings) => {
+    set(normalizeSettings(settings));
+    get().saveSettings();
+  },
+
   loadSettings: async () => {
     try {
       const data = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
       if (data) {
-        const parsed = JSON.parse(data);
-        set({
-          viewDensity: parsed.viewDensity || 'comfortable',
-          theme: parsed.theme || 'auto',
-          showCompletedTasks: parsed.showCompletedTasks ?? true,
-          groupTasksByProject: parsed.groupTasksByProject ?? false,
-        });
+        set(normalizeSettings(JSON.parse(data)));
       }
     } catch (error) {
       console.error('Failed to load settings:', error);
@@ -70,16 +128,42 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
 
   saveSettings: async () => {
     try {
-      const state = get();
-      const data = JSON.stringify({
-        viewDensity: state.viewDensity,
-        theme: state.theme,
-        showCompletedTasks: state.showCompletedTasks,
-        groupTasksByProject: state.groupTasksByProject,
-      });
-      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, data);
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(getPersistedSettings(get())));
     } catch (error) {
       console.error('Failed to save settings:', error);
     }
   },
 }));
+
+/**
+ * Settings read from storage or a backup, with missing values filled in from the defaults
+ */
+export function normalizeSettings(parsed: any): PersistedSettings {
+  return {
+    viewDensity: parsed.viewDensity || 'comfortable',
+    theme: parsed.theme || 'auto',
+    showCompletedTasks: parsed.showCompletedTasks ?? true,
+    groupTasksByProject: parsed.groupTasksByProject ?? false,
+    taskView: { ...DEFAULT_TASK_VIEW, ...parsed.taskView },
+    trashRetentionDays: parsed.trashRetentionDays ?? 30,
+    autoReschedule: parsed.autoReschedule ?? false,
+    workingDays: parsed.workingDays?.length ? parsed.workingDays : DEFAULT_WORKING_DAYS,
+  };
+}
+
+/**
+ * The persisted part of the settings state
+ */
+export function getPersistedSettings(state: PersistedSettings): PersistedSettings {
+  const {
+    viewDensity,
+    theme,
+    showCompletedTasks,
+    groupTasksByProject,
+    taskView,
+    trashRetentionDays,
+    autoReschedule,
+    workingDays,
+  } = state;
+  return { viewDensity, theme, showCompletedTasks, groupTasksByProject, taskView, trashRetentionDays, autoReschedule, workingDays };
+}
@@ -1,12 +1,69 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Task, Project, FocusArea, TaskStatus, TaskPriority, DailyPlan } from '../types';
-import { getNextOccurrence, shouldGenerateNextInstance } from '../utils/recurrence';
+import {
+  Task,
+  Project,
+  FocusArea,
+  Tag,
+  Perspective,
+  TaskStatus,
+  TaskPriority,
+  DailyPlan,
+  TrashItem,
+  DependencyLink,
+  DependencyType,
+  SeriesScope,
+  SeriesField,
+} from '../types';
+import {
+  getNextInstanceDates,
+  shouldGenerateNextInstance,
+  addExceptionDate,
+  getSeriesTasks,
+  getSeriesId,
+  getOccurrenceNumber,
+  SERIES_FIELDS,
+} from '../utils/recurrence';
+import { migratePersistedData, serializePersistedData, PersistedData } from './migrations';
+import { ScheduleChange } from '../utils/autoScheduler';
+import {
+  DependencyError,
+  validateDependency,
+  repairDependencies,
+  getDependencyEdge,
+  setDependencyEdge,
+  deriveAvailability,
+  getFinishBlockers,
+  DEFAULT_DEPENDENCY_TYPE,
+} from '../utils/dependencyGraph';
+import { getTagDescendantIds } from '../utils/tags';
+import { canNestUnder, getDescendantIds, rollUpSubtaskProgress } from '../utils/subtasks';
+import { isProjectFinished, rollUpProjectProgress } from '../utils/projectProgress';
+
+interface HistorySnapshot {
+  tasks: Task[];
+  projects: Project[];
+  focusAreas: FocusArea[];
+  tags: Tag[];
+  perspectives: Perspective[];
+  archivedTasks: Task[];
+  dailyGoal: number;
+  focusedTaskIds: string[];
+  dailyPlan: DailyPlan | null;
+  trash: TrashItem[];
+}
+
+export interface HistoryEntry {
+  label: string; // Human readable description, e.g. "Delete task"
+  snapshot: HistorySnapshot; // State before the action was applied
+}
 
 interface TaskStore {
   tasks: Task[];
   projects: Project[];
   focusAreas: FocusArea[];
+  tags: Tag[];
+  perspectives: Perspective[];
   archivedTasks: Task[];
 
   // Daily focus
@@ -15,14 +72,36 @@ interface TaskStore {
   lastPromptDate: Date | null;
   dailyPlan: DailyPlan | null;
 
+  // Soft-deleted tasks, projects and focus areas
+  trash: TrashItem[];
+
+  // Undo/redo history (in memory only)
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+
+  // Set when stored data exists but couldn't be loaded, e.g. it was written by a newer
+  // version of the app. Saving is refused while it is set so that data isn't overwritten
+  loadError: string | null;
+
   // Task actions
-  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy' | 'tags'>) => void;
-  updateTask: (id: string, updates: Partial<Task>) => void;
-  deleteTask: (id: string) => void;
-  toggleTaskComplete: (id: string) => void;
+  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy' | 'tags'> & { tags?: string[] }) => void;
+  // dependentChanges are confirmed moves of dependent tasks, applied in the same undo step
+  updateTask: (id: string, updates: Partial<Task>, scope?: SeriesScope, dependentChanges?: ScheduleChange[]) => void;
+  deleteTask: (id: string, scope?: SeriesScope) => void;
+  bulkUpdateTasks: (ids: string[], updates: Partial<Task>) => void;
+  bulkDeleteTasks: (ids: string[]) => void;
+  // includeSubtasks also completes open subtasks; returns the task's project when this finished its last task.
+  // Tasks held open by a finish-to-finish or start-to-finish prerequisite aren't completed
+  toggleTaskComplete: (id: string, includeSubtasks?: boolean) => Project | null;
+  setTaskParent: (id: string, parentTaskId: string | undefined) => void; // Nest under another task, or move to the top level
   toggleTaskFlag: (id: string) => void;
-  bulkAddTasks: (tasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy' | 'tags'>[]) => void;
+  // Ids in the batch are placeholders that parentTaskId and dependsOn may refer to, as well as
+  // existing task ids; links that would close a cycle are skipped. Returns the real ids in order
+  // and a warning for each skipped link
+  bulkAddTasks: (tasks: (Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy' | 'tags'> & { id?: string; tags?: string[]; progress?: number; dependsOn?: string[] })[]) => { ids: string[]; warnings: string[] };
   generateNextRecurringInstance: (taskId: string) => void;
+  skipOccurrence: (id: string) => void;
+  rescheduleOccurrence: (id: string, date: Date) => void;
   archiveCompletedTasks: () => number;
   unarchiveTask: (id: string) => void;
 
@@ -30,16 +109,34 @@ interface TaskStore {
   addProject: (project: Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'status'>) => void;
   updateProject: (id: string, updates: Partial<Project>) => void;
   deleteProject: (id: string) => void;
+  completeProject: (id: string) => void;
   bulkAddProjects: (projects: Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'status'>[]) => string[];
 
   // Focus Area actions
   addFocusArea: (area: Omit<FocusArea, 'id' | 'createdAt' | 'updatedAt' | 'order'>) => void;
   updateFocusArea: (id: string, updates: Partial<FocusArea>) => void;
   deleteFocusArea: (id: string) => void;
+  // Areas named like an existing one are reused; returns the ids in order
+  bulkAddFocusAreas: (areas: Omit<FocusArea, 'id' | 'createdAt' | 'updatedAt' | 'order'>[]) => string[];
+
+  // Tag actions
+  addTag: (tag: Omit<Tag, 'id' | 'createdAt' | 'updatedAt' | 'order'>) => string;
+  updateTag: (id: string, updates: Partial<Tag>) => void;
+  deleteTag: (id: string) => void; // Untags its tasks and moves its children up a level
+  // Ids in the batch are placeholders that parentTagId may refer to; returns the real ids in order
+  bulkAddTags: (tags: Omit<Tag, 'createdAt' | 'updatedAt' | 'order'>[]) => string[];
+
+  // Perspective actions
+  addPerspective: (perspective: Omit<Perspective, 'id' | 'createdAt' | 'updatedAt' | 'order'>) => string;
+  updatePerspective: (id: string, updates: Partial<Perspective>) => void;
+  deletePerspective: (id: string) => void;
+  movePerspective: (id: string, direction: -1 | 1) => void; // Swap with the previous or next perspective
 
   // Dependency actions
-  addDependency: (taskId: string, dependsOnId: string) => void;
+  addDependency: (taskId: string, dependsOnId: string, type?: DependencyType, lag?: number) => DependencyError | null; // null when the link was added
+  updateDependency: (taskId: string, dependsOnId: string, updates: { type?: DependencyType; lag?: number }) => void;
   removeDependency: (taskId: string, dependsOnId: string) => void;
+  refreshDerivedState: () => void; // Block or unblock tasks by their prerequisites and roll progress up to parent tasks and projects
 
   // Daily focus actions
   setDailyFocus: (goal: number, taskIds: string[]) => void;
@@ -48,11 +145,25 @@ interface TaskStore {
   shouldShowDailyPrompt: () => boolean;
   markPromptShown: () => void;
 
+  // Trash actions
+  restoreFromTrash: (trashId: string) => void;
+  purgeFromTrash: (trashId: string) => void;
+  emptyTrash: () => void;
+  purgeExpiredTrash: (retentionDays: number) => number;
+
   // Data management
   wipeAllData: () => void;
+  restoreBackup: (data: Omit<PersistedData, 'schemaVersion'>) => number; // Replace everything with a validated backup; returns how many tasks had their links repaired
+
+  // History actions
+  undo: () => string | null;
+  redo: () => string | null;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  clearHistory: () => void;
 
   // Persistence
-  loadData: () => Promise<void>;
+  loadData: () => Promise<number>; // Resolves to how many tasks had their links repaired
   saveData: () => Promise<void>;
 
   // Sample data
@@ -60,18 +171,26 @@ interface TaskStore {
 }
 
 const STORAGE_KEY = '@focus-flow-data';
+const MAX_HISTORY_ENTRIES = 50;
 
 export const useTaskStore = create<TaskStore>((set, get) => ({
   tasks: [],
   projects: [],
   focusAreas: [],
+  tags: [],
+  perspectives: [],
   archivedTasks: [],
   dailyGoal: 0,
   focusedTaskIds: [],
   lastPromptDate: null,
   dailyPlan: null,
+  trash: [],
+  past: [],
+  future: [],
+  loadError: null,
 
   addTask: (taskData) => {
+    recordHistory('Add task');
     const newTask: Task = {
       ...taskData,
       id: generateId(),
@@ -79,58 +198,167 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
       order: get().tasks.length,
       dependsOn: [],
       blockedBy: [],
-      tags: [],
+      tags: taskData.tags || [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     set((state) => ({ tasks: [...state.tasks, newTask] }));
+    get().refreshDerivedState();
+    get().saveData();
+  },
+
+  updateTask: (id, updates, scope, dependentChanges = []) => {
+    const moves = new Map(dependentChanges.map((change) => [change.task.id, change.updates]));
+    const applyMoves = (tasks: Task[]) =>
+      tasks.map((task) => {
+        const move = task.id === id ? undefined : moves.get(task.id);
+        return move ? { ...task, ...move, updatedAt: new Date() } : task;
+      });
+
+    if (!scope) {
+      recordHistory(moves.size > 0 ? `Reschedule ${moves.size + 1} tasks` : 'Edit task');
+      set((state) => ({
+        tasks: applyMoves(
+          state.tasks.map((task) => (task.id === id ? { ...task, ...updates, updatedAt: new Date() } : task))
+        ),
+      }));
+      get().refreshDerivedState();
+      get().saveData();
+      return;
+    }
+
+    recordHistory(scope === 'this' ? 'Edit occurrence' : 'Edit recurring series');
+    set((state) => ({ tasks: applyMoves(applySeriesUpdate(state, id, updates, scope)) }));
+    get().refreshDerivedState();
     get().saveData();
   },
 
-  updateTask: (id, updates) => {
+  deleteTask: (id, scope) => {
+    const task = get().tasks.find((t) => t.id === id);
+
+    if (!scope || !task) {
+      recordHistory('Delete task');
+      set((state) => moveTasksToTrash(state, [id]));
+      get().refreshDerivedState();
+      get().saveData();
+      return;
+    }
+
+    if (scope === 'this') {
+      recordHistory('Delete occurrence');
+      // Deleting the open occurrence excludes its date and lets the series carry on
+      set((state) =>
+        isOpenOccurrence(task) ? advanceOccurrence(state, task) : moveTasksToTrash(state, [id])
+      );
+      get().refreshDerivedState();
+      get().saveData();
+      return;
+    }
+
+    recordHistory('Delete recurring series');
+    set((state) => moveTasksToTrash(state, getSeriesScopeIds(state, task, scope)));
+    get().refreshDerivedState();
+    get().saveData();
+  },
+
+  bulkUpdateTasks: (ids, updates) => {
+    recordHistory(`Edit ${ids.length} task${ids.length === 1 ? '' : 's'}`);
+    const idSet = new Set(ids);
     set((state) => ({
       tasks: state.tasks.map((task) =>
-        task.id === id
+        idSet.has(task.id)
           ? { ...task, ...updates, updatedAt: new Date() }
           : task
       ),
     }));
+    get().refreshDerivedState();
     get().saveData();
   },
 
-  deleteTask: (id) => {
-    set((state) => ({
-      tasks: state.tasks.filter((task) => task.id !== id),
-    }));
+  bulkDeleteTasks: (ids) => {
+    recordHistory(`Delete ${ids.length} task${ids.length === 1 ? '' : 's'}`);
+    set((state) => moveTasksToTrash(state, ids));
+    get().refreshDerivedState();
     get().saveData();
   },
 
-  toggleTaskComplete: (id) => {
+  toggleTaskComplete: (id, includeSubtasks = false) => {
     const task = get().tasks.find((t) => t.id === id);
+    const isCompleting = !!task && task.status !== 'completed';
+    // Finish-to-finish and start-to-finish prerequisites keep a task open
+    const canFinish = (t: Task) => getFinishBlockers(t, get().tasks).length === 0;
+    if (task && isCompleting && !canFinish(task)) {
+      return null;
+    }
+    const subtaskIds = isCompleting && includeSubtasks ? getDescendantIds(id, get().tasks) : new Set<string>();
+    const completedSubtasks = get().tasks.filter((t) => subtaskIds.has(t.id) && t.status !== 'completed' && canFinish(t));
+    const completedSubtaskIds = new Set(completedSubtasks.map((t) => t.id));
+    recordHistory(
+      !isCompleting ? 'Mark task incomplete' : completedSubtasks.length > 0 ? 'Complete task and subtasks' : 'Complete task'
+    );
 
     set((state) => ({
-      tasks: state.tasks.map((t) =>
-        t.id === id
-          ? {
-              ...t,
-              status: t.status === 'completed' ? 'todo' : 'completed',
-              completedDate: t.status === 'completed' ? undefined : new Date(),
-              progress: t.status === 'completed' ? 0 : 100,
-              updatedAt: new Date(),
-            }
-          : t
-      ),
+      tasks: state.tasks.map((t) => {
+        if (t.id === id) {
+          return {
+            ...t,
+            status: t.status === 'completed' ? 'todo' : 'completed',
+            completedDate: t.status === 'completed' ? undefined : new Date(),
+            progress: t.status === 'completed' ? 0 : 100,
+            updatedAt: new Date(),
+          };
+        }
+        if (completedSubtaskIds.has(t.id)) {
+          return { ...t, status: 'completed', completedDate: new Date(), progress: 100, updatedAt: new Date() };
+        }
+        return t;
+      }),
     }));
 
     // If completing a recurring task, generate the next instance
-    if (task && task.status !== 'completed' && task.isRecurring && task.recurrence) {
-      get().generateNextRecurringInstance(id);
+    [...(task ? [task] : []), ...completedSubtasks]
+      .filter((t) => isCompleting && t.isRecurring && t.recurrence)
+      .forEach((t) => get().generateNextRecurringInstance(t.id));
+
+    get().refreshDerivedState();
+    get().saveData();
+
+    const { projects, tasks, archivedTasks } = get();
+    const project = isCompleting && task?.projectId ? projects.find((p) => p.id === task.projectId) : undefined;
+    if (!project || project.status === 'completed') {
+      return null;
+    }
+    return isProjectFinished(project, projects, [...tasks, ...archivedTasks]) ? project : null;
+  },
+
+  setTaskParent: (id, parentTaskId) => {
+    const { tasks } = get();
+    const task = tasks.find((t) => t.id === id);
+    const parent = parentTaskId ? tasks.find((t) => t.id === parentTaskId) : undefined;
+    if (!task || (parentTaskId && (!parent || !canNestUnder(id, parentTaskId, tasks)))) {
+      return;
     }
 
+    recordHistory(parent ? 'Make subtask' : 'Move subtask to top level');
+    // Subtasks live in their parent's project, and take their own subtasks along
+    const movedIds = parent ? new Set([id, ...getDescendantIds(id, tasks)]) : new Set<string>();
+    set((state) => ({
+      tasks: state.tasks.map((t) => {
+        if (t.id === id) {
+          return { ...t, parentTaskId, projectId: parent ? parent.projectId : t.projectId, updatedAt: new Date() };
+        }
+        if (parent && movedIds.has(t.id) && t.projectId !== parent.projectId) {
+          return { ...t, projectId: parent.projectId, updatedAt: new Date() };
+        }
+        return t;
+      }),
+    }));
+    get().refreshDerivedState();
     get().saveData();
   },
 
   toggleTaskFlag: (id) => {
+    recordHistory('Toggle flag');
     set((state) => ({
       tasks: state.tasks.map((task) =>
         task.id === id
@@ -146,6 +374,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   },
 
   toggleTaskFlag: (id) => {
+    recordHistory('Toggle flag');
     set((state) => ({
       tasks: state.tasks.map((task) =>
         task.id === id
@@ -161,6 +390,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   },
 
   addProject: (projectData) => {
+    recordHistory('Add project');
     const newProject: Project = {
       ...projectData,
       id: generateId(),
@@ -171,10 +401,12 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
       updatedAt: new Date(),
     };
     set((state) => ({ projects: [...state.projects, newProject] }));
+    get().refreshDerivedState();
     get().saveData();
   },
 
   updateProject: (id, updates) => {
+    recordHistory('Edit project');
     set((state) => ({
       projects: state.projects.map((project) =>
         project.id === id
@@ -182,18 +414,63 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
           : project
       ),
     }));
+    get().refreshDerivedState();
     get().saveData();
   },
 
   deleteProject: (id) => {
+    const project = get().projects.find((p) => p.id === id);
+    if (!project) {
+      return;
+    }
+
+    recordHistory('Delete project');
+    set((state) => {
+      const projectTasks = state.tasks.filter((task) => task.projectId === id);
+      const removedIds = new Set(projectTasks.map((task) => task.id));
+      const dependencyLinks = collectExternalLinks(projectTasks, removedIds, state.tasks);
+      // Sub-projects stay, one level up
+      const subProjectIds = state.projects.filter((p) => p.parentProjectId === id).map((p) => p.id);
+
+      return {
+        projects: state.projects
+          .filter((p) => p.id !== id)
+          .map((p) =>
+            p.parentProjectId === id ? { ...p, parentProjectId: project.parentProjectId, updatedAt: new Date() } : p
+          ),
+        tasks: detachTasks(state.tasks, removedIds),
+        trash: [
+          ...state.trash,
+          {
+            id: generateId(),
+            kind: 'project' as const,
+            deletedAt: new Date(),
+            project,
+            projectTasks,
+            subProjectIds,
+            dependencyLinks,
+          },
+        ],
+      };
+    });
+    get().refreshDerivedState();
+    get().saveData();
+  },
+
+  completeProject: (id) => {
+    recordHistory('Complete project');
     set((state) => ({
-      projects: state.projects.filter((project) => project.id !== id),
-      tasks: state.tasks.filter((task) => task.projectId !== id),
+      projects: state.projects.map((project) =>
+        project.id === id
+          ? { ...project, status: 'completed', completedDate: new Date(), updatedAt: new Date() }
+          : project
+      ),
     }));
     get().saveData();
   },
 
   addFocusArea: (areaData) => {
+    recordHistory('Add focus area');
     const newArea: FocusArea = {
       ...areaData,
       id: generateId(),
@@ -206,6 +483,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   },
 
   updateFocusArea: (id, updates) => {
+    recordHistory('Edit focus area');
     set((state) => ({
       focusAreas: state.focusAreas.map((area) =>
         area.id === id
@@ -217,19 +495,146 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   },
 
   deleteFocusArea: (id) => {
+    const focusArea = get().focusAreas.find((area) => area.id === id);
+    if (!focusArea) {
+      return;
+    }
+
+    recordHistory('Delete focus area');
     set((state) => ({
       focusAreas: state.focusAreas.filter((area) => area.id !== id),
+      trash: [
+        ...state.trash,
+        {
+          id: generateId(),
+          kind: 'focusArea' as const,
+          deletedAt: new Date(),
+          focusArea,
+          dependencyLinks: [],
+        },
+      ],
+    }));
+    get().saveData();
+  },
+
+  addTag: (tagData) => {
+    recordHistory('Add tag');
+    const newTag: Tag = {
+      ...tagData,
+      id: generateId(),
+      order: get().tags.length,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    set((state) => ({ tags: [...state.tags, newTag] }));
+    get().saveData();
+    return newTag.id;
+  },
+
+  updateTag: (id, updates) => {
+    // A tag can't be nested under itself or one of its own children
+    if (updates.parentTagId && getTagDescendantIds(id, get().tags).has(updates.parentTagId)) {
+      return;
+    }
+
+    recordHistory('Edit tag');
+    set((state) => ({
+      tags: state.tags.map((tag) =>
+        tag.id === id
+          ? { ...tag, ...updates, updatedAt: new Date() }
+          : tag
+      ),
+    }));
+    get().saveData();
+  },
+
+  deleteTag: (id) => {
+    const deletedTag = get().tags.find((tag) => tag.id === id);
+    if (!deletedTag) {
+      return;
+    }
+
+    recordHistory('Delete tag');
+    const untag = (task: Task) =>
+      task.tags.includes(id) ? { ...task, tags: task.tags.filter((tagId) => tagId !== id) } : task;
+    set((state) => ({
+      tags: state.tags
+        .filter((tag) => tag.id !== id)
+        .map((tag) =>
+          tag.parentTagId === id
+            ? { ...tag, parentTagId: deletedTag.parentTagId, updatedAt: new Date() }
+            : tag
+        ),
+      tasks: state.tasks.map(untag),
+      archivedTasks: state.archivedTasks.map(untag),
+    }));
+    get().saveData();
+  },
+
+  addPerspective: (perspectiveData) => {
+    recordHistory('Add perspective');
+    const newPerspective: Perspective = {
+      ...perspectiveData,
+      id: generateId(),
+      order: get().perspectives.length,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    set((state) => ({ perspectives: [...state.perspectives, newPerspective] }));
+    get().saveData();
+    return newPerspective.id;
+  },
+
+  updatePerspective: (id, updates) => {
+    recordHistory('Edit perspective');
+    set((state) => ({
+      perspectives: state.perspectives.map((perspective) =>
+        perspective.id === id
+          ? { ...perspective, ...updates, updatedAt: new Date() }
+          : perspective
+      ),
+    }));
+    get().saveData();
+  },
+
+  deletePerspective: (id) => {
+    recordHistory('Delete perspective');
+    set((state) => ({
+      perspectives: state.perspectives
+        .filter((perspective) => perspective.id !== id)
+        .map((perspective, index) => ({ ...perspective, order: index })),
     }));
     get().saveData();
   },
 
-  addDependency: (taskId, dependsOnId) => {
+  movePerspective: (id, direction) => {
+    const sorted = [...get().perspectives].sort((a, b) => a.order - b.order);
+    const index = sorted.findIndex((perspective) => perspective.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= sorted.length) {
+      return;
+    }
+
+    recordHistory('Reorder perspectives');
+    [sorted[index], sorted[target]] = [sorted[target], sorted[index]];
+    set({ perspectives: sorted.map((perspective, order) => ({ ...perspective, order })) });
+    get().saveData();
+  },
+
+  addDependency: (taskId, dependsOnId, type = DEFAULT_DEPENDENCY_TYPE, lag = 0) => {
+    const error = validateDependency(get().tasks, taskId, dependsOnId);
+    if (error) {
+      return error;
+    }
+
+    recordHistory('Add dependency');
     set((state) => ({
       tasks: state.tasks.map((task) => {
         if (task.id === taskId) {
           return {
             ...task,
             dependsOn: [...task.dependsOn, dependsOnId],
+            dependencyEdges: setDependencyEdge(task, { fromTaskId: dependsOnId, toTaskId: taskId, type, lag }, dependsOnId),
             updatedAt: new Date(),
           };
         }
@@ -243,16 +648,39 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
         return task;
       }),
     }));
+    get().refreshDerivedState();
+    get().saveData();
+    return null;
+  },
+
+  updateDependency: (taskId, dependsOnId, updates) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    if (!task || !task.dependsOn.includes(dependsOnId)) {
+      return;
+    }
+
+    recordHistory('Edit dependency');
+    const edge = { ...getDependencyEdge(task, dependsOnId), ...updates };
+    set((state) => ({
+      tasks: state.tasks.map((t) =>
+        t.id === taskId
+          ? { ...t, dependencyEdges: setDependencyEdge(t, edge, dependsOnId), updatedAt: new Date() }
+          : t
+      ),
+    }));
+    get().refreshDerivedState();
     get().saveData();
   },
 
   removeDependency: (taskId, dependsOnId) => {
+    recordHistory('Remove dependency');
     set((state) => ({
       tasks: state.tasks.map((task) => {
         if (task.id === taskId) {
           return {
             ...task,
             dependsOn: task.dependsOn.filter((id) => id !== dependsOnId),
+            dependencyEdges: setDependencyEdge(task, null, dependsOnId),
             updatedAt: new Date(),
           };
         }
@@ -266,11 +694,25 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
         return task;
       }),
     }));
+    get().refreshDerivedState();
     get().saveData();
   },
 
+  refreshDerivedState: () => {
+    set((state) => {
+      const tasks = rollUpSubtaskProgress(deriveAvailability(state.tasks));
+      // Archived tasks still count towards their project
+      const projects = rollUpProjectProgress(state.projects, [...tasks, ...state.archivedTasks]);
+      return {
+        ...(tasks === state.tasks ? {} : { tasks }),
+        ...(projects === state.projects ? {} : { projects }),
+      };
+    });
+  },
+
   // Daily focus actions
   setDailyFocus: (goal, taskIds) => {
+    recordHistory('Set daily focus');
     set({
       dailyGoal: goal,
       focusedTaskIds: taskIds,
@@ -280,6 +722,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   },
 
   setDailyPlan: (plan) => {
+    recordHistory('Set daily plan');
     set({
       dailyPlan: plan,
       dailyGoal: plan.taskIds.length,
@@ -290,6 +733,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   },
 
   clearDailyFocus: () => {
+    recordHistory('Clear daily focus');
     set({
       dailyGoal: 0,
       focusedTaskIds: [],
@@ -332,6 +776,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
 
   // Bulk operations for import (no save per item)
   bulkAddProjects: (projectsData) => {
+    recordHistory('Import projects');
     const newProjects: Project[] = projectsData.map((projectData, index) => ({
       ...projectData,
       id: generateId(),
@@ -347,20 +792,118 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
     return newProjects.map(p => p.id);
   },
 
+  bulkAddFocusAreas: (areasData) => {
+    recordHistory('Import focus areas');
+    const newAreas: FocusArea[] = [];
+    const ids = areasData.map((areaData) => {
+      const existing = [...get().focusAreas, ...newAreas].find(
+        (area) => area.name.toLowerCase() === areaData.name.toLowerCase()
+      );
+      if (existing) return existing.id;
+
+      const newArea: FocusArea = {
+        ...areaData,
+        id: generateId(),
+        order: get().focusAreas.length + newAreas.length,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      newAreas.push(newArea);
+      return newArea.id;
+    });
+
+    set((state) => ({ focusAreas: [...state.focusAreas, ...newAreas] }));
+    return ids;
+  },
+
+  bulkAddTags: (tagsData) => {
+    recordHistory('Import tags');
+    const existingTags = get().tags;
+    const placeholders = new Map(tagsData.map((tagData) => [tagData.id, tagData]));
+    const idByPlaceholder = new Map<string, string>();
+    const newTags: Tag[] = [];
+
+    // Parents are resolved first; tags that already exist under the same parent are reused
+    const resolve = (placeholderId: string, visiting: Set<string>): string => {
+      const resolved = idByPlaceholder.get(placeholderId);
+      if (resolved) return resolved;
+
+      const tagData = placeholders.get(placeholderId)!;
+      visiting.add(placeholderId);
+      const parentTagId = tagData.parentTagId && placeholders.has(tagData.parentTagId)
+        ? visiting.has(tagData.parentTagId) ? undefined : resolve(tagData.parentTagId, visiting)
+        : tagData.parentTagId;
+
+      const existing = [...existingTags, ...newTags].find(
+        (tag) => tag.name.toLowerCase() === tagData.name.toLowerCase() && tag.parentTagId === parentTagId
+      );
+      let id = existing?.id;
+      if (!id) {
+        id = generateId();
+        newTags.push({
+          ...tagData,
+          id,
+          parentTagId,
+          order: existingTags.length + newTags.length,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      idByPlaceholder.set(placeholderId, id);
+      return id;
+    };
+
+    const ids = tagsData.map((tagData) => resolve(tagData.id, new Set()));
+    set((state) => ({ tags: [...state.tags, ...newTags] }));
+    return ids;
+  },
+
   bulkAddTasks: (tasksData) => {
-    const newTasks: Task[] = tasksData.map((taskData, index) => ({
+    recordHistory('Import tasks');
+    const idByPlaceholder = new Map<string, string>();
+    const ids = tasksData.map((taskData) => {
+      const id = generateId();
+      if (taskData.id) idByPlaceholder.set(taskData.id, id);
+      return id;
+    });
+    const resolve = (id: string | undefined) => (id ? idByPlaceholder.get(id) || id : undefined);
+
+    const newTasks: Task[] = tasksData.map(({ dependsOn, ...taskData }, index) => ({
       ...taskData,
-      id: generateId(),
-      progress: 0,
+      id: ids[index],
+      parentTaskId: resolve(taskData.parentTaskId),
+      progress: taskData.progress ?? 0,
       order: get().tasks.length + index,
       dependsOn: [],
       blockedBy: [],
-      tags: [],
+      tags: taskData.tags || [],
       createdAt: new Date(),
       updatedAt: new Date(),
     }));
 
-    set((state) => ({ tasks: [...state.tasks, ...newTasks] }));
+    // Link prerequisites one at a time so each link is checked against the ones before it
+    let tasks = [...get().tasks, ...newTasks];
+    const warnings: string[] = [];
+    tasksData.forEach((taskData, index) => {
+      (taskData.dependsOn || []).forEach((placeholder) => {
+        const taskId = ids[index];
+        const dependsOnId = resolve(placeholder)!;
+        const error = validateDependency(tasks, taskId, dependsOnId);
+        if (error) {
+          warnings.push(`Skipped a dependency of "${taskData.title}": ${error.message}`);
+          return;
+        }
+        tasks = tasks.map((task) => {
+          if (task.id === taskId) return { ...task, dependsOn: [...task.dependsOn, dependsOnId] };
+          if (task.id === dependsOnId) return { ...task, blockedBy: [...task.blockedBy, taskId] };
+          return task;
+        });
+      });
+    });
+
+    set({ tasks });
+    get().refreshDerivedState();
+    return { ids, warnings };
   },
 
   generateNextRecurringInstance: (taskId) => {
@@ -370,34 +913,39 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
       return;
     }
 
-    // Count completed instances of this recurring task
-    const completedCount = get().tasks.filter(
-      (t) => (t.parentRecurringTaskId === taskId || t.id === taskId) && t.status === 'completed'
-    ).length;
+    // The completed occurrence's number is the series' completed count,
+    // including occurrences that have since been archived
+    const completedCount = getOccurrenceNumber(task);
 
     // Check if we should generate the next instance
     if (!shouldGenerateNextInstance(task.recurrence, completedCount)) {
       return;
     }
 
-    // Calculate the next occurrence date
-    const baseDate = task.dueDate || task.recurringInstanceDate || new Date();
-    const nextDate = getNextOccurrence(baseDate, task.recurrence);
+    // Calculate the next occurrence's dates according to the repeat mode
+    const nextDates = getNextInstanceDates(task, task.recurrence, task.completedDate || new Date());
 
-    if (!nextDate) {
+    if (!nextDates) {
       return;
     }
 
     // Create a new task instance
     const newTask: Task = {
       ...task,
+      ...task.seriesValues,
+      seriesValues: undefined,
       id: generateId(),
       status: 'todo',
       completedDate: undefined,
       progress: 0,
-      dueDate: nextDate,
-      recurringInstanceDate: nextDate,
-      parentRecurringTaskId: taskId,
+      // Links belong to the completed occurrence; copying one side would leave half a link
+      dependsOn: [],
+      blockedBy: [],
+      dependencyEdges: undefined,
+      isAutoBlocked: undefined,
+      ...nextDates,
+      parentRecurringTaskId: getSeriesId(task),
+      occurrenceNumber: completedCount + 1,
       order: get().tasks.length,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -410,7 +958,62 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
     get().saveData();
   },
 
+  skipOccurrence: (id) => {
+    const task = get().tasks.find((t) => t.id === id);
+
+    if (!task || !isOpenOccurrence(task)) {
+      return;
+    }
+
+    recordHistory('Skip occurrence');
+    set((state) => advanceOccurrence(state, task, 'complete'));
+    get().refreshDerivedState();
+    get().saveData();
+  },
+
+  rescheduleOccurrence: (id, date) => {
+    const task = get().tasks.find((t) => t.id === id);
+
+    if (!task || !task.isRecurring || !task.recurrence) {
+      return;
+    }
+
+    recordHistory('Reschedule occurrence');
+
+    // Dates may still be ISO strings, e.g. when set before the task was reloaded
+    const toDate = (value?: Date | string) => (value ? new Date(value) : undefined);
+    const originalSlot = toDate(task.rescheduledFrom || task.dueDate || task.recurringInstanceDate);
+    const currentDue = toDate(task.dueDate) || originalSlot;
+
+    // Keep the occurrence's time of day when only a day was picked
+    const newDueDate = new Date(date);
+    if (currentDue) {
+      newDueDate.setHours(currentDue.getHours(), currentDue.getMinutes(), currentDue.getSeconds(), 0);
+    }
+
+    const shift = currentDue ? newDueDate.getTime() - currentDue.getTime() : 0;
+    const shiftDate = (value?: Date) => (value ? new Date(new Date(value).getTime() + shift) : undefined);
+    const isBackInSlot = originalSlot && newDueDate.getTime() === originalSlot.getTime();
+
+    set((state) => ({
+      tasks: state.tasks.map((t) =>
+        t.id === id
+          ? {
+              ...t,
+              dueDate: newDueDate,
+              startDate: shiftDate(t.startDate),
+              plannedDate: shiftDate(t.plannedDate),
+              rescheduledFrom: isBackInSlot ? undefined : originalSlot,
+              updatedAt: new Date(),
+            }
+          : t
+      ),
+    }));
+    get().saveData();
+  },
+
   archiveCompletedTasks: () => {
+    recordHistory('Archive completed tasks');
     const completedTasks = get().tasks.filter((task) => task.status === 'completed');
     const remainingTasks = get().tasks.filter((task) => task.status !== 'completed');
 
@@ -424,6 +1027,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   },
 
   unarchiveTask: (id) => {
+    recordHistory('Unarchive task');
     const taskToUnarchive = get().archivedTasks.find((task) => task.id === id);
 
     if (taskToUnarchive) {
@@ -431,99 +1035,195 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
         archivedTasks: state.archivedTasks.filter((task) => task.id !== id),
         tasks: [...state.tasks, taskToUnarchive],
       }));
+      get().refreshDerivedState();
       get().saveData();
     }
   },
 
+  restoreFromTrash: (trashId) => {
+    const item = get().trash.find((entry) => entry.id === trashId);
+    if (!item) {
+      return;
+    }
+
+    recordHistory('Restore from trash');
+    set((state) => {
+      const trash = state.trash.filter((entry) => entry.id !== trashId);
+
+      if (item.kind === 'focusArea' && item.focusArea) {
+        return { trash, focusAreas: [...state.focusAreas, item.focusArea] };
+      }
+
+      const restoredTasks = item.kind === 'task' && item.task ? [item.task] : item.projectTasks || [];
+      let projects = state.projects;
+      if (item.kind === 'project' && item.project) {
+        const restored = item.project;
+        const subProjectIds = new Set(item.subProjectIds || []);
+        // The parent may have been deleted since; sub-projects that haven't been moved again come back under it
+        const parentExists = state.projects.some((p) => p.id === restored.parentProjectId);
+        projects = [
+          ...state.projects.map((p) =>
+            subProjectIds.has(p.id) && p.parentProjectId === restored.parentProjectId
+              ? { ...p, parentProjectId: restored.id, updatedAt: new Date() }
+              : p
+          ),
+          parentExists ? restored : { ...restored, parentProjectId: undefined },
+        ];
+      }
+
+      return {
+        trash,
+        projects,
+        tasks: restoreDependencyLinks([...state.tasks, ...restoredTasks], item.dependencyLinks),
+      };
+    });
+    get().refreshDerivedState();
+    get().saveData();
+  },
+
+  purgeFromTrash: (trashId) => {
+    recordHistory('Delete permanently');
+    set((state) => ({
+      trash: state.trash.filter((entry) => entry.id !== trashId),
+    }));
+    get().saveData();
+  },
+
+  emptyTrash: () => {
+    recordHistory('Empty trash');
+    set({ trash: [] });
+    get().saveData();
+  },
+
+  purgeExpiredTrash: (retentionDays) => {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const { trash } = get();
+    const remaining = trash.filter((entry) => entry.deletedAt.getTime() >= cutoff);
+
+    if (remaining.length !== trash.length) {
+      // Automatic, so not an undo step; purged items are dropped from the
+      // history snapshots too, so undoing an earlier action can't bring them back
+      const purgedIds = new Set(trash.filter((entry) => !remaining.includes(entry)).map((entry) => entry.id));
+      const purgeEntry = (entry: HistoryEntry): HistoryEntry => ({
+        ...entry,
+        snapshot: { ...entry.snapshot, trash: entry.snapshot.trash.filter((item) => !purgedIds.has(item.id)) },
+      });
+      set((state) => ({
+        trash: remaining,
+        past: state.past.map(purgeEntry),
+        future: state.future.map(purgeEntry),
+      }));
+      get().saveData();
+    }
+    return trash.length - remaining.length;
+  },
+
   wipeAllData: () => {
+    recordHistory('Wipe all data');
     set({
       tasks: [],
       projects: [],
       focusAreas: [],
+      tags: [],
+      perspectives: [],
       archivedTasks: [],
       dailyGoal: 0,
       focusedTaskIds: [],
       lastPromptDate: null,
       dailyPlan: null,
+      trash: [],
     });
     get().saveData();
   },
 
+  restoreBackup: (data) => {
+    recordHistory('Restore backup');
+    const { tasks, archivedTasks, projects, repairs } = prepareStoredTasks(data.tasks, data.archivedTasks, data.projects);
+    set({ ...data, tasks, archivedTasks, projects });
+    get().saveData();
+    return repairs;
+  },
+
+  undo: () => {
+    const { past } = get();
+    if (past.length === 0) {
+      return null;
+    }
+
+    const entry = past[past.length - 1];
+    set((state) => ({
+      ...entry.snapshot,
+      past: state.past.slice(0, -1),
+      future: [...state.future, { label: entry.label, snapshot: takeSnapshot(state) }],
+    }));
+    get().saveData();
+    return entry.label;
+  },
+
+  redo: () => {
+    const { future } = get();
+    if (future.length === 0) {
+      return null;
+    }
+
+    const entry = future[future.length - 1];
+    set((state) => ({
+      ...entry.snapshot,
+      future: state.future.slice(0, -1),
+      past: [...state.past, { label: entry.label, snapshot: takeSnapshot(state) }],
+    }));
+    get().saveData();
+    return entry.label;
+  },
+
+  canUndo: () => get().past.length > 0,
+
+  canRedo: () => get().future.length > 0,
+
+  clearHistory: () => {
+    set({ past: [], future: [] });
+  },
+
   loadData: async () => {
     try {
       const data = await AsyncStorage.getItem(STORAGE_KEY);
       if (data) {
-        const parsed = JSON.parse(data);
-        // Convert date strings back to Date objects
-        const tasks = parsed.tasks?.map((task: any) => ({
-          ...task,
-          dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-          plannedDate: task.plannedDate ? new Date(task.plannedDate) : undefined,
-          startDate: task.startDate ? new Date(task.startDate) : undefined,
-          completedDate: task.completedDate ? new Date(task.completedDate) : undefined,
-          createdAt: new Date(task.createdAt),
-          updatedAt: new Date(task.updatedAt),
-        })) || [];
-
-        const archivedTasks = parsed.archivedTasks?.map((task: any) => ({
-          ...task,
-          dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-          plannedDate: task.plannedDate ? new Date(task.plannedDate) : undefined,
-          startDate: task.startDate ? new Date(task.startDate) : undefined,
-          completedDate: task.completedDate ? new Date(task.completedDate) : undefined,
-          createdAt: new Date(task.createdAt),
-          updatedAt: new Date(task.updatedAt),
-        })) || [];
-
-        const projects = parsed.projects?.map((project: any) => ({
-          ...project,
-          startDate: project.startDate ? new Date(project.startDate) : undefined,
-          targetDate: project.targetDate ? new Date(project.targetDate) : undefined,
-          completedDate: project.completedDate ? new Date(project.completedDate) : undefined,
-          createdAt: new Date(project.createdAt),
-          updatedAt: new Date(project.updatedAt),
-        })) || [];
-
-        const focusAreas = parsed.focusAreas?.map((area: any) => ({
-          ...area,
-          createdAt: new Date(area.createdAt),
-          updatedAt: new Date(area.updatedAt),
-        })) || [];
-
-        const dailyGoal = parsed.dailyGoal || 0;
-        const focusedTaskIds = parsed.focusedTaskIds || [];
-        const lastPromptDate = parsed.lastPromptDate ? new Date(parsed.lastPromptDate) : null;
-
-        const dailyPlan = parsed.dailyPlan ? {
-          ...parsed.dailyPlan,
-          timeBlocks: parsed.dailyPlan.timeBlocks?.map((block: any) => ({
-            ...block,
-            startTime: new Date(block.startTime),
-            endTime: new Date(block.endTime),
-          })) || [],
-          createdAt: new Date(parsed.dailyPlan.createdAt),
-        } : null;
-
-        set({ tasks, projects, focusAreas, archivedTasks, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan });
+        // Upgrade older payloads to the current schema and revive Date fields
+        const { focusAreas, tags, perspectives, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan, trash, ...stored } =
+          migratePersistedData(JSON.parse(data));
+        const { tasks, archivedTasks, projects, repairs, changed } = prepareStoredTasks(stored.tasks, stored.archivedTasks, stored.projects);
+
+        set({ tasks, projects, focusAreas, tags, perspectives, archivedTasks, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan, trash, past: [], future: [], loadError: null });
+
+        if (changed) {
+          get().saveData();
+        }
+        return repairs;
       }
     } catch (error) {
       console.error('Error loading data:', error);
+      set({ loadError: error instanceof Error ? error.message : String(error) });
     }
+    return 0;
   },
 
   saveData: async () => {
+    if (get().loadError) {
+      console.warn('Not saving: the stored data could not be loaded and would be overwritten');
+      return;
+    }
     try {
-      const { tasks, projects, focusAreas, archivedTasks, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan } = get();
+      const { tasks, projects, focusAreas, tags, perspectives, archivedTasks, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan, trash } = get();
       await AsyncStorage.setItem(
         STORAGE_KEY,
-        JSON.stringify({ tasks, projects, focusAreas, archivedTasks, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan })
+        serializePersistedData({ tasks, projects, focusAreas, tags, perspectives, archivedTasks, dailyGoal, focusedTaskIds, lastPromptDate, dailyPlan, trash })
       );
     } catch (error) {
       console.error('Error saving data:', error);
     }
   },
 
-  populateSampleData: () => {
+  populateSampleData: () => batchHistory('Load sample data', () => {
     const { sampleFocusAreas, sampleProjects, sampleTasks } = require('../utils/sampleData');
 
     // Add focus areas
@@ -551,9 +1251,329 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
         projectId,
       });
     });
-  },
+  }),
 }));
 
+// Loading helpers
+
+/**
+ * Repair dependency links and recompute derived state on tasks and projects
+ * read from storage or a backup. `changed` is set when anything differs
+ * from what was stored.
+ */
+function prepareStoredTasks(storedTasks: Task[], storedArchivedTasks: Task[], storedProjects: Project[]) {
+  // Archived tasks are included so links to completed prerequisites survive
+  const repaired = repairDependencies([...storedTasks, ...storedArchivedTasks]);
+  const repairedTasks = repaired.tasks.slice(0, storedTasks.length);
+  const archivedTasks = repaired.tasks.slice(storedTasks.length);
+  const tasks = rollUpSubtaskProgress(deriveAvailability(repairedTasks));
+  const projects = rollUpProjectProgress(storedProjects, [...tasks, ...archivedTasks]);
+
+  return {
+    tasks,
+    archivedTasks,
+    projects,
+    repairs: repaired.repairs,
+    changed: repaired.repairs > 0 || tasks !== repairedTasks || projects !== storedProjects,
+  };
+}
+
+// History helpers
+
+let historyBatchDepth = 0;
+
+function takeSnapshot(state: TaskStore): HistorySnapshot {
+  const { tasks, projects, focusAreas, tags, perspectives, archivedTasks, dailyGoal, focusedTaskIds, dailyPlan, trash } = state;
+  return { tasks, projects, focusAreas, tags, perspectives, archivedTasks, dailyGoal, focusedTaskIds, dailyPlan, trash };
+}
+
+/**
+ * Push the current state onto the undo stack before a mutation.
+ * State updates are immutable, so snapshots share structure with the live state.
+ */
+function recordHistory(label: string) {
+  if (historyBatchDepth > 0) {
+    return;
+  }
+
+  useTaskStore.setState((state) => ({
+    past: [...state.past, { label, snapshot: takeSnapshot(state) }].slice(-MAX_HISTORY_ENTRIES),
+    future: [],
+  }));
+}
+
+/**
+ * Run several store actions as a single undoable step
+ */
+function batchHistory<T>(label: string, fn: () => T): T {
+  recordHistory(label);
+  historyBatchDepth += 1;
+  try {
+    return fn();
+  } finally {
+    historyBatchDepth -= 1;
+  }
+}
+
+// Trash helpers
+
+/**
+ * Dependency links between the removed tasks and tasks that stay behind.
+ * Links between two removed tasks travel with the tasks themselves.
+ */
+function collectExternalLinks(removedTasks: Task[], removedIds: Set<string>, allTasks: Task[]): DependencyLink[] {
+  const links: DependencyLink[] = [];
+  removedTasks.forEach((task) => {
+    task.dependsOn
+      .filter((dependsOnId) => !removedIds.has(dependsOnId))
+      .forEach((dependsOnId) => links.push({ taskId: task.id, dependsOnId }));
+    task.blockedBy
+      .filter((taskId) => !removedIds.has(taskId))
+      .forEach((taskId) => {
+        // The dependent stays behind and loses its edge, so keep the type with the link
+        const dependent = allTasks.find((t) => t.id === taskId);
+        const edge = dependent ? getDependencyEdge(dependent, task.id) : undefined;
+        links.push({ taskId, dependsOnId: task.id, type: edge?.type, lag: edge?.lag });
+      });
+  });
+  return links;
+}
+
+/**
+ * Remove the given tasks and strip their ids from the remaining tasks' dependency lists
+ */
+function detachTasks(tasks: Task[], removedIds: Set<string>): Task[] {
+  // Subtasks of a removed task move up to the closest remaining ancestor
+  const parentById = new Map(tasks.map((task) => [task.id, task.parentTaskId]));
+  const remainingParent = (parentTaskId: string | undefined) => {
+    const seen = new Set<string>();
+    let id = parentTaskId;
+    while (id && removedIds.has(id) && !seen.has(id)) {
+      seen.add(id);
+      id = parentById.get(id);
+    }
+    return id && removedIds.has(id) ? undefined : id;
+  };
+
+  return tasks
+    .filter((task) => !removedIds.has(task.id))
+    .map((task) => {
+      const dependsOn = task.dependsOn.filter((id) => !removedIds.has(id));
+      const blockedBy = task.blockedBy.filter((id) => !removedIds.has(id));
+      const parentTaskId = remainingParent(task.parentTaskId);
+      if (
+        dependsOn.length === task.dependsOn.length &&
+        blockedBy.length === task.blockedBy.length &&
+        parentTaskId === task.parentTaskId
+      ) {
+        return task;
+      }
+      const dependencyEdges = task.dependencyEdges?.filter((edge) => !removedIds.has(edge.fromTaskId));
+      return {
+        ...task,
+        dependsOn,
+        blockedBy,
+        dependencyEdges: dependencyEdges && dependencyEdges.length > 0 ? dependencyEdges : undefined,
+        parentTaskId,
+        updatedAt: new Date(),
+      };
+    });
+}
+
+// Recurring series
+
+function isOpenOccurrence(task: Task): task is Task & { recurrence: NonNullable<Task['recurrence']> } {
+  return !!task.isRecurring && !!task.recurrence && task.status !== 'completed';
+}
+
+/**
+ * Move an open occurrence on to the next date in its series, excluding the
+ * current date. If there is no next occurrence the series ends: a deleted
+ * occurrence goes to the Trash and a skipped one is marked completed.
+ */
+function advanceOccurrence(
+  state: TaskStore,
+  task: Task,
+  onLastOccurrence: 'trash' | 'complete' = 'trash'
+): Partial<TaskStore> {
+  if (!isOpenOccurrence(task)) {
+    return {};
+  }
+
+  // Record the skipped slot so the series never lands on it again
+  const skippedDate = task.rescheduledFrom || task.dueDate || task.recurringInstanceDate;
+  const recurrence = skippedDate ? addExceptionDate(task.recurrence, skippedDate) : task.recurrence;
+  const nextDates = getNextInstanceDates({ ...task, recurrence }, recurrence);
+
+  if (!nextDates) {
+    // That was the last occurrence of the series
+    if (onLastOccurrence === 'trash') {
+      return moveTasksToTrash(state, [task.id]);
+    }
+    return {
+      tasks: state.tasks.map((t) =>
+        t.id === task.id
+          ? { ...t, recurrence, status: 'completed', completedDate: new Date(), progress: 100, updatedAt: new Date() }
+          : t
+      ),
+    };
+  }
+
+  return {
+    tasks: state.tasks.map((t) =>
+      t.id === task.id
+        ? {
+            ...t,
+            ...task.seriesValues,
+            seriesValues: undefined,
+            ...nextDates,
+            recurrence,
+            status: 'todo',
+            progress: 0,
+            updatedAt: new Date(),
+          }
+        : t
+    ),
+  };
+}
+
+/**
+ * Ids of the active occurrences an edit or delete with the given scope applies to
+ */
+function getSeriesScopeIds(state: TaskStore, task: Task, scope: SeriesScope): string[] {
+  if (scope === 'this') {
+    return [task.id];
+  }
+
+  const fromNumber = getOccurrenceNumber(task);
+
+  return getSeriesTasks(task, state.tasks)
+    .filter((t) => scope === 'all' || t.id === task.id || getOccurrenceNumber(t) >= fromNumber)
+    .map((t) => t.id);
+}
+
+function pickSeriesFields(updates: Partial<Task>): Partial<Pick<Task, SeriesField>> {
+  const picked: Partial<Pick<Task, SeriesField>> = {};
+  for (const field of SERIES_FIELDS) {
+    if (field in updates) {
+      Object.assign(picked, { [field]: updates[field] });
+    }
+  }
+  return picked;
+}
+
+function omitSeriesValues(
+  seriesValues: Task['seriesValues'],
+  fields: SeriesField[]
+): Task['seriesValues'] {
+  if (!seriesValues) return undefined;
+  const remaining = { ...seriesValues };
+  fields.forEach((field) => delete remaining[field]);
+  return Object.keys(remaining).length > 0 ? remaining : undefined;
+}
+
+/**
+ * Apply an edit to one occurrence and, depending on the scope, to the rest of
+ * its series. Only series fields (title, notes, priority, ...) spread to other
+ * occurrences; dates and status always stay with the edited occurrence.
+ */
+function applySeriesUpdate(state: TaskStore, id: string, updates: Partial<Task>, scope: SeriesScope): Task[] {
+  const task = state.tasks.find((t) => t.id === id);
+  if (!task) {
+    return state.tasks;
+  }
+
+  const now = new Date();
+  const seriesUpdates = pickSeriesFields(updates);
+  const changedFields = Object.keys(seriesUpdates) as SeriesField[];
+
+  if (scope === 'this') {
+    // Remember the series value of each overridden field, unless it is already overridden
+    const seriesValues = { ...task.seriesValues };
+    changedFields
+      .filter((field) => !(field in seriesValues) && updates[field] !== task[field])
+      .forEach((field) => Object.assign(seriesValues, { [field]: task[field] }));
+
+    return state.tasks.map((t) =>
+      t.id === id
+        ? {
+            ...t,
+            ...updates,
+            seriesValues: Object.keys(seriesValues).length > 0 ? seriesValues : undefined,
+            updatedAt: now,
+          }
+        : t
+    );
+  }
+
+  const targetIds = new Set(getSeriesScopeIds(state, task, scope));
+
+  return state.tasks.map((t) => {
+    if (t.id === id) {
+      return { ...t, ...updates, seriesValues: omitSeriesValues(t.seriesValues, changedFields), updatedAt: now };
+    }
+    if (targetIds.has(t.id)) {
+      return { ...t, ...seriesUpdates, seriesValues: omitSeriesValues(t.seriesValues, changedFields), updatedAt: now };
+    }
+    return t;
+  });
+}
+
+function moveTasksToTrash(state: TaskStore, ids: string[]): Partial<TaskStore> {
+  const removedIds = new Set(ids);
+  const removedTasks = state.tasks.filter((task) => removedIds.has(task.id));
+  const deletedAt = new Date();
+
+  return {
+    tasks: detachTasks(state.tasks, removedIds),
+    trash: [
+      ...state.trash,
+      ...removedTasks.map((task) => ({
+        id: generateId(),
+        kind: 'task' as const,
+        deletedAt,
+        task,
+        dependencyLinks: collectExternalLinks([task], new Set([task.id]), state.tasks),
+      })),
+    ],
+  };
+}
+
+/**
+ * Put dependency links back for restored tasks, skipping links to tasks that no longer exist
+ */
+function restoreDependencyLinks(tasks: Task[], links: DependencyLink[]): Task[] {
+  const existingIds = new Set(tasks.map((task) => task.id));
+  const validLinks = links.filter((link) => existingIds.has(link.taskId) && existingIds.has(link.dependsOnId));
+
+  return tasks.map((task) => {
+    const taskLinks = validLinks.filter((link) => link.taskId === task.id || link.dependsOnId === task.id);
+    const hasStaleIds = [...task.dependsOn, ...task.blockedBy].some((id) => !existingIds.has(id));
+    if (taskLinks.length === 0 && !hasStaleIds) {
+      return task;
+    }
+
+    const dependsOn = new Set(task.dependsOn.filter((id) => existingIds.has(id)));
+    const blockedBy = new Set(task.blockedBy.filter((id) => existingIds.has(id)));
+    let dependencyEdges = task.dependencyEdges;
+    taskLinks.forEach((link) => {
+      if (link.taskId === task.id) {
+        dependsOn.add(link.dependsOnId);
+        if (link.type) {
+          dependencyEdges = setDependencyEdge(
+            { ...task, dependencyEdges },
+            { fromTaskId: link.dependsOnId, toTaskId: task.id, type: link.type, lag: link.lag },
+            link.dependsOnId
+          );
+        }
+      }
+      if (link.dependsOnId === task.id) blockedBy.add(link.taskId);
+    });
+
+    return { ...task, dependsOn: Array.from(dependsOn), blockedBy: Array.from(blockedBy), dependencyEdges };
+  });
+}
+
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
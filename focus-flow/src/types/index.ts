@@ -1,6 +1,15 @@
 export type TaskStatus = 'todo' | 'in-progress' | 'completed' | 'blocked' | 'deferred';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
 export type RecurrenceType = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+// fixed: next due date follows the schedule from the previous due date
+// defer-another: next due date is computed from the completion date
+// catch-up: like fixed, but occurrences already in the past are skipped
+export type RepeatMode = 'fixed' | 'defer-another' | 'catch-up';
+
+// Which occurrences of a recurring series an edit or delete applies to
+export type SeriesScope = 'this' | 'future' | 'all';
+// Task fields shared by every occurrence of a recurring series
+export type SeriesField = 'title' | 'notes' | 'priority' | 'projectId' | 'focusAreaId' | 'estimatedDuration';
 
 export interface Recurrence {
   type: RecurrenceType;
@@ -10,6 +19,9 @@ export interface Recurrence {
   monthOfYear?: number; // 1-12 for yearly recurrence
   endDate?: Date; // optional end date
   endAfterOccurrences?: number; // optional number of times to repeat
+  rrule?: string; // RFC 5545 RRULE for patterns the simple fields can't express; takes precedence
+  repeatMode?: RepeatMode; // defaults to 'fixed'
+  exceptionDates?: Date[]; // EXDATE: occurrences that were skipped
 }
 
 export interface FocusArea {
@@ -22,6 +34,32 @@ export interface FocusArea {
   updatedAt: Date;
 }
 
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  parentTagId?: string; // Nests this tag under another one
+  order: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PerspectiveSort = 'date' | 'priority' | 'title';
+export type PerspectiveGrouping = 'none' | 'project' | 'priority' | 'status' | 'tag' | 'due';
+
+// A saved view of the task list
+export interface Perspective {
+  id: string;
+  name: string;
+  icon: string; // Emoji shown beside the name
+  query: string; // Filter query, e.g. status:todo due<7d -blocked
+  sortBy: PerspectiveSort;
+  groupBy: PerspectiveGrouping;
+  order: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -30,11 +68,14 @@ export interface Task {
   priority: TaskPriority;
   projectId?: string;
   focusAreaId?: string;
+  parentTaskId?: string; // Nests this task under another task as a subtask
   isFlagged?: boolean; // Star/flag important tasks
 
   // Dependencies
   dependsOn: string[]; // IDs of tasks this task depends on
   blockedBy: string[]; // IDs of tasks that block this task
+  dependencyEdges?: TaskDependency[]; // Type and lag of entries in dependsOn; missing ones are finish-to-start
+  isAutoBlocked?: boolean; // Status was set to blocked because a prerequisite hasn't started or finished
 
   // Dates
   dueDate?: Date;
@@ -50,11 +91,14 @@ export interface Task {
   // Recurrence
   isRecurring?: boolean;
   recurrence?: Recurrence;
-  parentRecurringTaskId?: string; // Links generated instances to the template
+  parentRecurringTaskId?: string; // Links generated instances to the template; the template's id identifies the series
+  occurrenceNumber?: number; // 1-based position in the series; skipped occurrences don't count
   recurringInstanceDate?: Date; // The specific date for this instance
+  rescheduledFrom?: Date; // Original slot of an occurrence moved on its own; the series continues from here
+  seriesValues?: Partial<Pick<Task, SeriesField>>; // Series values this occurrence overrides; the next occurrence gets them back
 
   // Metadata
-  tags: string[];
+  tags: string[]; // Tag ids
   order: number;
   createdAt: Date;
   updatedAt: Date;
@@ -86,6 +130,9 @@ export interface Project {
   // Status
   status: TaskStatus;
   progress: number; // 0-100, calculated from tasks
+  weightProgressByEstimate?: boolean; // Longer tasks count for more of the progress
+  taskCount?: number; // Tasks in this project and its sub-projects, calculated
+  completedTaskCount?: number; // Calculated alongside taskCount
 
   // Metadata
   order: number;
@@ -93,10 +140,17 @@ export interface Project {
   updatedAt: Date;
 }
 
+// finish-to-start: the dependent can't start until the prerequisite finishes
+// start-to-start: the dependent can't start until the prerequisite starts
+// finish-to-finish: the dependent can't finish until the prerequisite finishes
+// start-to-finish: the dependent can't finish until the prerequisite starts
+export type DependencyType = 'finish-to-start' | 'start-to-start' | 'finish-to-finish' | 'start-to-finish';
+
 export interface TaskDependency {
-  fromTaskId: string;
-  toTaskId: string;
-  type: 'finish-to-start' | 'start-to-start' | 'finish-to-finish' | 'start-to-finish';
+  fromTaskId: string; // The prerequisite task
+  toTaskId: string; // The dependent task
+  type: DependencyType;
+  lag?: number; // in days; negative values are lead time
 }
 
 export interface CalendarEvent {
@@ -120,3 +174,55 @@ export interface DailyPlan {
   taskIds: string[]; // ordered list of task IDs
   createdAt: Date;
 }
+
+// An event imported from another calendar's .ics file; read-only
+export interface ExternalEvent {
+  id: string; // UID, with the occurrence date appended for a moved occurrence
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  location?: string;
+  rrule?: string; // RRULE anchored at start, see utils/rrule.ts
+  exceptionDates?: Date[]; // Skipped occurrences, including ones moved by an override
+}
+
+export interface ExternalCalendar {
+  id: string;
+  name: string;
+  color: string;
+  events: ExternalEvent[];
+  importedAt: Date;
+}
+
+// One occurrence of an imported event, as busy time
+export interface BusyBlock {
+  calendarId: string;
+  eventId: string;
+  title: string;
+  color: string;
+  startTime: Date;
+  endTime: Date;
+  allDay: boolean;
+}
+
+export type TrashItemKind = 'task' | 'project' | 'focusArea';
+
+export interface DependencyLink {
+  taskId: string; // The dependent task
+  dependsOnId: string; // The prerequisite task
+  type?: DependencyType;
+  lag?: number;
+}
+
+export interface TrashItem {
+  id: string;
+  kind: TrashItemKind;
+  deletedAt: Date;
+  task?: Task; // Set when kind is 'task'
+  project?: Project; // Set when kind is 'project'
+  focusArea?: FocusArea; // Set when kind is 'focusArea'
+  projectTasks?: Task[]; // Tasks removed together with a project
+  subProjectIds?: string[]; // Sub-projects moved up a level when their project was deleted, moved back on restore
+  dependencyLinks: DependencyLink[]; // Links to tasks outside this item, restored on restore
+}
@@ -0,0 +1,147 @@
+import { Task } from '../types';
+import { addDays, differenceInDays } from './dateUtils';
+import { getEarliestDates, getTaskStart, getTaskFinish } from './dependencyGraph';
+
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5]; // Monday to Friday, as Date.getDay() values
+
+const DATE_FIELDS = ['startDate', 'plannedDate', 'dueDate'] as const;
+type DateField = (typeof DATE_FIELDS)[number];
+
+// Guard against a working-days setting with no days in it
+const MAX_DAYS_TO_NEXT_WORKING_DAY = 7;
+
+export interface ScheduleChange {
+  task: Task;
+  updates: Pick<Task, DateField>;
+  days: number; // Working days the task moves by
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+export function isWorkingDay(date: Date, workingDays: number[]): boolean {
+  return workingDays.includes(date.getDay());
+}
+
+/**
+ * The date itself if it falls on a working day, otherwise the next working day
+ */
+export function nextWorkingDay(date: Date, workingDays: number[]): Date {
+  let result = new Date(date);
+  for (let i = 0; i < MAX_DAYS_TO_NEXT_WORKING_DAY && !isWorkingDay(result, workingDays); i++) {
+    result = addDays(result, 1);
+  }
+  return result;
+}
+
+/**
+ * Move a date by a number of working days, keeping its time of day.
+ * Dates on a non-working day count from the next working day.
+ */
+export function addWorkingDays(date: Date, amount: number, workingDays: number[]): Date {
+  let result = nextWorkingDay(date, workingDays);
+  for (let moved = 0; moved < amount; moved++) {
+    result = nextWorkingDay(addDays(result, 1), workingDays);
+  }
+  return result;
+}
+
+/**
+ * Working days from one date up to another, counting the later date but not the earlier
+ */
+export function countWorkingDays(from: Date, to: Date, workingDays: number[]): number {
+  const start = startOfDay(from);
+  const days = differenceInDays(startOfDay(to), start);
+  let count = 0;
+  for (let i = 1; i <= days; i++) {
+    if (isWorkingDay(addDays(start, i), workingDays)) count++;
+  }
+  return count;
+}
+
+// Dates may arrive as ISO strings from pickers and older data
+const toDate = (value: Date | string | undefined): Date | undefined => (value ? new Date(value) : undefined);
+
+const withDates = (task: Task): Task => ({
+  ...task,
+  startDate: toDate(task.startDate),
+  plannedDate: toDate(task.plannedDate),
+  dueDate: toDate(task.dueDate),
+  completedDate: toDate(task.completedDate),
+});
+
+/**
+ * Dependents that have to move later once the given date updates are applied
+ * to a task. Each dependent keeps its length in working days and moves just far
+ * enough to satisfy its dependency links (including lag), then the same check
+ * runs on its own dependents. Tasks only ever move later; completed tasks and
+ * tasks without dates stay where they are.
+ */
+export function planDependentReschedule(
+  tasks: Task[],
+  taskId: string,
+  updates: Partial<Task>,
+  workingDays: number[] = DEFAULT_WORKING_DAYS
+): ScheduleChange[] {
+  const scheduled = new Map(tasks.map((task) => [task.id, withDates(task)]));
+  const changed = scheduled.get(taskId);
+  if (!changed) return [];
+
+  scheduled.set(taskId, withDates({ ...changed, ...updates }));
+
+  const dependentsById = new Map<string, string[]>();
+  tasks.forEach((task) => {
+    task.dependsOn.forEach((id) => dependentsById.set(id, [...(dependentsById.get(id) || []), task.id]));
+  });
+
+  const moves = new Map<string, number>();
+  const queue = [taskId];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+
+    for (const dependentId of dependentsById.get(currentId) || []) {
+      const dependent = scheduled.get(dependentId);
+      if (!dependent || dependent.status === 'completed' || dependentId === taskId) continue;
+
+      const start = getTaskStart(dependent);
+      const finish = getTaskFinish(dependent);
+      const earliest = getEarliestDates(dependent, Array.from(scheduled.values()));
+
+      // Working days needed to bring one end of the task up to its earliest date
+      const slip = (date: Date | undefined, earliestDate: Date | undefined) =>
+        date && earliestDate && startOfDay(date) < startOfDay(earliestDate)
+          ? countWorkingDays(nextWorkingDay(date, workingDays), nextWorkingDay(earliestDate, workingDays), workingDays)
+          : null;
+      const startSlip = slip(start, earliest.start);
+      const finishSlip = slip(finish, earliest.finish);
+      if (startSlip === null && finishSlip === null) continue;
+
+      // A slip of 0 still moves dates off non-working days
+      const days = Math.max(startSlip || 0, finishSlip || 0);
+
+      const moved = { ...dependent };
+      DATE_FIELDS.forEach((field) => {
+        const value = dependent[field];
+        if (value) moved[field] = addWorkingDays(value, days, workingDays);
+      });
+      scheduled.set(dependentId, moved);
+      moves.set(dependentId, (moves.get(dependentId) || 0) + days);
+      queue.push(dependentId);
+    }
+  }
+
+  return tasks
+    .filter((task) => moves.has(task.id))
+    .map((task) => {
+      const moved = scheduled.get(task.id)!;
+      return {
+        task,
+        updates: { startDate: moved.startDate, plannedDate: moved.plannedDate, dueDate: moved.dueDate },
+        days: moves.get(task.id)!,
+      };
+    });
+}
@@ -0,0 +1,302 @@
+import { CURRENT_SCHEMA_VERSION, PersistedData, migratePersistedData } from '../store/migrations';
+import { PersistedSettings, normalizeSettings } from '../store/settingsStore';
+import { TrashItem } from '../types';
+
+export const BACKUP_FORMAT = 'focus-flow-backup';
+export const BACKUP_VERSION = 1;
+
+// Daily focus streak, kept by the Today screen under its own storage key
+export const STREAK_STORAGE_KEY = '@FocusFlow:streak';
+
+export interface StreakState {
+  current: number;
+  best: number;
+  lastDate: string; // Date.toDateString() of the last day the goal was met
+}
+
+// Everything a backup holds
+export interface BackupContents extends Omit<PersistedData, 'schemaVersion'> {
+  settings: PersistedSettings | null;
+  streak: StreakState | null;
+}
+
+// The file written by createBackup
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  schemaVersion: number; // Version of the task data inside, see migrations.ts
+  exportedAt: string;
+  checksum: string; // Of the JSON-encoded data
+  data: BackupContents;
+}
+
+export interface ParsedBackup {
+  exportedAt: Date;
+  schemaVersion: number;
+  contents: BackupContents;
+  warnings: string[]; // Problems a restore repairs, e.g. links to missing tasks
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface CollectionChange {
+  label: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  contents: BackupContents; // The data after the restore
+  changes: CollectionChange[];
+  replacesDailyPlan: boolean;
+  replacesSettings: boolean;
+  replacesStreak: boolean;
+}
+
+type Collection = 'tasks' | 'archivedTasks' | 'projects' | 'focusAreas' | 'tags' | 'perspectives' | 'trash';
+
+const COLLECTIONS: { key: Collection; label: string }[] = [
+  { key: 'tasks', label: 'Tasks' },
+  { key: 'archivedTasks', label: 'Archived tasks' },
+  { key: 'projects', label: 'Projects' },
+  { key: 'focusAreas', label: 'Focus areas' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'perspectives', label: 'Perspectives' },
+  { key: 'trash', label: 'Trash' },
+];
+
+// Collections every schema version has; the others were added later and are filled in by migrations
+const REQUIRED_COLLECTIONS: Collection[] = ['tasks', 'projects'];
+
+/**
+ * FNV-1a hash of a string, as 8 hex digits. Catches truncated or hand-edited
+ * files; it is not meant to be tamper-proof.
+ */
+export function computeChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Encode everything as a backup file
+ */
+export function createBackup(contents: BackupContents, exportedAt: Date = new Date()): string {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    checksum: computeChecksum(JSON.stringify(contents)),
+    data: contents,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Check a backup file and upgrade its data to the current schema. Nothing is
+ * returned unless the file can be restored as a whole.
+ */
+export function parseBackup(text: string): { backup: ParsedBackup | null; errors: string[] } {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['The file is not valid JSON'] };
+  }
+
+  if (!isRecord(file) || file.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['The file is not a Focus Flow backup'] };
+  }
+  if (typeof file.backupVersion !== 'number' || file.backupVersion > BACKUP_VERSION) {
+    return { backup: null, errors: ['The backup was made by a newer version of Focus Flow'] };
+  }
+  const fileData = file.data;
+  if (!isRecord(fileData)) {
+    return { backup: null, errors: ['The backup has no data'] };
+  }
+  if (file.checksum !== computeChecksum(JSON.stringify(fileData))) {
+    return { backup: null, errors: ["The backup's checksum doesn't match; the file may be damaged or edited"] };
+  }
+
+  const errors: string[] = [];
+  COLLECTIONS.forEach(({ key, label }) => {
+    const value: unknown = fileData[key];
+    if (value === undefined && !REQUIRED_COLLECTIONS.includes(key)) return;
+    if (!Array.isArray(value)) {
+      errors.push(`${label} are missing`);
+    } else if (!value.every((item: unknown) => isRecord(item) && typeof item.id === 'string')) {
+      errors.push(`${label} include entries without an id`);
+    } else if (new Set(value.map((item: { id: string }) => item.id)).size !== value.length) {
+      errors.push(`${label} include duplicate ids`);
+    }
+  });
+  const badTask = [fileData.tasks, fileData.archivedTasks]
+    .flatMap((tasks): unknown[] => (Array.isArray(tasks) ? tasks : []))
+    .find((task): task is Record<string, unknown> => isRecord(task) && typeof task.title !== 'string');
+  if (badTask) {
+    errors.push(`Task ${badTask.id} has no title`);
+  }
+  if (errors.length > 0) {
+    return { backup: null, errors };
+  }
+
+  const fileSchemaVersion = typeof file.schemaVersion === 'number' ? file.schemaVersion : 0;
+  let migrated: PersistedData;
+  try {
+    migrated = migratePersistedData({ ...fileData, schemaVersion: fileSchemaVersion });
+  } catch (error) {
+    return { backup: null, errors: [error instanceof Error ? error.message : 'The backup could not be upgraded'] };
+  }
+
+  const { schemaVersion, ...data } = migrated;
+  const contents: BackupContents = {
+    ...data,
+    settings: isRecord(fileData.settings) ? normalizeSettings(fileData.settings) : null,
+    streak: isStreakState(fileData.streak) ? fileData.streak : null,
+  };
+
+  return {
+    backup: {
+      exportedAt: new Date(String(file.exportedAt)),
+      schemaVersion: fileSchemaVersion,
+      contents,
+      warnings: findDanglingReferences(contents),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Work out what restoring a backup would change, without changing anything.
+ * Replace swaps everything for the backup. Merge adds the backup's items to
+ * the current data, with the backup's version winning when an id exists in
+ * both; the current daily plan, settings and streak are kept unless there
+ * are none.
+ */
+export function planRestore(current: BackupContents, incoming: BackupContents, mode: RestoreMode): RestorePlan {
+  // An item that is active, archived or in the trash in one copy and somewhere
+  // else in the other ends up where the backup has it
+  const archivedIds = new Set(incoming.archivedTasks.map((task) => task.id));
+  const activeIds = new Set(incoming.tasks.map((task) => task.id));
+  const trashedIds = new Set(incoming.trash.flatMap(getTrashedIds));
+  const liveIds = new Set([
+    ...activeIds,
+    ...archivedIds,
+    ...incoming.projects.map((project) => project.id),
+    ...incoming.focusAreas.map((area) => area.id),
+  ]);
+
+  const merge = <T extends { id: string }>(
+    currentItems: T[],
+    incomingItems: T[],
+    isElsewhere: (item: T) => boolean = () => false
+  ): T[] => {
+    if (mode === 'replace') {
+      return incomingItems;
+    }
+    const incomingById = new Map(incomingItems.map((item) => [item.id, item]));
+    const kept = currentItems.filter((item) => !isElsewhere(item));
+    const keptIds = new Set(kept.map((item) => item.id));
+    return [
+      ...kept.map((item) => incomingById.get(item.id) || item),
+      ...incomingItems.filter((item) => !keptIds.has(item.id)),
+    ];
+  };
+
+  const merged: Pick<BackupContents, Collection> = {
+    tasks: merge(current.tasks, incoming.tasks, (task) => archivedIds.has(task.id) || trashedIds.has(task.id)),
+    archivedTasks: merge(current.archivedTasks, incoming.archivedTasks, (task) => activeIds.has(task.id) || trashedIds.has(task.id)),
+    projects: merge(current.projects, incoming.projects, (project) => trashedIds.has(project.id)),
+    focusAreas: merge(current.focusAreas, incoming.focusAreas, (area) => trashedIds.has(area.id)),
+    tags: merge(current.tags, incoming.tags),
+    perspectives: merge(current.perspectives, incoming.perspectives),
+    trash: merge(current.trash, incoming.trash, (item) => getTrashedIds(item).some((id) => liveIds.has(id))),
+  };
+  const changes = COLLECTIONS.map(({ key, label }) => ({ label, ...countChanges(current[key], merged[key]) }));
+
+  const keepCurrent = mode === 'merge';
+  const replacesDailyPlan = !keepCurrent || (!current.dailyPlan && current.focusedTaskIds.length === 0);
+  const replacesSettings = !!incoming.settings && (!keepCurrent || !current.settings);
+  const replacesStreak = !!incoming.streak && (!keepCurrent || !current.streak || incoming.streak.best > current.streak.best);
+  const daily = replacesDailyPlan ? incoming : current;
+
+  return {
+    mode,
+    contents: {
+      ...merged,
+      dailyGoal: daily.dailyGoal,
+      focusedTaskIds: daily.focusedTaskIds,
+      lastPromptDate: daily.lastPromptDate,
+      dailyPlan: daily.dailyPlan,
+      settings: replacesSettings ? incoming.settings : current.settings,
+      streak: replacesStreak ? incoming.streak : current.streak,
+    },
+    changes,
+    replacesDailyPlan,
+    replacesSettings,
+    replacesStreak,
+  };
+}
+
+function countChanges(before: { id: string }[], after: { id: string }[]) {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+
+  after.forEach((item) => {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      added += 1;
+    } else if (previous === item || JSON.stringify(previous) === JSON.stringify(item)) {
+      unchanged += 1;
+    } else {
+      updated += 1;
+    }
+  });
+
+  return { added, updated, removed: before.filter((item) => !afterIds.has(item.id)).length, unchanged };
+}
+
+function findDanglingReferences(contents: BackupContents): string[] {
+  const allTasks = [...contents.tasks, ...contents.archivedTasks];
+  const taskIds = new Set(allTasks.map((task) => task.id));
+  const projectIds = new Set(contents.projects.map((project) => project.id));
+  const tagIds = new Set(contents.tags.map((tag) => tag.id));
+
+  const count = (predicate: (task: (typeof allTasks)[number]) => boolean) => allTasks.filter(predicate).length;
+  const warnings: string[] = [];
+  const missingProject = count((task) => !!task.projectId && !projectIds.has(task.projectId));
+  const missingDependency = count((task) => task.dependsOn.some((id) => !taskIds.has(id)));
+  const missingParent = count((task) => !!task.parentTaskId && !taskIds.has(task.parentTaskId));
+  const missingTag = count((task) => task.tags.some((id) => !tagIds.has(id)));
+
+  if (missingProject > 0) warnings.push(`${missingProject} task(s) belong to a project that isn't in the backup`);
+  if (missingDependency > 0) warnings.push(`${missingDependency} task(s) depend on tasks that aren't in the backup; those links will be dropped`);
+  if (missingParent > 0) warnings.push(`${missingParent} subtask(s) have a parent that isn't in the backup`);
+  if (missingTag > 0) warnings.push(`${missingTag} task(s) have tags that aren't in the backup`);
+  return warnings;
+}
+
+// Ids of the tasks, projects and focus areas a trash item holds
+function getTrashedIds(item: TrashItem): string[] {
+  return [item.task?.id, item.project?.id, item.focusArea?.id, ...(item.projectTasks || []).map((task) => task.id)].filter(
+    (id): id is string => !!id
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStreakState(value: unknown): value is StreakState {
+  return isRecord(value) && typeof value.current === 'number' && typeof value.best === 'number' && typeof value.lastDate === 'string';
+}
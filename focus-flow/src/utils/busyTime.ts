@@ -0,0 +1,46 @@
+import { BusyBlock, ExternalCalendar } from '../types';
+import { expandExternalEvent } from './ical';
+
+/**
+ * Occurrences of every imported event that overlap [rangeStart, rangeEnd),
+ * sorted by start time
+ */
+export function getBusyBlocks(calendars: ExternalCalendar[], rangeStart: Date, rangeEnd: Date): BusyBlock[] {
+  return calendars
+    .flatMap((calendar) =>
+      calendar.events.flatMap((event) =>
+        expandExternalEvent(event, rangeStart, rangeEnd).map((occurrence) => ({
+          calendarId: calendar.id,
+          eventId: event.id,
+          title: event.title,
+          color: calendar.color,
+          startTime: occurrence.start,
+          endTime: occurrence.end,
+          allDay: event.allDay,
+        }))
+      )
+    )
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || Number(b.allDay) - Number(a.allDay));
+}
+
+/**
+ * The earliest time at or after `start` with `duration` minutes free of
+ * busy blocks. All-day events don't block time; they are usually
+ * reminders such as birthdays or holidays.
+ */
+export function findFreeStart(start: Date, duration: number, busyBlocks: BusyBlock[]): Date {
+  const timed = busyBlocks
+    .filter((block) => !block.allDay && block.endTime > block.startTime)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  let candidate = new Date(start);
+
+  for (const block of timed) {
+    const end = new Date(candidate.getTime() + duration * 60000);
+    if (block.startTime >= end) break;
+    if (block.endTime > candidate) {
+      candidate = new Date(block.endTime);
+    }
+  }
+
+  return candidate;
+}
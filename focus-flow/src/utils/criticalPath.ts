@@ -0,0 +1,195 @@
+import { Project, Task } from '../types';
+import { addDays, differenceInDays } from './dateUtils';
+import { getDependencyEdge } from './dependencyGraph';
+import { HOURS_PER_DAY } from './gantt';
+import { getProjectTreeIds } from './projectTree';
+
+// Slack below this many days counts as none, to absorb floating point error
+const SLACK_TOLERANCE = 0.001;
+
+// Timing dates are midnight boundaries: a finish of Tuesday 00:00 means done by the end of Monday
+export interface TaskTiming {
+  taskId: string;
+  duration: number; // days of remaining work
+  earliestStart: Date;
+  earliestFinish: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  slack: number; // days the task can slip without delaying the project
+  isCritical: boolean;
+}
+
+export interface ProjectScheduleAnalysis {
+  timings: Map<string, TaskTiming>;
+  criticalPath: Task[]; // Critical tasks in the order they can start
+  projectStart: Date;
+  projectedFinish: Date; // Last day of remaining work
+  overrunDays: number; // Days the projected finish is past targetDate; 0 when on time or without a target
+}
+
+/**
+ * Days of work left on a task. Finished tasks take no more time, and tasks
+ * without an estimate count as `defaultDuration` days.
+ */
+export function getRemainingDuration(task: Task, defaultDuration = 1): number {
+  if (task.status === 'completed') return 0;
+  return task.estimatedDuration ? task.estimatedDuration / HOURS_PER_DAY : defaultDuration;
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Critical path analysis of a project and its sub-projects.
+ * A forward pass over the dependency graph finds the earliest each task can
+ * start and finish; a backward pass from the projected finish finds the latest
+ * each can start and finish without delaying it. Linked tasks with no slack
+ * form the critical path, so a project without links has none. Links to tasks
+ * outside the project are ignored.
+ */
+export function analyzeProjectSchedule(
+  project: Project,
+  projects: Project[],
+  tasks: Task[],
+  today: Date = new Date()
+): ProjectScheduleAnalysis {
+  const projectIds = getProjectTreeIds(project.id, projects);
+  const projectTasks = tasks.filter((task) => task.projectId && projectIds.has(task.projectId));
+  const tasksById = new Map(projectTasks.map((task) => [task.id, task]));
+
+  // Remaining work can't start in the past
+  const todayStart = startOfDay(today);
+  const projectStart = project.startDate && startOfDay(project.startDate) > todayStart
+    ? startOfDay(project.startDate)
+    : todayStart;
+
+  const order = topologicalOrder(projectTasks, tasksById);
+  // Unestimated tasks count as the shortest real estimate, at most a day, so a guess never outweighs one
+  const estimates = projectTasks
+    .filter((task) => task.status !== 'completed' && task.estimatedDuration)
+    .map((task) => getRemainingDuration(task));
+  const defaultDuration = Math.min(1, ...estimates);
+  const duration = new Map(projectTasks.map((task) => [task.id, getRemainingDuration(task, defaultDuration)]));
+  const successors = new Map<string, Task[]>(projectTasks.map((task) => [task.id, []]));
+  const linkedIds = new Set<string>();
+  projectTasks.forEach((task) => {
+    task.dependsOn.forEach((id) => {
+      if (!tasksById.has(id)) return;
+      successors.get(id)!.push(task);
+      linkedIds.add(id);
+      linkedIds.add(task.id);
+    });
+  });
+
+  // Forward pass, in days from the project start
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  order.forEach((task) => {
+    const d = duration.get(task.id)!;
+    // A task's own start date is a start-no-earlier-than constraint
+    let start = task.startDate && task.status !== 'completed'
+      ? Math.max(0, differenceInDays(startOfDay(task.startDate), projectStart))
+      : 0;
+
+    task.dependsOn.forEach((id) => {
+      if (!tasksById.has(id)) return;
+      const { type, lag = 0 } = getDependencyEdge(task, id);
+      const es = earliestStart.get(id) ?? 0;
+      const ef = earliestFinish.get(id) ?? 0;
+      if (type === 'finish-to-start') start = Math.max(start, ef + lag);
+      else if (type === 'start-to-start') start = Math.max(start, es + lag);
+      else if (type === 'finish-to-finish') start = Math.max(start, ef + lag - d);
+      else start = Math.max(start, es + lag - d);
+    });
+
+    earliestStart.set(task.id, start);
+    earliestFinish.set(task.id, start + d);
+  });
+
+  const finish = Math.max(0, ...Array.from(earliestFinish.values()));
+
+  // Backward pass from the projected finish
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+  [...order].reverse().forEach((task) => {
+    const d = duration.get(task.id)!;
+    let latest = finish;
+
+    successors.get(task.id)!.forEach((successor) => {
+      const { type, lag = 0 } = getDependencyEdge(successor, task.id);
+      const ls = latestStart.get(successor.id) ?? finish;
+      const lf = latestFinish.get(successor.id) ?? finish;
+      if (type === 'finish-to-start') latest = Math.min(latest, ls - lag);
+      else if (type === 'start-to-start') latest = Math.min(latest, ls - lag + d);
+      else if (type === 'finish-to-finish') latest = Math.min(latest, lf - lag);
+      else latest = Math.min(latest, lf - lag + d);
+    });
+
+    latestFinish.set(task.id, latest);
+    latestStart.set(task.id, latest - d);
+  });
+
+  const toDate = (days: number) => addDays(projectStart, Math.ceil(days - SLACK_TOLERANCE));
+  const timings = new Map<string, TaskTiming>();
+  order.forEach((task) => {
+    const slack = latestStart.get(task.id)! - earliestStart.get(task.id)!;
+    timings.set(task.id, {
+      taskId: task.id,
+      duration: duration.get(task.id)!,
+      earliestStart: toDate(earliestStart.get(task.id)!),
+      earliestFinish: toDate(earliestFinish.get(task.id)!),
+      latestStart: toDate(latestStart.get(task.id)!),
+      latestFinish: toDate(latestFinish.get(task.id)!),
+      slack: Math.max(0, slack),
+      // Finished tasks no longer decide anything, and unlinked ones aren't part of a chain
+      isCritical: task.status !== 'completed' && linkedIds.has(task.id) && slack < SLACK_TOLERANCE,
+    });
+  });
+
+  const criticalPath = order
+    .filter((task) => timings.get(task.id)!.isCritical)
+    .sort((a, b) => earliestStart.get(a.id)! - earliestStart.get(b.id)!);
+
+  const projectedFinish = finish > 0 ? addDays(toDate(finish), -1) : projectStart;
+  const overrunDays = project.targetDate
+    ? Math.max(0, differenceInDays(projectedFinish, startOfDay(project.targetDate)))
+    : 0;
+
+  return { timings, criticalPath, projectStart, projectedFinish, overrunDays };
+}
+
+/**
+ * Ids of critical tasks across all top-level projects
+ */
+export function getCriticalTaskIds(projects: Project[], tasks: Task[], today: Date = new Date()): Set<string> {
+  const ids = new Set<string>();
+  projects
+    .filter((project) => !project.parentProjectId && project.status !== 'completed')
+    .forEach((project) => {
+      analyzeProjectSchedule(project, projects, tasks, today).criticalPath.forEach((task) => ids.add(task.id));
+    });
+  return ids;
+}
+
+// Prerequisites before the tasks that depend on them
+function topologicalOrder(tasks: Task[], tasksById: Map<string, Task>): Task[] {
+  const result: Task[] = [];
+  const visited = new Set<string>();
+
+  const visit = (task: Task) => {
+    if (visited.has(task.id)) return;
+    // Marked before recursing so a corrupted cycle can't recurse forever
+    visited.add(task.id);
+    task.dependsOn.forEach((id) => {
+      const prerequisite = tasksById.get(id);
+      if (prerequisite) visit(prerequisite);
+    });
+    result.push(task);
+  };
+
+  tasks.forEach(visit);
+  return result;
+}
@@ -0,0 +1,408 @@
+import { format } from 'date-fns';
+import { Project, Tag, Task, TaskPriority, TaskStatus } from '../types';
+import { getTagPath, TAG_PATH_SEPARATOR } from './tags';
+
+export type TaskCsvField =
+  | 'title'
+  | 'project'
+  | 'notes'
+  | 'status'
+  | 'priority'
+  | 'dueDate'
+  | 'plannedDate'
+  | 'startDate'
+  | 'progress'
+  | 'dependencies'
+  | 'tags';
+
+// Column ids match the list view's columns; aliases help map spreadsheets made elsewhere
+export const TASK_CSV_FIELDS: { id: TaskCsvField; label: string; aliases: string[] }[] = [
+  { id: 'title', label: 'Title', aliases: ['name', 'task', 'task name'] },
+  { id: 'project', label: 'Project', aliases: ['project name', 'list'] },
+  { id: 'notes', label: 'Notes', aliases: ['note', 'description', 'details'] },
+  { id: 'status', label: 'Status', aliases: ['state'] },
+  { id: 'priority', label: 'Priority', aliases: [] },
+  { id: 'dueDate', label: 'Due Date', aliases: ['due', 'deadline'] },
+  { id: 'plannedDate', label: 'Planned', aliases: ['planned date', 'scheduled', 'do date'] },
+  { id: 'startDate', label: 'Start Date', aliases: ['start', 'defer', 'defer date'] },
+  { id: 'progress', label: 'Progress', aliases: ['percent complete', '% complete'] },
+  { id: 'dependencies', label: 'Dependencies', aliases: ['depends on', 'predecessors', 'blocked by'] },
+  { id: 'tags', label: 'Tags', aliases: ['tag', 'contexts', 'labels'] },
+];
+
+// Separates task titles and tag names inside a single cell
+const LIST_SEPARATOR = ';';
+
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  todo: 'todo',
+  'to-do': 'todo',
+  open: 'todo',
+  'in-progress': 'in-progress',
+  inprogress: 'in-progress',
+  started: 'in-progress',
+  completed: 'completed',
+  complete: 'completed',
+  done: 'completed',
+  blocked: 'blocked',
+  deferred: 'deferred',
+  'on-hold': 'deferred',
+};
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// A task ready for bulkAddTasks; dependsOn holds placeholder ids of other rows or existing task ids
+export interface CsvImportTask {
+  id: string; // Placeholder, unique within the import
+  line: number; // 1-based row in the file, counting the header
+  title: string;
+  projectId?: string;
+  notes?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate?: Date;
+  plannedDate?: Date;
+  startDate?: Date;
+  progress: number;
+  dependsOn: string[];
+  tagIds: string[]; // Existing tags
+  newTagPaths: string[]; // Tags to create, as "Parent : Child" paths
+}
+
+export interface CsvImportFailure {
+  line: number;
+  title: string;
+  errors: string[];
+}
+
+export interface CsvImportPlan {
+  tasks: CsvImportTask[];
+  failures: CsvImportFailure[];
+}
+
+/**
+ * Encode rows as CSV, quoting cells that need it
+ */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map((row) => row.map((cell) => (/[",\r\n]/.test(cell) || cell !== cell.trim() ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * The given tasks as CSV, one column per field. Project follows the title
+ * because the list view shows it as the row's group.
+ */
+export function exportTasksCsv(
+  rows: Task[],
+  fields: TaskCsvField[],
+  { tasks, projects, tags }: { tasks: Task[]; projects: Project[]; tags: Tag[] }
+): string {
+  const columns: TaskCsvField[] = ['title', 'project', ...fields.filter((field) => field !== 'title' && field !== 'project')];
+  const labelOf = (field: TaskCsvField) => TASK_CSV_FIELDS.find((f) => f.id === field)!.label;
+  const dateCell = (date?: Date) => (date ? format(new Date(date), 'yyyy-MM-dd') : '');
+
+  const cellOf = (task: Task, field: TaskCsvField): string => {
+    switch (field) {
+      case 'title':
+        return task.title;
+      case 'project':
+        return projects.find((p) => p.id === task.projectId)?.name || '';
+      case 'notes':
+        return task.notes || '';
+      case 'status':
+        return task.status;
+      case 'priority':
+        return task.priority;
+      case 'dueDate':
+        return dateCell(task.dueDate);
+      case 'plannedDate':
+        return dateCell(task.plannedDate);
+      case 'startDate':
+        return dateCell(task.startDate);
+      case 'progress':
+        return String(task.progress);
+      case 'dependencies':
+        return task.dependsOn
+          .map((id) => tasks.find((t) => t.id === id)?.title)
+          .filter(Boolean)
+          .join(`${LIST_SEPARATOR} `);
+      case 'tags':
+        return tags
+          .filter((tag) => task.tags.includes(tag.id))
+          .map((tag) => getTagPath(tag, tags))
+          .join(`${LIST_SEPARATOR} `);
+    }
+  };
+
+  return toCsv([columns.map(labelOf), ...rows.map((task) => columns.map((field) => cellOf(task, field)))]);
+}
+
+/**
+ * Best guess at which field each header holds. Each field is used at most once.
+ */
+export function guessCsvMapping(headers: string[]): (TaskCsvField | null)[] {
+  const used = new Set<TaskCsvField>();
+  return headers.map((header) => {
+    const name = header.trim().toLowerCase();
+    const field = TASK_CSV_FIELDS.find(
+      (f) => !used.has(f.id) && (f.id.toLowerCase() === name || f.label.toLowerCase() === name || f.aliases.includes(name))
+    );
+    if (!field) return null;
+    used.add(field.id);
+    return field.id;
+  });
+}
+
+/**
+ * Turn CSV rows (after the header) into tasks using the column mapping.
+ * Projects, prerequisites and tags are matched by name; prerequisites may be
+ * other rows of the same file. Rows that can't be imported are reported with
+ * their reasons, and so are rows that depend on them.
+ */
+export function planCsvImport(
+  rows: string[][],
+  mapping: (TaskCsvField | null)[],
+  { tasks, projects, tags }: { tasks: Task[]; projects: Project[]; tags: Tag[] },
+  headerLines = 1
+): CsvImportPlan {
+  const errorsByLine = new Map<number, string[]>();
+  const addError = (line: number, error: string) => errorsByLine.set(line, [...(errorsByLine.get(line) || []), error]);
+  const lower = (value: string) => value.trim().toLowerCase();
+
+  const tagByPath = new Map(tags.map((tag) => [getTagPlaceholderId(getTagPath(tag, tags)), tag]));
+  const tagsByName = new Map<string, Tag[]>();
+  tags.forEach((tag) => tagsByName.set(lower(tag.name), [...(tagsByName.get(lower(tag.name)) || []), tag]));
+
+  const parsed = rows.map((cells, index) => {
+    const line = index + headerLines + 1;
+    const valueOf = (field: TaskCsvField) => {
+      const column = mapping.indexOf(field);
+      const value = column >= 0 ? (cells[column] || '').trim() : '';
+      return value === '—' ? '' : value;
+    };
+    const error = (message: string) => addError(line, message);
+
+    const title = valueOf('title');
+    if (!title) error('Title is empty');
+
+    let projectId: string | undefined;
+    const projectName = valueOf('project');
+    if (projectName) {
+      projectId = projects.find((p) => lower(p.name) === lower(projectName))?.id;
+      if (!projectId) error(`No project named "${projectName}"`);
+    }
+
+    const statusValue = lower(valueOf('status')).replace(/\s+/g, '-');
+    const status = statusValue ? STATUS_ALIASES[statusValue] : 'todo';
+    if (!status) error(`Unknown status "${valueOf('status')}"`);
+
+    const priorityValue = lower(valueOf('priority'));
+    const priority = (priorityValue || 'medium') as TaskPriority;
+    if (!PRIORITIES.includes(priority)) error(`Unknown priority "${valueOf('priority')}"`);
+
+    const dateOf = (field: TaskCsvField, label: string) => {
+      const value = valueOf(field);
+      if (!value) return undefined;
+      const date = parseCsvDate(value);
+      if (!date) error(`Can't read the ${label} "${value}"`);
+      return date;
+    };
+    const dueDate = dateOf('dueDate', 'due date');
+    const plannedDate = dateOf('plannedDate', 'planned date');
+    const startDate = dateOf('startDate', 'start date');
+
+    const progressValue = valueOf('progress').replace('%', '').trim();
+    const progress = progressValue ? Number(progressValue) : status === 'completed' ? 100 : 0;
+    if (isNaN(progress) || progress < 0 || progress > 100) error(`Progress "${valueOf('progress')}" isn't between 0 and 100`);
+
+    const tagIds: string[] = [];
+    const newTagPaths: string[] = [];
+    splitList(valueOf('tags')).forEach((path) => {
+      const byPath = tagByPath.get(getTagPlaceholderId(path));
+      const byName = tagsByName.get(lower(path));
+      if (byPath) {
+        tagIds.push(byPath.id);
+      } else if (byName && byName.length === 1) {
+        tagIds.push(byName[0].id);
+      } else if (byName) {
+        error(`More than one tag is called "${path}"; use its full path`);
+      } else {
+        newTagPaths.push(path);
+      }
+    });
+
+    const task: CsvImportTask = {
+      id: `csv-line-${line}`,
+      line,
+      title,
+      projectId,
+      notes: valueOf('notes') || undefined,
+      status: status || 'todo',
+      priority,
+      dueDate,
+      plannedDate,
+      startDate,
+      progress: Math.round(progress) || 0,
+      dependsOn: [],
+      tagIds,
+      newTagPaths,
+    };
+    return { task, dependencyNames: splitList(valueOf('dependencies')) };
+  });
+
+  // Prerequisites: rows of this file first, then existing tasks
+  parsed.forEach(({ task, dependencyNames }) => {
+    dependencyNames.forEach((name) => {
+      const row = parsed.find((other) => other.task !== task && lower(other.task.title) === lower(name));
+      const existing = tasks.filter((t) => lower(t.title) === lower(name));
+      if (row) {
+        task.dependsOn.push(row.task.id);
+      } else if (existing.length === 1) {
+        task.dependsOn.push(existing[0].id);
+      } else if (existing.length > 1) {
+        addError(task.line, `More than one task is called "${name}"`);
+      } else {
+        addError(task.line, `No task named "${name}" to depend on`);
+      }
+    });
+  });
+
+  markDependencyLoops(parsed.map(({ task }) => task), addError);
+
+  // A row can't be imported without its prerequisites
+  const rowById = new Map(parsed.map(({ task }) => [task.id, task]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    parsed.forEach(({ task }) => {
+      if (errorsByLine.has(task.line)) return;
+      const failed = task.dependsOn.map((id) => rowById.get(id)).find((row) => row && errorsByLine.has(row.line));
+      if (failed) {
+        addError(task.line, `Depends on "${failed.title}" (row ${failed.line}), which can't be imported`);
+        changed = true;
+      }
+    });
+  }
+
+  return {
+    tasks: parsed.map(({ task }) => task).filter((task) => !errorsByLine.has(task.line)),
+    failures: parsed
+      .filter(({ task }) => errorsByLine.has(task.line))
+      .map(({ task }) => ({ line: task.line, title: task.title, errors: errorsByLine.get(task.line)! })),
+  };
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Dates as written by exportTasksCsv (yyyy-mm-dd, read as local dates) or
+ * anything else Date understands, like "Mar 5, 2025"
+ */
+function parseCsvDate(value: string): Date | undefined {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Report every row whose prerequisites among the imported rows lead back to it
+ */
+function markDependencyLoops(rows: CsvImportTask[], addError: (line: number, error: string) => void) {
+  const rowById = new Map(rows.map((row) => [row.id, row]));
+  const reaches = (from: CsvImportTask, target: string, seen: Set<string>): boolean =>
+    from.dependsOn.some((id) => {
+      if (id === target) return true;
+      const next = rowById.get(id);
+      if (!next || seen.has(id)) return false;
+      seen.add(id);
+      return reaches(next, target, seen);
+    });
+
+  rows.forEach((row) => {
+    if (reaches(row, row.id, new Set())) {
+      addError(row.line, 'Its dependencies loop back to this task');
+    }
+  });
+}
+
+/**
+ * Placeholder tags for bulkAddTags, one per level of each path, so nested
+ * tags that already exist are reused. Placeholder ids are the lowercased paths.
+ */
+export function getNewTagPlaceholders(paths: string[]): { id: string; name: string; parentTagId?: string }[] {
+  const placeholders = new Map<string, { id: string; name: string; parentTagId?: string }>();
+  paths.forEach((path) => {
+    let parentTagId: string | undefined;
+    path
+      .split(TAG_PATH_SEPARATOR.trim())
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .forEach((name) => {
+        const id = parentTagId ? `${parentTagId}${TAG_PATH_SEPARATOR}${name.toLowerCase()}` : name.toLowerCase();
+        if (!placeholders.has(id)) placeholders.set(id, { id, name, parentTagId });
+        parentTagId = id;
+      });
+  });
+  return [...placeholders.values()];
+}
+
+/**
+ * The placeholder id getNewTagPlaceholders gives the last level of a path
+ */
+export function getTagPlaceholderId(path: string): string {
+  return path
+    .split(TAG_PATH_SEPARATOR.trim())
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .join(TAG_PATH_SEPARATOR);
+}
@@ -0,0 +1,358 @@
+import { Task, TaskDependency, DependencyType } from '../types';
+
+export const DEFAULT_DEPENDENCY_TYPE: DependencyType = 'finish-to-start';
+
+export const DEPENDENCY_TYPES: { type: DependencyType; shortLabel: string; label: string }[] = [
+  { type: 'finish-to-start', shortLabel: 'FS', label: 'Finish → Start' },
+  { type: 'start-to-start', shortLabel: 'SS', label: 'Start → Start' },
+  { type: 'finish-to-finish', shortLabel: 'FF', label: 'Finish → Finish' },
+  { type: 'start-to-finish', shortLabel: 'SF', label: 'Start → Finish' },
+];
+
+export type DependencyErrorReason = 'self' | 'duplicate' | 'missing' | 'cycle';
+
+/**
+ * Raised when a dependency edge would leave the graph invalid.
+ * For cycles, `cyclePath` lists the task ids from the dependent task back to itself.
+ */
+export class DependencyError extends Error {
+  reason: DependencyErrorReason;
+  cyclePath?: string[];
+
+  constructor(reason: DependencyErrorReason, message: string, cyclePath?: string[]) {
+    super(message);
+    this.name = 'DependencyError';
+    this.reason = reason;
+    this.cyclePath = cyclePath;
+  }
+}
+
+/**
+ * Shortest chain of prerequisites leading from one task to another,
+ * following dependsOn edges. Returns null if there is none.
+ */
+export function findDependencyPath(tasks: Task[], fromId: string, toId: string): string[] | null {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const previous = new Map<string, string>();
+  const queue = [fromId];
+  const visited = new Set([fromId]);
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    if (currentId === toId) {
+      const path = [toId];
+      while (path[0] !== fromId) {
+        path.unshift(previous.get(path[0])!);
+      }
+      return path;
+    }
+
+    for (const nextId of tasksById.get(currentId)?.dependsOn || []) {
+      if (!visited.has(nextId)) {
+        visited.add(nextId);
+        previous.set(nextId, currentId);
+        queue.push(nextId);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether `taskId` may depend on `dependsOnId`.
+ * Returns the problem as a DependencyError, or null if the edge is valid.
+ */
+export function validateDependency(tasks: Task[], taskId: string, dependsOnId: string): DependencyError | null {
+  const task = tasks.find((t) => t.id === taskId);
+  const prerequisite = tasks.find((t) => t.id === dependsOnId);
+
+  if (!task || !prerequisite) {
+    return new DependencyError('missing', 'That task no longer exists');
+  }
+
+  if (taskId === dependsOnId) {
+    return new DependencyError('self', 'A task cannot depend on itself');
+  }
+
+  if (task.dependsOn.includes(dependsOnId)) {
+    return new DependencyError('duplicate', `"${task.title}" already depends on "${prerequisite.title}"`);
+  }
+
+  // The new edge closes a cycle if the prerequisite already (indirectly) depends on the task
+  const path = findDependencyPath(tasks, dependsOnId, taskId);
+  if (path) {
+    const cyclePath = [taskId, ...path];
+    const titles = cyclePath.map((id) => tasks.find((t) => t.id === id)?.title || 'Unknown task');
+    return new DependencyError('cycle', `This would create a circular dependency: ${titles.join(' → ')}`, cyclePath);
+  }
+
+  return null;
+}
+
+/**
+ * Ids of every task that depends on the given task, directly or through a chain
+ */
+export function getTransitiveDependents(tasks: Task[], taskId: string): Set<string> {
+  const dependentsById = new Map<string, string[]>();
+  tasks.forEach((task) => {
+    task.dependsOn.forEach((dependsOnId) => {
+      dependentsById.set(dependsOnId, [...(dependentsById.get(dependsOnId) || []), task.id]);
+    });
+  });
+
+  const result = new Set<string>();
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    for (const dependentId of dependentsById.get(currentId) || []) {
+      if (!result.has(dependentId)) {
+        result.add(dependentId);
+        queue.push(dependentId);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Tasks that can be added as new prerequisites of the given task
+ */
+export function getDependencyCandidates(tasks: Task[], taskId: string): Task[] {
+  const task = tasks.find((t) => t.id === taskId);
+  if (!task) return [];
+
+  const dependents = getTransitiveDependents(tasks, taskId);
+  return tasks.filter((t) => t.id !== taskId && !task.dependsOn.includes(t.id) && !dependents.has(t.id));
+}
+
+// Typed edges
+
+/**
+ * The edge from a prerequisite to the task that depends on it.
+ * Links without stored details are finish-to-start with no lag.
+ */
+export function getDependencyEdge(task: Task, dependsOnId: string): TaskDependency {
+  return (
+    task.dependencyEdges?.find((edge) => edge.fromTaskId === dependsOnId) || {
+      fromTaskId: dependsOnId,
+      toTaskId: task.id,
+      type: DEFAULT_DEPENDENCY_TYPE,
+    }
+  );
+}
+
+/**
+ * Replace or remove the stored edge for one prerequisite.
+ * Default edges (finish-to-start, no lag) are not stored.
+ */
+export function setDependencyEdge(task: Task, edge: TaskDependency | null, dependsOnId: string): TaskDependency[] | undefined {
+  const others = (task.dependencyEdges || []).filter((e) => e.fromTaskId !== dependsOnId);
+  const isDefault = !edge || (edge.type === DEFAULT_DEPENDENCY_TYPE && !edge.lag);
+  const edges = isDefault ? others : [...others, edge!];
+  return edges.length > 0 ? edges : undefined;
+}
+
+export function getDependencyTypeLabel(type: DependencyType): string {
+  return DEPENDENCY_TYPES.find((option) => option.type === type)?.label || type;
+}
+
+export function formatLag(lag?: number): string {
+  if (!lag) return '';
+  const days = Math.abs(lag);
+  return `${lag > 0 ? '+' : '−'}${days} day${days === 1 ? '' : 's'}`;
+}
+
+const hasStarted = (task: Task) => task.status === 'in-progress' || task.status === 'completed';
+const hasFinished = (task: Task) => task.status === 'completed';
+
+/**
+ * Prerequisites that keep the task from starting:
+ * unfinished finish-to-start links and unstarted start-to-start links
+ */
+export function getStartBlockers(task: Task, tasks: Task[]): Task[] {
+  return task.dependsOn
+    .map((id) => tasks.find((t) => t.id === id))
+    .filter((prerequisite): prerequisite is Task => {
+      if (!prerequisite) return false;
+      const { type } = getDependencyEdge(task, prerequisite.id);
+      if (type === 'finish-to-start') return !hasFinished(prerequisite);
+      if (type === 'start-to-start') return !hasStarted(prerequisite);
+      return false;
+    });
+}
+
+/**
+ * Prerequisites that keep the task from finishing:
+ * unfinished finish-to-finish links and unstarted start-to-finish links
+ */
+export function getFinishBlockers(task: Task, tasks: Task[]): Task[] {
+  return task.dependsOn
+    .map((id) => tasks.find((t) => t.id === id))
+    .filter((prerequisite): prerequisite is Task => {
+      if (!prerequisite) return false;
+      const { type } = getDependencyEdge(task, prerequisite.id);
+      if (type === 'finish-to-finish') return !hasFinished(prerequisite);
+      if (type === 'start-to-finish') return !hasStarted(prerequisite);
+      return false;
+    });
+}
+
+/**
+ * A task can be worked on when it is open and nothing keeps it from starting.
+ * Tasks already in progress stay available whatever their prerequisites.
+ */
+export function isTaskAvailable(task: Task, tasks: Task[]): boolean {
+  if (task.status === 'in-progress') return true;
+  return task.status === 'todo' && getStartBlockers(task, tasks).length === 0;
+}
+
+/**
+ * Block to-do tasks while a prerequisite keeps them from starting, and return
+ * tasks blocked this way to to-do once it no longer does. Tasks blocked by hand
+ * are left alone. Returns the same array when nothing changes.
+ */
+export function deriveAvailability(tasks: Task[]): Task[] {
+  let changed = false;
+
+  const derived = tasks.map((task) => {
+    if (task.status === 'todo' && task.dependsOn.length > 0 && getStartBlockers(task, tasks).length > 0) {
+      changed = true;
+      return { ...task, status: 'blocked' as const, isAutoBlocked: true, updatedAt: new Date() };
+    }
+
+    if (!task.isAutoBlocked) return task;
+
+    if (task.status !== 'blocked') {
+      // Status was changed by hand since it was blocked
+      changed = true;
+      return { ...task, isAutoBlocked: undefined };
+    }
+    if (getStartBlockers(task, tasks).length === 0) {
+      changed = true;
+      return { ...task, status: 'todo' as const, isAutoBlocked: undefined, updatedAt: new Date() };
+    }
+    return task;
+  });
+
+  return changed ? derived : tasks;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Scheduled start and finish of a task, preferring what actually happened
+export function getTaskStart(task: Task): Date | undefined {
+  return task.startDate || task.plannedDate || task.dueDate;
+}
+
+export function getTaskFinish(task: Task): Date | undefined {
+  return task.completedDate || task.dueDate || task.plannedDate;
+}
+
+/**
+ * Earliest start and finish dates the task's dependency edges allow, including lag.
+ * Undefined when no prerequisite constrains that end of the task.
+ */
+export function getEarliestDates(task: Task, tasks: Task[]): { start?: Date; finish?: Date } {
+  let start: Date | undefined;
+  let finish: Date | undefined;
+
+  task.dependsOn.forEach((id) => {
+    const prerequisite = tasks.find((t) => t.id === id);
+    if (!prerequisite) return;
+
+    const edge = getDependencyEdge(task, id);
+    const anchor = edge.type === 'finish-to-start' || edge.type === 'finish-to-finish'
+      ? getTaskFinish(prerequisite)
+      : getTaskStart(prerequisite);
+    if (!anchor) return;
+
+    const earliest = new Date(anchor.getTime() + (edge.lag || 0) * DAY_MS);
+    if (edge.type === 'finish-to-start' || edge.type === 'start-to-start') {
+      if (!start || earliest > start) start = earliest;
+    } else if (!finish || earliest > finish) {
+      finish = earliest;
+    }
+  });
+
+  return { start, finish };
+}
+
+/**
+ * Fix corrupted dependency data: drop self links, duplicates and links to tasks
+ * that no longer exist, break cycles, and make dependsOn and blockedBy mirror
+ * each other. A link recorded on either side is kept. Edge details for links
+ * that no longer exist are dropped.
+ */
+export function repairDependencies(tasks: Task[]): { tasks: Task[]; repairs: number } {
+  const taskIds = new Set(tasks.map((task) => task.id));
+  const prerequisites = new Map<string, string[]>(tasks.map((task) => [task.id, []]));
+
+  const addEdge = (taskId: string, dependsOnId: string) => {
+    if (taskId === dependsOnId || !taskIds.has(taskId) || !taskIds.has(dependsOnId)) return;
+    const list = prerequisites.get(taskId)!;
+    if (!list.includes(dependsOnId)) list.push(dependsOnId);
+  };
+
+  tasks.forEach((task) => {
+    task.dependsOn.forEach((dependsOnId) => addEdge(task.id, dependsOnId));
+    task.blockedBy.forEach((dependentId) => addEdge(dependentId, task.id));
+  });
+
+  // Depth-first search; an edge back into the current path closes a cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (taskId: string) => {
+    state.set(taskId, 'visiting');
+    const list = prerequisites.get(taskId)!;
+    for (const dependsOnId of [...list]) {
+      const dependsOnState = state.get(dependsOnId);
+      if (dependsOnState === 'visiting') {
+        console.warn(`Removing circular dependency ${taskId} → ${dependsOnId}`);
+        list.splice(list.indexOf(dependsOnId), 1);
+      } else if (!dependsOnState) {
+        visit(dependsOnId);
+      }
+    }
+    state.set(taskId, 'done');
+  };
+  tasks.forEach((task) => {
+    if (!state.has(task.id)) visit(task.id);
+  });
+
+  const dependents = new Map<string, string[]>(tasks.map((task) => [task.id, []]));
+  prerequisites.forEach((list, taskId) => {
+    list.forEach((dependsOnId) => dependents.get(dependsOnId)!.push(taskId));
+  });
+
+  const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, index) => id === b[index]);
+  let repairs = 0;
+
+  const repaired = tasks.map((task) => {
+    const dependsOn = prerequisites.get(task.id)!;
+    // Keep the existing order of blockedBy where possible
+    const blockedBy = [
+      ...task.blockedBy.filter((id, index) => dependents.get(task.id)!.includes(id) && task.blockedBy.indexOf(id) === index),
+      ...dependents.get(task.id)!.filter((id) => !task.blockedBy.includes(id)),
+    ];
+
+    const edges = task.dependencyEdges?.filter(
+      (edge, index, all) =>
+        dependsOn.includes(edge.fromTaskId) && all.findIndex((e) => e.fromTaskId === edge.fromTaskId) === index
+    );
+    const edgesChanged = (edges?.length || 0) !== (task.dependencyEdges?.length || 0);
+
+    if (sameIds(dependsOn, task.dependsOn) && sameIds(blockedBy, task.blockedBy) && !edgesChanged) {
+      return task;
+    }
+
+    repairs += 1;
+    return {
+      ...task,
+      dependsOn,
+      blockedBy,
+      dependencyEdges: edges && edges.length > 0 ? edges : undefined,
+    };
+  });
+
+  return { tasks: repaired, repairs };
+}
@@ -0,0 +1,18 @@
+import { Platform, Share } from 'react-native';
+
+/**
+ * Hand a generated file to the user: a download on web, the share sheet
+ * elsewhere (with the contents as text, since there is no file system access)
+ */
+export async function shareTextFile(fileName: string, text: string, mimeType: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  } else {
+    await Share.share({ title: fileName, message: text });
+  }
+}
@@ -0,0 +1,83 @@
+import { Task } from '../types';
+import { addDays, differenceInDays } from './dateUtils';
+
+export const HOURS_PER_DAY = 8; // Working hours that make up one day of estimated effort
+
+export interface TaskSchedule {
+  start: Date; // Midnight of the first day
+  end: Date; // Midnight after the last day
+  isEstimated: boolean; // One end was derived from estimatedDuration
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Whole days of work in the task's estimate; at least one day
+ */
+export function getDurationDays(task: Task): number {
+  return Math.max(1, Math.ceil((task.estimatedDuration || 0) / HOURS_PER_DAY));
+}
+
+/**
+ * Days a task occupies on the timeline. Uses the start (or planned) and due dates
+ * when both exist, otherwise extends from whichever one exists by the estimate.
+ * Returns null for tasks with no dates.
+ */
+export function getTaskSchedule(task: Task): TaskSchedule | null {
+  const start = task.startDate || task.plannedDate;
+  const due = task.dueDate;
+
+  if (start && due) {
+    const scheduleStart = startOfDay(start);
+    const scheduleEnd = addDays(startOfDay(due), 1);
+    return {
+      start: scheduleStart,
+      end: scheduleEnd > scheduleStart ? scheduleEnd : addDays(scheduleStart, 1),
+      isEstimated: false,
+    };
+  }
+
+  if (start) {
+    const scheduleStart = startOfDay(start);
+    return { start: scheduleStart, end: addDays(scheduleStart, getDurationDays(task)), isEstimated: true };
+  }
+
+  if (due) {
+    const scheduleEnd = addDays(startOfDay(due), 1);
+    return { start: addDays(scheduleEnd, -getDurationDays(task)), end: scheduleEnd, isEstimated: true };
+  }
+
+  return null;
+}
+
+/**
+ * First day and length of a timeline covering all schedules and today, with a little padding
+ */
+export function getTimelineRange(schedules: TaskSchedule[], today: Date = new Date()): { start: Date; days: number } {
+  const todayStart = startOfDay(today);
+  let start = todayStart;
+  let end = addDays(todayStart, 1);
+
+  schedules.forEach((schedule) => {
+    if (schedule.start < start) start = schedule.start;
+    if (schedule.end > end) end = schedule.end;
+  });
+
+  const paddedStart = addDays(start, -2);
+  return { start: paddedStart, days: differenceInDays(addDays(end, 3), paddedStart) };
+}
+
+/**
+ * Move every date the task is scheduled by, keeping the time of day
+ */
+export function shiftTaskDates(task: Task, days: number): Partial<Task> {
+  return {
+    startDate: task.startDate ? addDays(task.startDate, days) : undefined,
+    plannedDate: task.plannedDate ? addDays(task.plannedDate, days) : undefined,
+    dueDate: task.dueDate ? addDays(task.dueDate, days) : undefined,
+  };
+}
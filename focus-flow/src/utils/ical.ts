@@ -0,0 +1,547 @@
+import { DailyPlan, ExternalEvent, FocusArea, Project, Tag, Task, TaskPriority, TaskStatus, TimeBlock } from '../types';
+import { isSameDay } from './dateUtils';
+import { getProjectTreeIds } from './projectTree';
+import { expandRRule, parseRRule, recurrenceToRRule, serializeRRule } from './rrule';
+
+/**
+ * RFC 5545 iCalendar files.
+ * Export writes a VTODO for every dated task and a VEVENT for every time
+ * block of the daily plan; import reads the VEVENTs of another calendar.
+ */
+
+export type ICalScope = { type: 'all' } | { type: 'project'; id: string } | { type: 'focusArea'; id: string };
+
+export interface ICalOptions {
+  scope: ICalScope;
+  includeCompleted: boolean;
+  includeTimeBlocks: boolean;
+  now?: Date; // DTSTAMP of every entry
+}
+
+export interface ICalData {
+  tasks: Task[];
+  projects: Project[];
+  focusAreas: FocusArea[];
+  tags: Tag[];
+  dailyPlan: DailyPlan | null;
+}
+
+const PRODUCT_ID = '-//Focus Flow//Tasks//EN';
+const UID_DOMAIN = 'focus-flow';
+const MAX_LINE_LENGTH = 75;
+
+// 1 is the highest iCalendar priority, 9 the lowest
+const PRIORITY_VALUES: Record<TaskPriority, number> = { critical: 1, high: 3, medium: 5, low: 9 };
+const STATUS_VALUES: Record<TaskStatus, string> = {
+  todo: 'NEEDS-ACTION',
+  'in-progress': 'IN-PROCESS',
+  completed: 'COMPLETED',
+  blocked: 'NEEDS-ACTION',
+  deferred: 'NEEDS-ACTION',
+};
+
+/**
+ * The tasks and time blocks an export with these options would contain.
+ * Tasks need a due, start or planned date to be exported.
+ */
+export function getICalItems(data: ICalData, options: ICalOptions): { tasks: Task[]; timeBlocks: TimeBlock[] } {
+  const inScope = getScopeFilter(options.scope, data.projects);
+  const tasks = data.tasks.filter(
+    (task) =>
+      inScope(task) &&
+      (options.includeCompleted || task.status !== 'completed') &&
+      !!(task.dueDate || task.startDate || task.plannedDate)
+  );
+
+  const timeBlocks = options.includeTimeBlocks && data.dailyPlan
+    ? data.dailyPlan.timeBlocks.filter((block) => {
+        const task = data.tasks.find((t) => t.id === block.taskId);
+        return !!task && inScope(task);
+      })
+    : [];
+
+  return { tasks, timeBlocks };
+}
+
+/**
+ * Build the .ics file
+ */
+export function createICalendar(data: ICalData, options: ICalOptions): string {
+  const now = options.now || new Date();
+  const { tasks, timeBlocks } = getICalItems(data, options);
+  const exportedIds = new Set(tasks.map((task) => task.id));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(getCalendarName(data, options.scope))}`,
+    ...tasks.flatMap((task) => buildTodo(task, data, exportedIds, now)),
+    ...timeBlocks.flatMap((block) => buildEvent(block, data, now)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function buildTodo(task: Task, data: ICalData, exportedIds: Set<string>, now: Date): string[] {
+  const isRepeating = !!task.isRecurring && !!task.recurrence && task.status !== 'completed';
+  let start = task.startDate || task.plannedDate;
+  const due = task.dueDate;
+  if (start && due && new Date(start) > new Date(due)) start = undefined;
+  // A repeating to-do is anchored at DTSTART
+  if (isRepeating && !start) start = due;
+
+  // Every date of an entry has the same value type; all-day unless one has a time
+  const allDay = [start, due].every((date) => !date || isMidnight(new Date(date)));
+  const dateProperty = (name: string, date: Date) =>
+    allDay ? `${name};VALUE=DATE:${formatDate(date)}` : `${name}:${formatDateTime(date)}`;
+
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(new Date(task.createdAt))}`,
+    `LAST-MODIFIED:${formatDateTime(new Date(task.updatedAt))}`,
+    `SUMMARY:${escapeText(task.title)}`,
+  ];
+
+  if (task.notes) lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+  if (start) lines.push(dateProperty('DTSTART', new Date(start)));
+  if (due) lines.push(dateProperty('DUE', new Date(due)));
+  lines.push(`STATUS:${STATUS_VALUES[task.status]}`);
+  lines.push(`PRIORITY:${PRIORITY_VALUES[task.priority]}`);
+  if (task.progress > 0) lines.push(`PERCENT-COMPLETE:${Math.round(task.progress)}`);
+  if (task.status === 'completed' && task.completedDate) {
+    lines.push(`COMPLETED:${formatDateTime(new Date(task.completedDate))}`);
+  }
+
+  const categories = [
+    data.projects.find((p) => p.id === task.projectId)?.name,
+    ...data.tags.filter((tag) => task.tags.includes(tag.id)).map((tag) => tag.name),
+  ].filter((name): name is string => !!name);
+  if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+
+  // Repeats that follow the completion date can't be expressed as an RRULE
+  if (isRepeating && start && task.recurrence!.repeatMode !== 'defer-another') {
+    try {
+      lines.push(`RRULE:${serializeRRule(recurrenceToRRule(task.recurrence!))}`);
+      const exceptions = (task.recurrence!.exceptionDates || []).map((date) => new Date(date));
+      if (exceptions.length > 0) {
+        lines.push(
+          allDay
+            ? `EXDATE;VALUE=DATE:${exceptions.map(formatDate).join(',')}`
+            : `EXDATE:${exceptions.map(formatDateTime).join(',')}`
+        );
+      }
+    } catch (error) {
+      console.warn(`Skipped the repeat rule of "${task.title}":`, error);
+    }
+  }
+
+  // Links only point at tasks in the same file
+  if (task.parentTaskId && exportedIds.has(task.parentTaskId)) {
+    lines.push(`RELATED-TO;RELTYPE=PARENT:${task.parentTaskId}@${UID_DOMAIN}`);
+  }
+  task.dependsOn
+    .filter((id) => exportedIds.has(id))
+    .forEach((id) => lines.push(`RELATED-TO;RELTYPE=DEPENDS-ON:${id}@${UID_DOMAIN}`));
+
+  lines.push('END:VTODO');
+  return lines;
+}
+
+function buildEvent(block: TimeBlock, data: ICalData, now: Date): string[] {
+  const task = data.tasks.find((t) => t.id === block.taskId);
+  const startTime = new Date(block.startTime);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:block-${block.taskId}-${startTime.getTime()}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(startTime)}`,
+    `DTEND:${formatDateTime(new Date(block.endTime))}`,
+    `SUMMARY:${escapeText(task ? task.title : 'Focus time')}`,
+    'TRANSP:OPAQUE',
+    ...(task ? [`RELATED-TO:${task.id}@${UID_DOMAIN}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+function getScopeFilter(scope: ICalScope, projects: Project[]): (task: Task) => boolean {
+  switch (scope.type) {
+    case 'project': {
+      // Includes the project's sub-projects
+      const projectIds = getProjectTreeIds(scope.id, projects);
+      return (task) => !!task.projectId && projectIds.has(task.projectId);
+    }
+    case 'focusArea': {
+      // Sub-projects belong to their parent's focus area
+      const projectIds = new Set(
+        projects
+          .filter((p) => p.focusAreaId === scope.id)
+          .flatMap((p) => Array.from(getProjectTreeIds(p.id, projects)))
+      );
+      return (task) => task.focusAreaId === scope.id || (!!task.projectId && projectIds.has(task.projectId));
+    }
+    default:
+      return () => true;
+  }
+}
+
+function getCalendarName(data: ICalData, scope: ICalScope): string {
+  if (scope.type === 'project') {
+    return `Focus Flow – ${data.projects.find((p) => p.id === scope.id)?.name || 'Project'}`;
+  }
+  if (scope.type === 'focusArea') {
+    return `Focus Flow – ${data.focusAreas.find((a) => a.id === scope.id)?.name || 'Focus Area'}`;
+  }
+  return 'Focus Flow';
+}
+
+export interface ParsedICalendar {
+  name: string | null; // X-WR-CALNAME, if the file has one
+  events: ExternalEvent[];
+  skipped: number; // Cancelled events and ones marked as free
+  warnings: string[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A VEVENT before overrides are matched to their series
+interface ImportedEvent {
+  uid: string;
+  recurrenceId?: Date; // Set on an override of one occurrence
+  busy: boolean;
+  event: ExternalEvent;
+}
+
+/**
+ * Read the events of an .ics file. Moved or cancelled occurrences
+ * (RECURRENCE-ID) become exceptions of their series, and moved ones are kept
+ * as single events.
+ */
+export function parseICalendar(text: string): { calendar: ParsedICalendar | null; errors: string[] } {
+  const lines = unfoldLines(text);
+  if (!lines.some((line) => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    return { calendar: null, errors: ['The file is not an iCalendar (.ics) file'] };
+  }
+
+  const warnings = new Set<string>();
+  const components: string[] = [];
+  const rawEvents: ContentLine[][] = [];
+  let name: string | null = null;
+
+  lines.forEach((line) => {
+    const contentLine = parseContentLine(line);
+    if (!contentLine) return;
+    const value = contentLine.value.toUpperCase();
+
+    if (contentLine.name === 'BEGIN') {
+      if (value === 'VEVENT' && components[components.length - 1] === 'VCALENDAR') {
+        rawEvents.push([]);
+      }
+      components.push(value);
+    } else if (contentLine.name === 'END') {
+      components.pop();
+    } else if (components[components.length - 1] === 'VEVENT') {
+      rawEvents[rawEvents.length - 1].push(contentLine);
+    } else if (contentLine.name === 'X-WR-CALNAME' && components[components.length - 1] === 'VCALENDAR') {
+      name = unescapeText(contentLine.value);
+    }
+  });
+
+  const imported = rawEvents
+    .map((properties) => readEvent(properties, warnings))
+    .filter((event): event is ImportedEvent => !!event);
+
+  const series = new Map<string, ExternalEvent>();
+  const events: ExternalEvent[] = [];
+  let skipped = 0;
+
+  imported
+    .filter((item) => !item.recurrenceId)
+    .forEach((item) => {
+      if (!item.busy) {
+        skipped += 1;
+        return;
+      }
+      if (series.has(item.uid)) {
+        item.event.id = `${item.uid}/${events.length}`;
+      } else {
+        series.set(item.uid, item.event);
+      }
+      events.push(item.event);
+    });
+
+  imported
+    .filter((item) => !!item.recurrenceId)
+    .forEach((item) => {
+      const parent = series.get(item.uid);
+      if (parent) {
+        parent.exceptionDates = [...(parent.exceptionDates || []), item.recurrenceId!];
+      }
+      if (item.busy) {
+        events.push({ ...item.event, id: `${item.uid}/${formatDate(item.recurrenceId!)}` });
+      } else {
+        skipped += 1;
+      }
+    });
+
+  if (events.length === 0 && skipped === 0) {
+    return { calendar: null, errors: ['The file has no events'] };
+  }
+
+  return { calendar: { name, events, skipped, warnings: Array.from(warnings) }, errors: [] };
+}
+
+/**
+ * Occurrences of an imported event that overlap [rangeStart, rangeEnd)
+ */
+export function expandExternalEvent(event: ExternalEvent, rangeStart: Date, rangeEnd: Date): { start: Date; end: Date }[] {
+  const start = new Date(event.start);
+  const duration = new Date(event.end).getTime() - start.getTime();
+  // Zero-length events still show on the day they start
+  const overlaps = (date: Date) => date < rangeEnd && date.getTime() + Math.max(duration, 1) > rangeStart.getTime();
+  const toOccurrence = (date: Date) => ({ start: date, end: new Date(date.getTime() + duration) });
+
+  if (!event.rrule) {
+    return overlaps(start) ? [toOccurrence(start)] : [];
+  }
+
+  let starts: Date[];
+  try {
+    starts = expandRRule(parseRRule(event.rrule), start, {
+      after: new Date(rangeStart.getTime() - Math.max(duration, 1)),
+      until: rangeEnd,
+    });
+  } catch {
+    starts = [];
+  }
+  // DTSTART is always the first occurrence, even when the rule doesn't match it
+  if (overlaps(start) && !starts.some((date) => date.getTime() === start.getTime())) {
+    starts.unshift(start);
+  }
+
+  // Rules repeat at most daily, so an exception matches by day
+  const exceptions = (event.exceptionDates || []).map((date) => new Date(date));
+  return starts
+    .filter((date) => overlaps(date) && !exceptions.some((exception) => isSameDay(exception, date)))
+    .map(toOccurrence);
+}
+
+function readEvent(properties: ContentLine[], warnings: Set<string>): ImportedEvent | null {
+  const get = (name: string) => properties.find((property) => property.name === name);
+  const title = get('SUMMARY') ? unescapeText(get('SUMMARY')!.value) : 'Busy';
+
+  const startLine = get('DTSTART');
+  const start = startLine && parseDateValue(startLine, warnings);
+  if (!start) {
+    warnings.add(`"${title}" has no start time and was left out`);
+    return null;
+  }
+
+  const endLine = get('DTEND');
+  const durationLine = get('DURATION');
+  let end = endLine ? parseDateValue(endLine, warnings)?.date : undefined;
+  if (!end && durationLine) {
+    end = addDuration(start.date, durationLine.value);
+  }
+  if (!end) {
+    // All-day events last the day; others without an end take no time
+    end = start.allDay ? new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate() + 1) : start.date;
+  }
+  if (end < start.date) {
+    end = start.date;
+  }
+
+  let rrule: string | undefined;
+  const rruleLine = get('RRULE');
+  if (rruleLine) {
+    try {
+      parseRRule(rruleLine.value);
+      rrule = rruleLine.value;
+    } catch {
+      warnings.add(`"${title}" repeats in a way that isn't supported; only its first occurrence was imported`);
+    }
+  }
+
+  const exceptionDates = properties
+    .filter((property) => property.name === 'EXDATE')
+    .flatMap((property) =>
+      property.value.split(',').map((value) => parseDateValue({ ...property, value }, warnings)?.date)
+    )
+    .filter((date): date is Date => !!date);
+
+  const recurrenceIdLine = get('RECURRENCE-ID');
+  const location = get('LOCATION');
+  const uid = get('UID')?.value || `${title}-${start.date.getTime()}`;
+
+  return {
+    uid,
+    recurrenceId: recurrenceIdLine ? parseDateValue(recurrenceIdLine, warnings)?.date : undefined,
+    busy: get('STATUS')?.value.toUpperCase() !== 'CANCELLED' && get('TRANSP')?.value.toUpperCase() !== 'TRANSPARENT',
+    event: {
+      id: uid,
+      title,
+      start: start.date,
+      end,
+      allDay: start.allDay,
+      ...(location && location.value ? { location: unescapeText(location.value) } : {}),
+      ...(rrule ? { rrule } : {}),
+      ...(exceptionDates.length > 0 ? { exceptionDates } : {}),
+    },
+  };
+}
+
+// Join folded lines back together
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+function parseContentLine(line: string): ContentLine | null {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === ';' || char === ':')) {
+      parts.push(current);
+      current = '';
+      if (char === ':') {
+        valueStart = i + 1;
+        break;
+      }
+      continue;
+    }
+    current += char;
+  }
+  if (valueStart < 0) return null;
+
+  const [name, ...paramParts] = parts;
+  const params: Record<string, string> = {};
+  paramParts.forEach((part) => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/"/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart) };
+}
+
+/**
+ * DATE, UTC DATE-TIME, DATE-TIME in a TZID, or floating (local) DATE-TIME
+ */
+function parseDateValue(line: ContentLine, warnings: Set<string>): { date: Date; allDay: boolean } | null {
+  const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+
+  if (h === undefined) {
+    return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)), allDay: false };
+  }
+  if (line.params.TZID) {
+    try {
+      return { date: zonedTimeToDate([+y, +mo - 1, +d, +h, +mi, +s], line.params.TZID), allDay: false };
+    } catch {
+      warnings.add(`Unknown time zone "${line.params.TZID}"; its times were read as local time`);
+    }
+  }
+  return { date: new Date(+y, +mo - 1, +d, +h, +mi, +s), allDay: false };
+}
+
+/**
+ * The moment a wall-clock time in an IANA time zone refers to.
+ * Throws for time zones Intl doesn't know.
+ */
+function zonedTimeToDate(fields: [number, number, number, number, number, number], timeZone: string): Date {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone.replace(/^\//, ''),
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  const getOffset = (time: number) => {
+    const parts = formatter.formatToParts(new Date(time));
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - time;
+  };
+
+  const wallTime = Date.UTC(...fields);
+  // Check the offset again at the result, for times near a DST change
+  const offset = getOffset(wallTime);
+  const adjustedOffset = getOffset(wallTime - offset);
+  return new Date(wallTime - adjustedOffset);
+}
+
+// DURATION such as PT1H30M or P1D
+function addDuration(date: Date, value: string): Date | undefined {
+  const match = value.trim().match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const result = new Date(date);
+  result.setDate(result.getDate() + +weeks * 7 + +days);
+  return new Date(result.getTime() + ((+hours * 60 + +minutes) * 60 + +seconds) * 1000);
+}
+
+function isMidnight(date: Date): boolean {
+  return date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// yyyymmdd in local time, for all-day values
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+// UTC date-time, e.g. 20250131T143000Z
+function formatDateTime(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split long content lines; continuation lines start with a space.
+ * Counts UTF-16 units rather than octets, which keeps lines short enough for
+ * ASCII text and close to the limit otherwise.
+ */
+function foldLine(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+  const parts = [line.slice(0, MAX_LINE_LENGTH)];
+  for (let i = MAX_LINE_LENGTH; i < line.length; i += MAX_LINE_LENGTH - 1) {
+    parts.push(` ${line.slice(i, i + MAX_LINE_LENGTH - 1)}`);
+  }
+  return parts.join('\r\n');
+}
@@ -1,6 +1,7 @@
 import JSZip from 'jszip';
 import { XMLParser } from 'fast-xml-parser';
-import { Task, Project, TaskStatus, TaskPriority } from '../types';
+import { Task, Project, Tag, FocusArea, Recurrence, TaskStatus, TaskPriority } from '../types';
+import { parseRRule, rruleToRecurrence } from './rrule';
 
 interface OFTask {
   id: string;
@@ -15,6 +16,10 @@ interface OFTask {
   context?: string;
   project?: string;
   rank?: string;
+  order?: string; // 'sequential' or 'parallel'
+  'estimated-minutes'?: string;
+  'repetition-rule'?: string; // An RRULE
+  'repetition-method'?: string; // 'fixed', 'start-after-completion' or 'due-after-completion'
   task?: OFTask[];
 }
 
@@ -32,17 +37,41 @@ interface OFProject {
   task?: OFTask[];
 }
 
-// Helper to extract text from fields that might be objects with #text property
+// Contexts (OmniFocus 2/3) and tags (OmniFocus 4) share the <context> element
+interface OFContext {
+  id: string;
+  name: string;
+  context?: { '@_idref'?: string }; // Parent context
+}
+
+// A project or task, with the parent it is nested under or refers to
+interface OFEntry {
+  item: any;
+  parentId?: string;
+  folderId?: string; // Set on items nested directly in a folder
+}
+
+// Ids, and the projects, focus areas, parent tasks, tags and prerequisites they point to, are OmniFocus ids
+export type OFocusTask = Omit<Task, 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'blockedBy'>;
+export type OFocusProject = Omit<Project, 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'status'>;
+export type OFocusFocusArea = Omit<FocusArea, 'createdAt' | 'updatedAt' | 'order'>;
+
+// Helper to extract text from fields that might be objects with #text property,
+// or numbers and booleans the XML parser has already converted
 function extractText(value: any): string | undefined {
   if (!value) return undefined;
   if (typeof value === 'string') return value;
-  if (typeof value === 'object' && value['#text']) return value['#text'];
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value === 'object' && value['#text'] !== undefined) return String(value['#text']);
   return undefined;
 }
 
 export async function parseOFocusFile(file: File): Promise<{
-  tasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy' | 'tags'>[];
-  projects: Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'status'>[];
+  tasks: OFocusTask[];
+  projects: OFocusProject[];
+  focusAreas: OFocusFocusArea[]; // One per folder holding projects or tasks
+  tags: Omit<Tag, 'createdAt' | 'updatedAt' | 'order'>[];
+  warnings: string[]; // Parts of the export that couldn't be imported
 }> {
   try {
     // Read the file as array buffer
@@ -51,11 +80,8 @@ export async function parseOFocusFile(file: File): Promise<{
     // Unzip the .ofocus file
     const zip = await JSZip.loadAsync(arrayBuffer);
 
-    // Debug: List all files in the zip
-    console.log('Files in zip archive:');
     const fileList: string[] = [];
-    zip.forEach((relativePath, file) => {
-      console.log(`  - ${relativePath} (dir: ${file.dir})`);
+    zip.forEach((relativePath) => {
       fileList.push(relativePath);
     });
 
@@ -67,7 +93,6 @@ export async function parseOFocusFile(file: File): Promise<{
     if (!contentsFile) {
       const contentsPath = fileList.find(path => path.endsWith('contents.xml'));
       if (contentsPath) {
-        console.log(`Found contents.xml at: ${contentsPath}`);
         contentsFile = zip.file(contentsPath);
       }
     }
@@ -82,18 +107,11 @@ export async function parseOFocusFile(file: File): Promise<{
     if (!contentsFile) {
       const ofocusFile = fileList.find(path => path.endsWith('.ofocus') && !path.includes('/'));
       if (ofocusFile) {
-        console.log(`Found nested .ofocus file: ${ofocusFile}, extracting...`);
         const nestedZipFile = zip.file(ofocusFile);
         if (nestedZipFile) {
           const nestedArrayBuffer = await nestedZipFile.async('arraybuffer');
           const nestedZip = await JSZip.loadAsync(nestedArrayBuffer);
 
-          // List files in nested zip
-          console.log('Files in nested .ofocus archive:');
-          nestedZip.forEach((relativePath, file) => {
-            console.log(`  - ${relativePath} (dir: ${file.dir})`);
-          });
-
           // Try to find contents.xml in the nested zip
           contentsFile = nestedZip.file('contents.xml');
           if (!contentsFile) {
@@ -112,57 +130,40 @@ export async function parseOFocusFile(file: File): Promise<{
       const mainZipFile = fileList.find(path => path.includes('=') && path.endsWith('.zip') && !path.includes('/data/'));
 
       if (dataZipFiles.length > 0 || mainZipFile) {
-        console.log('Detected OmniFocus 4 format with data files');
-        console.log(`Found ${dataZipFiles.length} data files and ${mainZipFile ? '1 main file' : 'no main file'}`);
-
         // Try the main file first (e.g., 00000000000000=cn41lR1lc06+enVmjbsHUN7.zip)
         if (mainZipFile) {
-          console.log(`Extracting main file: ${mainZipFile}`);
           const mainFile = zip.file(mainZipFile);
           if (mainFile) {
             try {
               const mainArrayBuffer = await mainFile.async('arraybuffer');
               const mainZip = await JSZip.loadAsync(mainArrayBuffer);
 
-              console.log('Files in main data archive:');
-              mainZip.forEach((relativePath, file) => {
-                console.log(`  - ${relativePath}`);
-              });
-
               // Look for XML or plist files
               const xmlFile = Object.keys(mainZip.files).find(path => path.endsWith('.xml') || path.endsWith('.plist'));
               if (xmlFile) {
-                console.log(`Found data file: ${xmlFile}`);
                 contentsFile = mainZip.file(xmlFile);
               }
-            } catch (err) {
-              console.log(`Failed to extract main file: ${err.message}`);
+            } catch {
+              // Not a readable archive; fall back to the data files
             }
           }
         }
 
         // If still not found, try the first data file
         if (!contentsFile && dataZipFiles.length > 0) {
-          console.log(`Trying first data file: ${dataZipFiles[0]}`);
           const dataFile = zip.file(dataZipFiles[0]);
           if (dataFile) {
             try {
               const dataArrayBuffer = await dataFile.async('arraybuffer');
               const dataZip = await JSZip.loadAsync(dataArrayBuffer);
 
-              console.log('Files in data archive:');
-              dataZip.forEach((relativePath, file) => {
-                console.log(`  - ${relativePath}`);
-              });
-
               // Look for XML or plist files
               const xmlFile = Object.keys(dataZip.files).find(path => path.endsWith('.xml') || path.endsWith('.plist'));
               if (xmlFile) {
-                console.log(`Found data file: ${xmlFile}`);
                 contentsFile = dataZip.file(xmlFile);
               }
-            } catch (err) {
-              console.log(`Failed to extract data file: ${err.message}`);
+            } catch {
+              // Not a readable archive; reported below as contents.xml not found
             }
           }
         }
@@ -186,146 +187,151 @@ export async function parseOFocusFile(file: File): Promise<{
 
     const parsed = parser.parse(xmlContent);
 
-    // Debug: Log parsed structure
-    console.log('Parsed XML structure:', JSON.stringify(parsed, null, 2).substring(0, 2000));
-    console.log('Top-level keys:', Object.keys(parsed));
-
     // Extract data from parsed XML
     const omnifocus = parsed.omnifocus || parsed;
-    const ofKeys = Object.keys(omnifocus);
-    console.log('OmniFocus object keys:', ofKeys);
-    console.log('OmniFocus keys detail:', ofKeys.map(k => `${k}: ${Array.isArray(omnifocus[k]) ? `Array(${omnifocus[k].length})` : typeof omnifocus[k]}`).join(', '));
-
-    const tasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy' | 'tags'>[] = [];
-    const projects: Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'status'>[] = [];
-    const projectMap = new Map<string, string>(); // OmniFocus ID -> our project ID
-
-    // Helper to parse OmniFocus date format
-    const parseOFDate = (dateStr?: string): Date | undefined => {
-      if (!dateStr) return undefined;
-      try {
-        return new Date(dateStr);
-      } catch {
-        return undefined;
-      }
-    };
 
-    // Helper to map OmniFocus status to our status
-    const mapStatus = (completed?: string, dropped?: string): TaskStatus => {
-      if (completed) return 'completed';
-      if (dropped === 'true') return 'deferred';
-      return 'todo';
+    // Items are either listed flat and linked to their parent by idref (OmniFocus 2/3),
+    // or nested inside their parent folder or task
+    const entries = new Map<string, OFEntry>(); // Projects and tasks by OmniFocus id
+    const folders = new Map<string, { name: string; parentId?: string }>();
+
+    const collectTasks = (items: any[], parentId?: string, folderId?: string) => {
+      items.forEach((item) => {
+        if (item['@_id'] === undefined) return;
+        const id = String(item['@_id']);
+        const children = asArray(item.task);
+        const parentRef = children.find((child) => child['@_idref'] !== undefined);
+        entries.set(id, { item, parentId: parentRef ? String(parentRef['@_idref']) : parentId, folderId });
+        collectTasks(children.filter((child) => child['@_id'] !== undefined), id);
+      });
     };
-
-    // Helper to determine priority from flagged status
-    const mapPriority = (flagged?: string): TaskPriority => {
-      return flagged === 'true' ? 'high' : 'medium';
+    const collectFolders = (items: any[], parentId?: string) => {
+      items.forEach((folder) => {
+        if (folder['@_id'] === undefined) return;
+        const id = String(folder['@_id']);
+        const children = asArray(folder.folder);
+        const parentRef = children.find((child) => child['@_idref'] !== undefined);
+        folders.set(id, {
+          name: extractText(folder.name) || 'Untitled Folder',
+          parentId: parentRef ? String(parentRef['@_idref']) : parentId,
+        });
+        collectFolders(children.filter((child) => child['@_id'] !== undefined), id);
+        collectTasks(asArray(folder.task), undefined, id);
+      });
     };
-
-    // Process projects
-    // In OmniFocus 4, check both 'project' and 'folder' fields
-    const ofProjects = Array.isArray(omnifocus.project)
-      ? omnifocus.project
-      : omnifocus.project
-      ? [omnifocus.project]
-      : [];
-
-    // Also check folders (which might contain projects)
-    const ofFolders = Array.isArray(omnifocus.folder)
-      ? omnifocus.folder
-      : omnifocus.folder
-      ? [omnifocus.folder]
-      : [];
-
-    console.log(`Found ${ofProjects.length} projects in XML`);
-    console.log(`Found ${ofFolders.length} folders in XML`);
-
-    if (ofProjects.length > 0) {
-      console.log('First project sample:', JSON.stringify(ofProjects[0], null, 2).substring(0, 500));
-    }
-    if (ofFolders.length > 0) {
-      console.log('First folder sample:', JSON.stringify(ofFolders[0], null, 2).substring(0, 500));
-    }
-
-    // Process projects and tasks
-    // In OmniFocus 4, projects and tasks are unified - tasks with a 'project' field are projects
-    const allTasks = Array.isArray(omnifocus.task)
-      ? omnifocus.task
-      : omnifocus.task
-      ? [omnifocus.task]
-      : [];
-
-    console.log(`Processing ${allTasks.length} total items (projects + tasks)`);
-
-    // First pass: identify projects and build ID map
-    allTasks.forEach((item: any) => {
-      // If item has a 'project' field, it's a project
-      if (item.project && typeof item.project === 'object') {
-        const projectName = extractText(item.name) || 'Untitled Project';
-        const project = {
-          name: projectName,
-          description: extractText(item.note) || '',
-          color: getRandomColor(),
-          startDate: parseOFDate(item.start),
-          targetDate: parseOFDate(item.due),
-        };
-
-        projects.push(project);
-
-        // Store mapping: OmniFocus ID -> project name
-        if (item['@_id']) {
-          projectMap.set(item['@_id'], projectName);
-        }
+    collectFolders(asArray(omnifocus.folder));
+    collectTasks(asArray(omnifocus.task));
+
+    // In OmniFocus, projects are tasks with a <project> element
+    const isProject = (entry?: OFEntry) => !!entry && entry.item.project !== undefined;
+
+    // Contexts become tags, keeping their nesting
+    const ofContexts: OFContext[] = asArray(omnifocus.context);
+
+    const tags: Omit<Tag, 'createdAt' | 'updatedAt' | 'order'>[] = ofContexts
+      .filter((context: any) => context['@_id'])
+      .map((context: any) => ({
+        id: String(context['@_id']),
+        name: extractText(context.name) || 'Untitled Tag',
+        color: getRandomColor(),
+        parentTagId: context.context?.['@_idref'] ? String(context.context['@_idref']) : undefined,
+      }));
+    const tagIds = new Set(tags.map((tag) => tag.id));
+
+    // OmniFocus 2/3 tasks carry a single context; OmniFocus 4 links tasks to tags with <task-to-tag>
+    const tagIdsByTask = new Map<string, string[]>();
+    const linkTag = (taskId: any, tagId: any) => {
+      if (!taskId || !tagIds.has(String(tagId))) return;
+      const existing = tagIdsByTask.get(String(taskId)) || [];
+      if (!existing.includes(String(tagId))) {
+        tagIdsByTask.set(String(taskId), [...existing, String(tagId)]);
       }
+    };
+    entries.forEach(({ item }, id) => linkTag(id, item.context?.['@_idref']));
+    asArray(omnifocus['task-to-tag']).forEach((link: any) => {
+      linkTag(link.task?.['@_idref'], link.context?.['@_idref']);
     });
 
-    console.log(`Identified ${projects.length} projects`);
-
-    // Second pass: process regular tasks and link them to projects
-    allTasks.forEach((item: any) => {
-      // Skip items that are projects
-      if (item.project && typeof item.project === 'object') {
-        return;
-      }
+    const projects: OFocusProject[] = [];
+    const tasks: OFocusTask[] = [];
+    const warnings: string[] = [];
+
+    entries.forEach((entry, id) => {
+      if (!isProject(entry)) return;
+      const folderId = entry.item.project.folder?.['@_idref'] !== undefined
+        ? String(entry.item.project.folder['@_idref'])
+        : entry.folderId;
+
+      projects.push({
+        id,
+        name: extractText(entry.item.name) || 'Untitled Project',
+        description: extractText(entry.item.note) || '',
+        color: getRandomColor(),
+        focusAreaId: folderId && folders.has(folderId) ? folderId : undefined,
+        startDate: parseOFDate(entry.item.start),
+        targetDate: parseOFDate(entry.item.due),
+      });
+    });
 
-      // Check if this task belongs to a project by looking at task.@_idref
-      let parentProjectName: string | undefined;
-      if (item.task && typeof item.task === 'object' && item.task['@_idref']) {
-        const parentId = item.task['@_idref'];
-        parentProjectName = projectMap.get(parentId);
-      }
+    // The nearest project above an item; action groups in between become parent tasks
+    const findProjectId = (id: string | undefined, seen = new Set<string>()): string | undefined => {
+      if (!id || seen.has(id)) return undefined;
+      seen.add(id);
+      const entry = entries.get(id);
+      if (!entry) return undefined;
+      return isProject(entry) ? id : findProjectId(entry.parentId, seen);
+    };
 
-      // Create the task with project linkage
-      const task = convertOFTask(item, parentProjectName);
-      tasks.push(task);
+    entries.forEach((entry, id) => {
+      if (isProject(entry)) return;
+      const parent = entry.parentId ? entries.get(entry.parentId) : undefined;
+
+      tasks.push({
+        ...convertOFTask(entry.item, tagIdsByTask.get(id), warnings),
+        id,
+        projectId: findProjectId(entry.parentId),
+        parentTaskId: parent && !isProject(parent) ? entry.parentId : undefined,
+        focusAreaId: entry.folderId && folders.has(entry.folderId) ? entry.folderId : undefined,
+        dependsOn: [],
+      });
     });
 
-    const tasksInProjects = tasks.filter(t => t.projectId).length;
-    const inboxTasks = tasks.length - tasksInProjects;
-    console.log(`Processed ${tasks.length} tasks: ${tasksInProjects} in projects, ${inboxTasks} inbox items`);
-
-    // Also process tasks from folders if any
-    const tasksBeforeFolders = tasks.length;
-    ofFolders.forEach((folder: any) => {
-      if (folder.task) {
-        const folderTasks = Array.isArray(folder.task) ? folder.task : [folder.task];
-        folderTasks.forEach((ofTask: OFTask) => {
-          tasks.push(convertOFTask(ofTask));
-        });
-      }
+    // Each action of a sequential project or action group waits for the one before it
+    const taskById = new Map(tasks.map((task) => [task.id, task]));
+    const childIdsByParent = new Map<string, string[]>();
+    entries.forEach((entry, id) => {
+      if (isProject(entry) || !entry.parentId) return;
+      childIdsByParent.set(entry.parentId, [...(childIdsByParent.get(entry.parentId) || []), id]);
+    });
+    const getRank = (id: string) => Number(extractText(entries.get(id)!.item.rank)) || 0;
+    childIdsByParent.forEach((childIds, parentId) => {
+      if (extractText(entries.get(parentId)?.item.order) !== 'sequential') return;
+      const ordered = [...childIds].sort((a, b) => getRank(a) - getRank(b));
+      ordered.slice(1).forEach((id, index) => {
+        taskById.get(id)!.dependsOn.push(ordered[index]);
+      });
     });
 
-    const folderTasks = tasks.length - tasksBeforeFolders;
-    if (folderTasks > 0) {
-      console.log(`Processed ${folderTasks} tasks from folders`);
-    }
-
-    // Recalculate final counts
-    const finalTasksInProjects = tasks.filter(t => t.projectId).length;
-    const finalInboxTasks = tasks.length - finalTasksInProjects;
-    console.log(`Import complete: ${projects.length} projects, ${tasks.length} total tasks (${finalTasksInProjects} in projects, ${finalInboxTasks} inbox items)`);
-
-    return { tasks, projects };
+    // Folders become focus areas; nested folders are named after their path
+    const getFolderPath = (id: string, seen = new Set<string>()): string => {
+      const folder = folders.get(id)!;
+      seen.add(id);
+      return folder.parentId && folders.has(folder.parentId) && !seen.has(folder.parentId)
+        ? `${getFolderPath(folder.parentId, seen)} / ${folder.name}`
+        : folder.name;
+    };
+    const usedFolderIds = new Set(
+      [...projects.map((project) => project.focusAreaId), ...tasks.map((task) => task.focusAreaId)].filter(
+        (id): id is string => !!id
+      )
+    );
+    const focusAreas: OFocusFocusArea[] = Array.from(usedFolderIds).map((id) => ({
+      id,
+      name: getFolderPath(id),
+      color: getRandomColor(),
+    }));
+
+    return { tasks, projects, focusAreas, tags, warnings };
   } catch (error) {
     console.error('Error parsing .ofocus file:', error);
     throw new Error(`Failed to parse .ofocus file: ${error.message}`);
@@ -334,18 +340,9 @@ export async function parseOFocusFile(file: File): Promise<{
 
 function convertOFTask(
   ofTask: OFTask,
-  projectName?: string
-): Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy' | 'tags'> {
-  const parseOFDate = (dateValue?: any): Date | undefined => {
-    const dateStr = extractText(dateValue);
-    if (!dateStr) return undefined;
-    try {
-      return new Date(dateStr);
-    } catch {
-      return undefined;
-    }
-  };
-
+  tagIds: string[] = [],
+  warnings: string[] = []
+): Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'progress' | 'order' | 'dependsOn' | 'blockedBy'> {
   const mapStatus = (completed?: any): TaskStatus => {
     return completed ? 'completed' : 'todo';
   };
@@ -355,19 +352,52 @@ function convertOFTask(
     return flaggedStr === 'true' ? 'high' : 'medium';
   };
 
+  const title = extractText(ofTask.name) || 'Untitled Task';
+  const estimatedMinutes = Number(extractText(ofTask['estimated-minutes']));
+
+  // Repeat rules are RRULEs; "fixed" repeats follow the schedule, the others repeat after completion
+  let recurrence: Recurrence | undefined;
+  const repetitionRule = extractText(ofTask['repetition-rule']);
+  if (repetitionRule) {
+    try {
+      const repetitionMethod = extractText(ofTask['repetition-method']);
+      recurrence = {
+        ...rruleToRecurrence(parseRRule(repetitionRule)),
+        repeatMode: !repetitionMethod || repetitionMethod === 'fixed' ? 'fixed' : 'defer-another',
+      };
+    } catch (error) {
+      warnings.push(`Skipped the repeat rule of "${title}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   return {
-    title: extractText(ofTask.name) || 'Untitled Task',
+    title,
     notes: extractText(ofTask.note) || '',
     status: mapStatus(ofTask.completed),
     priority: mapPriority(ofTask.flagged),
-    projectId: projectName, // Will be matched to actual project ID during import
     dueDate: parseOFDate(ofTask.due),
     plannedDate: parseOFDate(ofTask.start),
     startDate: parseOFDate(ofTask.start),
     completedDate: parseOFDate(ofTask.completed),
+    estimatedDuration: estimatedMinutes > 0 ? estimatedMinutes / 60 : undefined, // stored in hours
+    isRecurring: recurrence ? true : undefined,
+    recurrence,
+    tags: tagIds, // OmniFocus ids, matched to actual tag IDs during import
   };
 }
 
+// OmniFocus dates are ISO 8601
+function parseOFDate(dateValue?: any): Date | undefined {
+  const dateStr = extractText(dateValue);
+  if (!dateStr) return undefined;
+  const date = new Date(dateStr);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
 // Generate random color for imported projects
 function getRandomColor(): string {
   const colors = [
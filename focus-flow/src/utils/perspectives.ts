@@ -0,0 +1,127 @@
+import { addDays, startOfDay } from 'date-fns';
+import { PerspectiveGrouping, PerspectiveSort, Project, Tag, Task, TaskStatus } from '../types';
+import { getTagTree } from './tags';
+
+export interface TaskGroup {
+  id: string;
+  title: string;
+  color?: string;
+  tasks: Task[];
+}
+
+export const PERSPECTIVE_SORTS: { value: PerspectiveSort; label: string }[] = [
+  { value: 'date', label: '📅 Due Date' },
+  { value: 'priority', label: '⚡ Priority' },
+  { value: 'title', label: '🔤 Alphabetical' },
+];
+
+export const PERSPECTIVE_GROUPINGS: { value: PerspectiveGrouping; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'project', label: 'Project' },
+  { value: 'due', label: 'Due Date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'status', label: 'Status' },
+  { value: 'tag', label: 'Tag' },
+];
+
+const PRIORITY_ORDER = { critical: 0, high: 1, medium: 2, low: 3 };
+const STATUS_ORDER: TaskStatus[] = ['in-progress', 'todo', 'blocked', 'deferred', 'completed'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace('-', ' ');
+
+/**
+ * Tasks in a perspective's sort order. Date sorts by due date, falling back
+ * to the creation date.
+ */
+export function sortTasks(tasks: Task[], sortBy: PerspectiveSort): Task[] {
+  return [...tasks].sort((a, b) => {
+    if (sortBy === 'priority') {
+      return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+    } else if (sortBy === 'title') {
+      return a.title.localeCompare(b.title);
+    }
+    const aDate = a.dueDate || a.createdAt;
+    const bDate = b.dueDate || b.createdAt;
+    return new Date(aDate).getTime() - new Date(bDate).getTime();
+  });
+}
+
+/**
+ * Split tasks into groups, keeping their order within each group. Empty
+ * groups are left out. Grouping by tag lists a task under each of its tags.
+ */
+export function groupTasks(
+  tasks: Task[],
+  groupBy: PerspectiveGrouping,
+  { projects, tags, now = new Date() }: { projects: Project[]; tags: Tag[]; now?: Date }
+): TaskGroup[] {
+  let groups: TaskGroup[];
+
+  switch (groupBy) {
+    case 'project':
+      groups = [
+        ...projects.map((project) => ({
+          id: project.id,
+          title: project.name,
+          color: project.color,
+          tasks: tasks.filter((task) => task.projectId === project.id),
+        })),
+        { id: 'inbox', title: 'Inbox', tasks: tasks.filter((task) => !task.projectId || !projects.some((p) => p.id === task.projectId)) },
+      ];
+      break;
+
+    case 'priority':
+      groups = (['critical', 'high', 'medium', 'low'] as const).map((priority) => ({
+        id: priority,
+        title: capitalize(priority),
+        tasks: tasks.filter((task) => task.priority === priority),
+      }));
+      break;
+
+    case 'status':
+      groups = STATUS_ORDER.map((status) => ({
+        id: status,
+        title: capitalize(status),
+        tasks: tasks.filter((task) => task.status === status),
+      }));
+      break;
+
+    case 'tag':
+      groups = [
+        ...getTagTree(tags).map(({ tag }) => ({
+          id: tag.id,
+          title: tag.name,
+          color: tag.color,
+          tasks: tasks.filter((task) => task.tags.includes(tag.id)),
+        })),
+        { id: 'untagged', title: 'No Tag', tasks: tasks.filter((task) => task.tags.length === 0) },
+      ];
+      break;
+
+    case 'due': {
+      const today = startOfDay(now);
+      const buckets: { id: string; title: string; before?: Date }[] = [
+        { id: 'overdue', title: 'Overdue', before: today },
+        { id: 'today', title: 'Today', before: addDays(today, 1) },
+        { id: 'tomorrow', title: 'Tomorrow', before: addDays(today, 2) },
+        { id: 'week', title: 'Next 7 Days', before: addDays(today, 8) },
+        { id: 'later', title: 'Later' },
+      ];
+      const bucketOf = (task: Task) => buckets.find((bucket) => !bucket.before || task.dueDate! < bucket.before)!.id;
+      groups = [
+        ...buckets.map((bucket) => ({
+          id: bucket.id,
+          title: bucket.title,
+          tasks: tasks.filter((task) => task.dueDate && bucketOf(task) === bucket.id),
+        })),
+        { id: 'no-date', title: 'No Due Date', tasks: tasks.filter((task) => !task.dueDate) },
+      ];
+      break;
+    }
+
+    default:
+      groups = [{ id: 'all', title: 'All Tasks', tasks }];
+  }
+
+  return groups.filter((group) => group.tasks.length > 0);
+}
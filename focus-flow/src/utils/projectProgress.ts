@@ -0,0 +1,79 @@
+import { Project, Task } from '../types';
+import { getProjectTreeIds } from './projectTree';
+
+export interface ProjectProgress {
+  progress: number; // 0-100
+  taskCount: number;
+  completedTaskCount: number;
+  hasStarted: boolean; // Some task has been started or finished
+}
+
+const getTaskProgress = (task: Task): number => (task.status === 'completed' ? 100 : task.progress);
+
+/**
+ * Progress of a project and its sub-projects. Tasks that have subtasks are
+ * left out, since their subtasks already carry the work. When the project
+ * weighs progress by estimate, tasks without an estimate count as an average
+ * estimated task.
+ */
+export function getProjectProgress(project: Project, projects: Project[], tasks: Task[]): ProjectProgress {
+  const projectIds = getProjectTreeIds(project.id, projects);
+  const parentTaskIds = new Set(tasks.map((task) => task.parentTaskId).filter(Boolean));
+  const projectTasks = tasks.filter(
+    (task) => task.projectId && projectIds.has(task.projectId) && !parentTaskIds.has(task.id)
+  );
+
+  const completedTaskCount = projectTasks.filter((task) => task.status === 'completed').length;
+  const hasStarted = projectTasks.some((task) => task.status === 'in-progress' || getTaskProgress(task) > 0);
+  if (projectTasks.length === 0) {
+    return { progress: 0, taskCount: 0, completedTaskCount, hasStarted };
+  }
+
+  const estimates = projectTasks.map((task) => task.estimatedDuration || 0).filter((hours) => hours > 0);
+  const averageEstimate = estimates.length > 0 ? estimates.reduce((sum, hours) => sum + hours, 0) / estimates.length : 1;
+  const weight = (task: Task) =>
+    project.weightProgressByEstimate ? task.estimatedDuration || averageEstimate : 1;
+
+  const totalWeight = projectTasks.reduce((sum, task) => sum + weight(task), 0);
+  const weightedProgress = projectTasks.reduce((sum, task) => sum + weight(task) * getTaskProgress(task), 0);
+
+  return {
+    progress: Math.round(weightedProgress / totalWeight),
+    taskCount: projectTasks.length,
+    completedTaskCount,
+    hasStarted,
+  };
+}
+
+/**
+ * Bring every project's progress and task counts up to date, and move
+ * projects that haven't started yet to in-progress once work on them begins.
+ * Returns the same array when nothing changed.
+ */
+export function rollUpProjectProgress(projects: Project[], tasks: Task[]): Project[] {
+  let changed = false;
+  const result = projects.map((project) => {
+    const { progress, taskCount, completedTaskCount, hasStarted } = getProjectProgress(project, projects, tasks);
+    const status = project.status === 'todo' && hasStarted ? 'in-progress' : project.status;
+    if (
+      progress === project.progress &&
+      taskCount === project.taskCount &&
+      completedTaskCount === project.completedTaskCount &&
+      status === project.status
+    ) {
+      return project;
+    }
+    changed = true;
+    return { ...project, progress, taskCount, completedTaskCount, status };
+  });
+
+  return changed ? result : projects;
+}
+
+/**
+ * Whether every task in a project and its sub-projects is completed
+ */
+export function isProjectFinished(project: Project, projects: Project[], tasks: Task[]): boolean {
+  const { taskCount, completedTaskCount } = getProjectProgress(project, projects, tasks);
+  return taskCount > 0 && completedTaskCount === taskCount;
+}
@@ -0,0 +1,22 @@
+import { Project } from '../types';
+
+/**
+ * Ids of a project and all of its sub-projects, at any depth
+ */
+export function getProjectTreeIds(projectId: string, projects: Project[]): Set<string> {
+  const ids = new Set<string>([projectId]);
+  const queue = [projectId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    projects.forEach((p) => {
+      // The check on ids also guards against parent cycles
+      if (p.parentProjectId === parentId && !ids.has(p.id)) {
+        ids.add(p.id);
+        queue.push(p.id);
+      }
+    });
+  }
+
+  return ids;
+}
@@ -0,0 +1,349 @@
+import { addDays, addMonths, addWeeks, isBefore, startOfDay } from 'date-fns';
+import { Project, Recurrence, RecurrenceType, Tag, TaskPriority } from '../types';
+import { getNextOccurrence } from './recurrence';
+
+export type QuickAddTokenType = 'date' | 'time' | 'project' | 'tag' | 'priority' | 'recurrence' | 'estimate';
+
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  text: string; // As typed, including any leading "on" or "at"
+  start: number;
+  end: number; // Exclusive
+}
+
+export interface ParsedQuickAdd {
+  title: string; // The text with every token removed
+  tokens: QuickAddToken[]; // In text order
+  dueDate?: Date;
+  projectId?: string;
+  tagIds: string[];
+  newTagNames: string[]; // @names that don't match an existing tag yet
+  priority?: TaskPriority;
+  recurrence?: Recurrence;
+  estimatedDuration?: number; // in hours
+}
+
+export interface QuickAddContext {
+  projects: Project[];
+  tags: Tag[];
+  now?: Date;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const FULL_WEEKDAY_PATTERN = '(?:sun|mon|tues|wednes|thurs|fri|satur)day';
+// Short forms such as "sun" or "wed" are ordinary words too, so they only count after "on", "next", "this" or "every"
+const WEEKDAY_PATTERN = `(?:${FULL_WEEKDAY_PATTERN}|sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)`;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Full names or exact abbreviations only, so "markers" or "decks" aren't months
+const MONTH_PATTERN =
+  '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  low: 'low',
+  med: 'medium',
+  medium: 'medium',
+  high: 'high',
+  critical: 'critical',
+  urgent: 'critical',
+  '1': 'critical',
+  '2': 'high',
+  '3': 'medium',
+  '4': 'low',
+};
+const UNIT_TYPES: Record<string, RecurrenceType> = { day: 'daily', week: 'weekly', month: 'monthly', year: 'yearly' };
+
+// Names match ignoring case, spaces and punctuation, so #homeReno finds "Home Reno"
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const parseWeekday = (word: string): number | undefined => {
+  const index = WEEKDAYS.findIndex((day) => day.startsWith(word.toLowerCase().slice(0, 3)));
+  return index >= 0 ? index : undefined;
+};
+
+const nextWeekday = (from: Date, day: number, skipToday: boolean): Date => {
+  let offset = (day - from.getDay() + 7) % 7;
+  if (offset === 0 && skipToday) offset = 7;
+  return addDays(startOfDay(from), offset);
+};
+
+const parseTime = (hourText: string, minuteText: string | undefined, meridiem: string | undefined) => {
+  let hours = parseInt(hourText, 10);
+  const minutes = minuteText ? parseInt(minuteText, 10) : 0;
+  if (meridiem) {
+    const isPm = meridiem.toLowerCase().startsWith('p');
+    if (hours === 12) hours = isPm ? 12 : 0;
+    else if (isPm) hours += 12;
+  }
+  return hours <= 23 && minutes <= 59 ? { hours, minutes } : undefined;
+};
+
+interface Rule {
+  type: QuickAddTokenType;
+  pattern: RegExp;
+  // Returns false when the match turns out not to be a token
+  apply: (match: RegExpExecArray, result: ParseState) => boolean;
+}
+
+interface ParseState extends ParsedQuickAdd {
+  date?: Date;
+  time?: { hours: number; minutes: number };
+}
+
+const buildRules = ({ projects, tags, now = new Date() }: QuickAddContext): Rule[] => {
+  const today = startOfDay(now);
+
+  return [
+    {
+      // every day, every weekday, every 2 weeks, every monday and thursday, weekly...
+      type: 'recurrence',
+      pattern: new RegExp(
+        `\\b(?:every\\s+(?:(\\d+)\\s+)?(day|week|month|year)s?|every\\s+(weekday|${WEEKDAY_PATTERN}(?:(?:\\s*,\\s*|\\s+and\\s+)${WEEKDAY_PATTERN})*)|(daily|weekly|monthly|yearly))\\b`,
+        'gi'
+      ),
+      apply: (match, result) => {
+        const [, count, unit, days, adverb] = match;
+        if (unit) {
+          result.recurrence = { type: UNIT_TYPES[unit.toLowerCase()], interval: count ? parseInt(count, 10) : 1 };
+        } else if (adverb) {
+          result.recurrence = { type: adverb.toLowerCase() as RecurrenceType, interval: 1 };
+        } else if (days.toLowerCase() === 'weekday') {
+          result.recurrence = { type: 'weekly', interval: 1, daysOfWeek: [1, 2, 3, 4, 5] };
+        } else {
+          const daysOfWeek = days
+            .split(/\s*,\s*|\s+and\s+/i)
+            .map(parseWeekday)
+            .filter((day): day is number => day !== undefined);
+          result.recurrence = { type: 'weekly', interval: 1, daysOfWeek: Array.from(new Set(daysOfWeek)).sort() };
+        }
+        return true;
+      },
+    },
+    {
+      type: 'date',
+      pattern: /\b(today|tonight|tomorrow|tmrw?)\b/gi,
+      apply: (match, result) => {
+        const word = match[1].toLowerCase();
+        result.date = word === 'today' || word === 'tonight' ? today : addDays(today, 1);
+        if (word === 'tonight' && !result.time) {
+          result.time = { hours: 20, minutes: 0 };
+        }
+        return true;
+      },
+    },
+    {
+      type: 'date',
+      pattern: /\b(?:in\s+(\d+)\s+(day|week|month)s?|next\s+(week|month))\b/gi,
+      apply: (match, result) => {
+        const [, count, unit, nextUnit] = match;
+        if (nextUnit) {
+          // Next week starts on Monday; next month on the 1st
+          result.date =
+            nextUnit.toLowerCase() === 'week'
+              ? nextWeekday(today, 1, true)
+              : new Date(today.getFullYear(), today.getMonth() + 1, 1);
+          return true;
+        }
+        const amount = parseInt(count, 10);
+        const lowerUnit = unit.toLowerCase();
+        result.date =
+          lowerUnit === 'day' ? addDays(today, amount) : lowerUnit === 'week' ? addWeeks(today, amount) : addMonths(today, amount);
+        return true;
+      },
+    },
+    {
+      type: 'date',
+      // The coming weekday, never today
+      pattern: new RegExp(`\\b(?:(?:on|next|this)\\s+(${WEEKDAY_PATTERN})|(${FULL_WEEKDAY_PATTERN}))\\b`, 'gi'),
+      apply: (match, result) => {
+        const day = parseWeekday(match[1] || match[2]);
+        if (day === undefined) return false;
+        result.date = nextWeekday(today, day, true);
+        return true;
+      },
+    },
+    {
+      // 2026-03-14, 3/14, mar 14, 14 march
+      type: 'date',
+      pattern: new RegExp(
+        `\\b(?:on\\s+)?(?:(\\d{4})-(\\d{1,2})-(\\d{1,2})|(\\d{1,2})/(\\d{1,2})|(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?|(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN}))\\b`,
+        'gi'
+      ),
+      apply: (match, result) => {
+        const [, isoYear, isoMonth, isoDay, slashMonth, slashDay, monthName, monthDay, dayMonth, dayMonthName] = match;
+        const name = monthName || dayMonthName;
+        const month = isoMonth || slashMonth
+          ? parseInt(isoMonth || slashMonth, 10) - 1
+          : MONTHS.indexOf(name.toLowerCase().slice(0, 3));
+        const day = parseInt(isoDay || slashDay || monthDay || dayMonth, 10);
+        if (month < 0 || month > 11 || day < 1 || day > 31) return false;
+
+        let date = new Date(isoYear ? parseInt(isoYear, 10) : today.getFullYear(), month, day);
+        if (date.getMonth() !== month) return false; // e.g. feb 30
+        // Without a year, a date that has passed means next year
+        if (!isoYear && isBefore(date, today)) {
+          date = new Date(today.getFullYear() + 1, month, day);
+        }
+        result.date = date;
+        return true;
+      },
+    },
+    {
+      // 3pm, 3:30pm, at 15:00, at 9, noon
+      type: 'time',
+      pattern: /\b(?:at\s+)?(?:(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)|(\d{1,2}):(\d{2})|(noon|midnight))(?![\w:])|\bat\s+(\d{1,2})(?![\w:/.])/gi,
+      apply: (match, result) => {
+        const [, hour, minute, meridiem, hour24, minute24, named, bareHour] = match;
+        // A bare "at 1" to "at 6" means the afternoon; "at 9" or "at 18" is read as written
+        const time = named
+          ? { hours: named.toLowerCase() === 'noon' ? 12 : 0, minutes: 0 }
+          : bareHour
+            ? parseTime(bareHour, undefined, parseInt(bareHour, 10) >= 1 && parseInt(bareHour, 10) <= 6 ? 'pm' : undefined)
+            : hour
+              ? parseTime(hour, minute, meridiem)
+              : parseTime(hour24, minute24, undefined);
+        if (!time) return false;
+        result.time = time;
+        return true;
+      },
+    },
+    {
+      type: 'estimate',
+      pattern: /(?:^|\s)~(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|min|mins|minutes?)\b/gi,
+      apply: (match, result) => {
+        const amount = parseFloat(match[1]);
+        const hours = match[2].toLowerCase().startsWith('h') ? amount : amount / 60;
+        if (!(hours > 0)) return false;
+        result.estimatedDuration = Math.round(hours * 100) / 100;
+        return true;
+      },
+    },
+    {
+      type: 'priority',
+      pattern: /(?:^|\s)!(\w+)\b/gi,
+      apply: (match, result) => {
+        const priority = PRIORITY_ALIASES[match[1].toLowerCase()];
+        if (!priority) return false;
+        result.priority = priority;
+        return true;
+      },
+    },
+    {
+      type: 'project',
+      pattern: /(?:^|\s)#([\w-]+)/g,
+      apply: (match, result) => {
+        const name = normalizeName(match[1]);
+        const project = projects.find((p) => normalizeName(p.name) === name && p.status !== 'completed')
+          || projects.find((p) => normalizeName(p.name).startsWith(name));
+        if (!project) return false;
+        result.projectId = project.id;
+        return true;
+      },
+    },
+    {
+      type: 'tag',
+      pattern: /(?:^|\s)@([\w-]+)/g,
+      apply: (match, result) => {
+        const name = normalizeName(match[1]);
+        const tag = tags.find((t) => normalizeName(t.name) === name);
+        if (tag) {
+          if (!result.tagIds.includes(tag.id)) result.tagIds.push(tag.id);
+        } else if (!result.newTagNames.some((newName) => normalizeName(newName) === name)) {
+          result.newTagNames.push(match[1]);
+        }
+        return true;
+      },
+    },
+  ];
+};
+
+/**
+ * Parse quick-add text like "Call Sam tomorrow 3pm #work @errands !high every monday ~2h".
+ * Dates, times, #project, @tag, !priority, "every ..." recurrence and ~estimate
+ * are picked out of the text, and whatever is left becomes the title. A time
+ * without a date means today, or tomorrow once that time has passed. A
+ * recurrence without a date starts on its first matching day, or on the
+ * following occurrence once the time on that day has passed.
+ */
+export function parseQuickAdd(text: string, context: QuickAddContext): ParsedQuickAdd {
+  const now = context.now || new Date();
+  const state: ParseState = { title: '', tokens: [], tagIds: [], newTagNames: [] };
+  const isTaken = (start: number, end: number) =>
+    state.tokens.some((token) => start < token.end && end > token.start);
+
+  buildRules({ ...context, now }).forEach((rule) => {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      // Leading whitespace consumed by the pattern isn't part of the token
+      const leading = match[0].length - match[0].trimStart().length;
+      const start = match.index + leading;
+      const end = match.index + match[0].length;
+      if (end === start) {
+        pattern.lastIndex++;
+        continue;
+      }
+      // Only the first date, time, project, priority, recurrence and estimate count
+      const isRepeat = rule.type !== 'tag' && state.tokens.some((token) => token.type === rule.type);
+      if (!isRepeat && !isTaken(start, end) && rule.apply(match, state)) {
+        state.tokens.push({ type: rule.type, text: text.slice(start, end), start, end });
+      }
+    }
+  });
+  state.tokens.sort((a, b) => a.start - b.start);
+
+  let date = state.date;
+  if (!date && state.recurrence) {
+    const { daysOfWeek } = state.recurrence;
+    date = daysOfWeek && daysOfWeek.length > 0
+      ? daysOfWeek
+          .map((day) => nextWeekday(now, day, false))
+          .reduce((earliest, candidate) => (isBefore(candidate, earliest) ? candidate : earliest))
+      : startOfDay(now);
+  }
+  if (state.time) {
+    const base = date || startOfDay(now);
+    let dueDate = new Date(base.getFullYear(), base.getMonth(), base.getDate(), state.time.hours, state.time.minutes);
+    if (!state.date && isBefore(dueDate, now)) {
+      dueDate = (state.recurrence && getNextOccurrence(dueDate, state.recurrence)) || addDays(dueDate, 1);
+    }
+    date = dueDate;
+  }
+
+  let title = '';
+  let cursor = 0;
+  state.tokens.forEach((token) => {
+    title += text.slice(cursor, token.start) + ' ';
+    cursor = token.end;
+  });
+  title += text.slice(cursor);
+
+  return {
+    title: title.replace(/\s+/g, ' ').trim(),
+    tokens: state.tokens,
+    dueDate: date,
+    projectId: state.projectId,
+    tagIds: state.tagIds,
+    newTagNames: state.newTagNames,
+    priority: state.priority,
+    recurrence: state.recurrence,
+    estimatedDuration: state.estimatedDuration,
+  };
+}
+
+/**
+ * Split text into plain runs and token runs, for highlighting the tokens
+ */
+export function splitQuickAddText(text: string, tokens: QuickAddToken[]): { text: string; token?: QuickAddToken }[] {
+  const parts: { text: string; token?: QuickAddToken }[] = [];
+  let cursor = 0;
+  tokens.forEach((token) => {
+    if (token.start > cursor) {
+      parts.push({ text: text.slice(cursor, token.start) });
+    }
+    parts.push({ text: text.slice(token.start, token.end), token });
+    cursor = token.end;
+  });
+  if (cursor < text.length) {
+    parts.push({ text: text.slice(cursor) });
+  }
+  return parts;
+}
@@ -1,15 +1,71 @@
-import { addDays, addWeeks, addMonths, addYears, setDate, setMonth, isBefore, isAfter } from 'date-fns';
-import { Recurrence } from '../types';
+import { addDays, addWeeks, addMonths, addYears, setDate, setMonth, isBefore, isAfter, isSameDay } from 'date-fns';
+import { Recurrence, Task, SeriesField } from '../types';
+import { parseRRule, getNextRRuleOccurrence, describeRRule } from './rrule';
+
+// Upper bound on consecutive exception dates skipped while looking for an occurrence
+const MAX_SKIPPED_EXCEPTIONS = 1000;
 
 /**
- * Calculate the next occurrence date for a recurring task
+ * Calculate the next occurrence date for a recurring task,
+ * skipping any dates listed in the recurrence's exception dates
  */
 export function getNextOccurrence(
   currentDate: Date,
   recurrence: Recurrence
+): Date | null {
+  let nextDate = getNextScheduledOccurrence(currentDate, recurrence);
+
+  for (let i = 0; nextDate && isExceptionDate(nextDate, recurrence) && i < MAX_SKIPPED_EXCEPTIONS; i++) {
+    nextDate = getNextScheduledOccurrence(nextDate, recurrence);
+  }
+
+  return nextDate;
+}
+
+/**
+ * Whether the given day has been excluded from the series (EXDATE)
+ */
+export function isExceptionDate(date: Date, recurrence: Recurrence): boolean {
+  return (recurrence.exceptionDates || []).some((exceptionDate) => isSameDay(exceptionDate, date));
+}
+
+/**
+ * Add a day to the recurrence's exception dates
+ */
+export function addExceptionDate(recurrence: Recurrence, date: Date): Recurrence {
+  if (isExceptionDate(date, recurrence)) {
+    return recurrence;
+  }
+  return {
+    ...recurrence,
+    exceptionDates: [...(recurrence.exceptionDates || []), date],
+  };
+}
+
+/**
+ * Next date produced by the recurrence pattern itself, ignoring exceptions
+ */
+function getNextScheduledOccurrence(
+  currentDate: Date,
+  recurrence: Recurrence
 ): Date | null {
   const { type, interval, daysOfWeek, dayOfMonth, monthOfYear, endDate, endAfterOccurrences } = recurrence;
 
+  // Full RRULE: COUNT is tracked per series by the store, so only UNTIL applies here
+  if (recurrence.rrule) {
+    try {
+      const { count, ...rule } = parseRRule(recurrence.rrule);
+      const next = getNextRRuleOccurrence(currentDate, rule);
+      if (!next || (endDate && isAfter(next, endDate))) {
+        return null;
+      }
+      return next;
+    } catch (error) {
+      console.error('Invalid recurrence rule:', error);
+      return null;
+    }
+  }
+
   let nextDate: Date;
 
   switch (type) {
@@ -57,6 +113,71 @@ export function getNextOccurrence(
   return nextDate;
 }
 
+/**
+ * Dates for the instance that follows a completed recurring task.
+ * The due date is computed according to the recurrence's repeat mode, and the
+ * start and planned dates move by the same amount so their offsets are kept.
+ * An occurrence that was rescheduled on its own continues the series from its
+ * original slot.
+ */
+export function getNextInstanceDates(
+  task: Task,
+  recurrence: Recurrence,
+  completedDate: Date = new Date()
+): Pick<Task, 'dueDate' | 'startDate' | 'plannedDate' | 'recurringInstanceDate' | 'rescheduledFrom'> | null {
+  // Dates may still be ISO strings, e.g. when set before the task was reloaded
+  const toDate = (date?: Date | string) => (date ? new Date(date) : undefined);
+  const dueDate = toDate(task.dueDate);
+  const completed = new Date(completedDate);
+  const baseDate = toDate(task.rescheduledFrom) || dueDate || toDate(task.recurringInstanceDate) || completed;
+  let nextDate: Date | null;
+
+  switch (recurrence.repeatMode) {
+    case 'defer-another': {
+      // Keep the original time of day, but count from the day it was completed
+      const anchor = new Date(
+        completed.getFullYear(),
+        completed.getMonth(),
+        completed.getDate(),
+        baseDate.getHours(),
+        baseDate.getMinutes(),
+        baseDate.getSeconds()
+      );
+      nextDate = getNextOccurrence(anchor, recurrence);
+      break;
+    }
+
+    case 'catch-up': {
+      const today = new Date(completed.getFullYear(), completed.getMonth(), completed.getDate());
+      nextDate = getNextOccurrence(baseDate, recurrence);
+      // Skip occurrences that are already in the past (bounded in case of a bad rule)
+      for (let i = 0; nextDate && isBefore(nextDate, today) && i < 10000; i++) {
+        nextDate = getNextOccurrence(nextDate, recurrence);
+      }
+      break;
+    }
+
+    default:
+      nextDate = getNextOccurrence(baseDate, recurrence);
+  }
+
+  if (!nextDate) {
+    return null;
+  }
+
+  // Measure from the actual due date so a moved occurrence's offsets aren't carried over
+  const shift = nextDate.getTime() - (dueDate || baseDate).getTime();
+  const shiftDate = (date?: Date) => (date ? new Date(new Date(date).getTime() + shift) : undefined);
+
+  return {
+    dueDate: nextDate,
+    startDate: shiftDate(task.startDate),
+    plannedDate: shiftDate(task.plannedDate),
+    recurringInstanceDate: nextDate,
+    rescheduledFrom: undefined,
+  };
+}
+
 /**
  * Get the next weekly occurrence based on selected days of week
  */
@@ -94,7 +215,119 @@ function getDaysInMonth(date: Date): number {
 }
 
 /**
- * Check if a recurring task should generate the next instance
+ * Fields an edit can apply across a recurring series
+ */
+export const SERIES_FIELDS: SeriesField[] = ['title', 'notes', 'priority', 'projectId', 'focusAreaId', 'estimatedDuration'];
+
+/**
+ * Stable identity of a recurring series: the id of the task that started it
+ */
+export function getSeriesId(task: Task): string {
+  return task.parentRecurringTaskId || task.id;
+}
+
+/**
+ * Every occurrence in the same series as the given task, including the task itself
+ */
+export function getSeriesTasks(task: Task, tasks: Task[]): Task[] {
+  const seriesId = getSeriesId(task);
+  return tasks.filter((t) => getSeriesId(t) === seriesId);
+}
+
+/**
+ * Position of an occurrence within its series. Tasks from before occurrences
+ * were numbered count as the first.
+ */
+export function getOccurrenceNumber(task: Task): number {
+  return task.occurrenceNumber ?? 1;
+}
+
+/**
+ * A future occurrence of a series that does not exist as a task yet
+ */
+export interface VirtualOccurrence {
+  task: Task; // The open occurrence it is projected from
+  date: Date;
+  occurrenceNumber: number;
+}
+
+// Upper bound on occurrences projected from a single series
+const MAX_PROJECTED_OCCURRENCES = 500;
+
+/**
+ * The next `count` dates of a recurrence after `fromDate`, stopping at `until`
+ */
+export function getUpcomingOccurrences(
+  recurrence: Recurrence,
+  fromDate: Date,
+  count: number,
+  until?: Date
+): Date[] {
+  const dates: Date[] = [];
+  let current = getNextOccurrence(fromDate, recurrence);
+
+  while (current && dates.length < count && (!until || !isAfter(current, until))) {
+    dates.push(current);
+    current = getNextOccurrence(current, recurrence);
+  }
+
+  return dates;
+}
+
+/**
+ * Project the occurrences that will follow a recurring task's open occurrence
+ * within [rangeStart, rangeEnd], following the fixed schedule
+ */
+export function expandRecurringTask(task: Task, rangeStart: Date, rangeEnd: Date): VirtualOccurrence[] {
+  if (!task.isRecurring || !task.recurrence || task.status === 'completed') {
+    return [];
+  }
+
+  const baseDate = task.rescheduledFrom || task.dueDate || task.recurringInstanceDate;
+  if (!baseDate) {
+    return [];
+  }
+
+  const occurrenceNumber = getOccurrenceNumber(task);
+  const { endAfterOccurrences } = task.recurrence;
+  const remaining = endAfterOccurrences
+    ? Math.min(endAfterOccurrences - occurrenceNumber, MAX_PROJECTED_OCCURRENCES)
+    : MAX_PROJECTED_OCCURRENCES;
+
+  if (remaining <= 0) {
+    return [];
+  }
+
+  return getUpcomingOccurrences(task.recurrence, baseDate, remaining, rangeEnd)
+    .map((date, index) => ({ task, date, occurrenceNumber: occurrenceNumber + index + 1 }))
+    .filter((occurrence) => !isBefore(occurrence.date, rangeStart));
+}
+
+/**
+ * Project future occurrences of every recurring series within a date range.
+ * Each series is projected from its latest open occurrence only.
+ */
+export function expandRecurringTasks(tasks: Task[], rangeStart: Date, rangeEnd: Date): VirtualOccurrence[] {
+  const latestBySeries = new Map<string, Task>();
+
+  tasks
+    .filter((task) => task.isRecurring && task.recurrence && task.status !== 'completed')
+    .forEach((task) => {
+      const seriesId = getSeriesId(task);
+      const latest = latestBySeries.get(seriesId);
+      if (!latest || getOccurrenceNumber(task) > getOccurrenceNumber(latest)) {
+        latestBySeries.set(seriesId, task);
+      }
+    });
+
+  return Array.from(latestBySeries.values())
+    .flatMap((task) => expandRecurringTask(task, rangeStart, rangeEnd))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Check if a recurring task should generate the next instance,
+ * given how many occurrences of the series have been completed
  */
 export function shouldGenerateNextInstance(
   recurrence: Recurrence,
@@ -114,6 +347,14 @@ export function shouldGenerateNextInstance(
 export function formatRecurrence(recurrence: Recurrence): string {
   const { type, interval } = recurrence;
 
+  if (recurrence.rrule) {
+    try {
+      return describeRRule(parseRRule(recurrence.rrule));
+    } catch {
+      return 'Custom';
+    }
+  }
+
   if (type === 'daily') {
     return interval === 1 ? 'Daily' : `Every ${interval} days`;
   } else if (type === 'weekly') {
@@ -0,0 +1,534 @@
+import { Recurrence, RecurrenceType } from '../types';
+
+/**
+ * RFC 5545 recurrence rules (RRULE).
+ * Supports FREQ (DAILY to YEARLY), INTERVAL, BYDAY with ordinals, BYMONTHDAY
+ * (including negative days), BYMONTH, BYSETPOS, COUNT, UNTIL and WKST.
+ */
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleByDay {
+  weekday: number; // 0-6 (Sun-Sat)
+  ordinal?: number; // e.g. 2 for "2nd", -1 for "last"; only meaningful for MONTHLY/YEARLY
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[]; // 1-31 or -31 to -1 (counted from the end of the month)
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[]; // picks the nth candidate within each period, negative counts from the end
+  count?: number;
+  until?: Date;
+  wkst?: number; // 0-6, defaults to Monday
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Upper bound on periods scanned when looking for an occurrence, so that
+// rules which can never match (e.g. BYMONTHDAY=31;BYMONTH=2) terminate.
+const MAX_PERIODS = 5000;
+
+// Days in each month in its shortest year
+const MIN_DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Parse an RRULE string such as "FREQ=MONTHLY;BYDAY=2TU".
+ * An optional "RRULE:" prefix is accepted. Throws on invalid input.
+ */
+export function parseRRule(input: string): RRule {
+  const body = input.trim().replace(/^RRULE:/i, '');
+  if (!body) {
+    throw new Error('Empty RRULE');
+  }
+
+  const parts = new Map<string, string>();
+  body.split(';').filter(Boolean).forEach((part) => {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Invalid RRULE part "${part}"`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  });
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported or missing FREQ "${parts.get('FREQ') || ''}"`);
+  }
+
+  const rule: RRule = { freq, interval: 1 };
+
+  parts.forEach((value, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(value, key);
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInt(value, key);
+        break;
+      case 'UNTIL':
+        rule.until = parseRRuleDate(value);
+        break;
+      case 'WKST':
+        rule.wkst = parseWeekdayCode(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseByDay);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(value, key, 1, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(value, key, 1, 12).map((month) => {
+          if (month < 0) throw new Error('BYMONTH values must be positive');
+          return month;
+        });
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(value, key, 1, 366);
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('COUNT and UNTIL cannot both be set');
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to its RRULE string (without the "RRULE:" prefix)
+ */
+export function serializeRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatRRuleDate(rule.until)}`);
+  if (rule.wkst !== undefined && rule.wkst !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Translate a Recurrence to an RRULE. Uses the stored rule when there is one,
+ * otherwise builds an equivalent rule from the simple fields.
+ */
+export function recurrenceToRRule(recurrence: Recurrence): RRule {
+  if (recurrence.rrule) {
+    return parseRRule(recurrence.rrule);
+  }
+
+  const { type, interval, daysOfWeek, dayOfMonth, monthOfYear, endDate, endAfterOccurrences } = recurrence;
+  const rule: RRule = {
+    freq: type === 'custom' ? 'DAILY' : (type.toUpperCase() as RRuleFrequency),
+    interval: interval || 1,
+  };
+
+  if (type === 'weekly' && daysOfWeek && daysOfWeek.length > 0) {
+    rule.byDay = [...daysOfWeek].sort((a, b) => a - b).map((weekday) => ({ weekday }));
+  }
+  if ((type === 'monthly' || type === 'yearly') && dayOfMonth) {
+    rule.byMonthDay = [dayOfMonth];
+  }
+  if (type === 'yearly' && monthOfYear && dayOfMonth) {
+    rule.byMonth = [monthOfYear];
+  }
+  if (endAfterOccurrences) {
+    rule.count = endAfterOccurrences;
+  } else if (endDate) {
+    rule.until = endDate;
+  }
+
+  return rule;
+}
+
+/**
+ * Build a Recurrence that carries the given rule.
+ * The simple fields are filled in where they can express the rule, so older
+ * code paths and the modal's basic controls keep working.
+ */
+export function rruleToRecurrence(rule: RRule): Recurrence {
+  const type = rule.freq.toLowerCase() as RecurrenceType;
+  const recurrence: Recurrence = {
+    type,
+    interval: rule.interval || 1,
+    ...(rule.until && { endDate: rule.until }),
+    ...(rule.count !== undefined && { endAfterOccurrences: rule.count }),
+  };
+
+  if (type === 'weekly' && rule.byDay?.length && rule.byDay.every((d) => d.ordinal === undefined)) {
+    recurrence.daysOfWeek = rule.byDay.map((d) => d.weekday).sort((a, b) => a - b);
+  }
+  if ((type === 'monthly' || type === 'yearly') && rule.byMonthDay?.length === 1 && rule.byMonthDay[0] > 0) {
+    recurrence.dayOfMonth = rule.byMonthDay[0];
+  }
+  if (type === 'yearly' && rule.byMonth?.length === 1) {
+    recurrence.monthOfYear = rule.byMonth[0];
+  }
+
+  if (!isSimpleRule(rule)) {
+    recurrence.rrule = serializeRRule(rule);
+  }
+
+  return recurrence;
+}
+
+/**
+ * Whether the rule can be expressed with Recurrence's simple fields alone.
+ * The simple fields move a missing day (e.g. Feb 29 in 2027) to the end of the
+ * month, while RRULEs skip it, so such days keep their rule.
+ */
+export function isSimpleRule(rule: RRule): boolean {
+  if (rule.bySetPos?.length || (rule.wkst !== undefined && rule.wkst !== 1)) return false;
+  if (rule.byDay?.some((d) => d.ordinal !== undefined)) return false;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return !rule.byDay?.length && !rule.byMonthDay?.length && !rule.byMonth?.length;
+    case 'WEEKLY':
+      return !rule.byMonthDay?.length && !rule.byMonth?.length;
+    case 'MONTHLY':
+      return !rule.byDay?.length && !rule.byMonth?.length &&
+        (!rule.byMonthDay || (rule.byMonthDay.length === 1 && rule.byMonthDay[0] > 0 && rule.byMonthDay[0] <= 28));
+    case 'YEARLY':
+      return !rule.byDay?.length &&
+        rule.byMonthDay?.length === 1 && rule.byMonthDay[0] > 0 &&
+        rule.byMonth?.length === 1 && rule.byMonthDay[0] <= MIN_DAYS_IN_MONTH[rule.byMonth[0] - 1];
+  }
+}
+
+/**
+ * List occurrences of a rule anchored at dtstart.
+ * COUNT is counted from dtstart; only occurrences strictly after `after`
+ * (and not after `until`) are returned, up to `limit`.
+ */
+export function expandRRule(
+  rule: RRule,
+  dtstart: Date,
+  options: { after?: Date; until?: Date; limit?: number } = {}
+): Date[] {
+  const { after, until, limit = Infinity } = options;
+  const results: Date[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = getPeriodCandidates(rule, dtstart, period);
+
+    for (const candidate of candidates) {
+      if (candidate < dtstart) continue;
+      if (rule.until && candidate > rule.until) return results;
+      if (until && candidate > until) return results;
+
+      emitted += 1;
+      if (rule.count !== undefined && emitted > rule.count) return results;
+
+      if (!after || candidate > after) {
+        results.push(candidate);
+        if (results.length >= limit) return results;
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Next occurrence of the rule strictly after the given date
+ */
+export function getNextRRuleOccurrence(after: Date, rule: RRule, dtstart: Date = after): Date | null {
+  return expandRRule(rule, dtstart, { after, limit: 1 })[0] || null;
+}
+
+/**
+ * Human readable description, e.g. "Monthly on the 2nd Tuesday"
+ */
+export function describeRRule(rule: RRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  const adverb = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : adverb;
+
+  const byDay = rule.byDay || [];
+  const isWeekdaySet =
+    byDay.length === 5 && byDay.every((d) => d.ordinal === undefined && d.weekday >= 1 && d.weekday <= 5);
+
+  if (isWeekdaySet && rule.bySetPos?.length === 1) {
+    text += ` on the ${formatOrdinal(rule.bySetPos[0])} weekday`;
+  } else if (rule.bySetPos?.length && byDay.length) {
+    text += ` on the ${rule.bySetPos.map(formatOrdinal).join(', ')} of ${byDay.map((d) => DAY_NAMES[d.weekday]).join('/')}`;
+  } else if (isWeekdaySet) {
+    text += ' on weekdays';
+  } else if (byDay.length) {
+    const days = byDay.map((d) =>
+      d.ordinal !== undefined ? `the ${formatOrdinal(d.ordinal)} ${DAY_NAMES[d.weekday]}` : DAY_NAMES[d.weekday].slice(0, 3)
+    );
+    text += ` on ${days.join(', ')}`;
+  }
+
+  if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay.map((day) => (day < 0 ? (day === -1 ? 'last day' : `${formatOrdinal(day)} day`) : formatOrdinal(day)));
+    text += `${byDay.length ? ' if' : ' on'} the ${days.join(', ')}`;
+  }
+
+  if (rule.byMonth?.length) {
+    text += ` in ${rule.byMonth.map((m) => MONTH_NAMES[m - 1]).join(', ')}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  } else if (rule.until) {
+    text += `, until ${rule.until.toLocaleDateString()}`;
+  }
+
+  return text;
+}
+
+export function formatOrdinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${formatOrdinal(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+// Expansion
+
+/**
+ * Candidate dates of the nth period after dtstart's period, sorted, with BYSETPOS applied
+ */
+function getPeriodCandidates(rule: RRule, dtstart: Date, period: number): Date[] {
+  const step = period * (rule.interval || 1);
+  let days: Date[] = [];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = new Date(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + step);
+      days = matchesDailyFilters(rule, day) ? [day] : [];
+      break;
+    }
+
+    case 'WEEKLY': {
+      const wkst = rule.wkst ?? 1;
+      const offset = (dtstart.getDay() - wkst + 7) % 7;
+      const weekStart = new Date(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() - offset + step * 7);
+      const weekdays = rule.byDay?.length ? rule.byDay.map((d) => d.weekday) : [dtstart.getDay()];
+      for (let i = 0; i < 7; i++) {
+        const day = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i);
+        if (weekdays.includes(day.getDay()) && (!rule.byMonth?.length || rule.byMonth.includes(day.getMonth() + 1))) {
+          days.push(day);
+        }
+      }
+      break;
+    }
+
+    case 'MONTHLY': {
+      const monthStart = new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+      if (!rule.byMonth?.length || rule.byMonth.includes(monthStart.getMonth() + 1)) {
+        days = expandMonth(rule, monthStart.getFullYear(), monthStart.getMonth(), dtstart);
+      }
+      break;
+    }
+
+    case 'YEARLY': {
+      const year = dtstart.getFullYear() + step;
+      if (rule.byMonth?.length) {
+        rule.byMonth.forEach((month) => {
+          days.push(...expandMonth(rule, year, month - 1, dtstart));
+        });
+      } else if (rule.byMonthDay?.length) {
+        for (let month = 0; month < 12; month++) {
+          days.push(...expandMonth(rule, year, month, dtstart));
+        }
+      } else if (rule.byDay?.length) {
+        days = expandByDayInRange(rule.byDay, new Date(year, 0, 1), new Date(year, 11, 31));
+      } else {
+        const day = new Date(year, dtstart.getMonth(), dtstart.getDate());
+        // Skip Feb 29 in non-leap years instead of rolling over to March
+        if (day.getMonth() === dtstart.getMonth()) days = [day];
+      }
+      break;
+    }
+  }
+
+  days = uniqueSorted(days);
+
+  if (rule.bySetPos?.length) {
+    const picked: Date[] = [];
+    rule.bySetPos.forEach((pos) => {
+      const day = pos > 0 ? days[pos - 1] : days[days.length + pos];
+      if (day) picked.push(day);
+    });
+    days = uniqueSorted(picked);
+  }
+
+  return days.map((day) =>
+    new Date(day.getFullYear(), day.getMonth(), day.getDate(), dtstart.getHours(), dtstart.getMinutes(), dtstart.getSeconds())
+  );
+}
+
+function matchesDailyFilters(rule: RRule, day: Date): boolean {
+  if (rule.byMonth?.length && !rule.byMonth.includes(day.getMonth() + 1)) return false;
+  if (rule.byDay?.length && !rule.byDay.some((d) => d.weekday === day.getDay())) return false;
+  if (rule.byMonthDay?.length) {
+    const daysInMonth = getDaysInMonth(day.getFullYear(), day.getMonth());
+    const matches = rule.byMonthDay.some((md) => (md > 0 ? md : daysInMonth + md + 1) === day.getDate());
+    if (!matches) return false;
+  }
+  return true;
+}
+
+/**
+ * Expand BYMONTHDAY/BYDAY within one month. BYDAY limits BYMONTHDAY when both are set.
+ */
+function expandMonth(rule: RRule, year: number, month: number, dtstart: Date): Date[] {
+  const daysInMonth = getDaysInMonth(year, month);
+
+  if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay
+      .map((md) => (md > 0 ? md : daysInMonth + md + 1))
+      .filter((d) => d >= 1 && d <= daysInMonth)
+      .map((d) => new Date(year, month, d));
+
+    if (rule.byDay?.length) {
+      return days.filter((day) => rule.byDay!.some((d) => d.weekday === day.getDay()));
+    }
+    return days;
+  }
+
+  if (rule.byDay?.length) {
+    return expandByDayInRange(rule.byDay, new Date(year, month, 1), new Date(year, month, daysInMonth));
+  }
+
+  const day = dtstart.getDate();
+  return day <= daysInMonth ? [new Date(year, month, day)] : [];
+}
+
+/**
+ * All days in [start, end] matching BYDAY; ordinals count within the range
+ */
+function expandByDayInRange(byDay: RRuleByDay[], start: Date, end: Date): Date[] {
+  const days: Date[] = [];
+
+  byDay.forEach(({ weekday, ordinal }) => {
+    const matching: Date[] = [];
+    const cursor = new Date(start);
+    cursor.setDate(cursor.getDate() + ((weekday - cursor.getDay() + 7) % 7));
+    while (cursor <= end) {
+      matching.push(new Date(cursor));
+      cursor.setDate(cursor.getDate() + 7);
+    }
+
+    if (ordinal === undefined) {
+      days.push(...matching);
+    } else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day) days.push(day);
+    }
+  });
+
+  return days;
+}
+
+// Parsing helpers
+
+function parsePositiveInt(value: string, key: string): number {
+  const n = parseInt(value, 10);
+  if (isNaN(n) || n < 1 || String(n) !== value) {
+    throw new Error(`${key} must be a positive integer`);
+  }
+  return n;
+}
+
+function parseIntList(value: string, key: string, min: number, max: number): number[] {
+  return value.split(',').map((item) => {
+    const n = parseInt(item, 10);
+    if (isNaN(n) || String(n) !== item.replace(/^\+/, '') || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new Error(`Invalid ${key} value "${item}"`);
+    }
+    return n;
+  });
+}
+
+function parseWeekdayCode(code: string): number {
+  const weekday = WEEKDAY_CODES.indexOf(code);
+  if (weekday === -1) {
+    throw new Error(`Invalid weekday "${code}"`);
+  }
+  return weekday;
+}
+
+function parseByDay(value: string): RRuleByDay {
+  const match = value.match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+  if (!match) {
+    throw new Error(`Invalid BYDAY value "${value}"`);
+  }
+  const weekday = parseWeekdayCode(match[2]);
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+  const ordinal = parseInt(match[1], 10);
+  if (ordinal === 0 || Math.abs(ordinal) > 53) {
+    throw new Error(`Invalid BYDAY ordinal "${value}"`);
+  }
+  return { weekday, ordinal };
+}
+
+/**
+ * UNTIL is either a DATE (YYYYMMDD, inclusive through the end of that day)
+ * or a DATE-TIME (YYYYMMDDTHHMMSS, with a trailing Z for UTC)
+ */
+function parseRRuleDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return new Date(+y, +mo - 1, +d, 23, 59, 59);
+  }
+  return utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+}
+
+function formatRRuleDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function uniqueSorted(days: Date[]): Date[] {
+  const seen = new Set<number>();
+  return days
+    .filter((day) => {
+      const time = day.getTime();
+      if (seen.has(time)) return false;
+      seen.add(time);
+      return true;
+    })
+    .sort((a, b) => a.getTime() - b.getTime());
+}
@@ -0,0 +1,128 @@
+import { Task } from '../types';
+
+export interface TaskOutlineRow {
+  task: Task;
+  depth: number; // 0 for top-level rows
+  subtaskCount: number; // Direct subtasks among the outlined tasks
+}
+
+const groupByParent = (tasks: Task[]): Map<string, Task[]> => {
+  const ids = new Set(tasks.map((task) => task.id));
+  const childrenById = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    if (task.parentTaskId && ids.has(task.parentTaskId)) {
+      childrenById.set(task.parentTaskId, [...(childrenById.get(task.parentTaskId) || []), task]);
+    }
+  });
+  return childrenById;
+};
+
+/**
+ * Direct subtasks of a task
+ */
+export function getSubtasks(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter((task) => task.parentTaskId === taskId);
+}
+
+/**
+ * Ids of every task nested below a task, at any depth
+ */
+export function getDescendantIds(taskId: string, tasks: Task[]): Set<string> {
+  const childrenById = groupByParent(tasks);
+  const ids = new Set<string>();
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    (childrenById.get(currentId) || []).forEach((child) => {
+      if (child.id === taskId || ids.has(child.id)) return;
+      ids.add(child.id);
+      queue.push(child.id);
+    });
+  }
+  return ids;
+}
+
+/**
+ * Subtasks at any depth that are not completed yet
+ */
+export function getOpenSubtasks(taskId: string, tasks: Task[]): Task[] {
+  const ids = getDescendantIds(taskId, tasks);
+  return tasks.filter((task) => ids.has(task.id) && task.status !== 'completed');
+}
+
+/**
+ * Whether a task can be nested under another without creating a loop
+ */
+export function canNestUnder(taskId: string, parentTaskId: string, tasks: Task[]): boolean {
+  return taskId !== parentTaskId && !getDescendantIds(taskId, tasks).has(parentTaskId);
+}
+
+/**
+ * Tasks in outline order, each parent followed by its subtasks, keeping the
+ * incoming order among siblings. Subtasks whose parent isn't in the list show
+ * at the top level, and subtasks of collapsed parents are left out.
+ */
+export function getTaskOutline(tasks: Task[], collapsedIds: Set<string> = new Set()): TaskOutlineRow[] {
+  const ids = new Set(tasks.map((task) => task.id));
+  const childrenById = groupByParent(tasks);
+  const rows: TaskOutlineRow[] = [];
+  const visited = new Set<string>();
+
+  const visit = (task: Task, depth: number, isHidden: boolean) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    const children = childrenById.get(task.id) || [];
+    if (!isHidden) {
+      rows.push({ task, depth, subtaskCount: children.length });
+    }
+    const hideChildren = isHidden || collapsedIds.has(task.id);
+    children.forEach((child) => visit(child, depth + 1, hideChildren));
+  };
+
+  tasks
+    .filter((task) => !task.parentTaskId || !ids.has(task.parentTaskId))
+    .forEach((task) => visit(task, 0, false));
+  // Tasks caught in a corrupted parent loop have no root; show them at the top level
+  tasks.forEach((task) => visit(task, 0, false));
+  return rows;
+}
+
+/**
+ * Set the progress of every parent task to the average progress of its
+ * subtasks, worked out from the bottom up. Completed tasks count as 100%.
+ * Returns the same array when nothing changed.
+ */
+export function rollUpSubtaskProgress(tasks: Task[]): Task[] {
+  const childrenById = groupByParent(tasks);
+  const progressById = new Map<string, number>();
+
+  const getProgress = (task: Task, visiting: Set<string>): number => {
+    const known = progressById.get(task.id);
+    if (known !== undefined) return known;
+
+    const children = childrenById.get(task.id) || [];
+    let progress = task.progress;
+    if (task.status === 'completed') {
+      progress = 100;
+    } else if (children.length > 0 && !visiting.has(task.id)) {
+      visiting.add(task.id);
+      const total = children.reduce((sum, child) => sum + getProgress(child, visiting), 0);
+      visiting.delete(task.id);
+      progress = Math.round(total / children.length);
+    }
+
+    progressById.set(task.id, progress);
+    return progress;
+  };
+
+  let changed = false;
+  const result = tasks.map((task) => {
+    if (!childrenById.has(task.id)) return task;
+    const progress = getProgress(task, new Set());
+    if (progress === task.progress) return task;
+    changed = true;
+    return { ...task, progress };
+  });
+
+  return changed ? result : tasks;
+}
@@ -0,0 +1,77 @@
+import { Tag } from '../types';
+
+export const TAG_COLORS = [
+  '#8E8E93',
+  '#FF3B30',
+  '#FF9500',
+  '#FFCC00',
+  '#34C759',
+  '#5AC8FA',
+  '#007AFF',
+  '#5856D6',
+  '#AF52DE',
+  '#FF2D55',
+];
+
+export const TAG_PATH_SEPARATOR = ' : ';
+
+/**
+ * Full name of a tag including its ancestors, e.g. "Errands : Hardware Store"
+ */
+export function getTagPath(tag: Tag, tags: Tag[]): string {
+  const tagsById = new Map(tags.map((t) => [t.id, t]));
+  const names = [tag.name];
+  const seen = new Set([tag.id]);
+  let parent = tag.parentTagId ? tagsById.get(tag.parentTagId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    names.unshift(parent.name);
+    parent = parent.parentTagId ? tagsById.get(parent.parentTagId) : undefined;
+  }
+  return names.join(TAG_PATH_SEPARATOR);
+}
+
+/**
+ * The tag and every tag nested below it
+ */
+export function getTagDescendantIds(tagId: string, tags: Tag[]): Set<string> {
+  const ids = new Set([tagId]);
+  const queue = [tagId];
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    tags
+      .filter((tag) => tag.parentTagId === currentId && !ids.has(tag.id))
+      .forEach((tag) => {
+        ids.add(tag.id);
+        queue.push(tag.id);
+      });
+  }
+  return ids;
+}
+
+/**
+ * Tags in outline order, each parent followed by its children, with their nesting depth
+ */
+export function getTagTree(tags: Tag[]): { tag: Tag; depth: number }[] {
+  const existingIds = new Set(tags.map((tag) => tag.id));
+  const byOrder = (a: Tag, b: Tag) => a.order - b.order;
+  const result: { tag: Tag; depth: number }[] = [];
+  const visited = new Set<string>();
+
+  const visit = (tag: Tag, depth: number) => {
+    if (visited.has(tag.id)) return;
+    visited.add(tag.id);
+    result.push({ tag, depth });
+    tags
+      .filter((child) => child.parentTagId === tag.id)
+      .sort(byOrder)
+      .forEach((child) => visit(child, depth + 1));
+  };
+
+  // Tags whose parent is missing are treated as top level
+  tags
+    .filter((tag) => !tag.parentTagId || !existingIds.has(tag.parentTagId))
+    .sort(byOrder)
+    .forEach((tag) => visit(tag, 0));
+  return result;
+}
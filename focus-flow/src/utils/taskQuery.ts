@@ -0,0 +1,315 @@
+import { addDays, addMonths, addWeeks, startOfDay } from 'date-fns';
+import { FocusArea, Project, Tag, Task, TaskPriority, TaskStatus } from '../types';
+import { isTaskAvailable } from './dependencyGraph';
+import { getProjectTreeIds } from './projectTree';
+import { getTagDescendantIds } from './tags';
+
+export type QueryOperator = ':' | '=' | '<' | '<=' | '>' | '>=';
+
+export interface QueryTerm {
+  field?: string; // Missing for keywords and free text
+  operator?: QueryOperator;
+  value: string;
+  negated: boolean; // Written with a leading "-"
+}
+
+export interface QueryContext {
+  tasks: Task[];
+  projects: Project[];
+  tags: Tag[];
+  focusAreas: FocusArea[];
+  now?: Date;
+}
+
+export interface CompiledQuery {
+  matches: (task: Task) => boolean;
+  errors: string[]; // Terms that couldn't be understood; they are left out of the match
+}
+
+export const QUERY_FIELDS = ['status', 'priority', 'due', 'start', 'planned', 'completed', 'created', 'project', 'tag', 'area', 'estimate', 'title'];
+export const QUERY_KEYWORDS = ['flagged', 'available', 'blocked', 'completed', 'overdue', 'recurring', 'inbox'];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const PRIORITY_ALIASES: Record<string, TaskPriority> = { low: 'low', med: 'medium', medium: 'medium', high: 'high', critical: 'critical' };
+const STATUS_VALUES = ['todo', 'in-progress', 'completed', 'blocked', 'deferred', 'available', 'open'];
+const DATE_FIELDS: Record<string, (task: Task) => Date | undefined> = {
+  due: (task) => task.dueDate,
+  start: (task) => task.startDate,
+  planned: (task) => task.plannedDate,
+  completed: (task) => task.completedDate,
+  created: (task) => task.createdAt,
+};
+
+// field<op>value, field<op>"quoted value", "quoted text", or a bare word; each optionally negated
+const TERM_PATTERN = /(-?)([a-z]+)(>=|<=|:|=|<|>)(?:"([^"]*)"?|(\S*))|(-?)"([^"]*)"?|(-?)(\S+)/gi;
+
+/**
+ * Split a query like `status:todo priority>=high due<7d project:"Website" -blocked`
+ * into terms. Terms are ANDed; a comma-separated value matches any of its parts.
+ */
+export function parseTaskQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  const pattern = new RegExp(TERM_PATTERN.source, TERM_PATTERN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const [, fieldNegation, field, operator, quotedValue, value, textNegation, quotedText, wordNegation, word] = match;
+    if (field) {
+      terms.push({
+        field: field.toLowerCase(),
+        operator: operator as QueryOperator,
+        value: quotedValue ?? value ?? '',
+        negated: !!fieldNegation,
+      });
+    } else if (quotedText !== undefined) {
+      terms.push({ value: quotedText, negated: !!textNegation });
+    } else if (word && word !== '-') {
+      terms.push({ value: word, negated: !!wordNegation });
+    }
+  }
+  return terms;
+}
+
+const formatTerm = ({ field, operator, value, negated }: QueryTerm): string => {
+  const quoted = /[\s"]/.test(value) || value === '' ? `"${value.replace(/"/g, '')}"` : value;
+  return `${negated ? '-' : ''}${field ? `${field}${operator}` : ''}${quoted}`;
+};
+
+/**
+ * Rebuild a query from terms
+ */
+export function formatTaskQuery(terms: QueryTerm[]): string {
+  return terms.map(formatTerm).join(' ');
+}
+
+/**
+ * Value of the first un-negated term for a field, such as the status a query filters on
+ */
+export function getQueryTermValue(query: string, field: string): string | undefined {
+  return parseTaskQuery(query).find((term) => term.field === field && !term.negated)?.value;
+}
+
+/**
+ * Replace a field's un-negated terms with field:value, or drop them when value is null
+ */
+export function setQueryTerm(query: string, field: string, value: string | null): string {
+  const terms = parseTaskQuery(query).filter((term) => term.field !== field || term.negated);
+  if (value !== null) {
+    terms.push({ field, operator: ':', value, negated: false });
+  }
+  return formatTaskQuery(terms);
+}
+
+/**
+ * Whether a query contains a bare keyword such as `flagged` or `-completed`
+ */
+export function hasQueryKeyword(query: string, keyword: string, negated = false): boolean {
+  return parseTaskQuery(query).some(
+    (term) => !term.field && term.negated === negated && term.value.toLowerCase() === keyword
+  );
+}
+
+/**
+ * Add a bare keyword to a query, or remove it when it's already there
+ */
+export function toggleQueryKeyword(query: string, keyword: string, negated = false): string {
+  const terms = parseTaskQuery(query);
+  const isKeyword = (term: QueryTerm) => !term.field && term.value.toLowerCase() === keyword;
+  if (terms.some((term) => isKeyword(term) && term.negated === negated)) {
+    return formatTaskQuery(terms.filter((term) => !(isKeyword(term) && term.negated === negated)));
+  }
+  // A keyword and its negation cancel out, so only one of them is kept
+  return formatTaskQuery([...terms.filter((term) => !isKeyword(term)), { value: keyword, negated }]);
+}
+
+// Relative dates: today, tomorrow, yesterday, 7d, -2w, 3m; or absolute yyyy-mm-dd
+const parseQueryDate = (value: string, today: Date): Date | undefined => {
+  const lower = value.toLowerCase();
+  if (lower === 'today') return today;
+  if (lower === 'tomorrow') return addDays(today, 1);
+  if (lower === 'yesterday') return addDays(today, -1);
+
+  const relative = /^([+-]?\d+)([dwm])$/.exec(lower);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    return relative[2] === 'd' ? addDays(today, amount) : relative[2] === 'w' ? addWeeks(today, amount) : addMonths(today, amount);
+  }
+
+  const absolute = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(lower);
+  if (absolute) {
+    const date = new Date(parseInt(absolute[1], 10), parseInt(absolute[2], 10) - 1, parseInt(absolute[3], 10));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+};
+
+// Durations in hours: 30m, 2h, 1.5 (hours)
+const parseQueryDuration = (value: string): number | undefined => {
+  const match = /^(\d+(?:\.\d+)?)(m|min|h|hr)?$/i.exec(value);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  return match[2] && match[2].toLowerCase().startsWith('m') ? amount / 60 : amount;
+};
+
+const compare = (actual: number, operator: QueryOperator, expected: number): boolean => {
+  switch (operator) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Turn a query into a task predicate. Terms that can't be understood are
+ * reported in errors and ignored, so a half-typed query still filters.
+ * Bare words that aren't keywords search titles and notes.
+ */
+export function compileTaskQuery(query: string, context: QueryContext): CompiledQuery {
+  const { tasks, projects, tags, focusAreas } = context;
+  const today = startOfDay(context.now || new Date());
+  const errors: string[] = [];
+  const predicates: ((task: Task) => boolean)[] = [];
+
+  const compileTerm = (term: QueryTerm): ((task: Task) => boolean) | string => {
+    const { field, operator = ':', negated } = term;
+    const values = term.value.split(',').map((value) => value.trim()).filter(Boolean);
+    const isEquality = operator === ':' || operator === '=';
+
+    if (!field) {
+      const keyword = term.value.toLowerCase();
+      switch (keyword) {
+        case 'flagged':
+          return (task) => !!task.isFlagged;
+        case 'available':
+          return (task) => isTaskAvailable(task, tasks);
+        case 'blocked':
+        case 'completed':
+          return (task) => task.status === keyword;
+        case 'overdue':
+          return (task) => !!task.dueDate && task.status !== 'completed' && startOfDay(task.dueDate) < today;
+        case 'recurring':
+          return (task) => !!task.isRecurring;
+        case 'inbox':
+          return (task) => !task.projectId;
+        default: {
+          const text = term.value.toLowerCase();
+          return (task) => task.title.toLowerCase().includes(text) || !!task.notes?.toLowerCase().includes(text);
+        }
+      }
+    }
+
+    if (values.length === 0) {
+      return `"${field}${operator}" needs a value`;
+    }
+    if (!isEquality && !['priority', 'estimate', ...Object.keys(DATE_FIELDS)].includes(field)) {
+      return `"${field}" can only be matched with ":"`;
+    }
+
+    switch (field) {
+      case 'status': {
+        const unknown = values.find((value) => !STATUS_VALUES.includes(value.toLowerCase()));
+        if (unknown) return `Unknown status "${unknown}"`;
+        const statuses = values.map((value) => value.toLowerCase());
+        return (task) =>
+          statuses.some((status) =>
+            status === 'available'
+              ? isTaskAvailable(task, tasks)
+              : status === 'open'
+                ? task.status !== 'completed'
+                : task.status === (status as TaskStatus)
+          );
+      }
+
+      case 'priority': {
+        const priorities = values.map((value) => PRIORITY_ALIASES[value.toLowerCase()]);
+        const unknownIndex = priorities.findIndex((priority) => !priority);
+        if (unknownIndex >= 0) return `Unknown priority "${values[unknownIndex]}"`;
+        return (task) => priorities.some((priority) => compare(PRIORITY_RANK[task.priority], operator, PRIORITY_RANK[priority]));
+      }
+
+      case 'project': {
+        if (values.some((value) => value.toLowerCase() === 'none')) {
+          return (task) => !task.projectId;
+        }
+        const matching = projects.filter((project) => values.some((value) => sameName(project.name, value)));
+        if (matching.length === 0) return `No project named "${values.join(', ')}"`;
+        // Sub-projects count as part of their parent
+        const projectIds = new Set(matching.flatMap((project) => Array.from(getProjectTreeIds(project.id, projects))));
+        return (task) => !!task.projectId && projectIds.has(task.projectId);
+      }
+
+      case 'tag': {
+        if (values.some((value) => value.toLowerCase() === 'none')) {
+          return (task) => task.tags.length === 0;
+        }
+        const matching = tags.filter((tag) => values.some((value) => sameName(tag.name, value)));
+        if (matching.length === 0) return `No tag named "${values.join(', ')}"`;
+        const tagIds = new Set(matching.flatMap((tag) => Array.from(getTagDescendantIds(tag.id, tags))));
+        return (task) => task.tags.some((id) => tagIds.has(id));
+      }
+
+      case 'area': {
+        const matching = focusAreas.filter((area) => values.some((value) => sameName(area.name, value)));
+        if (matching.length === 0) return `No focus area named "${values.join(', ')}"`;
+        const areaIds = new Set(matching.map((area) => area.id));
+        const projectAreaIds = new Map(projects.map((project) => [project.id, project.focusAreaId]));
+        return (task) => {
+          const areaId = task.focusAreaId || (task.projectId ? projectAreaIds.get(task.projectId) : undefined);
+          return !!areaId && areaIds.has(areaId);
+        };
+      }
+
+      case 'estimate': {
+        if (isEquality && values[0].toLowerCase() === 'none') {
+          return (task) => !task.estimatedDuration;
+        }
+        const hours = parseQueryDuration(values[0]);
+        if (hours === undefined) return `Can't read the estimate "${values[0]}"`;
+        return (task) => !!task.estimatedDuration && compare(task.estimatedDuration, operator, hours);
+      }
+
+      case 'title': {
+        const texts = values.map((value) => value.toLowerCase());
+        return (task) => texts.some((text) => task.title.toLowerCase().includes(text));
+      }
+
+      default: {
+        const getDate = DATE_FIELDS[field];
+        if (!getDate) return `Unknown field "${field}"`;
+        if (isEquality && values[0].toLowerCase() === 'none') {
+          return (task) => !getDate(task);
+        }
+        const dates = values.map((value) => parseQueryDate(value, today));
+        const unknownIndex = dates.findIndex((date) => !date);
+        if (unknownIndex >= 0) return `Can't read the date "${values[unknownIndex]}"`;
+        // Dates compare by day
+        return (task) => {
+          const date = getDate(task);
+          return !!date && dates.some((expected) => compare(startOfDay(date).getTime(), operator, expected!.getTime()));
+        };
+      }
+    }
+  };
+
+  parseTaskQuery(query).forEach((term) => {
+    const result = compileTerm(term);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else {
+      predicates.push(term.negated ? (task) => !result(task) : result);
+    }
+  });
+
+  return {
+    matches: (task) => predicates.every((predicate) => predicate(task)),
+    errors,
+  };
+}